@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `event_status_transitions` (
+    `id` VARCHAR(36) NOT NULL,
+    `event_id` VARCHAR(36) NOT NULL,
+    `from_status` ENUM('UPCOMING', 'ONGOING', 'COMPLETED', 'CANCELLED') NOT NULL,
+    `to_status` ENUM('UPCOMING', 'ONGOING', 'COMPLETED', 'CANCELLED') NOT NULL,
+    `trigger` ENUM('SCHEDULER', 'RECONCILE') NOT NULL,
+    `transitioned_at` DATETIME(3) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `event_status_transitions_event_id_idx`(`event_id`),
+    INDEX `event_status_transitions_transitioned_at_idx`(`transitioned_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `event_status_transitions` ADD CONSTRAINT `event_status_transitions_event_id_fkey` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
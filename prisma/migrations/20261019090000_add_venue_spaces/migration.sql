@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE `spaces` (
+    `id` VARCHAR(36) NOT NULL,
+    `venue_id` VARCHAR(36) NOT NULL,
+    `name` VARCHAR(255) NOT NULL,
+    `type` ENUM('HALL', 'ROOM', 'TERRACE', 'OTHER') NOT NULL DEFAULT 'HALL',
+    `capacity` INTEGER NOT NULL,
+    `price_per_hour` DECIMAL(10, 2) NULL,
+    `price_per_day` DECIMAL(10, 2) NULL,
+    `is_active` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `spaces_venue_id_idx`(`venue_id`),
+    UNIQUE INDEX `spaces_venue_id_name_key`(`venue_id`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `event_spaces` (
+    `event_id` VARCHAR(36) NOT NULL,
+    `space_id` VARCHAR(36) NOT NULL,
+
+    INDEX `event_spaces_space_id_idx`(`space_id`),
+    PRIMARY KEY (`event_id`, `space_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `spaces` ADD CONSTRAINT `spaces_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `event_spaces` ADD CONSTRAINT `event_spaces_event_id_fkey` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `event_spaces` ADD CONSTRAINT `event_spaces_space_id_fkey` FOREIGN KEY (`space_id`) REFERENCES `spaces`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE `events` ADD COLUMN `is_series_exception` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `occurrence_index` INTEGER NULL,
+    ADD COLUMN `series_id` VARCHAR(36) NULL;
+
+-- CreateTable
+CREATE TABLE `event_series` (
+    `id` VARCHAR(36) NOT NULL,
+    `venue_id` VARCHAR(36) NOT NULL,
+    `name` VARCHAR(255) NOT NULL,
+    `description` TEXT NULL,
+    `frequency` ENUM('DAILY', 'WEEKLY', 'MONTHLY') NOT NULL,
+    `interval` INTEGER NOT NULL DEFAULT 1,
+    `by_weekday` VARCHAR(20) NULL,
+    `until` DATETIME(3) NULL,
+    `count` INTEGER NULL,
+    `exception_dates` JSON NULL,
+    `start_datetime` DATETIME(3) NOT NULL,
+    `end_datetime` DATETIME(3) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `event_series_venue_id_idx`(`venue_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `events_series_id_idx` ON `events`(`series_id`);
+
+-- AddForeignKey
+ALTER TABLE `events` ADD CONSTRAINT `events_series_id_fkey` FOREIGN KEY (`series_id`) REFERENCES `event_series`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `event_series` ADD CONSTRAINT `event_series_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE `events` ADD COLUMN `hold_expires_at` DATETIME(3) NULL,
+    MODIFY `status` ENUM('HOLD', 'UPCOMING', 'ONGOING', 'COMPLETED', 'CANCELLED') NOT NULL DEFAULT 'UPCOMING';
+
+-- AlterTable
+ALTER TABLE `event_status_transitions` MODIFY `from_status` ENUM('HOLD', 'UPCOMING', 'ONGOING', 'COMPLETED', 'CANCELLED') NOT NULL,
+    MODIFY `to_status` ENUM('HOLD', 'UPCOMING', 'ONGOING', 'COMPLETED', 'CANCELLED') NOT NULL;
+
+-- CreateIndex
+CREATE INDEX `events_status_hold_expires_at_idx` ON `events`(`status`, `hold_expires_at`);
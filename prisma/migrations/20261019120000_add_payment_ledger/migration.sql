@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE `payments` (
+    `id` VARCHAR(36) NOT NULL,
+    `event_id` VARCHAR(36) NOT NULL,
+    `type` ENUM('DEPOSIT', 'INSTALLMENT', 'REFUND') NOT NULL,
+    `amount` DECIMAL(10, 2) NOT NULL,
+    `method` ENUM('CASH', 'BANK_TRANSFER', 'CARD', 'E_WALLET', 'OTHER') NOT NULL,
+    `reference` VARCHAR(255) NULL,
+    `notes` TEXT NULL,
+    `recorded_by_id` VARCHAR(36) NULL,
+    `paid_at` DATETIME(3) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `payments_event_id_idx`(`event_id`),
+    INDEX `payments_paid_at_idx`(`paid_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `payments` ADD CONSTRAINT `payments_event_id_fkey` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `payments` ADD CONSTRAINT `payments_recorded_by_id_fkey` FOREIGN KEY (`recorded_by_id`) REFERENCES `admins`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: events previously toggled as paid get a single settling payment
+INSERT INTO `payments` (`id`, `event_id`, `type`, `amount`, `method`, `reference`, `paid_at`)
+SELECT UUID(), `id`, 'INSTALLMENT', `final_price`, 'OTHER', 'Migrated from is_paid', COALESCE(`payment_date`, `updated_at`)
+FROM `events`
+WHERE `is_paid` = true AND `final_price` IS NOT NULL AND `final_price` > 0;
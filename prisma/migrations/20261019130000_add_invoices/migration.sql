@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE `invoices` (
+    `id` VARCHAR(36) NOT NULL,
+    `number` VARCHAR(32) NOT NULL,
+    `year` INTEGER NOT NULL,
+    `sequence` INTEGER NOT NULL,
+    `event_id` VARCHAR(36) NOT NULL,
+    `status` ENUM('ISSUED', 'VOID') NOT NULL DEFAULT 'ISSUED',
+    `subtotal` DECIMAL(10, 2) NOT NULL,
+    `tax_total` DECIMAL(10, 2) NOT NULL,
+    `total` DECIMAL(10, 2) NOT NULL,
+    `lines` JSON NOT NULL,
+    `tax_lines` JSON NOT NULL,
+    `snapshot` JSON NOT NULL,
+    `issued_by_id` VARCHAR(36) NULL,
+    `issued_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `voided_at` DATETIME(3) NULL,
+
+    UNIQUE INDEX `invoices_number_key`(`number`),
+    UNIQUE INDEX `invoices_year_sequence_key`(`year`, `sequence`),
+    INDEX `invoices_event_id_idx`(`event_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `invoice_sequences` (
+    `year` INTEGER NOT NULL,
+    `last_number` INTEGER NOT NULL,
+
+    PRIMARY KEY (`year`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `invoices` ADD CONSTRAINT `invoices_event_id_fkey` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `invoices` ADD CONSTRAINT `invoices_issued_by_id_fkey` FOREIGN KEY (`issued_by_id`) REFERENCES `admins`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
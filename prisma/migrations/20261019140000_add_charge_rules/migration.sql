@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE `events` ADD COLUMN `price_breakdown` JSON NULL;
+
+-- CreateTable
+CREATE TABLE `charge_rules` (
+    `id` VARCHAR(36) NOT NULL,
+    `venue_id` VARCHAR(36) NULL,
+    `name` VARCHAR(255) NOT NULL,
+    `type` ENUM('TAX', 'SERVICE_CHARGE') NOT NULL,
+    `calculation` ENUM('PERCENT', 'FLAT') NOT NULL,
+    `value` DECIMAL(10, 2) NOT NULL,
+    `is_compound` BOOLEAN NOT NULL DEFAULT false,
+    `priority` INTEGER NOT NULL DEFAULT 0,
+    `effective_from` DATE NULL,
+    `effective_to` DATE NULL,
+    `is_active` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `charge_rules_venue_id_idx`(`venue_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `charge_rules` ADD CONSTRAINT `charge_rules_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
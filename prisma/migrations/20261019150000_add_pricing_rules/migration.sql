@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE `pricing_rules` (
+    `id` VARCHAR(36) NOT NULL,
+    `venue_id` VARCHAR(36) NOT NULL,
+    `name` VARCHAR(255) NOT NULL,
+    `days_of_week` VARCHAR(20) NULL,
+    `start_time` VARCHAR(5) NULL,
+    `end_time` VARCHAR(5) NULL,
+    `date_from` DATE NULL,
+    `date_to` DATE NULL,
+    `holidays_only` BOOLEAN NOT NULL DEFAULT false,
+    `adjustment` ENUM('MULTIPLIER', 'OVERRIDE') NOT NULL,
+    `multiplier` DECIMAL(5, 2) NULL,
+    `price_per_hour` DECIMAL(10, 2) NULL,
+    `price_per_day` DECIMAL(10, 2) NULL,
+    `priority` INTEGER NOT NULL DEFAULT 0,
+    `is_active` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `pricing_rules_venue_id_idx`(`venue_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `holidays` (
+    `id` VARCHAR(36) NOT NULL,
+    `venue_id` VARCHAR(36) NULL,
+    `date` DATE NOT NULL,
+    `name` VARCHAR(255) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `holidays_date_idx`(`date`),
+    INDEX `holidays_venue_id_idx`(`venue_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `pricing_rules` ADD CONSTRAINT `pricing_rules_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `holidays` ADD CONSTRAINT `holidays_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE `events` ADD COLUMN `currency` CHAR(3) NOT NULL DEFAULT 'IDR',
+    ADD COLUMN `reporting_currency` CHAR(3) NULL,
+    ADD COLUMN `exchange_rate` DECIMAL(18, 8) NULL;
+
+-- AlterTable
+ALTER TABLE `invoices` ADD COLUMN `currency` CHAR(3) NOT NULL DEFAULT 'IDR';
+
+-- CreateTable
+CREATE TABLE `exchange_rates` (
+    `id` VARCHAR(36) NOT NULL,
+    `base_currency` CHAR(3) NOT NULL,
+    `quote_currency` CHAR(3) NOT NULL,
+    `rate` DECIMAL(18, 8) NOT NULL,
+    `effective_from` DATE NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `exchange_rates_base_currency_quote_currency_effective_from_key`(`base_currency`, `quote_currency`, `effective_from`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Backfill: existing events were priced in their venue's currency
+UPDATE `events` e JOIN `venues` v ON v.`id` = e.`venue_id` SET e.`currency` = v.`currency`;
+UPDATE `events` SET `reporting_currency` = 'IDR', `exchange_rate` = 1 WHERE `currency` = 'IDR';
+UPDATE `invoices` i JOIN `events` e ON e.`id` = i.`event_id` SET i.`currency` = e.`currency`;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE `promo_codes` (
+    `id` VARCHAR(36) NOT NULL,
+    `code` VARCHAR(50) NOT NULL,
+    `description` TEXT NULL,
+    `discount_type` ENUM('PERCENT', 'FIXED') NOT NULL,
+    `value` DECIMAL(10, 2) NOT NULL,
+    `currency` CHAR(3) NOT NULL DEFAULT 'IDR',
+    `minimum_spend` DECIMAL(10, 2) NULL,
+    `valid_from` DATE NULL,
+    `valid_until` DATE NULL,
+    `usage_limit` INTEGER NULL,
+    `is_active` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `promo_codes_code_key`(`code`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `promo_code_venues` (
+    `promo_code_id` VARCHAR(36) NOT NULL,
+    `venue_id` VARCHAR(36) NOT NULL,
+
+    INDEX `promo_code_venues_venue_id_idx`(`venue_id`),
+    PRIMARY KEY (`promo_code_id`, `venue_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `promo_redemptions` (
+    `id` VARCHAR(36) NOT NULL,
+    `promo_code_id` VARCHAR(36) NOT NULL,
+    `event_id` VARCHAR(36) NOT NULL,
+    `discount_amount` DECIMAL(10, 2) NOT NULL,
+    `redeemed_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `promo_redemptions_event_id_key`(`event_id`),
+    INDEX `promo_redemptions_promo_code_id_idx`(`promo_code_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `promo_code_venues` ADD CONSTRAINT `promo_code_venues_promo_code_id_fkey` FOREIGN KEY (`promo_code_id`) REFERENCES `promo_codes`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `promo_code_venues` ADD CONSTRAINT `promo_code_venues_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `promo_redemptions` ADD CONSTRAINT `promo_redemptions_promo_code_id_fkey` FOREIGN KEY (`promo_code_id`) REFERENCES `promo_codes`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `promo_redemptions` ADD CONSTRAINT `promo_redemptions_event_id_fkey` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
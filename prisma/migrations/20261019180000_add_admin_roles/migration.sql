@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `admins` ADD COLUMN `role` ENUM('OWNER', 'MANAGER', 'FINANCE', 'FRONT_DESK', 'READ_ONLY') NOT NULL DEFAULT 'READ_ONLY';
+
+-- Existing admins could do everything; keep that access
+UPDATE `admins` SET `role` = 'OWNER';
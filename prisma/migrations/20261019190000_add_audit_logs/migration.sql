@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `audit_logs` (
+    `id` VARCHAR(36) NOT NULL,
+    `admin_id` VARCHAR(36) NULL,
+    `action` ENUM('CREATE', 'UPDATE', 'CANCEL', 'CONFIRM', 'DELETE') NOT NULL,
+    `entity_type` ENUM('VENUE', 'SPACE', 'EVENT', 'PAYMENT') NOT NULL,
+    `entity_id` VARCHAR(36) NOT NULL,
+    `entity_label` VARCHAR(255) NOT NULL,
+    `parent_id` VARCHAR(36) NULL,
+    `changes` JSON NOT NULL,
+    `ip_address` VARCHAR(45) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `audit_logs_entity_type_entity_id_idx`(`entity_type`, `entity_id`),
+    INDEX `audit_logs_parent_id_idx`(`parent_id`),
+    INDEX `audit_logs_admin_id_idx`(`admin_id`),
+    INDEX `audit_logs_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `audit_logs` ADD CONSTRAINT `audit_logs_admin_id_fkey` FOREIGN KEY (`admin_id`) REFERENCES `admins`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE `api_tokens` (
+    `id` VARCHAR(36) NOT NULL,
+    `admin_id` VARCHAR(36) NOT NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `token_prefix` VARCHAR(16) NOT NULL,
+    `token_hash` CHAR(64) NOT NULL,
+    `scopes` VARCHAR(500) NOT NULL,
+    `expires_at` DATETIME(3) NULL,
+    `last_used_at` DATETIME(3) NULL,
+    `last_used_ip` VARCHAR(45) NULL,
+    `revoked_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `api_tokens_token_hash_key`(`token_hash`),
+    INDEX `api_tokens_admin_id_idx`(`admin_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `api_tokens` ADD CONSTRAINT `api_tokens_admin_id_fkey` FOREIGN KEY (`admin_id`) REFERENCES `admins`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
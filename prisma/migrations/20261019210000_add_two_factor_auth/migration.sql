@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE `admins` ADD COLUMN `two_factor_secret` VARCHAR(64) NULL,
+    ADD COLUMN `two_factor_enabled_at` DATETIME(3) NULL,
+    ADD COLUMN `two_factor_last_step` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `recovery_codes` (
+    `id` VARCHAR(36) NOT NULL,
+    `admin_id` VARCHAR(36) NOT NULL,
+    `code_hash` VARCHAR(255) NOT NULL,
+    `used_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `recovery_codes_admin_id_idx`(`admin_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `settings` (
+    `key` VARCHAR(100) NOT NULL,
+    `value` VARCHAR(255) NOT NULL,
+    `updated_at` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`key`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `recovery_codes` ADD CONSTRAINT `recovery_codes_admin_id_fkey` FOREIGN KEY (`admin_id`) REFERENCES `admins`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE `login_attempts` (
+    `id` VARCHAR(36) NOT NULL,
+    `email` VARCHAR(255) NOT NULL,
+    `ip_address` VARCHAR(45) NOT NULL,
+    `user_agent` VARCHAR(255) NULL,
+    `admin_id` VARCHAR(36) NULL,
+    `outcome` ENUM('SUCCESS', 'INVALID_PASSWORD', 'UNKNOWN_EMAIL', 'INACTIVE_ACCOUNT', 'INVALID_TWO_FACTOR', 'BLOCKED') NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `login_attempts_email_created_at_idx`(`email`, `created_at`),
+    INDEX `login_attempts_ip_address_created_at_idx`(`ip_address`, `created_at`),
+    INDEX `login_attempts_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `login_lockouts` (
+    `id` VARCHAR(36) NOT NULL,
+    `scope` ENUM('EMAIL', 'IP') NOT NULL,
+    `key` VARCHAR(255) NOT NULL,
+    `failures` INTEGER NOT NULL,
+    `locked_until` DATETIME(3) NOT NULL,
+    `unlocked_at` DATETIME(3) NULL,
+    `unlocked_by_id` VARCHAR(36) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `login_lockouts_scope_key_created_at_idx`(`scope`, `key`, `created_at`),
+    INDEX `login_lockouts_locked_until_idx`(`locked_until`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `login_attempts` ADD CONSTRAINT `login_attempts_admin_id_fkey` FOREIGN KEY (`admin_id`) REFERENCES `admins`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `login_lockouts` ADD CONSTRAINT `login_lockouts_unlocked_by_id_fkey` FOREIGN KEY (`unlocked_by_id`) REFERENCES `admins`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
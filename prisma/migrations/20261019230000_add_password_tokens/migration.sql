@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `password_tokens` (
+    `id` VARCHAR(36) NOT NULL,
+    `admin_id` VARCHAR(36) NOT NULL,
+    `purpose` ENUM('RESET', 'INVITE') NOT NULL,
+    `token_hash` CHAR(64) NOT NULL,
+    `expires_at` DATETIME(3) NOT NULL,
+    `used_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `password_tokens_token_hash_key`(`token_hash`),
+    INDEX `password_tokens_admin_id_idx`(`admin_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `password_tokens` ADD CONSTRAINT `password_tokens_admin_id_fkey` FOREIGN KEY (`admin_id`) REFERENCES `admins`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE `events` ADD COLUMN `client_id` VARCHAR(36) NULL;
+
+-- AlterTable
+ALTER TABLE `audit_logs` MODIFY `entity_type` ENUM('VENUE', 'SPACE', 'EVENT', 'PAYMENT', 'CLIENT') NOT NULL;
+
+-- CreateTable
+CREATE TABLE `clients` (
+    `id` VARCHAR(36) NOT NULL,
+    `type` ENUM('INDIVIDUAL', 'ORGANIZATION') NOT NULL DEFAULT 'INDIVIDUAL',
+    `name` VARCHAR(255) NOT NULL,
+    `contact_name` VARCHAR(255) NULL,
+    `email` VARCHAR(255) NULL,
+    `phone` VARCHAR(50) NULL,
+    `tax_id` VARCHAR(50) NULL,
+    `address` TEXT NULL,
+    `notes` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `clients_name_idx`(`name`),
+    INDEX `clients_email_idx`(`email`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `events_client_id_idx` ON `events`(`client_id`);
+
+-- AddForeignKey
+ALTER TABLE `events` ADD CONSTRAINT `events_client_id_fkey` FOREIGN KEY (`client_id`) REFERENCES `clients`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
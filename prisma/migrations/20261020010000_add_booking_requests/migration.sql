@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE `venue_photos` (
+    `id` VARCHAR(36) NOT NULL,
+    `venue_id` VARCHAR(36) NOT NULL,
+    `url` VARCHAR(2048) NOT NULL,
+    `caption` VARCHAR(255) NULL,
+    `sort_order` INTEGER NOT NULL DEFAULT 0,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `venue_photos_venue_id_idx`(`venue_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `booking_requests` (
+    `id` VARCHAR(36) NOT NULL,
+    `venue_id` VARCHAR(36) NOT NULL,
+    `event_name` VARCHAR(255) NOT NULL,
+    `description` TEXT NULL,
+    `start_datetime` DATETIME(3) NOT NULL,
+    `end_datetime` DATETIME(3) NOT NULL,
+    `attendee_count` INTEGER NULL,
+    `contact_name` VARCHAR(255) NOT NULL,
+    `contact_email` VARCHAR(255) NOT NULL,
+    `contact_phone` VARCHAR(50) NULL,
+    `organization` VARCHAR(255) NULL,
+    `status` ENUM('PENDING', 'APPROVED', 'REJECTED') NOT NULL DEFAULT 'PENDING',
+    `ip_address` VARCHAR(45) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `booking_requests_venue_id_idx`(`venue_id`),
+    INDEX `booking_requests_status_created_at_idx`(`status`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `venue_photos` ADD CONSTRAINT `venue_photos_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `booking_requests` ADD CONSTRAINT `booking_requests_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE `booking_requests` ADD COLUMN `additional_fees` DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN `currency` CHAR(3) NULL,
+    ADD COLUMN `discount` DECIMAL(5, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN `event_id` VARCHAR(36) NULL,
+    ADD COLUMN `price_breakdown` JSON NULL,
+    ADD COLUMN `quote_note` TEXT NULL,
+    ADD COLUMN `quoted_at` DATETIME(3) NULL,
+    ADD COLUMN `quoted_price` DECIMAL(10, 2) NULL,
+    ADD COLUMN `rejection_reason` TEXT NULL,
+    ADD COLUMN `rental_type` ENUM('HOURLY', 'DAILY') NULL,
+    ADD COLUMN `reviewed_at` DATETIME(3) NULL,
+    ADD COLUMN `reviewed_by_id` VARCHAR(36) NULL,
+    MODIFY `status` ENUM('PENDING', 'QUOTED', 'APPROVED', 'REJECTED') NOT NULL DEFAULT 'PENDING';
+
+-- AlterTable
+ALTER TABLE `audit_logs` MODIFY `entity_type` ENUM('VENUE', 'SPACE', 'EVENT', 'PAYMENT', 'CLIENT', 'BOOKING_REQUEST') NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `booking_requests_event_id_key` ON `booking_requests`(`event_id`);
+
+-- CreateIndex
+CREATE INDEX `booking_requests_reviewed_by_id_idx` ON `booking_requests`(`reviewed_by_id`);
+
+-- AddForeignKey
+ALTER TABLE `booking_requests` ADD CONSTRAINT `booking_requests_reviewed_by_id_fkey` FOREIGN KEY (`reviewed_by_id`) REFERENCES `admins`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `booking_requests` ADD CONSTRAINT `booking_requests_event_id_fkey` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE `events` ADD COLUMN `ics_sequence` INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE `calendar_feeds` (
+    `id` VARCHAR(36) NOT NULL,
+    `admin_id` VARCHAR(36) NOT NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `scope` ENUM('ALL', 'VENUE', 'CITY') NOT NULL,
+    `venue_id` VARCHAR(36) NULL,
+    `city` VARCHAR(255) NULL,
+    `token_prefix` VARCHAR(16) NOT NULL,
+    `token_hash` CHAR(64) NOT NULL,
+    `last_fetched_at` DATETIME(3) NULL,
+    `revoked_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `calendar_feeds_token_hash_key`(`token_hash`),
+    INDEX `calendar_feeds_admin_id_idx`(`admin_id`),
+    INDEX `calendar_feeds_venue_id_idx`(`venue_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `calendar_feeds` ADD CONSTRAINT `calendar_feeds_admin_id_fkey` FOREIGN KEY (`admin_id`) REFERENCES `admins`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `calendar_feeds` ADD CONSTRAINT `calendar_feeds_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `venue_blackouts` (
+    `id` VARCHAR(36) NOT NULL,
+    `venue_id` VARCHAR(36) NOT NULL,
+    `type` ENUM('MAINTENANCE', 'PRIVATE_USE', 'HOLIDAY_CLOSURE') NOT NULL,
+    `reason` VARCHAR(255) NOT NULL,
+    `start_datetime` DATETIME(3) NOT NULL,
+    `end_datetime` DATETIME(3) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `venue_blackouts_venue_id_start_datetime_idx`(`venue_id`, `start_datetime`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `venue_blackouts` ADD CONSTRAINT `venue_blackouts_venue_id_fkey` FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `promo_codes` ADD COLUMN `used_count` INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: redemptions by bookings that aren't cancelled
+UPDATE `promo_codes` p SET p.`used_count` = (
+    SELECT COUNT(*) FROM `promo_redemptions` r
+    JOIN `events` e ON e.`id` = r.`event_id`
+    WHERE r.`promo_code_id` = p.`id` AND e.`status` <> 'CANCELLED'
+);
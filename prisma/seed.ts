@@ -1,5 +1,10 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
-import { PrismaClient, VenueStatus, EventStatus } from '@prisma/client';
+import {
+  PrismaClient,
+  AdminRole,
+  VenueStatus,
+  EventStatus,
+} from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 
 const prisma = new PrismaClient();
@@ -18,6 +23,7 @@ async function main() {
       email: 'admin@eventmanager.com',
       passwordHash: hashedPassword,
       name: 'Super Admin',
+      role: AdminRole.OWNER,
       isActive: true,
     },
   });
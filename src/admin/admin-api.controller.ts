@@ -0,0 +1,282 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Put,
+  Param,
+  Session,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+  Req,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { AdminService } from './admin.service';
+import { CreateAdminDto } from './dto/create-admin.dto';
+import { UpdateAdminDto } from './dto/update-admin.dto';
+import { UpdateAdminStatusDto } from './dto/update-admin-status.dto';
+import { ResetAdminPasswordDto } from './dto/reset-admin-password.dto';
+import { UpdateTwoFactorRequirementDto } from './dto/update-two-factor-requirement.dto';
+import { TwoFactorService } from '../auth/two-factor.service';
+import { PasswordTokenService } from '../auth/password-token.service';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/admins')
+@UseGuards(ApiAuthGuard)
+@RequirePermissions(Permission.ADMIN_MANAGE)
+export class AdminApiController {
+  private readonly logger = new Logger(AdminApiController.name);
+
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly passwordTokenService: PasswordTokenService,
+  ) {}
+
+  /**
+   * GET /api/admins
+   * List admin accounts with their roles
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getAdmins() {
+    this.logger.log(`[GET /api/admins] API: Listing admins`);
+
+    const admins = await this.adminService.getAdmins();
+
+    return {
+      success: true,
+      message: 'Admins retrieved successfully',
+      data: admins,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/admins/settings/two-factor
+   * Whether every admin must use two-factor authentication
+   */
+  @Get('settings/two-factor')
+  @HttpCode(HttpStatus.OK)
+  async getTwoFactorRequirement() {
+    this.logger.log(
+      `[GET /api/admins/settings/two-factor] API: Fetching 2FA requirement`,
+    );
+
+    return {
+      success: true,
+      message: 'Two-factor requirement retrieved successfully',
+      data: { required: await this.twoFactorService.isRequired() },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * PUT /api/admins/settings/two-factor
+   * Make two-factor authentication mandatory from each admin's next login
+   */
+  @Put('settings/two-factor')
+  @HttpCode(HttpStatus.OK)
+  async updateTwoFactorRequirement(
+    @Body() updateTwoFactorRequirementDto: UpdateTwoFactorRequirementDto,
+  ) {
+    const { required } = updateTwoFactorRequirementDto;
+    this.logger.log(
+      `[PUT /api/admins/settings/two-factor] API: Setting required = ${required}`,
+    );
+
+    await this.twoFactorService.setRequired(required);
+
+    return {
+      success: true,
+      message: required
+        ? 'Two-factor authentication is now required'
+        : 'Two-factor authentication is now optional',
+      data: { required },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/admins/:id
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getAdminById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[GET /api/admins/${id}] API: Fetching admin`);
+
+    const admin = await this.adminService.getAdminById(id);
+
+    return {
+      success: true,
+      message: 'Admin retrieved successfully',
+      data: admin,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/admins
+   * Invite a staff member with a role and first password, or without a
+   * password to email them an invite link (see `data.invite`)
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async inviteAdmin(
+    @Body() createAdminDto: CreateAdminDto,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    this.logger.log(
+      `[POST /api/admins] API: Inviting admin: ${createAdminDto.email}`,
+    );
+
+    const admin = await this.adminService.inviteAdmin(
+      createAdminDto,
+      req.apiToken?.adminId ?? session.adminId,
+    );
+
+    return {
+      success: true,
+      message:
+        admin.invite && !admin.invite.sent
+          ? 'Admin added, but the invite email could not be sent'
+          : 'Admin invited successfully',
+      data: admin,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/admins/:id/invite
+   * Email a new invite link; the previous one stops working
+   */
+  @Post(':id/invite')
+  @HttpCode(HttpStatus.OK)
+  async sendInvite(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    this.logger.log(`[POST /api/admins/${id}/invite] API: Sending invite`);
+
+    const invite = await this.passwordTokenService.sendInvite(
+      id,
+      req.apiToken?.adminId ?? session.adminId,
+    );
+
+    return {
+      success: true,
+      message: 'Invite sent successfully',
+      data: invite,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * PATCH /api/admins/:id
+   * Update name, email or role
+   */
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  async updateAdmin(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateAdminDto: UpdateAdminDto,
+  ) {
+    this.logger.log(`[PATCH /api/admins/${id}] API: Updating admin`);
+
+    const admin = await this.adminService.updateAdmin(id, updateAdminDto);
+
+    return {
+      success: true,
+      message: 'Admin updated successfully',
+      data: admin,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * PATCH /api/admins/:id/status
+   * Deactivate or reactivate; the last active owner stays active
+   */
+  @Patch(':id/status')
+  @HttpCode(HttpStatus.OK)
+  async updateAdminStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateAdminStatusDto: UpdateAdminStatusDto,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    this.logger.log(
+      `[PATCH /api/admins/${id}/status] API: Setting isActive = ${updateAdminStatusDto.isActive}`,
+    );
+
+    const admin = await this.adminService.setAdminStatus(
+      id,
+      updateAdminStatusDto.isActive,
+      req.apiToken?.adminId ?? session.adminId,
+    );
+
+    return {
+      success: true,
+      message: admin.isActive
+        ? 'Admin reactivated successfully'
+        : 'Admin deactivated successfully',
+      data: admin,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/admins/:id/reset-password
+   */
+  @Post(':id/reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() resetAdminPasswordDto: ResetAdminPasswordDto,
+  ) {
+    this.logger.log(
+      `[POST /api/admins/${id}/reset-password] API: Resetting password`,
+    );
+
+    const result = await this.adminService.resetPassword(
+      id,
+      resetAdminPasswordDto.password,
+    );
+
+    return {
+      success: true,
+      message: result.message,
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/admins/:id/reset-two-factor
+   * Remove an admin's 2FA and recovery codes, e.g. after a lost phone
+   */
+  @Post(':id/reset-two-factor')
+  @HttpCode(HttpStatus.OK)
+  async resetTwoFactor(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(
+      `[POST /api/admins/${id}/reset-two-factor] API: Resetting 2FA`,
+    );
+
+    await this.twoFactorService.reset(id);
+
+    return {
+      success: true,
+      message: 'Two-factor authentication removed',
+      data: await this.adminService.getAdminById(id),
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
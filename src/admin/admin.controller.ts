@@ -0,0 +1,341 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Session,
+  UseGuards,
+  Render,
+  Res,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { AdminRole } from '@prisma/client';
+import { AdminService } from './admin.service';
+import { CreateAdminDto } from './dto/create-admin.dto';
+import { UpdateAdminDto } from './dto/update-admin.dto';
+import { ResetAdminPasswordDto } from './dto/reset-admin-password.dto';
+import { UpdateTwoFactorRequirementDto } from './dto/update-two-factor-requirement.dto';
+import { TwoFactorService } from '../auth/two-factor.service';
+import { PasswordTokenService } from '../auth/password-token.service';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import {
+  Permission,
+  ROLE_LABELS,
+  ROLE_PERMISSIONS,
+} from '../auth/permission.helper';
+
+@Controller('admins')
+@UseGuards(AuthGuard)
+@RequirePermissions(Permission.ADMIN_MANAGE)
+export class AdminController {
+  private readonly logger = new Logger(AdminController.name);
+
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly passwordTokenService: PasswordTokenService,
+  ) {}
+
+  /**
+   * GET /admins
+   * Admin accounts with their roles, plus the form to invite one
+   * Renders: views/admins/list.ejs
+   */
+  @Get()
+  @Render('admins/list')
+  async getAdminsPage(
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log('[GET /admins] Rendering admins page');
+
+    let success: string | null = null;
+    if (successMessage === 'invited') {
+      success = 'Admin invited successfully! Share the password with them.';
+    } else if (successMessage === 'invite-sent') {
+      success =
+        'Invite sent! They choose their password through the emailed link.';
+    } else if (successMessage === 'activated') {
+      success = 'Admin reactivated successfully!';
+    } else if (successMessage === 'deactivated') {
+      success = 'Admin deactivated successfully!';
+    } else if (successMessage === 'two-factor-required') {
+      success = 'Two-factor authentication is now required for all admins.';
+    } else if (successMessage === 'two-factor-optional') {
+      success = 'Two-factor authentication is now optional.';
+    }
+
+    try {
+      const admins = await this.adminService.getAdmins();
+      const twoFactorRequired = await this.twoFactorService.isRequired();
+
+      return {
+        title: 'Admins',
+        admins,
+        twoFactorRequired,
+        roles: Object.values(AdminRole),
+        roleLabels: ROLE_LABELS,
+        rolePermissions: ROLE_PERMISSIONS,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to load admins: ${error.message}`, error.stack);
+
+      return {
+        title: 'Admins',
+        admins: [],
+        twoFactorRequired: false,
+        roles: Object.values(AdminRole),
+        roleLabels: ROLE_LABELS,
+        rolePermissions: ROLE_PERMISSIONS,
+        error: 'Failed to load admins. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  /**
+   * GET /admins/:id
+   * Edit an admin's details and role, reset their password
+   * Renders: views/admins/edit.ejs
+   */
+  @Get(':id')
+  @Render('admins/edit')
+  async getEditAdminPage(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log(`[GET /admins/${id}] Rendering admin edit page`);
+
+    let success: string | null = null;
+    if (successMessage === 'updated') {
+      success = 'Admin updated successfully!';
+    } else if (successMessage === 'password-reset') {
+      success =
+        'Password reset successfully! Share the new password with them.';
+    } else if (successMessage === 'two-factor-reset') {
+      success = 'Two-factor authentication removed for this admin.';
+    }
+
+    try {
+      const admin = await this.adminService.getAdminById(id);
+
+      return {
+        title: `Edit ${admin.name || admin.email}`,
+        admin,
+        isSelf: admin.id === session.adminId,
+        roles: Object.values(AdminRole),
+        roleLabels: ROLE_LABELS,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load admin ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Admin Not Found',
+        admin: null,
+        isSelf: false,
+        roles: Object.values(AdminRole),
+        roleLabels: ROLE_LABELS,
+        error: error.message || 'Admin not found.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /admins/settings/two-factor
+  @Post('settings/two-factor')
+  async updateTwoFactorRequirement(
+    @Body() updateTwoFactorRequirementDto: UpdateTwoFactorRequirementDto,
+    @Res() res: Response,
+  ) {
+    const { required } = updateTwoFactorRequirementDto;
+    this.logger.log(
+      `[POST /admins/settings/two-factor] Setting required = ${required}`,
+    );
+
+    try {
+      await this.twoFactorService.setRequired(required);
+      return res.redirect(
+        `/admins?success=${required ? 'two-factor-required' : 'two-factor-optional'}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to update two-factor requirement: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(`/admins?error=${encodeURIComponent(error.message)}`);
+    }
+  }
+
+  // POST /admins
+  @Post()
+  async inviteAdmin(
+    @Body() createAdminDto: CreateAdminDto,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /admins] Inviting admin: ${createAdminDto.email}`);
+
+    try {
+      const admin = await this.adminService.inviteAdmin(
+        createAdminDto,
+        session.adminId,
+      );
+
+      if (admin.invite && !admin.invite.sent) {
+        return res.redirect(
+          `/admins?error=${encodeURIComponent('Admin added, but the invite email could not be sent. Use Resend Invite to try again.')}`,
+        );
+      }
+
+      return res.redirect(
+        `/admins?success=${admin.invite ? 'invite-sent' : 'invited'}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to invite admin: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(`/admins?error=${encodeURIComponent(error.message)}`);
+    }
+  }
+
+  // POST /admins/:id/send-invite
+  @Post(':id/send-invite')
+  async sendInvite(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /admins/${id}/send-invite] Sending invite`);
+
+    try {
+      await this.passwordTokenService.sendInvite(id, session.adminId);
+      return res.redirect('/admins?success=invite-sent');
+    } catch (error) {
+      this.logger.error(
+        `Failed to send invite to admin ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(`/admins?error=${encodeURIComponent(error.message)}`);
+    }
+  }
+
+  // POST /admins/:id
+  @Post(':id')
+  async updateAdmin(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateAdminDto: UpdateAdminDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /admins/${id}] Updating admin`);
+
+    try {
+      await this.adminService.updateAdmin(id, updateAdminDto);
+      return res.redirect(`/admins/${id}?success=updated`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to update admin ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/admins/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /admins/:id/toggle-active
+  @Post(':id/toggle-active')
+  async toggleAdminActive(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /admins/${id}/toggle-active] Toggling admin`);
+
+    try {
+      const admin = await this.adminService.getAdminById(id);
+      const updated = await this.adminService.setAdminStatus(
+        id,
+        !admin.isActive,
+        session.adminId,
+      );
+
+      return res.redirect(
+        `/admins?success=${updated.isActive ? 'activated' : 'deactivated'}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to toggle admin ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(`/admins?error=${encodeURIComponent(error.message)}`);
+    }
+  }
+
+  // POST /admins/:id/reset-password
+  @Post(':id/reset-password')
+  async resetPassword(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() resetAdminPasswordDto: ResetAdminPasswordDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /admins/${id}/reset-password] Resetting password`);
+
+    try {
+      await this.adminService.resetPassword(id, resetAdminPasswordDto.password);
+      return res.redirect(`/admins/${id}?success=password-reset`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to reset password for admin ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/admins/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /admins/:id/reset-two-factor
+  @Post(':id/reset-two-factor')
+  async resetTwoFactor(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /admins/${id}/reset-two-factor] Resetting 2FA`);
+
+    try {
+      await this.twoFactorService.reset(id);
+      return res.redirect(`/admins/${id}?success=two-factor-reset`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to reset 2FA for admin ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/admins/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AdminService } from './admin.service';
+import { AdminController } from './admin.controller';
+import { AdminApiController } from './admin-api.controller';
+import { AuthModule } from 'src/auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  providers: [AdminService],
+  controllers: [AdminController, AdminApiController],
+})
+export class AdminModule {}
@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { AdminRole } from '@prisma/client';
+import { AdminService } from './admin.service';
+import { AuthService } from '../auth/auth.service';
+import { PasswordTokenService } from '../auth/password-token.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AdminService', () => {
+  const owner = {
+    id: 'owner-1',
+    name: 'Owner',
+    email: 'owner@example.com',
+    role: AdminRole.OWNER,
+    isActive: true,
+  };
+
+  let service: AdminService;
+  let prisma: {
+    admin: { findUnique: jest.Mock; update: jest.Mock };
+    $queryRaw: jest.Mock;
+    $transaction: jest.Mock;
+  };
+  let authService: { updateAdminStatus: jest.Mock; createAdmin: jest.Mock };
+  let passwordTokenService: { sendInvite: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = {
+      admin: {
+        findUnique: jest.fn().mockResolvedValue(owner),
+        update: jest.fn((args: { data: object }) => ({
+          ...owner,
+          ...args.data,
+        })),
+      },
+      // Active owners, locked
+      $queryRaw: jest.fn().mockResolvedValue([{ id: owner.id }]),
+      $transaction: jest.fn((callback: (client: typeof prisma) => unknown) =>
+        callback(prisma),
+      ),
+    };
+    authService = {
+      updateAdminStatus: jest.fn((_id: string, isActive: boolean) => ({
+        ...owner,
+        isActive,
+      })),
+      createAdmin: jest.fn((email: string) => ({ ...owner, id: 'new', email })),
+    };
+    passwordTokenService = {
+      sendInvite: jest.fn().mockResolvedValue({
+        expiresAt: new Date('2026-10-26T12:00:00.000Z'),
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuthService, useValue: authService },
+        { provide: PasswordTokenService, useValue: passwordTokenService },
+      ],
+    }).compile();
+
+    service = module.get<AdminService>(AdminService);
+  });
+
+  it('refuses to deactivate the last active owner', async () => {
+    await expect(
+      service.setAdminStatus(owner.id, false, 'someone-else'),
+    ).rejects.toThrow(BadRequestException);
+    expect(authService.updateAdminStatus).not.toHaveBeenCalled();
+  });
+
+  it('deactivates an owner when another active owner remains', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ id: owner.id }, { id: 'owner-2' }]);
+
+    const admin = await service.setAdminStatus(owner.id, false, 'someone-else');
+
+    expect(admin.isActive).toBe(false);
+    // Owners are checked and the admin updated in the same transaction
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(authService.updateAdminStatus).toHaveBeenCalledWith(
+      owner.id,
+      false,
+      prisma,
+    );
+  });
+
+  it('refuses to deactivate your own account', async () => {
+    await expect(
+      service.setAdminStatus(owner.id, false, owner.id),
+    ).rejects.toThrow('You cannot deactivate your own account');
+  });
+
+  it('refuses to change the role of the last active owner', async () => {
+    await expect(
+      service.updateAdmin(owner.id, { role: AdminRole.MANAGER }),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.admin.update).not.toHaveBeenCalled();
+  });
+
+  it('renames an owner without checking the other owners', async () => {
+    const admin = await service.updateAdmin(owner.id, { name: 'New Name' });
+
+    expect(admin.name).toBe('New Name');
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('emails an invite link when no first password is given', async () => {
+    prisma.admin.findUnique.mockResolvedValue(null);
+
+    const admin = await service.inviteAdmin(
+      { email: 'new@example.com', role: AdminRole.MANAGER },
+      owner.id,
+    );
+
+    expect(passwordTokenService.sendInvite).toHaveBeenCalledWith(
+      'new',
+      owner.id,
+    );
+    expect(admin.invite).toEqual({
+      sent: true,
+      expiresAt: new Date('2026-10-26T12:00:00.000Z'),
+    });
+  });
+
+  it('keeps the account when the invite email fails', async () => {
+    prisma.admin.findUnique.mockResolvedValue(null);
+    passwordTokenService.sendInvite.mockRejectedValue(new Error('SMTP down'));
+
+    const admin = await service.inviteAdmin(
+      { email: 'new@example.com', role: AdminRole.MANAGER },
+      owner.id,
+    );
+
+    expect(admin.email).toBe('new@example.com');
+    expect(admin.invite).toEqual({ sent: false, expiresAt: null });
+  });
+
+  it('sends no invite when the owner chose a password', async () => {
+    prisma.admin.findUnique.mockResolvedValue(null);
+
+    const admin = await service.inviteAdmin(
+      {
+        email: 'new@example.com',
+        role: AdminRole.MANAGER,
+        password: 'secret-123',
+      },
+      owner.id,
+    );
+
+    expect(passwordTokenService.sendInvite).not.toHaveBeenCalled();
+    expect(admin.invite).toBeNull();
+  });
+});
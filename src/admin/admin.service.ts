@@ -0,0 +1,225 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Admin, AdminRole, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { PasswordTokenService } from '../auth/password-token.service';
+import { CreateAdminDto } from './dto/create-admin.dto';
+import { UpdateAdminDto } from './dto/update-admin.dto';
+
+// Everything but the password hash
+const ADMIN_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  isActive: true,
+  twoFactorEnabledAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.AdminSelect;
+
+/**
+ * AdminService
+ * Staff accounts and their roles. There is always at least one active owner,
+ * so someone can still manage admins.
+ */
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly authService: AuthService,
+    private readonly passwordTokenService: PasswordTokenService,
+  ) {}
+
+  private async ensureEmailAvailable(email: string, exceptId?: string) {
+    const existing = await this.prisma.admin.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (existing && existing.id !== exceptId) {
+      throw new ConflictException(
+        `An admin with email ${email} already exists`,
+      );
+    }
+  }
+
+  // Refuse when `admin` is the only active owner left
+  // Locks the active owners until the transaction ends, so two owners can't
+  // be demoted or deactivated at the same time
+  private async ensureNotLastOwner(
+    tx: Prisma.TransactionClient,
+    admin: Pick<Admin, 'id' | 'role' | 'isActive'>,
+    action: string,
+  ): Promise<void> {
+    if (admin.role !== AdminRole.OWNER || !admin.isActive) {
+      return;
+    }
+
+    const owners = await tx.$queryRaw<{ id: string }[]>`
+      SELECT id FROM admins
+      WHERE role = ${AdminRole.OWNER} AND is_active = true
+      FOR UPDATE`;
+
+    if (!owners.some((owner) => owner.id !== admin.id)) {
+      throw new BadRequestException(
+        `Cannot ${action} the last active owner. Make another admin an owner first.`,
+      );
+    }
+  }
+
+  /**
+   * List admins, active ones first
+   * `inviteExpiresAt` is set while an invite has not been accepted.
+   */
+  async getAdmins() {
+    const [admins, pendingInvites] = await Promise.all([
+      this.prisma.admin.findMany({
+        select: ADMIN_SELECT,
+        orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }],
+      }),
+      this.passwordTokenService.getPendingInvites(),
+    ]);
+
+    return admins.map((admin) => ({
+      ...admin,
+      inviteExpiresAt: pendingInvites.get(admin.id) ?? null,
+    }));
+  }
+
+  async getAdminById(id: string) {
+    const admin = await this.prisma.admin.findUnique({
+      where: { id },
+      select: ADMIN_SELECT,
+    });
+
+    if (!admin) {
+      throw new NotFoundException(`Admin with ID "${id}" not found`);
+    }
+
+    return admin;
+  }
+
+  /**
+   * Add a staff account with its role
+   * Without a first password the account gets a random one nobody knows,
+   * and the new admin is emailed a link to choose their own. A failed email
+   * leaves the account in place; `invite.sent` is false and the invite can be
+   * sent again.
+   * @param invitedById - Admin sending the invite, named in the email
+   */
+  async inviteAdmin(createAdminDto: CreateAdminDto, invitedById: string) {
+    this.logger.log(
+      `Inviting admin: ${createAdminDto.email} as ${createAdminDto.role}`,
+    );
+
+    await this.ensureEmailAvailable(createAdminDto.email);
+
+    const admin = await this.authService.createAdmin(
+      createAdminDto.email,
+      createAdminDto.password ?? randomBytes(32).toString('hex'),
+      createAdminDto.name,
+      createAdminDto.role,
+    );
+
+    if (createAdminDto.password) {
+      return { ...admin, invite: null };
+    }
+
+    try {
+      const { expiresAt } = await this.passwordTokenService.sendInvite(
+        admin.id,
+        invitedById,
+      );
+
+      return { ...admin, invite: { sent: true, expiresAt } };
+    } catch (error) {
+      this.logger.error(
+        `Invite email to ${admin.email} failed: ${(error as Error).message}`,
+      );
+
+      return { ...admin, invite: { sent: false, expiresAt: null } };
+    }
+  }
+
+  /**
+   * Update name, email or role
+   * The last active owner cannot be given another role.
+   */
+  async updateAdmin(id: string, updateAdminDto: UpdateAdminDto) {
+    this.logger.log(`Updating admin: ${id}`);
+
+    const existing = await this.getAdminById(id);
+
+    if (
+      updateAdminDto.email !== undefined &&
+      updateAdminDto.email !== existing.email
+    ) {
+      await this.ensureEmailAvailable(updateAdminDto.email, id);
+    }
+
+    const admin = await this.prisma.$transaction(async (tx) => {
+      if (
+        updateAdminDto.role !== undefined &&
+        updateAdminDto.role !== existing.role
+      ) {
+        await this.ensureNotLastOwner(tx, existing, 'change the role of');
+      }
+
+      return tx.admin.update({
+        where: { id },
+        data: {
+          name: updateAdminDto.name,
+          email: updateAdminDto.email,
+          role: updateAdminDto.role,
+        },
+        select: ADMIN_SELECT,
+      });
+    });
+
+    this.logger.log(`Admin updated: ${admin.email} (role: ${admin.role})`);
+    return admin;
+  }
+
+  /**
+   * Deactivate or reactivate an admin
+   * Deactivated admins cannot log in and are signed out of open sessions.
+   * @param currentAdminId - Admin making the change; cannot deactivate itself
+   */
+  async setAdminStatus(id: string, isActive: boolean, currentAdminId: string) {
+    const admin = await this.getAdminById(id);
+
+    if (!isActive && id === currentAdminId) {
+      throw new BadRequestException('You cannot deactivate your own account');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (!isActive) {
+        await this.ensureNotLastOwner(tx, admin, 'deactivate');
+      }
+
+      return this.authService.updateAdminStatus(id, isActive, tx);
+    });
+  }
+
+  /**
+   * Set a new password chosen by an owner, e.g. when staff are locked out
+   */
+  async resetPassword(id: string, password: string) {
+    this.logger.log(`Resetting password for admin: ${id}`);
+
+    await this.getAdminById(id);
+    await this.authService.updateAdminPassword(id, password);
+
+    return { message: 'Password reset successfully', adminId: id };
+  }
+}
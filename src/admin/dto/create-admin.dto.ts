@@ -0,0 +1,45 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { AdminRole } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Create Admin DTO
+ * A new staff account; the inviting owner chooses its role, and either a
+ * first password or, without one, an emailed invite link
+ */
+export class CreateAdminDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  @Transform(({ value }) => value?.toLowerCase().trim())
+  email: string;
+
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @MaxLength(255, { message: 'Name must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim() || undefined)
+  @Sanitize()
+  name?: string;
+
+  @IsEnum(AdminRole, {
+    message:
+      'Role must be one of: OWNER, MANAGER, FINANCE, FRONT_DESK, READ_ONLY',
+  })
+  role: AdminRole;
+
+  @IsOptional()
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(6, { message: 'Password must be at least 6 characters long' })
+  @MaxLength(100, { message: 'Password must not exceed 100 characters' })
+  @Transform(({ value }) => value || undefined)
+  password?: string;
+}
@@ -0,0 +1,6 @@
+import { IsBoolean } from 'class-validator';
+
+export class UpdateAdminStatusDto {
+  @IsBoolean({ message: 'Active flag must be true or false' })
+  isActive: boolean;
+}
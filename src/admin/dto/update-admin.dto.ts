@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateAdminDto } from './create-admin.dto';
+
+// Passwords change through the reset endpoint, not here
+export class UpdateAdminDto extends PartialType(
+  OmitType(CreateAdminDto, ['password'] as const),
+) {}
@@ -0,0 +1,11 @@
+import { IsBoolean } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class UpdateTwoFactorRequirementDto {
+  // Forms post "true" or "false", the API a boolean
+  @Transform(
+    ({ value }) => value === 'true' || value === 'on' || value === true,
+  )
+  @IsBoolean({ message: 'Required flag must be true or false' })
+  required: boolean;
+}
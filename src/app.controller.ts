@@ -13,6 +13,7 @@ import type { Response } from 'express';
 import { AuthGuard } from './auth/guards/auth.guard';
 import { VenueService } from './venue/venue.service';
 import { EventService } from './event/event.service';
+import { BookingRequestService } from './booking-request/booking-request.service';
 
 @Controller()
 export class AppController {
@@ -21,7 +22,8 @@ export class AppController {
   constructor(
     private readonly venueService: VenueService,
     private readonly eventService: EventService,
-  ) { }
+    private readonly bookingRequestService: BookingRequestService,
+  ) {}
 
   @Get()
   async root(@Session() session: Record<string, any>, @Res() res: Response) {
@@ -44,24 +46,30 @@ export class AppController {
     this.logger.log(`Rendering dashboard for admin: ${session.adminId}`);
 
     try {
-      const [venueStats, eventStats, recentEvents, recentVenues] =
-        await Promise.all([
-          this.venueService.getVenueStatistics(),
-          this.eventService.getEventStatistics(),
-          this.eventService.getAllEvents({
-            limit: 5,
-            page: 1,
-            sortBy: 'startDatetime',
-            sortOrder: 'asc',
-            status: 'UPCOMING' as any,
-          }),
-          this.venueService.getAllVenues({
-            limit: 5,
-            page: 1,
-            sortBy: 'createdAt',
-            sortOrder: 'desc',
-          }),
-        ]);
+      const [
+        venueStats,
+        eventStats,
+        recentEvents,
+        recentVenues,
+        requestCounts,
+      ] = await Promise.all([
+        this.venueService.getVenueStatistics(),
+        this.eventService.getEventStatistics(),
+        this.eventService.getAllEvents({
+          limit: 5,
+          page: 1,
+          sortBy: 'startDatetime',
+          sortOrder: 'asc',
+          status: 'UPCOMING' as any,
+        }),
+        this.venueService.getAllVenues({
+          limit: 5,
+          page: 1,
+          sortBy: 'createdAt',
+          sortOrder: 'desc',
+        }),
+        this.bookingRequestService.getQueueCounts(),
+      ]);
 
       return {
         title: 'Dashboard',
@@ -70,6 +78,7 @@ export class AppController {
         eventStats,
         upcomingEvents: recentEvents.data || [],
         recentVenues: recentVenues.data || [],
+        requestCounts,
         error: null,
         success: null,
       };
@@ -86,6 +95,7 @@ export class AppController {
         eventStats: null,
         upcomingEvents: [],
         recentVenues: [],
+        requestCounts: null,
         error: 'Failed to load statistics. Please refresh the page.',
         success: null,
       };
@@ -1,9 +1,19 @@
 import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { ThrottlerModule } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from './prisma/prisma.module';
 import { AuthModule } from './auth/auth.module';
+import { AdminModule } from './admin/admin.module';
 import { VenueModule } from './venue/venue.module';
 import { EventModule } from './event/event.module';
+import { CurrencyModule } from './currency/currency.module';
+import { AuditModule } from './audit/audit.module';
+import { ClientModule } from './client/client.module';
+import { BookingRequestModule } from './booking-request/booking-request.module';
+import { CalendarFeedModule } from './calendar-feed/calendar-feed.module';
+import { ExportModule } from './export/export.module';
+import { RequestContextInterceptor } from './common/interceptors/request-context.interceptor';
 import { AppController } from './app.controller';
 
 @Module({
@@ -26,12 +36,24 @@ import { AppController } from './app.controller';
         limit: 100, // Max 100 requests per minute
       },
     ]),
+    // Background jobs (event lifecycle worker)
+    ScheduleModule.forRoot(),
     PrismaModule,
     AuthModule,
+    AdminModule,
     VenueModule,
+    CurrencyModule,
+    AuditModule,
+    ClientModule,
     EventModule,
+    BookingRequestModule,
+    CalendarFeedModule,
+    ExportModule,
   ],
   controllers: [AppController],
-  providers: [],
+  providers: [
+    // Current admin and IP for the audit log
+    { provide: APP_INTERCEPTOR, useClass: RequestContextInterceptor },
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,43 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { QueryAuditLogDto } from './dto/query-audit-log.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/audit-logs')
+@UseGuards(ApiAuthGuard)
+@RequirePermissions(Permission.AUDIT_VIEW)
+export class AuditApiController {
+  private readonly logger = new Logger(AuditApiController.name);
+
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * GET /api/audit-logs?entityType=&entityId=&action=&adminId=&dateFrom=&dateTo=
+   * Audit entries, newest first. `entityId` also matches the spaces of a
+   * venue and the payments of an event.
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getAuditLogs(@Query() queryDto: QueryAuditLogDto) {
+    this.logger.log(`[GET /api/audit-logs] API: Fetching audit log`);
+
+    const result = await this.auditService.getLogs(queryDto);
+
+    return {
+      success: true,
+      message: 'Audit log retrieved successfully',
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
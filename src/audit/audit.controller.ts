@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  Render,
+  Logger,
+} from '@nestjs/common';
+import { AuditAction, AuditEntityType } from '@prisma/client';
+import { AuditService } from './audit.service';
+import { QueryAuditLogDto } from './dto/query-audit-log.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('audit-logs')
+@UseGuards(AuthGuard)
+@RequirePermissions(Permission.AUDIT_VIEW)
+export class AuditController {
+  private readonly logger = new Logger(AuditController.name);
+
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * GET /audit-logs
+   * Filterable audit trail of changes to venues, events and payments
+   * Renders: views/audit-logs/list.ejs
+   */
+  @Get()
+  @Render('audit-logs/list')
+  async getAuditLogPage(@Query() queryDto: QueryAuditLogDto) {
+    this.logger.log(
+      `[GET /audit-logs] Rendering audit log with filters: ${JSON.stringify(queryDto)}`,
+    );
+
+    const filters = {
+      actions: Object.values(AuditAction),
+      entityTypes: Object.values(AuditEntityType),
+    };
+
+    try {
+      const [result, actors] = await Promise.all([
+        this.auditService.getLogs(queryDto),
+        this.auditService.getActors(),
+      ]);
+
+      return {
+        title: 'Audit Log',
+        logs: result.data,
+        meta: result.meta,
+        actors,
+        ...filters,
+        query: queryDto,
+        error: null,
+        success: null,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load audit log: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Audit Log',
+        logs: [],
+        meta: { total: 0, page: 1, limit: 25, totalPages: 0 },
+        actors: [],
+        ...filters,
+        query: queryDto,
+        error: 'Failed to load the audit log. Please try again.',
+        success: null,
+      };
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Prisma } from '@prisma/client';
+import { AuditHelper } from './audit.helper';
+
+describe('AuditHelper', () => {
+  const venue = {
+    id: 'venue-1',
+    name: 'Grand Hall',
+    capacity: 200,
+    isActive: true,
+    pricePerHour: new Prisma.Decimal('150000.00'),
+    openedAt: new Date('2026-01-01T00:00:00.000Z'),
+    description: null,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-02-01T00:00:00.000Z'),
+    spaces: [{ id: 'space-1' }],
+  };
+
+  it('keeps scalar columns as JSON-safe values', () => {
+    expect(AuditHelper.snapshot(venue)).toEqual({
+      id: 'venue-1',
+      name: 'Grand Hall',
+      capacity: 200,
+      isActive: true,
+      pricePerHour: '150000',
+      openedAt: '2026-01-01T00:00:00.000Z',
+      description: null,
+    });
+  });
+
+  it('lists only the fields that changed', () => {
+    const updated = {
+      ...venue,
+      capacity: 250,
+      pricePerHour: new Prisma.Decimal('150000'),
+      updatedAt: new Date(),
+    };
+
+    expect(AuditHelper.diff(venue, updated)).toEqual({
+      capacity: { before: 200, after: 250 },
+    });
+  });
+
+  it('records every field of a created or deleted record', () => {
+    const created = AuditHelper.diff(null, { id: 'space-1', name: 'Terrace' });
+    const deleted = AuditHelper.diff({ id: 'space-1', name: 'Terrace' }, null);
+
+    expect(created).toEqual({
+      id: { before: null, after: 'space-1' },
+      name: { before: null, after: 'Terrace' },
+    });
+    expect(deleted.name).toEqual({ before: 'Terrace', after: null });
+  });
+});
@@ -0,0 +1,64 @@
+import { Prisma } from '@prisma/client';
+
+export type AuditValue = string | number | boolean | null;
+
+export type AuditChanges = Record<
+  string,
+  { before: AuditValue; after: AuditValue }
+>;
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = ['createdAt', 'updatedAt'];
+
+export class AuditHelper {
+  // Scalar columns of a record as JSON-safe values
+  // Relations, arrays and JSON columns (e.g. priceBreakdown) are left out.
+
+  static snapshot(record: object | null): Record<string, AuditValue> {
+    const snapshot: Record<string, AuditValue> = {};
+
+    if (!record) {
+      return snapshot;
+    }
+
+    for (const [field, value] of Object.entries(record)) {
+      if (IGNORED_FIELDS.includes(field)) {
+        continue;
+      }
+
+      if (
+        value === null ||
+        ['string', 'number', 'boolean'].includes(typeof value)
+      ) {
+        snapshot[field] = value as AuditValue;
+      } else if (value instanceof Date) {
+        snapshot[field] = value.toISOString();
+      } else if (Prisma.Decimal.isDecimal(value)) {
+        snapshot[field] = value.toString();
+      }
+    }
+
+    return snapshot;
+  }
+
+  // Fields whose value differs between two records
+  // A created record has no `before` (every field goes from null), a deleted
+  // one no `after`.
+
+  static diff(before: object | null, after: object | null): AuditChanges {
+    const from = this.snapshot(before);
+    const to = this.snapshot(after);
+    const changes: AuditChanges = {};
+
+    for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+      const previous = field in from ? from[field] : null;
+      const next = field in to ? to[field] : null;
+
+      if (previous !== next) {
+        changes[field] = { before: previous, after: next };
+      }
+    }
+
+    return changes;
+  }
+}
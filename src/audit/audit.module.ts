@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AuditApiController } from './audit-api.controller';
+
+@Module({
+  providers: [AuditService],
+  controllers: [AuditController, AuditApiController],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,162 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AuditAction, AuditEntityType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { getRequestContext } from '../common/context/request-context';
+import { AuditHelper } from './audit.helper';
+import { QueryAuditLogDto } from './dto/query-audit-log.dto';
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string;
+  parentId?: string | null; // Venue of a space, event of a payment
+  before?: object | null; // Record before the change, null when created
+  after?: object | null; // Record after the change, null when deleted
+}
+
+const AUDIT_LOG_INCLUDE = {
+  admin: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.AuditLogInclude;
+
+/**
+ * AuditService
+ * Append-only trail of changes to venues, spaces, events, payments,
+ * clients and booking requests: who (admin and IP of the current request),
+ * what and the before/after values.
+ * Entries are never updated or deleted.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Record a change made by the current request
+   * Updates that changed nothing are skipped. A failure is logged rather
+   * than thrown: the change itself has already been saved.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    const changes = AuditHelper.diff(entry.before ?? null, entry.after ?? null);
+
+    if (
+      entry.action === AuditAction.UPDATE &&
+      Object.keys(changes).length === 0
+    ) {
+      return;
+    }
+
+    const context = getRequestContext();
+
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          adminId: context?.adminId ?? null,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          entityLabel: entry.entityLabel.slice(0, 255),
+          parentId: entry.parentId ?? null,
+          changes: changes as Prisma.InputJsonValue,
+          ipAddress: context?.ipAddress ?? null,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${entry.action} of ${entry.entityType} ${entry.entityId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Audit entries, newest first, with filters and pagination
+   */
+  async getLogs(queryDto: QueryAuditLogDto) {
+    const {
+      entityType,
+      entityId,
+      action,
+      adminId,
+      dateFrom,
+      dateTo,
+      page = 1,
+      limit = 25,
+    } = queryDto;
+
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (entityType) {
+      where.entityType = entityType;
+    }
+
+    if (entityId) {
+      where.OR = [{ entityId }, { parentId: entityId }];
+    }
+
+    if (action) {
+      where.action = action;
+    }
+
+    if (adminId) {
+      where.adminId = adminId;
+    }
+
+    if (dateFrom || dateTo) {
+      where.createdAt = {};
+
+      if (dateFrom) {
+        where.createdAt.gte = new Date(`${dateFrom.slice(0, 10)}T00:00:00`);
+      }
+
+      if (dateTo) {
+        where.createdAt.lte = new Date(`${dateTo.slice(0, 10)}T23:59:59.999`);
+      }
+    }
+
+    const [logs, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        include: AUDIT_LOG_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      data: logs,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * History of a venue or event, including its spaces or payments
+   */
+  async getEntityHistory(entityId: string, limit = 50) {
+    return this.prisma.auditLog.findMany({
+      where: { OR: [{ entityId }, { parentId: entityId }] },
+      include: AUDIT_LOG_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Admins that appear in the log, for the viewer's filter
+   */
+  async getActors() {
+    return this.prisma.admin.findMany({
+      where: { auditLogs: { some: {} } },
+      select: { id: true, name: true, email: true },
+      orderBy: { email: 'asc' },
+    });
+  }
+}
@@ -0,0 +1,63 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { AuditAction, AuditEntityType } from '@prisma/client';
+
+export class QueryAuditLogDto {
+  // Empty query params (?action=) mean "no filter", not an invalid value
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsEnum(AuditEntityType, {
+    message:
+      'Entity type must be one of: VENUE, SPACE, EVENT, PAYMENT, CLIENT, BOOKING_REQUEST',
+  })
+  entityType?: AuditEntityType;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsUUID('4', { message: 'Entity ID must be a valid UUID' })
+  entityId?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsEnum(AuditAction, {
+    message: 'Action must be one of: CREATE, UPDATE, CANCEL, CONFIRM, DELETE',
+  })
+  action?: AuditAction;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsUUID('4', { message: 'Admin ID must be a valid UUID' })
+  adminId?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsDateString({}, { message: 'From date must be a valid date' })
+  dateFrom?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsDateString({}, { message: 'To date must be a valid date' })
+  dateTo?: string; // Inclusive
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  limit?: number = 25;
+}
@@ -0,0 +1,201 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Session,
+  UseGuards,
+  Render,
+  Res,
+  Logger,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { AuthGuard } from './guards/auth.guard';
+
+@Controller('account/security')
+@UseGuards(AuthGuard)
+export class AccountSecurityController {
+  private readonly logger = new Logger(AccountSecurityController.name);
+
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  // Page with freshly issued recovery codes, which are only shown once
+  private async renderRecoveryCodes(
+    res: Response,
+    adminId: string,
+    recoveryCodes: string[],
+    success: string,
+  ) {
+    return res.render('account/security', {
+      title: 'Account Security',
+      twoFactor: await this.twoFactorService.getStatus(adminId),
+      recoveryCodes,
+      error: null,
+      success,
+    });
+  }
+
+  /**
+   * GET /account/security
+   * Two-factor status, setup with a QR code, recovery codes
+   * Renders: views/account/security.ejs
+   */
+  @Get()
+  @Render('account/security')
+  async getSecurityPage(
+    @Session() session: Record<string, any>,
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log('[GET /account/security] Rendering account security page');
+
+    let success: string | null = null;
+    if (successMessage === 'disabled') {
+      success = 'Two-factor authentication turned off.';
+    }
+
+    try {
+      return {
+        title: 'Account Security',
+        twoFactor: await this.twoFactorService.getStatus(session.adminId),
+        recoveryCodes: null,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load account security: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Account Security',
+        twoFactor: null,
+        recoveryCodes: null,
+        error: 'Failed to load account security. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /account/security/two-factor/setup
+  @Post('two-factor/setup')
+  async startTwoFactorSetup(
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log('[POST /account/security/two-factor/setup] Starting 2FA');
+
+    try {
+      await this.twoFactorService.startEnrolment(session.adminId);
+      return res.redirect('/account/security');
+    } catch (error) {
+      return res.redirect(
+        `/account/security?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /account/security/two-factor/cancel
+  @Post('two-factor/cancel')
+  async cancelTwoFactorSetup(
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log('[POST /account/security/two-factor/cancel] Cancelling');
+
+    await this.twoFactorService.cancelEnrolment(session.adminId);
+    return res.redirect('/account/security');
+  }
+
+  // POST /account/security/two-factor/enable
+  @Post('two-factor/enable')
+  async enableTwoFactor(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log('[POST /account/security/two-factor/enable] Enabling 2FA');
+
+    try {
+      const recoveryCodes = await this.twoFactorService.enable(
+        session.adminId,
+        twoFactorCodeDto.code,
+      );
+
+      return this.renderRecoveryCodes(
+        res,
+        session.adminId,
+        recoveryCodes,
+        'Two-factor authentication is on! Save your recovery codes now.',
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to enable 2FA: ${error.message}`);
+
+      return res.redirect(
+        `/account/security?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /account/security/two-factor/recovery-codes
+  @Post('two-factor/recovery-codes')
+  async regenerateRecoveryCodes(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      '[POST /account/security/two-factor/recovery-codes] Regenerating codes',
+    );
+
+    try {
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+        session.adminId,
+        twoFactorCodeDto.code,
+      );
+
+      return this.renderRecoveryCodes(
+        res,
+        session.adminId,
+        recoveryCodes,
+        'New recovery codes generated! The old ones no longer work.',
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to regenerate recovery codes: ${error.message}`);
+
+      return res.redirect(
+        `/account/security?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /account/security/two-factor/disable
+  @Post('two-factor/disable')
+  async disableTwoFactor(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      '[POST /account/security/two-factor/disable] Disabling 2FA',
+    );
+
+    try {
+      await this.twoFactorService.disable(
+        session.adminId,
+        twoFactorCodeDto.code,
+      );
+      return res.redirect('/account/security?success=disabled');
+    } catch (error) {
+      this.logger.warn(`Failed to disable 2FA: ${error.message}`);
+
+      return res.redirect(
+        `/account/security?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Session,
+  UseGuards,
+  Render,
+  Res,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { ApiTokenService } from './api-token.service';
+import { AuthService } from './auth.service';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+import { AuthGuard } from './guards/auth.guard';
+import {
+  Permission,
+  PermissionHelper,
+  ROLE_LABELS,
+  ROLE_PERMISSIONS,
+} from './permission.helper';
+
+@Controller('api-tokens')
+@UseGuards(AuthGuard)
+export class ApiTokenController {
+  private readonly logger = new Logger(ApiTokenController.name);
+
+  constructor(
+    private readonly apiTokenService: ApiTokenService,
+    private readonly authService: AuthService,
+  ) {}
+
+  // Tokens the admin can see: their own, or all if they manage admins
+  private async getPageData(adminId: string) {
+    const admin = await this.authService.findAdminById(adminId);
+    const manageAll = PermissionHelper.can(admin.role, Permission.ADMIN_MANAGE);
+
+    return {
+      title: 'API Tokens',
+      tokens: await this.apiTokenService.getTokens(
+        manageAll ? undefined : admin.id,
+      ),
+      owners: manageAll ? await this.apiTokenService.getTokenOwners() : [],
+      manageAll,
+      scopes: ROLE_PERMISSIONS[admin.role],
+      roleLabels: ROLE_LABELS,
+    };
+  }
+
+  /**
+   * GET /api-tokens
+   * API tokens with their usage, plus the form to create one
+   * Renders: views/api-tokens/list.ejs
+   */
+  @Get()
+  @Render('api-tokens/list')
+  async getApiTokensPage(
+    @Session() session: Record<string, any>,
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log('[GET /api-tokens] Rendering API tokens page');
+
+    let success: string | null = null;
+    if (successMessage === 'revoked') {
+      success = 'API token revoked successfully!';
+    }
+
+    try {
+      return {
+        ...(await this.getPageData(session.adminId)),
+        createdToken: null,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load API tokens: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'API Tokens',
+        tokens: [],
+        owners: [],
+        manageAll: false,
+        scopes: [],
+        roleLabels: ROLE_LABELS,
+        createdToken: null,
+        error: 'Failed to load API tokens. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /api-tokens
+  // Rendered rather than redirected, the token is only shown this once
+  @Post()
+  async createApiToken(
+    @Body() createApiTokenDto: CreateApiTokenDto,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /api-tokens] Creating API token: ${createApiTokenDto.name}`,
+    );
+
+    try {
+      const { token, secret } = await this.apiTokenService.createToken(
+        createApiTokenDto,
+        session.adminId,
+      );
+
+      return res.render('api-tokens/list', {
+        ...(await this.getPageData(session.adminId)),
+        createdToken: { name: token.name, secret },
+        error: null,
+        success: "API token created! Copy it now, it won't be shown again.",
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to create API token: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/api-tokens?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /api-tokens/:id/revoke
+  @Post(':id/revoke')
+  async revokeApiToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /api-tokens/${id}/revoke] Revoking API token`);
+
+    try {
+      await this.apiTokenService.revokeToken(id, session.adminId);
+      return res.redirect('/api-tokens?success=revoked');
+    } catch (error) {
+      this.logger.error(
+        `Failed to revoke API token ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/api-tokens?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
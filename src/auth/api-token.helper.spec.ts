@@ -0,0 +1,63 @@
+import { AdminRole } from '@prisma/client';
+import { ApiTokenHelper } from './api-token.helper';
+import { Permission } from './permission.helper';
+
+describe('ApiTokenHelper', () => {
+  it('generates distinct tokens stored only as a hash', () => {
+    const first = ApiTokenHelper.generate();
+    const second = ApiTokenHelper.generate();
+
+    expect(first.token).not.toBe(second.token);
+    expect(first.token.startsWith(first.prefix)).toBe(true);
+    expect(first.hash).toBe(ApiTokenHelper.hash(first.token));
+    expect(first.hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('keeps known scopes only', () => {
+    expect(ApiTokenHelper.parseScopes('event:write,unknown,')).toEqual([
+      Permission.EVENT_WRITE,
+    ]);
+    expect(ApiTokenHelper.parseScopes('')).toEqual([]);
+  });
+
+  it('refuses revoked and expired tokens', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+
+    expect(
+      ApiTokenHelper.checkUsable({ expiresAt: null, revokedAt: null }, now),
+    ).toBeNull();
+    expect(
+      ApiTokenHelper.checkUsable(
+        { expiresAt: new Date('2026-10-19T11:59:59.000Z'), revokedAt: null },
+        now,
+      ),
+    ).toBe('API token has expired');
+    expect(
+      ApiTokenHelper.checkUsable(
+        { expiresAt: null, revokedAt: new Date('2026-10-01T00:00:00.000Z') },
+        now,
+      ),
+    ).toBe('API token has been revoked');
+  });
+
+  it('limits a token to its scopes and its admin role', () => {
+    expect(
+      ApiTokenHelper.missing(
+        AdminRole.OWNER,
+        [Permission.EVENT_WRITE],
+        [Permission.EVENT_WRITE],
+      ),
+    ).toEqual([]);
+    expect(
+      ApiTokenHelper.missing(AdminRole.OWNER, [], [Permission.EVENT_WRITE]),
+    ).toEqual([Permission.EVENT_WRITE]);
+    // Scope kept after the admin was moved to a smaller role
+    expect(
+      ApiTokenHelper.missing(
+        AdminRole.READ_ONLY,
+        [Permission.EVENT_WRITE],
+        [Permission.EVENT_WRITE],
+      ),
+    ).toEqual([Permission.EVENT_WRITE]);
+  });
+});
@@ -0,0 +1,71 @@
+import { createHash, randomBytes } from 'crypto';
+import { AdminRole } from '@prisma/client';
+import { Permission, PermissionHelper } from './permission.helper';
+
+// Makes leaked tokens easy to recognise in logs and secret scanners
+const TOKEN_PREFIX = 'vms_';
+
+// Characters of the token kept in clear to tell tokens apart
+const VISIBLE_LENGTH = 12;
+
+export interface GeneratedApiToken {
+  token: string; // Shown to the admin once
+  prefix: string;
+  hash: string;
+}
+
+export class ApiTokenHelper {
+  static generate(): GeneratedApiToken {
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    return {
+      token,
+      prefix: token.slice(0, VISIBLE_LENGTH),
+      hash: this.hash(token),
+    };
+  }
+
+  // Tokens are long and random, so a fast hash is enough to look them up
+  static hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  static parseScopes(scopes: string): Permission[] {
+    const known = Object.values(Permission) as string[];
+
+    return scopes
+      .split(',')
+      .filter((scope): scope is Permission => known.includes(scope));
+  }
+
+  // Reason the token cannot be used at `now`, or null
+
+  static checkUsable(
+    token: { expiresAt: Date | null; revokedAt: Date | null },
+    now: Date,
+  ): string | null {
+    if (token.revokedAt) {
+      return 'API token has been revoked';
+    }
+
+    if (token.expiresAt && token.expiresAt <= now) {
+      return 'API token has expired';
+    }
+
+    return null;
+  }
+
+  // The `required` permissions a token lacks
+  // A token can do what its scopes allow and its admin's role still permits.
+
+  static missing(
+    role: AdminRole,
+    scopes: readonly Permission[],
+    required: readonly Permission[],
+  ): Permission[] {
+    return required.filter(
+      (permission) =>
+        !scopes.includes(permission) || !PermissionHelper.can(role, permission),
+    );
+  }
+}
@@ -0,0 +1,230 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ApiTokenHelper } from './api-token.helper';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+import { Permission, PermissionHelper } from './permission.helper';
+
+// Last-used time is written at most this often per token
+const LAST_USED_INTERVAL = 60 * 1000;
+
+export interface ApiTokenContext {
+  id: string;
+  name: string;
+  adminId: string;
+  scopes: Permission[];
+}
+
+/**
+ * ApiTokenService
+ * Bearer tokens for machine clients of the JSON API. A token acts as the
+ * admin it belongs to, limited to its scopes; only a hash is stored.
+ */
+@Injectable()
+export class ApiTokenService {
+  private readonly logger = new Logger(ApiTokenService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  private async getActiveAdmin(id: string) {
+    const admin = await this.prisma.admin.findUnique({
+      where: { id },
+      select: { id: true, email: true, role: true, isActive: true },
+    });
+
+    if (!admin?.isActive) {
+      throw new NotFoundException('Admin account not found or inactive');
+    }
+
+    return admin;
+  }
+
+  /**
+   * List tokens, newest first
+   * @param adminId - Only this admin's tokens
+   */
+  async getTokens(adminId?: string) {
+    const tokens = await this.prisma.apiToken.findMany({
+      where: adminId ? { adminId } : {},
+      select: {
+        id: true,
+        name: true,
+        tokenPrefix: true,
+        scopes: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        lastUsedIp: true,
+        revokedAt: true,
+        createdAt: true,
+        admin: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    const now = new Date();
+
+    return tokens.map((token) => ({
+      ...token,
+      scopes: ApiTokenHelper.parseScopes(token.scopes),
+      unusableReason: ApiTokenHelper.checkUsable(token, now),
+    }));
+  }
+
+  /**
+   * Active admins a token can be issued to
+   */
+  async getTokenOwners() {
+    return this.prisma.admin.findMany({
+      where: { isActive: true },
+      select: { id: true, name: true, email: true, role: true },
+      orderBy: { email: 'asc' },
+    });
+  }
+
+  /**
+   * Issue a token
+   * Admins create their own tokens; those who manage admins can also issue
+   * tokens to others, e.g. a service account for the booking website.
+   * @param issuerId - Admin creating the token
+   * @returns The stored token and the token itself, which is not kept
+   */
+  async createToken(createApiTokenDto: CreateApiTokenDto, issuerId: string) {
+    const issuer = await this.getActiveAdmin(issuerId);
+    const ownerId = createApiTokenDto.adminId ?? issuer.id;
+
+    if (
+      ownerId !== issuer.id &&
+      !PermissionHelper.can(issuer.role, Permission.ADMIN_MANAGE)
+    ) {
+      throw new ForbiddenException(
+        'You can only create API tokens for your own account',
+      );
+    }
+
+    const owner =
+      ownerId === issuer.id ? issuer : await this.getActiveAdmin(ownerId);
+    const scopes = [...new Set(createApiTokenDto.scopes ?? [])];
+    const beyondRole = PermissionHelper.missing(owner.role, scopes);
+
+    if (beyondRole.length > 0) {
+      throw new BadRequestException(
+        `The token's admin does not have: ${beyondRole.join(', ')}`,
+      );
+    }
+
+    const expiresAt = createApiTokenDto.expiresAt
+      ? new Date(createApiTokenDto.expiresAt)
+      : null;
+
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('Expiry must be in the future');
+    }
+
+    const generated = ApiTokenHelper.generate();
+
+    const token = await this.prisma.apiToken.create({
+      data: {
+        adminId: owner.id,
+        name: createApiTokenDto.name,
+        tokenPrefix: generated.prefix,
+        tokenHash: generated.hash,
+        scopes: scopes.join(','),
+        expiresAt,
+      },
+    });
+
+    this.logger.log(
+      `API token created: ${token.name} (ID: ${token.id}) for ${owner.email} by ${issuer.email}`,
+    );
+
+    return { token, secret: generated.token };
+  }
+
+  /**
+   * Revoke a token; it stops working immediately
+   * @param issuerId - Admin revoking it, the owner or one who manages admins
+   */
+  async revokeToken(id: string, issuerId: string) {
+    const issuer = await this.getActiveAdmin(issuerId);
+    const token = await this.prisma.apiToken.findUnique({ where: { id } });
+
+    if (
+      !token ||
+      (token.adminId !== issuer.id &&
+        !PermissionHelper.can(issuer.role, Permission.ADMIN_MANAGE))
+    ) {
+      throw new NotFoundException(`API token with ID "${id}" not found`);
+    }
+
+    if (token.revokedAt) {
+      throw new BadRequestException('API token is already revoked');
+    }
+
+    const revoked = await this.prisma.apiToken.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    this.logger.log(
+      `API token revoked: ${revoked.name} (ID: ${id}) by ${issuer.email}`,
+    );
+
+    return { message: 'API token revoked successfully', tokenId: id };
+  }
+
+  /**
+   * Resolve a bearer token and note its use
+   * @throws UnauthorizedException if the token is unknown, revoked, expired
+   * or its admin has been deactivated
+   */
+  async authenticate(
+    secret: string,
+    ipAddress: string | null,
+  ): Promise<ApiTokenContext> {
+    const token = await this.prisma.apiToken.findUnique({
+      where: { tokenHash: ApiTokenHelper.hash(secret) },
+      include: { admin: { select: { isActive: true } } },
+    });
+
+    if (!token) {
+      throw new UnauthorizedException('Invalid API token');
+    }
+
+    const now = new Date();
+    const reason = ApiTokenHelper.checkUsable(token, now);
+
+    if (reason) {
+      this.logger.warn(`${reason}: ${token.name} (ID: ${token.id})`);
+      throw new UnauthorizedException(reason);
+    }
+
+    if (!token.admin.isActive) {
+      throw new UnauthorizedException(
+        'The account this API token belongs to has been deactivated',
+      );
+    }
+
+    if (
+      !token.lastUsedAt ||
+      now.getTime() - token.lastUsedAt.getTime() >= LAST_USED_INTERVAL ||
+      token.lastUsedIp !== ipAddress
+    ) {
+      await this.prisma.apiToken.update({
+        where: { id: token.id },
+        data: { lastUsedAt: now, lastUsedIp: ipAddress },
+      });
+    }
+
+    return {
+      id: token.id,
+      name: token.name,
+      adminId: token.adminId,
+      scopes: ApiTokenHelper.parseScopes(token.scopes),
+    };
+  }
+}
@@ -10,22 +10,43 @@ import {
   HttpStatus,
   Logger,
   BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+  Req,
 } from '@nestjs/common';
 import { Throttle } from '@nestjs/throttler';
+import type { Request } from 'express';
+import { LoginAttemptOutcome } from '@prisma/client';
 import { AuthService } from './auth.service';
+import { PENDING_TWO_FACTOR_TTL, TwoFactorService } from './two-factor.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { LoginAttemptHelper } from './login-attempt.helper';
+import { PasswordTokenService } from './password-token.service';
 import { LoginDto } from './dto/login.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { SetPasswordDto } from './dto/set-password.dto';
+import { ROLE_PERMISSIONS } from './permission.helper';
 
 // Auth API Controller (JSON Responses)
 @Controller('api/auth')
 export class AuthApiController {
   private readonly logger = new Logger(AuthApiController.name);
 
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginAttemptService: LoginAttemptService,
+    private readonly passwordTokenService: PasswordTokenService,
+  ) {}
 
   /**
    * POST /api/auth/login
    * Login and create session (JSON API)
    * Returns admin data and sets session cookie
+   * With 2FA enabled, returns `twoFactorRequired` instead; finish with
+   * POST /api/auth/two-factor
+   * Returns 429 while the email or IP is delayed or locked out
    */
   @Post('login')
   @HttpCode(HttpStatus.OK)
@@ -33,12 +54,49 @@ export class AuthApiController {
   async loginAdmin(
     @Body() loginDto: LoginDto,
     @Session() session: Record<string, any>,
+    @Req() req: Request,
   ) {
+    const client = LoginAttemptHelper.clientOf(req);
+
     try {
-      const admin = await this.authService.validateAdminCredentials(loginDto);
+      const admin = await this.authService.validateAdminCredentials(
+        loginDto,
+        client,
+      );
+      const step = await this.twoFactorService.getLoginStep(admin.id);
+
+      // Enrolment needs the QR code, so it happens in the web login
+      if (step === 'enrol') {
+        throw new ForbiddenException(
+          'Two-factor authentication is required for your account. Set it up by signing in to the web dashboard.',
+        );
+      }
+
+      if (step === 'challenge') {
+        session.pendingTwoFactor = {
+          adminId: admin.id,
+          email: admin.email,
+          remember: false,
+          expiresAt: Date.now() + PENDING_TWO_FACTOR_TTL,
+        };
+
+        this.logger.log(`API Login awaiting two-factor code: ${admin.email}`);
+
+        return {
+          success: true,
+          message: 'Two-factor code required',
+          data: { twoFactorRequired: true },
+          timestamp: new Date().toISOString(),
+        };
+      }
 
       // Store admin ID in session
       session.adminId = admin.id;
+      await this.loginAttemptService.recordSuccess(
+        admin.email,
+        client,
+        admin.id,
+      );
 
       this.logger.log(`API Login successful: ${admin.email} (ID: ${admin.id})`);
 
@@ -54,6 +112,112 @@ export class AuthApiController {
     }
   }
 
+  /**
+   * POST /api/auth/two-factor
+   * Second login step: authenticator or recovery code (JSON API)
+   */
+  @Post('two-factor')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  async verifyTwoFactor(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    const pending = session.pendingTwoFactor;
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete session.pendingTwoFactor;
+      throw new UnauthorizedException(
+        'No login awaiting a two-factor code. Please login again.',
+      );
+    }
+
+    const client = LoginAttemptHelper.clientOf(req);
+    await this.loginAttemptService.assertAllowed(pending.email, client);
+
+    let usedRecoveryCode: boolean;
+
+    try {
+      ({ usedRecoveryCode } = await this.twoFactorService.verify(
+        pending.adminId,
+        twoFactorCodeDto.code,
+      ));
+    } catch (error) {
+      // Wrong codes count towards the lockout like wrong passwords
+      await this.loginAttemptService.recordFailure(
+        pending.email,
+        client,
+        LoginAttemptOutcome.INVALID_TWO_FACTOR,
+        pending.adminId,
+      );
+      throw error;
+    }
+
+    delete session.pendingTwoFactor;
+    session.adminId = pending.adminId;
+    await this.loginAttemptService.recordSuccess(
+      pending.email,
+      client,
+      pending.adminId,
+    );
+
+    const admin = await this.authService.findAdminById(pending.adminId);
+
+    this.logger.log(
+      `API Login successful with two-factor: ${admin.email} (ID: ${admin.id})`,
+    );
+
+    return {
+      success: true,
+      message: usedRecoveryCode
+        ? 'Login successful. A recovery code was used; generate new ones if you are running low.'
+        : 'Login successful',
+      data: admin,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/auth/forgot-password
+   * Email a password reset link (JSON API)
+   * Answers the same whether or not the email belongs to an admin
+   */
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ short: { limit: 3, ttl: 60000 } })
+  async requestPasswordReset(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.passwordTokenService.requestReset(forgotPasswordDto.email);
+
+    return {
+      success: true,
+      message:
+        'If the email belongs to an active admin, a reset link has been sent to it',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/auth/set-password
+   * Choose a new password with the token from a reset or invite link (JSON API)
+   * Returns 400 listing every strength rule the password breaks
+   */
+  @Post('set-password')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  async setPassword(@Body() setPasswordDto: SetPasswordDto) {
+    const result = await this.passwordTokenService.setPassword(setPasswordDto);
+
+    this.logger.log(`API: Password set for admin ${result.adminId}`);
+
+    return {
+      success: true,
+      message: 'Password set successfully. You can now login with it.',
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   /**
    * POST /api/auth/logout
    * Logout and destroy session (JSON API)
@@ -83,15 +247,22 @@ export class AuthApiController {
   /**
    * GET /api/auth/me
    * Get current authenticated admin (JSON API)
+   * With an API token, its admin and what the token may do
    */
   @Get('me')
   @HttpCode(HttpStatus.OK)
-  async getCurrentAdmin(@Session() session: Record<string, any>) {
-    if (!session?.adminId) {
+  async getCurrentAdmin(
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    const { apiToken } = req;
+    const adminId = apiToken?.adminId ?? session?.adminId;
+
+    if (!adminId) {
       throw new BadRequestException('Not authenticated');
     }
 
-    const admin = await this.authService.findAdminById(session.adminId);
+    const admin = await this.authService.findAdminById(adminId);
 
     if (!admin) {
       throw new BadRequestException('Admin account not found');
@@ -105,10 +276,18 @@ export class AuthApiController {
 
     this.logger.log(`API: Admin ${admin.id} fetched their profile`);
 
+    const permissions = ROLE_PERMISSIONS[admin.role].filter(
+      (permission) => !apiToken || apiToken.scopes.includes(permission),
+    );
+
     return {
       success: true,
       message: 'Admin profile retrieved successfully',
-      data: admin,
+      data: {
+        ...admin,
+        permissions,
+        apiToken: apiToken ? { id: apiToken.id, name: apiToken.name } : null,
+      },
       timestamp: new Date().toISOString(),
     };
   }
@@ -11,17 +11,115 @@ import {
   HttpStatus,
   Logger,
   BadRequestException,
+  HttpException,
+  Query,
 } from '@nestjs/common';
 import { Throttle } from '@nestjs/throttler';
+import { LoginAttemptOutcome, PasswordTokenPurpose } from '@prisma/client';
 import { AuthService } from './auth.service';
+import { PENDING_TWO_FACTOR_TTL, TwoFactorService } from './two-factor.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { LoginAttemptHelper } from './login-attempt.helper';
+import { PasswordTokenService } from './password-token.service';
+import { PASSWORD_POLICY } from './password.helper';
 import { LoginDto } from './dto/login.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { SetPasswordDto } from './dto/set-password.dto';
 import type { Request, Response } from 'express';
 
 @Controller('auth')
 export class AuthController {
   private readonly logger = new Logger(AuthController.name);
 
-  constructor(private readonly authService: AuthService) { }
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginAttemptService: LoginAttemptService,
+    private readonly passwordTokenService: PasswordTokenService,
+  ) {}
+
+  // Log the admin in, for 30 days with "Remember Me"
+  private startSession(req: Request, adminId: string, remember?: boolean) {
+    delete req.session.pendingTwoFactor;
+    req.session.adminId = adminId;
+
+    if (remember) {
+      req.session.cookie.maxAge = 30 * 24 * 60 * 60 * 1000;
+    }
+  }
+
+  // Admin whose password was accepted, if the two-factor step hasn't timed out
+  private getPendingTwoFactor(req: Request) {
+    const pending = req.session?.pendingTwoFactor;
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session?.pendingTwoFactor;
+      return null;
+    }
+
+    return pending;
+  }
+
+  // Challenge page, or the enrolment QR code when 2FA is mandatory
+  private async renderTwoFactorPage(
+    res: Response,
+    adminId: string,
+    error: string | null,
+  ) {
+    const step = await this.twoFactorService.getLoginStep(adminId);
+    const enrolment =
+      step === 'enrol'
+        ? await this.twoFactorService.startEnrolment(adminId)
+        : null;
+
+    return res
+      .status(error ? HttpStatus.UNAUTHORIZED : HttpStatus.OK)
+      .render('auth/two-factor', {
+        title: enrolment
+          ? 'Set Up Two-Factor Authentication'
+          : 'Two-Factor Authentication',
+        enrolment,
+        recoveryCodes: null,
+        error,
+        layout: false,
+      });
+  }
+
+  // New-password form for a reset or invite link, or why the link can't be used
+  private async renderSetPasswordPage(
+    res: Response,
+    token: string,
+    errors: string[],
+  ) {
+    try {
+      const passwordToken =
+        await this.passwordTokenService.findValidToken(token);
+      const invite = passwordToken.purpose === PasswordTokenPurpose.INVITE;
+
+      return res
+        .status(errors.length > 0 ? HttpStatus.BAD_REQUEST : HttpStatus.OK)
+        .render('auth/set-password', {
+          title: invite ? 'Accept Invite' : 'Reset Password',
+          token,
+          invite,
+          email: passwordToken.admin.email,
+          policy: PASSWORD_POLICY,
+          errors,
+          layout: false,
+        });
+    } catch (error) {
+      return res.status(HttpStatus.BAD_REQUEST).render('auth/set-password', {
+        title: 'Link Expired',
+        token: null,
+        invite: false,
+        email: null,
+        policy: PASSWORD_POLICY,
+        errors: [error instanceof Error ? error.message : 'Invalid link.'],
+        layout: false,
+      });
+    }
+  }
 
   // GET /auth/login
   @Get('login')
@@ -55,18 +153,40 @@ export class AuthController {
     @Res() res: Response,
     @Req() req: Request,
   ) {
+    const client = LoginAttemptHelper.clientOf(req);
+
     try {
       // Validate credentials
-      const admin = await this.authService.validateAdminCredentials(loginDto);
+      const admin = await this.authService.validateAdminCredentials(
+        loginDto,
+        client,
+      );
+
+      // Second step before the session is created
+      const step = await this.twoFactorService.getLoginStep(admin.id);
 
-      // Store admin ID in session
-      session.adminId = admin.id;
+      if (step !== 'none') {
+        session.pendingTwoFactor = {
+          adminId: admin.id,
+          email: admin.email,
+          remember: !!loginDto.remember,
+          expiresAt: Date.now() + PENDING_TWO_FACTOR_TTL,
+        };
 
-      // Handle "Remember Me"
-      if (loginDto.remember) {
-        req.session.cookie.maxAge = 30 * 24 * 60 * 60 * 1000;
+        this.logger.log(
+          `Password accepted for ${admin.email}, two-factor ${step} pending`,
+        );
+
+        return res.redirect('/auth/two-factor');
       }
 
+      this.startSession(req, admin.id, loginDto.remember);
+      await this.loginAttemptService.recordSuccess(
+        admin.email,
+        client,
+        admin.id,
+      );
+
       this.logger.log(
         `Admin login successful: ${admin.email} (ID: ${admin.id}) from IP: ${req.ip}`,
       );
@@ -77,7 +197,13 @@ export class AuthController {
       this.logger.warn(
         `Failed login attempt for email: ${loginDto.email} from IP: ${req.ip}`,
       );
-      return res.status(HttpStatus.UNAUTHORIZED).render('auth/login', {
+      // 429 while the email or IP is delayed or locked
+      const status =
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.UNAUTHORIZED;
+
+      return res.status(status).render('auth/login', {
         title: 'Admin Login',
         error:
           error instanceof Error
@@ -89,6 +215,208 @@ export class AuthController {
     }
   }
 
+  // GET /auth/forgot-password
+  @Get('forgot-password')
+  async getForgotPasswordPage(
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    if (session?.adminId) {
+      return res.redirect('/dashboard');
+    }
+
+    return res.render('auth/forgot-password', {
+      title: 'Forgot Password',
+      sent: false,
+      error: null,
+      email: '',
+      layout: false,
+    });
+  }
+
+  // POST /auth/forgot-password
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ short: { limit: 3, ttl: 60000 } })
+  async requestPasswordReset(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+    @Res() res: Response,
+    @Req() req: Request,
+  ) {
+    try {
+      await this.passwordTokenService.requestReset(forgotPasswordDto.email);
+
+      this.logger.log(
+        `Password reset requested for ${forgotPasswordDto.email} from IP: ${req.ip}`,
+      );
+
+      // Same answer whether or not the email has an account
+      return res.render('auth/forgot-password', {
+        title: 'Forgot Password',
+        sent: true,
+        error: null,
+        email: forgotPasswordDto.email,
+        layout: false,
+      });
+    } catch (error) {
+      return res.status(HttpStatus.BAD_REQUEST).render('auth/forgot-password', {
+        title: 'Forgot Password',
+        sent: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Could not send the reset link. Please try again.',
+        email: forgotPasswordDto.email,
+        layout: false,
+      });
+    }
+  }
+
+  // GET /auth/set-password?token=...
+  @Get('set-password')
+  async getSetPasswordPage(
+    @Query('token') token: string,
+    @Res() res: Response,
+  ) {
+    return this.renderSetPasswordPage(res, token || '', []);
+  }
+
+  // POST /auth/set-password
+  @Post('set-password')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  async setPassword(
+    @Body() setPasswordDto: SetPasswordDto,
+    @Res() res: Response,
+    @Req() req: Request,
+  ) {
+    try {
+      await this.passwordTokenService.setPassword(setPasswordDto);
+    } catch (error) {
+      // Weak passwords come back as one message per broken rule
+      const errors =
+        error instanceof BadRequestException
+          ? [
+              (error.getResponse() as { message: string | string[] }).message,
+            ].flat()
+          : ['Could not set the password. Please try again.'];
+
+      return this.renderSetPasswordPage(res, setPasswordDto.token, errors);
+    }
+
+    this.logger.log(`Password set through emailed link from IP: ${req.ip}`);
+
+    return res.render('auth/login', {
+      title: 'Admin Login',
+      success: 'Your password has been set. Sign in with it now.',
+      error: null,
+      email: '',
+      layout: false,
+    });
+  }
+
+  // GET /auth/two-factor
+  @Get('two-factor')
+  async getTwoFactorPage(@Req() req: Request, @Res() res: Response) {
+    const pending = this.getPendingTwoFactor(req);
+
+    if (!pending) {
+      return res.redirect('/auth/login');
+    }
+
+    return this.renderTwoFactorPage(res, pending.adminId, null);
+  }
+
+  // POST /auth/two-factor
+  @Post('two-factor')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ short: { limit: 5, ttl: 60000 } })
+  async verifyTwoFactor(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const pending = this.getPendingTwoFactor(req);
+
+    if (!pending) {
+      return res.redirect('/auth/login');
+    }
+
+    const client = LoginAttemptHelper.clientOf(req);
+
+    // Locked or delayed: refuse without checking the code
+    try {
+      await this.loginAttemptService.assertAllowed(pending.email, client);
+    } catch (error) {
+      return this.renderTwoFactorPage(res, pending.adminId, error.message);
+    }
+
+    try {
+      const step = await this.twoFactorService.getLoginStep(pending.adminId);
+
+      // Mandatory 2FA: confirm enrolment, then show the recovery codes once
+      if (step === 'enrol') {
+        const recoveryCodes = await this.twoFactorService.enable(
+          pending.adminId,
+          twoFactorCodeDto.code,
+        );
+        this.startSession(req, pending.adminId, pending.remember);
+        await this.loginAttemptService.recordSuccess(
+          pending.email,
+          client,
+          pending.adminId,
+        );
+
+        this.logger.log(
+          `Admin ${pending.adminId} enrolled in two-factor authentication at login from IP: ${req.ip}`,
+        );
+
+        return res.render('auth/two-factor', {
+          title: 'Recovery Codes',
+          enrolment: null,
+          recoveryCodes,
+          error: null,
+          layout: false,
+        });
+      }
+
+      await this.twoFactorService.verify(
+        pending.adminId,
+        twoFactorCodeDto.code,
+      );
+      this.startSession(req, pending.adminId, pending.remember);
+      await this.loginAttemptService.recordSuccess(
+        pending.email,
+        client,
+        pending.adminId,
+      );
+
+      this.logger.log(
+        `Admin login successful with two-factor: ${pending.adminId} from IP: ${req.ip}`,
+      );
+
+      return res.redirect('/dashboard');
+    } catch (error) {
+      this.logger.warn(
+        `Failed two-factor attempt for admin ${pending.adminId} from IP: ${req.ip}`,
+      );
+
+      // Wrong codes count towards the lockout like wrong passwords
+      await this.loginAttemptService.recordFailure(
+        pending.email,
+        client,
+        LoginAttemptOutcome.INVALID_TWO_FACTOR,
+        pending.adminId,
+      );
+
+      return this.renderTwoFactorPage(
+        res,
+        pending.adminId,
+        error instanceof Error ? error.message : 'Verification failed.',
+      );
+    }
+  }
+
   // GET /auth/logout
   @Get('logout')
   async logoutAdmin(@Req() req: Request, @Res() res: Response) {
@@ -1,11 +1,42 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { SettingModule } from 'src/settings/setting.module';
+import { MailModule } from 'src/mail/mail.module';
 import { AuthService } from './auth.service';
+import { ApiTokenService } from './api-token.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { PasswordTokenService } from './password-token.service';
 import { AuthController } from './auth.controller';
 import { AuthApiController } from './auth-api.controller';
+import { ApiTokenController } from './api-token.controller';
+import { AccountSecurityController } from './account-security.controller';
+import { SecurityLogController } from './security-log.controller';
+import { SecurityLogApiController } from './security-log-api.controller';
+import { ApiTokenGuard } from './guards/api-token.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
 
 @Module({
-  controllers: [AuthController, AuthApiController],
-  providers: [AuthService],
-  exports: [AuthService],
+  imports: [SettingModule, MailModule],
+  controllers: [
+    AuthController,
+    AuthApiController,
+    ApiTokenController,
+    AccountSecurityController,
+    SecurityLogController,
+    SecurityLogApiController,
+  ],
+  providers: [
+    AuthService,
+    ApiTokenService,
+    TwoFactorService,
+    LoginAttemptService,
+    PasswordTokenService,
+    // Bearer tokens on /api/* routes, resolved before permissions are checked
+    { provide: APP_GUARD, useClass: ApiTokenGuard },
+    // Role permissions for every route, see @RequirePermissions
+    { provide: APP_GUARD, useClass: PermissionsGuard },
+  ],
+  exports: [AuthService, TwoFactorService, PasswordTokenService],
 })
 export class AuthModule {}
@@ -5,31 +5,50 @@ import {
   NotFoundException,
   Logger,
 } from '@nestjs/common';
+import { AdminRole, LoginAttemptOutcome, Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import * as bcrypt from 'bcrypt';
 import { LoginDto } from './dto/login.dto';
+import { LoginAttemptService } from './login-attempt.service';
+import { LoginAttemptHelper, LoginClient } from './login-attempt.helper';
 
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loginAttemptService: LoginAttemptService,
+  ) {}
 
   /**
    * Validate admin login credentials
+   * Every failure is recorded per email and IP; too many in a row delay and
+   * then lock further attempts. Success is recorded by the caller once the
+   * login is complete, after the two-factor step if there is one.
    * @param loginDto - Email and password from login form
+   * @param client - IP address and user agent of the attempt
    * @returns Admin data without password hash
    * @throws UnauthorizedException if credentials are invalid or account is inactive
+   * @throws HttpException 429 while the email or IP has to wait or is locked
    */
-  async validateAdminCredentials(loginDto: LoginDto) {
-    const { email, password } = loginDto;
+  async validateAdminCredentials(loginDto: LoginDto, client: LoginClient) {
+    const { password } = loginDto;
+    const email = LoginAttemptHelper.normalizeEmail(loginDto.email);
+
+    await this.loginAttemptService.assertAllowed(email, client);
 
     const admin = await this.prisma.admin.findUnique({
-      where: { email: email.toLowerCase().trim() },
+      where: { email },
     });
 
     if (!admin) {
       this.logger.warn(`Login attempt with non-existent email: ${email}`);
+      await this.loginAttemptService.recordFailure(
+        email,
+        client,
+        LoginAttemptOutcome.UNKNOWN_EMAIL,
+      );
       throw new UnauthorizedException(
         'Invalid email or password. Please check your credentials.',
       );
@@ -39,6 +58,12 @@ export class AuthService {
       this.logger.warn(
         `Login attempt for inactive account: ${email} (ID: ${admin.id})`,
       );
+      await this.loginAttemptService.recordFailure(
+        email,
+        client,
+        LoginAttemptOutcome.INACTIVE_ACCOUNT,
+        admin.id,
+      );
       throw new UnauthorizedException(
         'Your account has been deactivated. Please contact the administrator.',
       );
@@ -48,12 +73,24 @@ export class AuthService {
 
     if (!isPasswordValid) {
       this.logger.warn(`Invalid password attempt for email: ${email}`);
+      await this.loginAttemptService.recordFailure(
+        email,
+        client,
+        LoginAttemptOutcome.INVALID_PASSWORD,
+        admin.id,
+      );
       throw new UnauthorizedException(
         'Invalid email or password. Please check your credentials.',
       );
     }
 
-    const { passwordHash, ...adminWithoutPassword } = admin;
+    // The password hash and 2FA secret never leave the service
+    const {
+      passwordHash,
+      twoFactorSecret,
+      twoFactorLastStep,
+      ...adminWithoutPassword
+    } = admin;
 
     this.logger.log(
       `Admin authenticated successfully: ${admin.email} (ID: ${admin.id})`,
@@ -75,6 +112,7 @@ export class AuthService {
         id: true,
         email: true,
         name: true,
+        role: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -94,9 +132,15 @@ export class AuthService {
    * @param email - Admin email
    * @param password - Plain text password (will be hashed)
    * @param name - Admin name (optional)
+   * @param role - Admin role, decides permissions (default: read-only)
    * @returns Created admin data without password hash
    */
-  async createAdmin(email: string, password: string, name?: string) {
+  async createAdmin(
+    email: string,
+    password: string,
+    name?: string,
+    role: AdminRole = AdminRole.READ_ONLY,
+  ) {
     const saltRounds = 10;
     const passwordHash = await bcrypt.hash(password, saltRounds);
 
@@ -105,6 +149,7 @@ export class AuthService {
         email: email.toLowerCase().trim(),
         passwordHash,
         name: name || null,
+        role,
         isActive: true,
       },
     });
@@ -116,13 +161,38 @@ export class AuthService {
     return adminWithoutPassword;
   }
 
+  /**
+   * Replace an admin's password
+   * @param id - Admin UUID
+   * @param password - Plain text password (will be hashed)
+   */
+  async updateAdminPassword(id: string, password: string) {
+    const saltRounds = 10;
+    const passwordHash = await bcrypt.hash(password, saltRounds);
+
+    const admin = await this.prisma.admin.update({
+      where: { id },
+      data: { passwordHash },
+      select: { id: true, email: true },
+    });
+
+    this.logger.log(`Password updated for admin: ${admin.email}`);
+
+    return admin;
+  }
+
   /**
    * Update admin active status
    * @param id - Admin UUID
    * @param isActive - New active status
+   * @param tx - Transaction to run in, if any
    */
-  async updateAdminStatus(id: string, isActive: boolean) {
-    const admin = await this.prisma.admin.update({
+  async updateAdminStatus(
+    id: string,
+    isActive: boolean,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const admin = await tx.admin.update({
       where: { id },
       data: { isActive },
       select: {
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../permission.helper';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Permissions the current admin needs for the route (all of them)
+ * Enforced by PermissionsGuard; combine with AuthGuard or ApiAuthGuard.
+ */
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,53 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+import { Permission } from '../permission.helper';
+
+/**
+ * Create API Token DTO
+ * A token for scripts and integrations calling the JSON API
+ */
+export class CreateApiTokenDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  name: string;
+
+  // Omit for a read-only token
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === undefined || value === null
+      ? undefined
+      : ([] as string[]).concat(value).filter((scope) => !!scope),
+  )
+  @IsArray({ message: 'Scopes must be an array' })
+  @IsIn(Object.values(Permission), {
+    each: true,
+    message: `Each scope must be one of: ${Object.values(Permission).join(', ')}`,
+  })
+  scopes?: Permission[];
+
+  // Omit for a token that never expires
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsDateString({}, { message: 'Expiry must be a valid date' })
+  expiresAt?: string;
+
+  // Admin the token acts as; defaults to the one creating it
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsUUID('4', { message: 'Admin ID must be a valid UUID' })
+  adminId?: string;
+}
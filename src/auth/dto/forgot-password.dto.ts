@@ -0,0 +1,14 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import { IsEmail, IsNotEmpty } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/**
+ * Forgot Password DTO
+ * Email to send a reset link to, if it belongs to an active admin
+ */
+export class ForgotPasswordDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  @Transform(({ value }) => value?.toLowerCase().trim())
+  email: string;
+}
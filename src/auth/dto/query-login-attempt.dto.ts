@@ -0,0 +1,52 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsIP,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { LoginAttemptOutcome } from '@prisma/client';
+
+export class QueryLoginAttemptDto {
+  @IsOptional()
+  @IsString({ message: 'Email must be a string' })
+  @MaxLength(255, { message: 'Email must not exceed 255 characters' })
+  email?: string; // Partial match
+
+  @IsOptional()
+  @IsIP(undefined, { message: 'IP address must be a valid IP address' })
+  ipAddress?: string;
+
+  @IsOptional()
+  @IsEnum(LoginAttemptOutcome, {
+    message:
+      'Outcome must be one of: SUCCESS, INVALID_PASSWORD, UNKNOWN_EMAIL, INACTIVE_ACCOUNT, INVALID_TWO_FACTOR, BLOCKED',
+  })
+  outcome?: LoginAttemptOutcome;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'From date must be a valid date' })
+  dateFrom?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'To date must be a valid date' })
+  dateTo?: string; // Inclusive
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  limit?: number = 25;
+}
@@ -0,0 +1,25 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Set Password DTO
+ * New password chosen through a reset or invite link. Strength rules are
+ * checked by PasswordHelper so every broken rule can be listed at once.
+ */
+export class SetPasswordDto {
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  @MaxLength(100, { message: 'Token must not exceed 100 characters' })
+  token: string;
+
+  @IsString({ message: 'Password must be a string' })
+  @IsNotEmpty({ message: 'Password is required' })
+  @MaxLength(100, { message: 'Password must not exceed 100 characters' })
+  password: string;
+
+  @IsString({ message: 'Password confirmation must be a string' })
+  @IsNotEmpty({ message: 'Password confirmation is required' })
+  @MaxLength(100, {
+    message: 'Password confirmation must not exceed 100 characters',
+  })
+  confirmPassword: string;
+}
@@ -0,0 +1,17 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/**
+ * Two-Factor Code DTO
+ * A 6-digit authenticator code, or a recovery code where accepted
+ */
+export class TwoFactorCodeDto {
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  @MaxLength(20, { message: 'Code must not exceed 20 characters' })
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.replace(/\s/g, '') : value,
+  )
+  code: string;
+}
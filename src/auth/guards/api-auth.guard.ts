@@ -1,9 +1,9 @@
 import {
-    CanActivate,
-    ExecutionContext,
-    Injectable,
-    Logger,
-    UnauthorizedException,
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import type { Request } from 'express';
@@ -12,67 +12,78 @@ import type { Request } from 'express';
  * ApiAuthGuard
  * Protects API routes that require authentication
  * Throws UnauthorizedException (401) for unauthenticated requests
+ * Accepts a session or an API token resolved by ApiTokenGuard
  * Use this guard for /api/* routes
  */
 @Injectable()
 export class ApiAuthGuard implements CanActivate {
-    private readonly logger = new Logger(ApiAuthGuard.name);
-    private readonly SESSION_MAX_AGE = 24 * 60 * 60 * 1000;
+  private readonly logger = new Logger(ApiAuthGuard.name);
+  private readonly SESSION_MAX_AGE = 24 * 60 * 60 * 1000;
 
-    canActivate(
-        context: ExecutionContext,
-    ): boolean | Promise<boolean> | Observable<boolean> {
-        const request = context.switchToHttp().getRequest<Request>();
-        const session = request.session;
+  canActivate(
+    context: ExecutionContext,
+  ): boolean | Promise<boolean> | Observable<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const session = request.session;
 
-        const { method, url, ip } = request;
+    const { method, url, ip } = request;
 
-        // Check if session exists and has adminId
-        if (!session || !session.adminId) {
-            this.logger.warn(
-                `Unauthorized API access attempt: ${method} ${url} from IP: ${ip}`,
-            );
+    // Bearer token already verified by the global ApiTokenGuard
+    if (request.apiToken) {
+      this.logger.debug(
+        `Authenticated API request: ${method} ${url} by API token: ${request.apiToken.name}`,
+      );
 
-            throw new UnauthorizedException({
-                success: false,
-                message: 'Authentication required. Please login first.',
-                error: 'Unauthorized',
-                statusCode: 401,
-            });
-        }
+      return true;
+    }
 
-        // Check session expiry
-        const sessionCreatedAt = session.cookie?.expires
-            ? new Date(session.cookie.expires).getTime() -
-            (session.cookie.maxAge || this.SESSION_MAX_AGE)
-            : Date.now();
+    // Check if session exists and has adminId
+    if (!session || !session.adminId) {
+      this.logger.warn(
+        `Unauthorized API access attempt: ${method} ${url} from IP: ${ip}`,
+      );
 
-        const sessionAge = Date.now() - sessionCreatedAt;
+      throw new UnauthorizedException({
+        success: false,
+        message:
+          'Authentication required. Please login first or send an API token.',
+        error: 'Unauthorized',
+        statusCode: 401,
+      });
+    }
 
-        if (sessionAge > this.SESSION_MAX_AGE) {
-            this.logger.warn(
-                `Expired session detected for admin: ${session.adminId} (age: ${Math.round(sessionAge / 1000 / 60)} minutes)`,
-            );
+    // Check session expiry
+    const sessionCreatedAt = session.cookie?.expires
+      ? new Date(session.cookie.expires).getTime() -
+        (session.cookie.maxAge || this.SESSION_MAX_AGE)
+      : Date.now();
 
-            // Destroy session
-            request.session.destroy((err) => {
-                if (err) {
-                    this.logger.error('Failed to destroy expired session:', err);
-                }
-            });
+    const sessionAge = Date.now() - sessionCreatedAt;
 
-            throw new UnauthorizedException({
-                success: false,
-                message: 'Session expired. Please login again.',
-                error: 'Unauthorized',
-                statusCode: 401,
-            });
-        }
+    if (sessionAge > this.SESSION_MAX_AGE) {
+      this.logger.warn(
+        `Expired session detected for admin: ${session.adminId} (age: ${Math.round(sessionAge / 1000 / 60)} minutes)`,
+      );
 
-        this.logger.debug(
-            `Authenticated API request: ${method} ${url} by admin: ${session.adminId}`,
-        );
+      // Destroy session
+      request.session.destroy((err) => {
+        if (err) {
+          this.logger.error('Failed to destroy expired session:', err);
+        }
+      });
 
-        return true;
+      throw new UnauthorizedException({
+        success: false,
+        message: 'Session expired. Please login again.',
+        error: 'Unauthorized',
+        statusCode: 401,
+      });
     }
+
+    this.logger.debug(
+      `Authenticated API request: ${method} ${url} by admin: ${session.adminId}`,
+    );
+
+    return true;
+  }
 }
@@ -0,0 +1,32 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import type { Request } from 'express';
+import { ApiTokenService } from '../api-token.service';
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+
+/**
+ * ApiTokenGuard
+ * Registered globally ahead of PermissionsGuard; resolves an
+ * `Authorization: Bearer` token on /api/* routes into `request.apiToken`,
+ * which ApiAuthGuard accepts in place of a session. Pages ignore tokens.
+ */
+@Injectable()
+export class ApiTokenGuard implements CanActivate {
+  constructor(private readonly apiTokenService: ApiTokenService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const match = BEARER_PATTERN.exec(request.get('Authorization') ?? '');
+
+    if (!match || !request.originalUrl.startsWith('/api/')) {
+      return true;
+    }
+
+    request.apiToken = await this.apiTokenService.authenticate(
+      match[1],
+      request.ip ?? null,
+    );
+
+    return true;
+  }
+}
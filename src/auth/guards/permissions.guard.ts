@@ -0,0 +1,144 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import {
+  Permission,
+  PermissionHelper,
+  ROLE_LABELS,
+} from '../permission.helper';
+import { ApiTokenHelper } from '../api-token.helper';
+
+const FORBIDDEN_MESSAGE = 'You do not have permission to perform this action.';
+
+/**
+ * PermissionsGuard
+ * Registered globally; checks @RequirePermissions against the role of the
+ * logged-in admin and signs out deactivated admins. API token requests are
+ * also limited to the token's scopes. Requests without a session or token
+ * are left to AuthGuard and ApiAuthGuard. Also exposes
+ * `currentAdmin` and `can()` to the views so they can hide actions the admin
+ * cannot perform.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  private readonly logger = new Logger(PermissionsGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const { apiToken } = request;
+    const adminId = apiToken?.adminId ?? request.session?.adminId;
+
+    if (!adminId) {
+      return true;
+    }
+
+    const required =
+      this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+
+    const admin = await this.prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { id: true, name: true, email: true, role: true, isActive: true },
+    });
+
+    // Deactivated admins are signed out on their next request
+    if (!admin?.isActive) {
+      return this.endSession(request, response, adminId);
+    }
+
+    response.locals.currentAdmin = {
+      ...admin,
+      roleLabel: ROLE_LABELS[admin.role],
+    };
+    response.locals.can = (permission: Permission) =>
+      PermissionHelper.can(admin.role, permission);
+
+    const missing = apiToken
+      ? ApiTokenHelper.missing(admin.role, apiToken.scopes, required)
+      : PermissionHelper.missing(admin.role, required);
+
+    if (missing.length === 0) {
+      return true;
+    }
+
+    const { method, originalUrl } = request;
+
+    const actor = apiToken
+      ? `API token ${apiToken.name} of admin ${adminId}`
+      : `admin ${adminId}`;
+
+    this.logger.warn(
+      `Forbidden: ${method} ${originalUrl} by ${actor} (${admin.role}) missing ${missing.join(', ')}`,
+    );
+
+    if (originalUrl.startsWith('/api/')) {
+      throw new ForbiddenException({
+        success: false,
+        message: FORBIDDEN_MESSAGE,
+        error: 'Forbidden',
+        statusCode: 403,
+      });
+    }
+
+    // Pages go back to where the admin came from, never to the same route
+    let back = '/dashboard';
+    const referer = request.get('Referer');
+
+    if (referer) {
+      const path = new URL(referer, 'http://localhost').pathname;
+      if (path !== request.path) {
+        back = path;
+      }
+    }
+
+    response.redirect(`${back}?error=${encodeURIComponent(FORBIDDEN_MESSAGE)}`);
+    return false;
+  }
+
+  private async endSession(
+    request: Request,
+    response: Response,
+    adminId: string,
+  ): Promise<boolean> {
+    this.logger.warn(`Ending session of inactive admin: ${adminId}`);
+
+    await new Promise<void>((resolve) => {
+      request.session.destroy((err) => {
+        if (err) {
+          this.logger.error('Failed to destroy session:', err);
+        }
+        resolve();
+      });
+    });
+
+    if (request.originalUrl.startsWith('/api/')) {
+      throw new UnauthorizedException({
+        success: false,
+        message: 'Your account has been deactivated.',
+        error: 'Unauthorized',
+        statusCode: 401,
+      });
+    }
+
+    response.clearCookie('sessionId');
+    response.redirect('/auth/login');
+    return false;
+  }
+}
@@ -0,0 +1,52 @@
+import { LOGIN_POLICY, LoginAttemptHelper } from './login-attempt.helper';
+
+describe('LoginAttemptHelper', () => {
+  it('delays attempts progressively after the first failures', () => {
+    expect(LoginAttemptHelper.delayMs(0)).toBe(0);
+    expect(LoginAttemptHelper.delayMs(1)).toBe(0);
+    expect(LoginAttemptHelper.delayMs(2)).toBe(1000);
+    expect(LoginAttemptHelper.delayMs(3)).toBe(2000);
+    expect(LoginAttemptHelper.delayMs(4)).toBe(4000);
+    expect(LoginAttemptHelper.delayMs(50)).toBe(LOGIN_POLICY.maxDelayMs);
+  });
+
+  it('doubles each recent lockout up to a day', () => {
+    expect(LoginAttemptHelper.lockoutMs(0)).toBe(15 * 60 * 1000);
+    expect(LoginAttemptHelper.lockoutMs(1)).toBe(30 * 60 * 1000);
+    expect(LoginAttemptHelper.lockoutMs(2)).toBe(60 * 60 * 1000);
+    expect(LoginAttemptHelper.lockoutMs(10)).toBe(LOGIN_POLICY.maxLockoutMs);
+  });
+
+  it('counts the remaining delay from the last failure', () => {
+    const lastFailureAt = new Date('2026-10-19T12:00:00.000Z');
+
+    expect(
+      LoginAttemptHelper.remainingDelayMs(
+        4,
+        lastFailureAt,
+        new Date('2026-10-19T12:00:01.000Z'),
+      ),
+    ).toBe(3000);
+    expect(
+      LoginAttemptHelper.remainingDelayMs(
+        4,
+        lastFailureAt,
+        new Date('2026-10-19T12:00:05.000Z'),
+      ),
+    ).toBe(0);
+    expect(LoginAttemptHelper.remainingDelayMs(4, null, lastFailureAt)).toBe(0);
+  });
+
+  it('formats waits for error messages', () => {
+    expect(LoginAttemptHelper.formatWait(400)).toBe('1 second');
+    expect(LoginAttemptHelper.formatWait(4000)).toBe('4 seconds');
+    expect(LoginAttemptHelper.formatWait(15 * 60 * 1000)).toBe('15 minutes');
+    expect(LoginAttemptHelper.formatWait(4 * 60 * 60 * 1000)).toBe('4 hours');
+  });
+
+  it('normalizes emails the way admins are stored', () => {
+    expect(LoginAttemptHelper.normalizeEmail('  Owner@Example.COM ')).toBe(
+      'owner@example.com',
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import type { Request } from 'express';
+
+/**
+ * Brute-force protection for the login form
+ * Failures are counted per email and per IP address within a window. After
+ * a few failures per email each attempt must wait longer than the last, and
+ * past the threshold the email (or the IP, across all emails) is locked.
+ * Each lockout within a day lasts twice as long as the previous one.
+ */
+export const LOGIN_POLICY = {
+  windowMs: 15 * 60 * 1000, // Failures older than this are forgotten
+  delayAfter: 2, // Failures per email before delays start
+  maxDelayMs: 30 * 1000,
+  emailLockoutThreshold: 5,
+  ipLockoutThreshold: 20, // Higher: offices share an IP
+  lockoutMs: 15 * 60 * 1000,
+  maxLockoutMs: 24 * 60 * 60 * 1000,
+  escalationWindowMs: 24 * 60 * 60 * 1000, // Earlier lockouts counted for escalation
+} as const;
+
+// Where a login attempt came from, recorded in the security log
+export interface LoginClient {
+  ipAddress: string;
+  userAgent: string | null;
+}
+
+export class LoginAttemptHelper {
+  static normalizeEmail(email: string): string {
+    return email.toLowerCase().trim();
+  }
+
+  static clientOf(req: Request): LoginClient {
+    return {
+      ipAddress: req.ip ?? req.socket?.remoteAddress ?? 'unknown',
+      userAgent: req.get('user-agent')?.slice(0, 255) ?? null,
+    };
+  }
+
+  // Wait required after the latest of `failures` consecutive failures
+  static delayMs(failures: number): number {
+    if (failures < LOGIN_POLICY.delayAfter) {
+      return 0;
+    }
+
+    return Math.min(
+      1000 * 2 ** (failures - LOGIN_POLICY.delayAfter),
+      LOGIN_POLICY.maxDelayMs,
+    );
+  }
+
+  // Length of a new lockout, doubled for each recent earlier one
+  static lockoutMs(previousLockouts: number): number {
+    return Math.min(
+      LOGIN_POLICY.lockoutMs * 2 ** previousLockouts,
+      LOGIN_POLICY.maxLockoutMs,
+    );
+  }
+
+  // Milliseconds until the next attempt is allowed, 0 if it is allowed now
+  static remainingDelayMs(
+    failures: number,
+    lastFailureAt: Date | null,
+    now: Date,
+  ): number {
+    if (!lastFailureAt) {
+      return 0;
+    }
+
+    const allowedAt = lastFailureAt.getTime() + this.delayMs(failures);
+    return Math.max(allowedAt - now.getTime(), 0);
+  }
+
+  // "45 seconds", "15 minutes", "2 hours" for error messages
+  static formatWait(ms: number): string {
+    const seconds = Math.max(Math.ceil(ms / 1000), 1);
+
+    if (seconds < 60) {
+      return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    }
+
+    const minutes = Math.ceil(seconds / 60);
+
+    if (minutes < 120) {
+      return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+    }
+
+    return `${Math.ceil(minutes / 60)} hours`;
+  }
+}
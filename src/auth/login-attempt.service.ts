@@ -0,0 +1,359 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LockoutScope, LoginAttemptOutcome, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  LOGIN_POLICY,
+  LoginAttemptHelper,
+  LoginClient,
+} from './login-attempt.helper';
+import { QueryLoginAttemptDto } from './dto/query-login-attempt.dto';
+
+// Outcomes that count towards delays and lockouts
+const FAILED_OUTCOMES: LoginAttemptOutcome[] = [
+  LoginAttemptOutcome.INVALID_PASSWORD,
+  LoginAttemptOutcome.UNKNOWN_EMAIL,
+  LoginAttemptOutcome.INACTIVE_ACCOUNT,
+  LoginAttemptOutcome.INVALID_TWO_FACTOR,
+];
+
+// How long the security log keeps login attempts
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+const ADMIN_SUMMARY = { select: { id: true, name: true, email: true } };
+
+/**
+ * LoginAttemptService
+ * Records every login attempt per email and IP address, and refuses
+ * attempts during progressive delays and temporary lockouts, see
+ * LOGIN_POLICY. Owners review the attempts in the security log and can lift
+ * a lockout early.
+ */
+@Injectable()
+export class LoginAttemptService {
+  private readonly logger = new Logger(LoginAttemptService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  private async record(
+    email: string,
+    client: LoginClient,
+    outcome: LoginAttemptOutcome,
+    adminId: string | null = null,
+  ) {
+    await this.prisma.loginAttempt.create({
+      data: {
+        email: email.slice(0, 255),
+        ipAddress: client.ipAddress.slice(0, 45),
+        userAgent: client.userAgent,
+        adminId,
+        outcome,
+      },
+    });
+  }
+
+  private async getActiveLockout(scope: LockoutScope, key: string, now: Date) {
+    return this.prisma.loginLockout.findFirst({
+      where: { scope, key, unlockedAt: null, lockedUntil: { gt: now } },
+      orderBy: { lockedUntil: 'desc' },
+    });
+  }
+
+  // Failures in the window since the last lockout and, for an email, since
+  // its last successful login
+  private async countFailures(scope: LockoutScope, key: string, now: Date) {
+    const [lastLockout, lastSuccess] = await Promise.all([
+      this.prisma.loginLockout.findFirst({
+        where: { scope, key },
+        orderBy: { createdAt: 'desc' },
+        select: { createdAt: true },
+      }),
+      scope === LockoutScope.EMAIL
+        ? this.prisma.loginAttempt.findFirst({
+            where: { email: key, outcome: LoginAttemptOutcome.SUCCESS },
+            orderBy: { createdAt: 'desc' },
+            select: { createdAt: true },
+          })
+        : null,
+    ]);
+
+    const since = Math.max(
+      now.getTime() - LOGIN_POLICY.windowMs,
+      lastLockout?.createdAt.getTime() ?? 0,
+      lastSuccess?.createdAt.getTime() ?? 0,
+    );
+
+    const where: Prisma.LoginAttemptWhereInput = {
+      ...(scope === LockoutScope.EMAIL ? { email: key } : { ipAddress: key }),
+      outcome: { in: FAILED_OUTCOMES },
+      createdAt: { gt: new Date(since) },
+    };
+
+    const [count, lastFailure] = await Promise.all([
+      this.prisma.loginAttempt.count({ where }),
+      this.prisma.loginAttempt.findFirst({
+        where,
+        orderBy: { createdAt: 'desc' },
+        select: { createdAt: true },
+      }),
+    ]);
+
+    return { count, lastFailureAt: lastFailure?.createdAt ?? null };
+  }
+
+  private async lock(
+    scope: LockoutScope,
+    key: string,
+    failures: number,
+    now: Date,
+  ) {
+    const previousLockouts = await this.prisma.loginLockout.count({
+      where: {
+        scope,
+        key,
+        createdAt: {
+          gte: new Date(now.getTime() - LOGIN_POLICY.escalationWindowMs),
+        },
+      },
+    });
+    const duration = LoginAttemptHelper.lockoutMs(previousLockouts);
+
+    await this.prisma.loginLockout.create({
+      data: {
+        scope,
+        key,
+        failures,
+        lockedUntil: new Date(now.getTime() + duration),
+      },
+    });
+
+    this.logger.warn(
+      `Login locked for ${scope} ${key} after ${failures} failures, for ${LoginAttemptHelper.formatWait(duration)}`,
+    );
+  }
+
+  /**
+   * Refuse the attempt while the email or IP is locked or still has to wait
+   * Refused attempts are logged as BLOCKED without checking the password.
+   * @throws HttpException 429 with how long to wait
+   */
+  async assertAllowed(email: string, client: LoginClient): Promise<void> {
+    const now = new Date();
+
+    const [emailLockout, ipLockout] = await Promise.all([
+      this.getActiveLockout(LockoutScope.EMAIL, email, now),
+      this.getActiveLockout(LockoutScope.IP, client.ipAddress, now),
+    ]);
+    const lockedUntil = [emailLockout, ipLockout]
+      .map((lockout) => lockout?.lockedUntil.getTime() ?? 0)
+      .reduce((latest, until) => Math.max(latest, until), 0);
+
+    if (lockedUntil > now.getTime()) {
+      await this.record(email, client, LoginAttemptOutcome.BLOCKED);
+      throw new HttpException(
+        `Too many failed login attempts. Try again in ${LoginAttemptHelper.formatWait(lockedUntil - now.getTime())}.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const { count, lastFailureAt } = await this.countFailures(
+      LockoutScope.EMAIL,
+      email,
+      now,
+    );
+    const wait = LoginAttemptHelper.remainingDelayMs(count, lastFailureAt, now);
+
+    if (wait > 0) {
+      await this.record(email, client, LoginAttemptOutcome.BLOCKED);
+      throw new HttpException(
+        `Too many failed login attempts. Wait ${LoginAttemptHelper.formatWait(wait)} before trying again.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Log a failed password or two-factor step, locking the email or IP
+   * once it reaches its threshold
+   */
+  async recordFailure(
+    email: string,
+    client: LoginClient,
+    outcome: LoginAttemptOutcome,
+    adminId: string | null = null,
+  ): Promise<void> {
+    await this.record(email, client, outcome, adminId);
+
+    const now = new Date();
+    const thresholds = [
+      [LockoutScope.EMAIL, email, LOGIN_POLICY.emailLockoutThreshold],
+      [LockoutScope.IP, client.ipAddress, LOGIN_POLICY.ipLockoutThreshold],
+    ] as const;
+
+    for (const [scope, key, threshold] of thresholds) {
+      const { count } = await this.countFailures(scope, key, now);
+
+      if (count >= threshold) {
+        await this.lock(scope, key, count, now);
+      }
+    }
+  }
+
+  /**
+   * Log a completed login, which resets the email's failure count
+   */
+  async recordSuccess(
+    email: string,
+    client: LoginClient,
+    adminId: string,
+  ): Promise<void> {
+    await this.record(email, client, LoginAttemptOutcome.SUCCESS, adminId);
+  }
+
+  /**
+   * Login attempts, newest first, with filters and pagination
+   */
+  async getAttempts(queryDto: QueryLoginAttemptDto) {
+    const {
+      email,
+      ipAddress,
+      outcome,
+      dateFrom,
+      dateTo,
+      page = 1,
+      limit = 25,
+    } = queryDto;
+
+    const where: Prisma.LoginAttemptWhereInput = {};
+
+    if (email) {
+      where.email = { contains: LoginAttemptHelper.normalizeEmail(email) };
+    }
+
+    if (ipAddress) {
+      where.ipAddress = ipAddress;
+    }
+
+    if (outcome) {
+      where.outcome = outcome;
+    }
+
+    if (dateFrom || dateTo) {
+      where.createdAt = {};
+
+      if (dateFrom) {
+        where.createdAt.gte = new Date(`${dateFrom.slice(0, 10)}T00:00:00`);
+      }
+
+      if (dateTo) {
+        where.createdAt.lte = new Date(`${dateTo.slice(0, 10)}T23:59:59.999`);
+      }
+    }
+
+    const [attempts, total] = await Promise.all([
+      this.prisma.loginAttempt.findMany({
+        where,
+        include: { admin: ADMIN_SUMMARY },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.loginAttempt.count({ where }),
+    ]);
+
+    return {
+      data: attempts,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Recent lockouts, newest first, flagged `active` while still in force
+   */
+  async getLockouts(limit = 20) {
+    const now = new Date();
+
+    const lockouts = await this.prisma.loginLockout.findMany({
+      include: { unlockedBy: ADMIN_SUMMARY },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return lockouts.map((lockout) => ({
+      ...lockout,
+      active: !lockout.unlockedAt && lockout.lockedUntil > now,
+    }));
+  }
+
+  /**
+   * Lift a lockout before it expires; the failure count starts over
+   * @throws NotFoundException if the lockout doesn't exist
+   * @throws BadRequestException if it has already ended
+   */
+  async unlock(id: string, adminId: string) {
+    const lockout = await this.prisma.loginLockout.findUnique({
+      where: { id },
+    });
+
+    if (!lockout) {
+      throw new NotFoundException(`Lockout with ID "${id}" not found`);
+    }
+
+    if (lockout.unlockedAt || lockout.lockedUntil <= new Date()) {
+      throw new BadRequestException('This lockout has already ended');
+    }
+
+    const unlocked = await this.prisma.loginLockout.update({
+      where: { id },
+      data: { unlockedAt: new Date(), unlockedById: adminId },
+      include: { unlockedBy: ADMIN_SUMMARY },
+    });
+
+    this.logger.log(
+      `Login unlocked for ${lockout.scope} ${lockout.key} by admin ${adminId}`,
+    );
+
+    return unlocked;
+  }
+
+  /**
+   * Scheduled cleanup, runs daily
+   * Drops attempts and ended lockouts past the retention period
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'login-attempt-prune' })
+  async pruneOldAttempts(): Promise<void> {
+    const cutoff = new Date(Date.now() - RETENTION_MS);
+
+    try {
+      const [attempts, lockouts] = await this.prisma.$transaction([
+        this.prisma.loginAttempt.deleteMany({
+          where: { createdAt: { lt: cutoff } },
+        }),
+        this.prisma.loginLockout.deleteMany({
+          where: { lockedUntil: { lt: cutoff } },
+        }),
+      ]);
+
+      this.logger.log(
+        `Pruned ${attempts.count} login attempts and ${lockouts.count} lockouts`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to prune login attempts: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PasswordTokenPurpose } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { AuthService } from './auth.service';
+import { LoginAttemptHelper } from './login-attempt.helper';
+import { PasswordHelper } from './password.helper';
+import { SetPasswordDto } from './dto/set-password.dto';
+
+const INVALID_LINK =
+  'This link is invalid or has expired. Ask for a new one and use the latest email.';
+
+/**
+ * PasswordTokenService
+ * Emailed links to choose a password: forgotten-password resets and invites
+ * for new admins. Only the token's hash is stored; a link works once, until
+ * it expires, and asking for a new one cancels the previous.
+ */
+@Injectable()
+export class PasswordTokenService {
+  private readonly logger = new Logger(PasswordTokenService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mailService: MailService,
+    private readonly authService: AuthService,
+  ) {}
+
+  // Replace the admin's unused links for `purpose` with a new one
+  private async issue(adminId: string, purpose: PasswordTokenPurpose) {
+    const { token, hash } = PasswordHelper.generateToken();
+    const expiresAt = PasswordHelper.expiresAt(purpose, new Date());
+
+    await this.prisma.$transaction([
+      this.prisma.passwordToken.deleteMany({
+        where: { adminId, purpose, usedAt: null },
+      }),
+      this.prisma.passwordToken.create({
+        data: { adminId, purpose, tokenHash: hash, expiresAt },
+      }),
+    ]);
+
+    return {
+      link: this.mailService.link(
+        `/auth/set-password?token=${encodeURIComponent(token)}`,
+      ),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Email a reset link to an active admin
+   * Unknown and inactive emails are ignored without telling the caller, so
+   * the form cannot be used to find out who has an account.
+   */
+  async requestReset(email: string): Promise<void> {
+    const normalized = LoginAttemptHelper.normalizeEmail(email);
+    const admin = await this.prisma.admin.findUnique({
+      where: { email: normalized },
+      select: { id: true, email: true, isActive: true },
+    });
+
+    if (!admin?.isActive) {
+      this.logger.warn(
+        `Password reset requested for unknown or inactive email: ${normalized}`,
+      );
+      return;
+    }
+
+    const { link, expiresAt } = await this.issue(
+      admin.id,
+      PasswordTokenPurpose.RESET,
+    );
+
+    try {
+      await this.mailService.sendPasswordReset(admin.email, link, expiresAt);
+      this.logger.log(`Password reset link sent to ${admin.email}`);
+    } catch (error) {
+      this.logger.error(
+        `Password reset email to ${admin.email} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Email an invite link so a new admin chooses their own password
+   * Sending again cancels the previous invite.
+   * @param invitedById - Admin sending it, named in the email
+   */
+  async sendInvite(adminId: string, invitedById: string) {
+    const [admin, inviter] = await Promise.all([
+      this.prisma.admin.findUnique({
+        where: { id: adminId },
+        select: { id: true, email: true, isActive: true },
+      }),
+      this.prisma.admin.findUnique({
+        where: { id: invitedById },
+        select: { name: true, email: true },
+      }),
+    ]);
+    const invitedBy = inviter?.name || inviter?.email || 'An owner';
+
+    if (!admin) {
+      throw new NotFoundException(`Admin with ID "${adminId}" not found`);
+    }
+
+    if (!admin.isActive) {
+      throw new BadRequestException(
+        'Reactivate the account before sending an invite',
+      );
+    }
+
+    const { link, expiresAt } = await this.issue(
+      admin.id,
+      PasswordTokenPurpose.INVITE,
+    );
+    await this.mailService.sendInvite(admin.email, link, invitedBy, expiresAt);
+
+    this.logger.log(`Invite sent to ${admin.email} by ${invitedBy}`);
+
+    return { adminId: admin.id, email: admin.email, expiresAt };
+  }
+
+  /**
+   * The unused, unexpired link for `token`, with its admin
+   * @throws BadRequestException when the link cannot be used
+   */
+  async findValidToken(token: string) {
+    const passwordToken = await this.prisma.passwordToken.findUnique({
+      where: { tokenHash: PasswordHelper.hashToken(token) },
+      include: {
+        admin: {
+          select: { id: true, email: true, name: true, isActive: true },
+        },
+      },
+    });
+
+    if (
+      !passwordToken ||
+      passwordToken.usedAt ||
+      passwordToken.expiresAt <= new Date() ||
+      !passwordToken.admin.isActive
+    ) {
+      throw new BadRequestException(INVALID_LINK);
+    }
+
+    return passwordToken;
+  }
+
+  /**
+   * Set the password chosen through a reset or invite link
+   * The link is claimed before the password changes, so two submissions
+   * cannot both use it. Other open links of the admin stop working too.
+   * @throws BadRequestException for unusable links and weak passwords
+   */
+  async setPassword(setPasswordDto: SetPasswordDto) {
+    const { token, password, confirmPassword } = setPasswordDto;
+    const passwordToken = await this.findValidToken(token);
+    const problems = PasswordHelper.checkStrength(
+      password,
+      passwordToken.admin.email,
+    );
+
+    if (password !== confirmPassword) {
+      problems.push('Passwords do not match');
+    }
+
+    if (problems.length > 0) {
+      throw new BadRequestException(problems);
+    }
+
+    const now = new Date();
+    const claimed = await this.prisma.passwordToken.updateMany({
+      where: { id: passwordToken.id, usedAt: null },
+      data: { usedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException(INVALID_LINK);
+    }
+
+    await this.authService.updateAdminPassword(passwordToken.adminId, password);
+    await this.prisma.passwordToken.deleteMany({
+      where: { adminId: passwordToken.adminId, usedAt: null },
+    });
+
+    this.logger.log(
+      `Password set through ${passwordToken.purpose.toLowerCase()} link for ${passwordToken.admin.email}`,
+    );
+
+    return { adminId: passwordToken.adminId, purpose: passwordToken.purpose };
+  }
+
+  /**
+   * Admins who have not accepted their invite yet, with when it expires
+   */
+  async getPendingInvites(): Promise<Map<string, Date>> {
+    const invites = await this.prisma.passwordToken.findMany({
+      where: { purpose: PasswordTokenPurpose.INVITE, usedAt: null },
+      select: { adminId: true, expiresAt: true },
+    });
+
+    return new Map(invites.map((invite) => [invite.adminId, invite.expiresAt]));
+  }
+}
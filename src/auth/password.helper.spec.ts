@@ -0,0 +1,45 @@
+import { PasswordTokenPurpose } from '@prisma/client';
+import { PasswordHelper } from './password.helper';
+
+describe('PasswordHelper', () => {
+  it('generates random tokens and stores only their hash', () => {
+    const first = PasswordHelper.generateToken();
+    const second = PasswordHelper.generateToken();
+
+    expect(first.token).not.toBe(second.token);
+    expect(first.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(first.hash).not.toContain(first.token);
+    expect(PasswordHelper.hashToken(first.token)).toBe(first.hash);
+  });
+
+  it('expires reset links after an hour and invites after a week', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+
+    expect(
+      PasswordHelper.expiresAt(PasswordTokenPurpose.RESET, now).toISOString(),
+    ).toBe('2026-10-19T13:00:00.000Z');
+    expect(
+      PasswordHelper.expiresAt(PasswordTokenPurpose.INVITE, now).toISOString(),
+    ).toBe('2026-10-26T12:00:00.000Z');
+  });
+
+  it('accepts a strong password', () => {
+    expect(
+      PasswordHelper.checkStrength('Harbour-Lights-42', 'owner@example.com'),
+    ).toEqual([]);
+  });
+
+  it('lists every rule a weak password breaks', () => {
+    expect(PasswordHelper.checkStrength('short', 'owner@example.com')).toEqual([
+      'Password must be at least 10 characters long',
+      'Password must contain an uppercase letter',
+      'Password must contain a number',
+    ]);
+  });
+
+  it('rejects passwords containing the email name', () => {
+    expect(
+      PasswordHelper.checkStrength('Ranggadya2026!', 'ranggadya@example.com'),
+    ).toEqual(['Password must not contain your email address']);
+  });
+});
@@ -0,0 +1,72 @@
+import { createHash, randomBytes } from 'crypto';
+import { PasswordTokenPurpose } from '@prisma/client';
+
+/**
+ * Password reset and invite links
+ * Each link carries a random token; only its hash is stored. A link works
+ * once and expires, reset links quickly and invites after a week.
+ */
+export const PASSWORD_POLICY = {
+  minLength: 10,
+  maxLength: 100,
+  tokenTtlMs: {
+    [PasswordTokenPurpose.RESET]: 60 * 60 * 1000,
+    [PasswordTokenPurpose.INVITE]: 7 * 24 * 60 * 60 * 1000,
+  },
+} as const;
+
+export interface GeneratedPasswordToken {
+  token: string; // Only ever in the emailed link
+  hash: string;
+}
+
+export class PasswordHelper {
+  static generateToken(): GeneratedPasswordToken {
+    const token = randomBytes(32).toString('base64url');
+    return { token, hash: this.hashToken(token) };
+  }
+
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  static expiresAt(purpose: PasswordTokenPurpose, now: Date): Date {
+    return new Date(now.getTime() + PASSWORD_POLICY.tokenTtlMs[purpose]);
+  }
+
+  // What is wrong with a new password, empty when it is strong enough
+  static checkStrength(password: string, email: string): string[] {
+    const problems: string[] = [];
+    const localPart = email.split('@')[0].toLowerCase();
+
+    if (password.length < PASSWORD_POLICY.minLength) {
+      problems.push(
+        `Password must be at least ${PASSWORD_POLICY.minLength} characters long`,
+      );
+    }
+
+    if (password.length > PASSWORD_POLICY.maxLength) {
+      problems.push(
+        `Password must not exceed ${PASSWORD_POLICY.maxLength} characters`,
+      );
+    }
+
+    if (!/[a-z]/.test(password)) {
+      problems.push('Password must contain a lowercase letter');
+    }
+
+    if (!/[A-Z]/.test(password)) {
+      problems.push('Password must contain an uppercase letter');
+    }
+
+    if (!/[0-9]/.test(password)) {
+      problems.push('Password must contain a number');
+    }
+
+    if (localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+      problems.push('Password must not contain your email address');
+    }
+
+    return problems;
+  }
+}
@@ -0,0 +1,49 @@
+import { AdminRole } from '@prisma/client';
+import { Permission, PermissionHelper } from './permission.helper';
+
+describe('PermissionHelper', () => {
+  it('gives owners every permission', () => {
+    for (const permission of Object.values(Permission)) {
+      expect(PermissionHelper.can(AdminRole.OWNER, permission)).toBe(true);
+    }
+  });
+
+  it('keeps admin management to owners', () => {
+    expect(
+      PermissionHelper.can(AdminRole.MANAGER, Permission.ADMIN_MANAGE),
+    ).toBe(false);
+    expect(
+      PermissionHelper.can(AdminRole.MANAGER, Permission.VENUE_DELETE),
+    ).toBe(true);
+  });
+
+  it('limits finance and front desk to their areas', () => {
+    expect(
+      PermissionHelper.can(AdminRole.FINANCE, Permission.FINANCE_VIEW),
+    ).toBe(true);
+    expect(
+      PermissionHelper.can(AdminRole.FINANCE, Permission.EVENT_WRITE),
+    ).toBe(false);
+    expect(
+      PermissionHelper.can(AdminRole.FRONT_DESK, Permission.EVENT_WRITE),
+    ).toBe(true);
+    expect(
+      PermissionHelper.can(AdminRole.FRONT_DESK, Permission.EVENT_DELETE),
+    ).toBe(false);
+  });
+
+  it('lists the permissions a role is missing', () => {
+    expect(
+      PermissionHelper.missing(AdminRole.READ_ONLY, [
+        Permission.EVENT_WRITE,
+        Permission.PAYMENT_RECORD,
+      ]),
+    ).toEqual([Permission.EVENT_WRITE, Permission.PAYMENT_RECORD]);
+    expect(
+      PermissionHelper.missing(AdminRole.FRONT_DESK, [
+        Permission.EVENT_WRITE,
+        Permission.PAYMENT_RECORD,
+      ]),
+    ).toEqual([]);
+  });
+});
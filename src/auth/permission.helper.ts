@@ -0,0 +1,56 @@
+import { AdminRole } from '@prisma/client';
+
+/**
+ * Permissions checked by PermissionsGuard for routes marked with
+ * @RequirePermissions. Viewing venues and events needs none.
+ */
+export const Permission = {
+  VENUE_WRITE: 'venue:write', // Create and edit venues and their spaces
+  VENUE_DELETE: 'venue:delete',
+  EVENT_WRITE: 'event:write', // Book, edit and confirm events and series; manage clients
+  EVENT_DELETE: 'event:delete',
+  PAYMENT_RECORD: 'payment:record', // Payments, refunds and invoices
+  PRICING_MANAGE: 'pricing:manage', // Charges, seasonal rules, promo codes and exchange rates
+  FINANCE_VIEW: 'finance:view', // Revenue and financial statistics
+  AUDIT_VIEW: 'audit:view', // Audit log and change history
+  ADMIN_MANAGE: 'admin:manage', // Admin accounts and roles
+} as const;
+
+export type Permission = (typeof Permission)[keyof typeof Permission];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  [AdminRole.OWNER]: Object.values(Permission),
+  [AdminRole.MANAGER]: Object.values(Permission).filter(
+    (permission) => permission !== Permission.ADMIN_MANAGE,
+  ),
+  [AdminRole.FINANCE]: [
+    Permission.PAYMENT_RECORD,
+    Permission.PRICING_MANAGE,
+    Permission.FINANCE_VIEW,
+    Permission.AUDIT_VIEW,
+  ],
+  [AdminRole.FRONT_DESK]: [Permission.EVENT_WRITE, Permission.PAYMENT_RECORD],
+  [AdminRole.READ_ONLY]: [],
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  [AdminRole.OWNER]: 'Owner',
+  [AdminRole.MANAGER]: 'Manager',
+  [AdminRole.FINANCE]: 'Finance',
+  [AdminRole.FRONT_DESK]: 'Front Desk',
+  [AdminRole.READ_ONLY]: 'Read Only',
+};
+
+export class PermissionHelper {
+  static can(role: AdminRole, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  // The `required` permissions that `role` does not have
+  static missing(
+    role: AdminRole,
+    required: readonly Permission[],
+  ): Permission[] {
+    return required.filter((permission) => !this.can(role, permission));
+  }
+}
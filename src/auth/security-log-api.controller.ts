@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Req,
+  Session,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { LoginAttemptService } from './login-attempt.service';
+import { QueryLoginAttemptDto } from './dto/query-login-attempt.dto';
+import { ApiAuthGuard } from './guards/api-auth.guard';
+import { RequirePermissions } from './decorators/require-permissions.decorator';
+import { Permission } from './permission.helper';
+
+@Controller('api/security-log')
+@UseGuards(ApiAuthGuard)
+@RequirePermissions(Permission.ADMIN_MANAGE)
+export class SecurityLogApiController {
+  private readonly logger = new Logger(SecurityLogApiController.name);
+
+  constructor(private readonly loginAttemptService: LoginAttemptService) {}
+
+  /**
+   * GET /api/security-log?email=&ipAddress=&outcome=&dateFrom=&dateTo=
+   * Login attempts, newest first
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getLoginAttempts(@Query() queryDto: QueryLoginAttemptDto) {
+    this.logger.log(`[GET /api/security-log] API: Fetching login attempts`);
+
+    const result = await this.loginAttemptService.getAttempts(queryDto);
+
+    return {
+      success: true,
+      message: 'Login attempts retrieved successfully',
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/security-log/lockouts
+   * Recent lockouts; `active` ones still block logins
+   */
+  @Get('lockouts')
+  @HttpCode(HttpStatus.OK)
+  async getLockouts() {
+    this.logger.log(`[GET /api/security-log/lockouts] API: Fetching lockouts`);
+
+    const lockouts = await this.loginAttemptService.getLockouts();
+
+    return {
+      success: true,
+      message: 'Lockouts retrieved successfully',
+      data: lockouts,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/security-log/lockouts/:id/unlock
+   * Lift a lockout before it expires
+   */
+  @Post('lockouts/:id/unlock')
+  @HttpCode(HttpStatus.OK)
+  async unlock(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    this.logger.log(
+      `[POST /api/security-log/lockouts/${id}/unlock] API: Unlocking`,
+    );
+
+    const lockout = await this.loginAttemptService.unlock(
+      id,
+      req.apiToken?.adminId ?? session.adminId,
+    );
+
+    return {
+      success: true,
+      message: 'Lockout lifted successfully',
+      data: lockout,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,120 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Session,
+  UseGuards,
+  Render,
+  Res,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { LoginAttemptOutcome } from '@prisma/client';
+import { LoginAttemptService } from './login-attempt.service';
+import { QueryLoginAttemptDto } from './dto/query-login-attempt.dto';
+import { AuthGuard } from './guards/auth.guard';
+import { RequirePermissions } from './decorators/require-permissions.decorator';
+import { Permission } from './permission.helper';
+import { LOGIN_POLICY } from './login-attempt.helper';
+
+@Controller('security-log')
+@UseGuards(AuthGuard)
+@RequirePermissions(Permission.ADMIN_MANAGE)
+export class SecurityLogController {
+  private readonly logger = new Logger(SecurityLogController.name);
+
+  constructor(private readonly loginAttemptService: LoginAttemptService) {}
+
+  private async getPageData(queryDto: QueryLoginAttemptDto) {
+    const [result, lockouts] = await Promise.all([
+      this.loginAttemptService.getAttempts(queryDto),
+      this.loginAttemptService.getLockouts(),
+    ]);
+
+    return {
+      title: 'Security Log',
+      attempts: result.data,
+      meta: result.meta,
+      lockouts,
+      outcomes: Object.values(LoginAttemptOutcome),
+      policy: LOGIN_POLICY,
+      query: queryDto,
+    };
+  }
+
+  /**
+   * GET /security-log
+   * Login attempts per email and IP, with lockouts that can be lifted
+   * Renders: views/security-log/list.ejs
+   */
+  @Get()
+  @Render('security-log/list')
+  async getSecurityLogPage(@Query() queryDto: QueryLoginAttemptDto) {
+    this.logger.log(
+      `[GET /security-log] Rendering security log with filters: ${JSON.stringify(queryDto)}`,
+    );
+
+    try {
+      return {
+        ...(await this.getPageData(queryDto)),
+        error: null,
+        success: null,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load security log: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Security Log',
+        attempts: [],
+        meta: { total: 0, page: 1, limit: 25, totalPages: 0 },
+        lockouts: [],
+        outcomes: Object.values(LoginAttemptOutcome),
+        policy: LOGIN_POLICY,
+        query: queryDto,
+        error: 'Failed to load the security log. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /security-log/lockouts/:id/unlock
+  @Post('lockouts/:id/unlock')
+  async unlock(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /security-log/lockouts/${id}/unlock] Unlocking`);
+
+    let success: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const lockout = await this.loginAttemptService.unlock(
+        id,
+        session.adminId,
+      );
+      success = `${lockout.key} unlocked successfully!`;
+    } catch (unlockError) {
+      this.logger.error(
+        `Failed to unlock ${id}: ${unlockError.message}`,
+        unlockError.stack,
+      );
+      error = unlockError.message;
+    }
+
+    // Rendered rather than redirected: the filters don't accept flash params
+    return res.render('security-log/list', {
+      ...(await this.getPageData(new QueryLoginAttemptDto())),
+      error,
+      success,
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import { TwoFactorHelper } from './two-factor.helper';
+
+describe('TwoFactorHelper', () => {
+  // RFC 6238 test secret "12345678901234567890"
+  const secret = TwoFactorHelper.encodeBase32(
+    Buffer.from('12345678901234567890'),
+  );
+
+  it('round-trips base32', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(TwoFactorHelper.decodeBase32(secret).toString()).toBe(
+      '12345678901234567890',
+    );
+  });
+
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    const at = (seconds: number) =>
+      TwoFactorHelper.generateCode(
+        secret,
+        TwoFactorHelper.timeStep(new Date(seconds * 1000)),
+      );
+
+    expect(at(59)).toBe('287082');
+    expect(at(1111111109)).toBe('081804');
+    expect(at(1234567890)).toBe('005924');
+  });
+
+  it('accepts codes from the neighbouring time steps only', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    const step = TwoFactorHelper.timeStep(now);
+
+    expect(
+      TwoFactorHelper.verify(
+        secret,
+        TwoFactorHelper.generateCode(secret, step - 1),
+        now,
+      ),
+    ).toBe(step - 1);
+    expect(
+      TwoFactorHelper.verify(
+        secret,
+        TwoFactorHelper.generateCode(secret, step - 3),
+        now,
+      ),
+    ).toBeNull();
+    expect(TwoFactorHelper.verify(secret, 'abcdef', now)).toBeNull();
+  });
+
+  it('builds an otpauth URI for authenticator apps', () => {
+    expect(TwoFactorHelper.keyUri(secret, 'owner@example.com')).toBe(
+      'otpauth://totp/EventManager%3Aowner%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=EventManager&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+
+  it('generates recovery codes and accepts them with or without the dash', () => {
+    const codes = TwoFactorHelper.generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(TwoFactorHelper.normalizeRecoveryCode(code)).toBe(code);
+      expect(
+        TwoFactorHelper.normalizeRecoveryCode(
+          code.replace('-', '').toUpperCase(),
+        ),
+      ).toBe(code);
+    }
+    expect(TwoFactorHelper.normalizeRecoveryCode('123456')).toBeNull();
+  });
+});
@@ -0,0 +1,335 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../prisma/prisma.service';
+import { SettingService, SETTING_KEYS } from '../settings/setting.service';
+import { TwoFactorHelper } from './two-factor.helper';
+
+// What an admin must do after their password is accepted
+export type TwoFactorLoginStep = 'none' | 'challenge' | 'enrol';
+
+// Time allowed between the password and the two-factor step
+export const PENDING_TWO_FACTOR_TTL = 5 * 60 * 1000;
+
+const TWO_FACTOR_SELECT = {
+  id: true,
+  email: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  twoFactorLastStep: true,
+} as const;
+
+/**
+ * TwoFactorService
+ * TOTP two-factor authentication: enrolment with an authenticator app,
+ * one-time recovery codes and the second login step. Owners can make it
+ * mandatory, in which case admins without it enrol at their next login.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settingService: SettingService,
+  ) {}
+
+  private async getAdmin(adminId: string) {
+    const admin = await this.prisma.admin.findUnique({
+      where: { id: adminId },
+      select: TWO_FACTOR_SELECT,
+    });
+
+    if (!admin) {
+      throw new NotFoundException('Admin account not found');
+    }
+
+    return admin;
+  }
+
+  // Replace the admin's recovery codes, returning the new ones in clear
+  private async issueRecoveryCodes(adminId: string): Promise<string[]> {
+    const codes = TwoFactorHelper.generateRecoveryCodes();
+    const hashes = await Promise.all(
+      codes.map((code) => bcrypt.hash(code, 10)),
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.recoveryCode.deleteMany({ where: { adminId } }),
+      this.prisma.recoveryCode.createMany({
+        data: hashes.map((codeHash) => ({ adminId, codeHash })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  // Accept a current authenticator code once; returns false if it's wrong
+  private async useTotpCode(
+    admin: { id: string; twoFactorSecret: string | null },
+    code: string,
+  ): Promise<boolean> {
+    if (!admin.twoFactorSecret) {
+      return false;
+    }
+
+    const step = TwoFactorHelper.verify(
+      admin.twoFactorSecret,
+      code,
+      new Date(),
+    );
+
+    if (step === null) {
+      return false;
+    }
+
+    // Conditional update so the same code can't be used twice, even concurrently
+    const { count } = await this.prisma.admin.updateMany({
+      where: {
+        id: admin.id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+
+    if (count === 0) {
+      throw new UnauthorizedException(
+        'This code has already been used. Wait for the next one.',
+      );
+    }
+
+    return true;
+  }
+
+  private async ensureCode(
+    admin: { id: string; twoFactorSecret: string | null },
+    code: string,
+  ): Promise<void> {
+    if (!(await this.useTotpCode(admin, code))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+  }
+
+  async isRequired(): Promise<boolean> {
+    return this.settingService.getBoolean(SETTING_KEYS.REQUIRE_TWO_FACTOR);
+  }
+
+  /**
+   * Make 2FA mandatory for every admin, or optional again
+   * Applies from each admin's next login.
+   */
+  async setRequired(required: boolean): Promise<void> {
+    await this.settingService.setBoolean(
+      SETTING_KEYS.REQUIRE_TWO_FACTOR,
+      required,
+    );
+  }
+
+  async getLoginStep(adminId: string): Promise<TwoFactorLoginStep> {
+    const admin = await this.getAdmin(adminId);
+
+    if (admin.twoFactorEnabledAt) {
+      return 'challenge';
+    }
+
+    return (await this.isRequired()) ? 'enrol' : 'none';
+  }
+
+  /**
+   * 2FA state of an admin, including the pending secret while enrolling
+   */
+  async getStatus(adminId: string) {
+    const admin = await this.getAdmin(adminId);
+    const secret = admin.twoFactorSecret;
+
+    return {
+      enabled: !!admin.twoFactorEnabledAt,
+      enabledAt: admin.twoFactorEnabledAt,
+      required: await this.isRequired(),
+      recoveryCodesLeft: admin.twoFactorEnabledAt
+        ? await this.prisma.recoveryCode.count({
+            where: { adminId, usedAt: null },
+          })
+        : 0,
+      enrolment:
+        !admin.twoFactorEnabledAt && secret
+          ? { secret, keyUri: TwoFactorHelper.keyUri(secret, admin.email) }
+          : null,
+    };
+  }
+
+  /**
+   * Start (or resume) enrolment with a new secret for the authenticator app
+   * 2FA is only switched on once a code from the app is confirmed.
+   */
+  async startEnrolment(adminId: string) {
+    const admin = await this.getAdmin(adminId);
+
+    if (admin.twoFactorEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    let secret = admin.twoFactorSecret;
+
+    if (!secret) {
+      secret = TwoFactorHelper.generateSecret();
+      await this.prisma.admin.update({
+        where: { id: adminId },
+        data: { twoFactorSecret: secret, twoFactorLastStep: null },
+      });
+    }
+
+    return { secret, keyUri: TwoFactorHelper.keyUri(secret, admin.email) };
+  }
+
+  /**
+   * Abandon an enrolment that was never confirmed
+   */
+  async cancelEnrolment(adminId: string): Promise<void> {
+    await this.prisma.admin.updateMany({
+      where: { id: adminId, twoFactorEnabledAt: null },
+      data: { twoFactorSecret: null, twoFactorLastStep: null },
+    });
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app
+   * @returns Recovery codes, shown to the admin once
+   */
+  async enable(adminId: string, code: string): Promise<string[]> {
+    const admin = await this.getAdmin(adminId);
+
+    if (admin.twoFactorEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    if (!admin.twoFactorSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+
+    await this.ensureCode(admin, code);
+
+    await this.prisma.admin.update({
+      where: { id: adminId },
+      data: { twoFactorEnabledAt: new Date() },
+    });
+    const recoveryCodes = await this.issueRecoveryCodes(adminId);
+
+    this.logger.log(`Two-factor authentication enabled for ${admin.email}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Second login step: an authenticator code or an unused recovery code
+   * @throws UnauthorizedException if neither matches
+   */
+  async verify(adminId: string, code: string) {
+    const admin = await this.getAdmin(adminId);
+
+    if (!admin.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    if (await this.useTotpCode(admin, code)) {
+      return { usedRecoveryCode: false };
+    }
+
+    const recoveryCode = TwoFactorHelper.normalizeRecoveryCode(code);
+
+    if (recoveryCode) {
+      const unused = await this.prisma.recoveryCode.findMany({
+        where: { adminId, usedAt: null },
+      });
+
+      for (const stored of unused) {
+        if (!(await bcrypt.compare(recoveryCode, stored.codeHash))) {
+          continue;
+        }
+
+        const { count } = await this.prisma.recoveryCode.updateMany({
+          where: { id: stored.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+        if (count === 1) {
+          this.logger.warn(`Recovery code used by ${admin.email}`);
+          return { usedRecoveryCode: true };
+        }
+      }
+    }
+
+    this.logger.warn(`Invalid two-factor code for ${admin.email}`);
+    throw new UnauthorizedException('Invalid authentication code');
+  }
+
+  /**
+   * Replace the recovery codes, e.g. after using some of them
+   * @returns The new codes, shown to the admin once
+   */
+  async regenerateRecoveryCodes(
+    adminId: string,
+    code: string,
+  ): Promise<string[]> {
+    const admin = await this.getAdmin(adminId);
+
+    if (!admin.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    await this.ensureCode(admin, code);
+
+    this.logger.log(`Recovery codes regenerated for ${admin.email}`);
+    return this.issueRecoveryCodes(adminId);
+  }
+
+  /**
+   * Turn 2FA off with a current code; not allowed while it is mandatory
+   */
+  async disable(adminId: string, code: string): Promise<void> {
+    const admin = await this.getAdmin(adminId);
+
+    if (!admin.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    if (await this.isRequired()) {
+      throw new BadRequestException(
+        'Two-factor authentication is required for all admins',
+      );
+    }
+
+    await this.ensureCode(admin, code);
+    await this.reset(adminId);
+  }
+
+  /**
+   * Remove an admin's 2FA and recovery codes, e.g. after they lost their
+   * phone. If 2FA is mandatory they enrol again at their next login.
+   */
+  async reset(adminId: string): Promise<void> {
+    const admin = await this.getAdmin(adminId);
+
+    await this.prisma.$transaction([
+      this.prisma.recoveryCode.deleteMany({ where: { adminId } }),
+      this.prisma.admin.update({
+        where: { id: adminId },
+        data: {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastStep: null,
+        },
+      }),
+    ]);
+
+    this.logger.log(`Two-factor authentication removed for ${admin.email}`);
+  }
+}
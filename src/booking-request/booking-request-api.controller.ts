@@ -0,0 +1,156 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Session,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+  Req,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { BookingRequestService } from './booking-request.service';
+import { QueryBookingRequestDto } from './dto/query-booking-request.dto';
+import { QuoteBookingRequestDto } from './dto/quote-booking-request.dto';
+import { RejectBookingRequestDto } from './dto/reject-booking-request.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/booking-requests')
+@UseGuards(ApiAuthGuard)
+export class BookingRequestApiController {
+  private readonly logger = new Logger(BookingRequestApiController.name);
+
+  constructor(private readonly bookingRequestService: BookingRequestService) {}
+
+  /**
+   * GET /api/booking-requests
+   * Open requests oldest first, or requests with the given status
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getQueue(@Query() queryDto: QueryBookingRequestDto) {
+    this.logger.log(`[GET /api/booking-requests] API: Fetching queue`);
+
+    const [result, counts] = await Promise.all([
+      this.bookingRequestService.getQueue(queryDto),
+      this.bookingRequestService.getQueueCounts(),
+    ]);
+
+    return {
+      success: true,
+      message: 'Booking requests retrieved successfully',
+      data: result.data,
+      meta: { ...result.meta, counts },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/booking-requests/:id
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getRequestById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[GET /api/booking-requests/${id}] API: Fetching request`);
+
+    const request = await this.bookingRequestService.getRequestById(id);
+
+    return {
+      success: true,
+      message: 'Booking request retrieved successfully',
+      data: request,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/booking-requests/:id/quote
+   * Adjust rental type, discount, fees or note; the price is recalculated
+   */
+  @Post(':id/quote')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async updateQuote(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() quoteDto: QuoteBookingRequestDto,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    this.logger.log(`[POST /api/booking-requests/${id}/quote] API: Quoting`);
+
+    const request = await this.bookingRequestService.updateQuote(
+      id,
+      quoteDto,
+      req.apiToken?.adminId ?? session.adminId,
+    );
+
+    return {
+      success: true,
+      message: 'Quote updated successfully',
+      data: request,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/booking-requests/:id/approve
+   * Convert the request into an event after checking the slot again
+   */
+  @Post(':id/approve')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async approveRequest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    this.logger.log(`[POST /api/booking-requests/${id}/approve] API`);
+
+    const result = await this.bookingRequestService.approveRequest(
+      id,
+      req.apiToken?.adminId ?? session.adminId,
+    );
+
+    return {
+      success: true,
+      message: 'Booking request approved',
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/booking-requests/:id/reject
+   */
+  @Post(':id/reject')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async rejectRequest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() rejectDto: RejectBookingRequestDto,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    this.logger.log(`[POST /api/booking-requests/${id}/reject] API`);
+
+    const request = await this.bookingRequestService.rejectRequest(
+      id,
+      rejectDto.reason,
+      req.apiToken?.adminId ?? session.adminId,
+    );
+
+    return {
+      success: true,
+      message: 'Booking request rejected',
+      data: request,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
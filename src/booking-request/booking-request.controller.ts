@@ -0,0 +1,240 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Render,
+  Res,
+  Req,
+  Session,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { BookingRequestStatus, RentalType } from '@prisma/client';
+import { BookingRequestService } from './booking-request.service';
+import { BookingRequestHelper } from './booking-request.helper';
+import { QueryBookingRequestDto } from './dto/query-booking-request.dto';
+import { QuoteBookingRequestDto } from './dto/quote-booking-request.dto';
+import { RejectBookingRequestDto } from './dto/reject-booking-request.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+import { AuditService } from '../audit/audit.service';
+
+@Controller('booking-requests')
+@UseGuards(AuthGuard)
+export class BookingRequestController {
+  private readonly logger = new Logger(BookingRequestController.name);
+
+  constructor(
+    private readonly bookingRequestService: BookingRequestService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * GET /booking-requests
+   * Queue of requests from the public booking pages, oldest first
+   * Renders: views/booking-requests/list.ejs
+   */
+  @Get()
+  @Render('booking-requests/list')
+  async listRequests(
+    @Query() queryDto: QueryBookingRequestDto,
+    @Req() req: Request,
+  ) {
+    this.logger.log(
+      `[GET /booking-requests] Rendering queue with filters: ${JSON.stringify(queryDto)}`,
+    );
+
+    // Set by the rejection handler; the queue's query cannot carry ?success=
+    const success = req.session.flashSuccess ?? null;
+    delete req.session.flashSuccess;
+
+    try {
+      const [result, counts] = await Promise.all([
+        this.bookingRequestService.getQueue(queryDto),
+        this.bookingRequestService.getQueueCounts(),
+      ]);
+
+      const now = new Date();
+
+      return {
+        title: 'Booking Requests',
+        requests: result.data.map((request) => ({
+          ...request,
+          reference: BookingRequestHelper.reference(request.id),
+          age: BookingRequestHelper.age(request.createdAt, now),
+        })),
+        meta: result.meta,
+        counts,
+        query: queryDto,
+        statuses: Object.values(BookingRequestStatus),
+        error: null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load booking requests: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Booking Requests',
+        requests: [],
+        meta: { total: 0, page: 1, limit: 20, totalPages: 0 },
+        counts: { pending: 0, quoted: 0, open: 0, oldestAt: null },
+        query: queryDto,
+        statuses: Object.values(BookingRequestStatus),
+        error: 'Failed to load booking requests. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  /**
+   * GET /booking-requests/:id
+   * Request, its quote and the approve/reject actions
+   * Renders: views/booking-requests/details.ejs
+   */
+  @Get(':id')
+  @Render('booking-requests/details')
+  async getRequestDetail(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log(`[GET /booking-requests/${id}] Rendering request`);
+
+    let success: string | null = null;
+    if (successMessage === 'quoted') {
+      success = 'Quote updated successfully!';
+    }
+
+    try {
+      const [request, history] = await Promise.all([
+        this.bookingRequestService.getRequestById(id),
+        this.auditService.getEntityHistory(id),
+      ]);
+
+      return {
+        title: `Booking Request ${BookingRequestHelper.reference(id)}`,
+        request,
+        history,
+        reference: BookingRequestHelper.reference(id),
+        isOpen: BookingRequestHelper.isOpen(request.status),
+        age: BookingRequestHelper.age(request.createdAt, new Date()),
+        rentalTypes: Object.values(RentalType),
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load booking request ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Booking Request Not Found',
+        request: null,
+        history: [],
+        error: error.message || 'Booking request not found.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /booking-requests/:id/quote
+  @Post(':id/quote')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  async updateQuote(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() quoteDto: QuoteBookingRequestDto,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /booking-requests/${id}/quote] Updating quote`);
+
+    try {
+      await this.bookingRequestService.updateQuote(
+        id,
+        quoteDto,
+        session.adminId,
+      );
+      return res.redirect(`/booking-requests/${id}?success=quoted`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to quote booking request ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/booking-requests/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /booking-requests/:id/approve
+  @Post(':id/approve')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  async approveRequest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /booking-requests/${id}/approve] Approving`);
+
+    try {
+      const { event } = await this.bookingRequestService.approveRequest(
+        id,
+        session.adminId,
+      );
+      return res.redirect(`/events/${event.id}?success=booking-approved`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to approve booking request ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/booking-requests/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /booking-requests/:id/reject
+  @Post(':id/reject')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  async rejectRequest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() rejectDto: RejectBookingRequestDto,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /booking-requests/${id}/reject] Rejecting`);
+
+    try {
+      await this.bookingRequestService.rejectRequest(
+        id,
+        rejectDto.reason,
+        session.adminId,
+      );
+      req.session.flashSuccess = `Request ${BookingRequestHelper.reference(id)} rejected.`;
+      return res.redirect('/booking-requests');
+    } catch (error) {
+      this.logger.error(
+        `Failed to reject booking request ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/booking-requests/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
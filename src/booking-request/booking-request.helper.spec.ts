@@ -0,0 +1,92 @@
+import { BookingRequestStatus } from '@prisma/client';
+import { BookingRequestHelper } from './booking-request.helper';
+
+describe('BookingRequestHelper', () => {
+  const now = new Date('2026-03-01T10:00:00.000Z');
+  const at = (iso: string) => new Date(iso);
+
+  it('accepts a future window of at least an hour', () => {
+    expect(
+      BookingRequestHelper.validateWindow(
+        at('2026-03-10T09:00:00.000Z'),
+        at('2026-03-10T17:00:00.000Z'),
+        now,
+      ),
+    ).toBeNull();
+  });
+
+  it('rejects windows in the past, reversed or too short', () => {
+    expect(
+      BookingRequestHelper.validateWindow(
+        at('2026-02-10T09:00:00.000Z'),
+        at('2026-02-10T17:00:00.000Z'),
+        now,
+      ),
+    ).toBe('The start must be in the future');
+
+    expect(
+      BookingRequestHelper.validateWindow(
+        at('2026-03-10T17:00:00.000Z'),
+        at('2026-03-10T09:00:00.000Z'),
+        now,
+      ),
+    ).toBe('The end must be after the start');
+
+    expect(
+      BookingRequestHelper.validateWindow(
+        at('2026-03-10T09:00:00.000Z'),
+        at('2026-03-10T09:30:00.000Z'),
+        now,
+      ),
+    ).toMatch(/at least/);
+  });
+
+  it('rejects windows too long or too far ahead', () => {
+    expect(
+      BookingRequestHelper.validateWindow(
+        at('2026-03-10T09:00:00.000Z'),
+        at('2026-05-10T09:00:00.000Z'),
+        now,
+      ),
+    ).toBe('Bookings cannot exceed 30 days');
+
+    expect(
+      BookingRequestHelper.validateWindow(
+        at('2029-03-10T09:00:00.000Z'),
+        at('2029-03-10T17:00:00.000Z'),
+        now,
+      ),
+    ).toMatch(/days ahead/);
+  });
+
+  it('builds a short reference from the request ID', () => {
+    expect(
+      BookingRequestHelper.reference('1a2b3c4d-0000-4000-8000-000000000000'),
+    ).toBe('BR-1A2B3C4D');
+  });
+
+  it('treats pending and quoted requests as open', () => {
+    expect(BookingRequestHelper.isOpen(BookingRequestStatus.PENDING)).toBe(
+      true,
+    );
+    expect(BookingRequestHelper.isOpen(BookingRequestStatus.QUOTED)).toBe(true);
+    expect(BookingRequestHelper.isOpen(BookingRequestStatus.APPROVED)).toBe(
+      false,
+    );
+    expect(BookingRequestHelper.isOpen(BookingRequestStatus.REJECTED)).toBe(
+      false,
+    );
+  });
+
+  it('describes how long a request has waited', () => {
+    expect(BookingRequestHelper.age(at('2026-03-01T09:48:00.000Z'), now)).toBe(
+      '12m',
+    );
+    expect(BookingRequestHelper.age(at('2026-03-01T05:00:00.000Z'), now)).toBe(
+      '5h',
+    );
+    expect(BookingRequestHelper.age(at('2026-02-26T06:00:00.000Z'), now)).toBe(
+      '3d 4h',
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { BookingRequestStatus } from '@prisma/client';
+
+// Limits on what the public may ask for; staff can book anything on the admin form
+export const BOOKING_REQUEST_POLICY = {
+  minDurationHours: 1,
+  maxDurationHours: 720, // 30 days, as for events
+  maxAdvanceDays: 730, // How far ahead a request may start
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class BookingRequestHelper {
+  // Waiting for a decision
+  static readonly OPEN_STATUSES: BookingRequestStatus[] = [
+    BookingRequestStatus.PENDING,
+    BookingRequestStatus.QUOTED,
+  ];
+
+  static isOpen(status: BookingRequestStatus): boolean {
+    return this.OPEN_STATUSES.includes(status);
+  }
+
+  // How long a request has waited, e.g. "3d 4h", "5h", "12m"
+  static age(createdAt: Date, now: Date): string {
+    const minutes = Math.max(
+      0,
+      Math.floor((now.getTime() - createdAt.getTime()) / 60000),
+    );
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+
+    if (days > 0) {
+      return `${days}d ${hours}h`;
+    }
+
+    return hours > 0 ? `${hours}h` : `${minutes}m`;
+  }
+
+  // Why the requested window can't be booked, or null when it can
+  static validateWindow(start: Date, end: Date, now: Date): string | null {
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return 'Start and end must be valid dates';
+    }
+
+    if (start <= now) {
+      return 'The start must be in the future';
+    }
+
+    if (end <= start) {
+      return 'The end must be after the start';
+    }
+
+    const durationHours = (end.getTime() - start.getTime()) / HOUR_MS;
+
+    if (durationHours < BOOKING_REQUEST_POLICY.minDurationHours) {
+      return `Bookings must last at least ${BOOKING_REQUEST_POLICY.minDurationHours} hour`;
+    }
+
+    if (durationHours > BOOKING_REQUEST_POLICY.maxDurationHours) {
+      return 'Bookings cannot exceed 30 days';
+    }
+
+    if (
+      start.getTime() - now.getTime() >
+      BOOKING_REQUEST_POLICY.maxAdvanceDays * 24 * HOUR_MS
+    ) {
+      return `Bookings can be requested up to ${BOOKING_REQUEST_POLICY.maxAdvanceDays} days ahead`;
+    }
+
+    return null;
+  }
+
+  // Short reference quoted to the requester, e.g. BR-1A2B3C4D
+  static reference(id: string): string {
+    return `BR-${id.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { BookingRequestService } from './booking-request.service';
+import { BookingRequestController } from './booking-request.controller';
+import { BookingRequestApiController } from './booking-request-api.controller';
+import { PublicBookingController } from './public-booking.controller';
+import { PublicBookingApiController } from './public-booking-api.controller';
+import { VenueModule } from 'src/venue/venue.module';
+import { EventModule } from 'src/event/event.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { MailModule } from 'src/mail/mail.module';
+
+@Module({
+  imports: [VenueModule, EventModule, AuditModule, MailModule],
+  providers: [BookingRequestService],
+  controllers: [
+    BookingRequestController,
+    BookingRequestApiController,
+    PublicBookingController,
+    PublicBookingApiController,
+  ],
+  exports: [BookingRequestService],
+})
+export class BookingRequestModule {}
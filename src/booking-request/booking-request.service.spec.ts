@@ -0,0 +1,194 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditEntityType, BookingRequestStatus, Prisma } from '@prisma/client';
+import { BookingRequestService } from './booking-request.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { VenueService } from '../venue/venue.service';
+import { EventService } from '../event/event.service';
+import { AuditService } from '../audit/audit.service';
+import { MailService } from '../mail/mail.service';
+
+describe('BookingRequestService', () => {
+  const open = {
+    id: 'r1',
+    status: BookingRequestStatus.QUOTED,
+    eventName: 'Product launch',
+    description: null,
+    venueId: 'v1',
+    attendeeCount: 80,
+    startDatetime: new Date('2026-12-01T09:00:00.000Z'),
+    endDatetime: new Date('2026-12-01T17:00:00.000Z'),
+    rentalType: null,
+    discount: new Prisma.Decimal(0),
+    additionalFees: new Prisma.Decimal(0),
+    contactEmail: 'ana@example.com',
+    quoteNote: null,
+  };
+
+  let service: BookingRequestService;
+  let tx: {
+    bookingRequest: { updateMany: jest.Mock; update: jest.Mock };
+    client: { findFirst: jest.Mock; create: jest.Mock };
+  };
+  let prisma: {
+    bookingRequest: {
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      updateMany: jest.Mock;
+    };
+  };
+  let auditService: { record: jest.Mock };
+  let eventService: {
+    checkVenueAvailability: jest.Mock;
+    prepareEvent: jest.Mock;
+    createPreparedEvents: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    auditService = { record: jest.fn().mockResolvedValue(undefined) };
+    tx = {
+      bookingRequest: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      client: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'c1' }),
+        create: jest.fn().mockResolvedValue({ id: 'c2', name: 'Ana' }),
+      },
+    };
+    prisma = {
+      bookingRequest: {
+        findUnique: jest.fn().mockResolvedValue(open),
+        findUniqueOrThrow: jest.fn().mockResolvedValue({
+          ...open,
+          venue: { name: 'Grand Hall' },
+        }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    eventService = {
+      checkVenueAvailability: jest.fn().mockResolvedValue([]),
+      prepareEvent: jest.fn().mockResolvedValue({ data: {} }),
+      // Runs the hooks the way the real transaction does
+      createPreparedEvents: jest.fn(
+        async (
+          _prepared: unknown,
+          hooks: {
+            beforeCreate?: (client: typeof tx) => Promise<unknown>;
+            afterCreate?: (
+              client: typeof tx,
+              events: unknown[],
+            ) => Promise<unknown>;
+          },
+        ) => {
+          await hooks.beforeCreate?.(tx);
+          const events = [{ id: 'e1', finalPrice: null, currency: 'IDR' }];
+          await hooks.afterCreate?.(tx, events);
+          return events;
+        },
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BookingRequestService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: VenueService, useValue: {} },
+        { provide: EventService, useValue: eventService },
+        { provide: AuditService, useValue: auditService },
+        {
+          provide: MailService,
+          useValue: {
+            sendBookingRequestApproved: jest.fn(),
+            sendBookingRequestRejected: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BookingRequestService>(BookingRequestService);
+  });
+
+  describe('approveRequest', () => {
+    it('claims the open request and links the event in one transaction', async () => {
+      const { event } = await service.approveRequest('r1', 'a1');
+
+      expect(event.id).toBe('e1');
+      expect(tx.bookingRequest.updateMany.mock.calls[0][0]).toMatchObject({
+        where: {
+          id: 'r1',
+          status: {
+            in: [BookingRequestStatus.PENDING, BookingRequestStatus.QUOTED],
+          },
+        },
+        data: { status: BookingRequestStatus.APPROVED, reviewedById: 'a1' },
+      });
+      expect(tx.bookingRequest.update).toHaveBeenCalledWith({
+        where: { id: 'r1' },
+        data: { eventId: 'e1' },
+      });
+    });
+
+    it('books the event for the client found after the claim', async () => {
+      const prepared = { data: { clientId: null } };
+      eventService.prepareEvent.mockResolvedValue(prepared);
+
+      await service.approveRequest('r1');
+
+      expect(tx.client.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { email: 'ana@example.com' } }),
+      );
+      expect(tx.client.create).not.toHaveBeenCalled();
+      expect(prepared.data.clientId).toBe('c1');
+    });
+
+    it('creates a new requester as a client inside the transaction', async () => {
+      tx.client.findFirst.mockResolvedValue(null);
+
+      await service.approveRequest('r1');
+
+      expect(tx.client.create).toHaveBeenCalledTimes(1);
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: AuditEntityType.CLIENT,
+          entityId: 'c2',
+        }),
+      );
+    });
+
+    it('refuses a second approval that lost the race', async () => {
+      // Both calls saw an open request; the other one claimed it first
+      prisma.bookingRequest.findUnique
+        .mockResolvedValueOnce(open)
+        .mockResolvedValueOnce({
+          ...open,
+          status: BookingRequestStatus.APPROVED,
+        });
+      tx.bookingRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.approveRequest('r1')).rejects.toThrow(
+        new BadRequestException('This request has already been approved'),
+      );
+      expect(tx.bookingRequest.update).not.toHaveBeenCalled();
+      expect(tx.client.findFirst).not.toHaveBeenCalled();
+      expect(tx.client.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectRequest', () => {
+    it('does not overwrite a request approved meanwhile', async () => {
+      prisma.bookingRequest.findUnique
+        .mockResolvedValueOnce(open)
+        .mockResolvedValueOnce({
+          ...open,
+          status: BookingRequestStatus.APPROVED,
+        });
+      prisma.bookingRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.rejectRequest('r1', 'Venue unavailable'),
+      ).rejects.toThrow('This request has already been approved');
+      expect(prisma.bookingRequest.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,652 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  AuditAction,
+  AuditEntityType,
+  BookingRequest,
+  BookingRequestStatus,
+  Client,
+  ClientType,
+  EventStatus,
+  Prisma,
+  RentalType,
+  VenueStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { VenueService } from '../venue/venue.service';
+import { EventService } from '../event/event.service';
+import { AuditService } from '../audit/audit.service';
+import { MailService } from '../mail/mail.service';
+import { PricingHelper } from '../event/pricing.helper';
+import { BookingRequestHelper } from './booking-request.helper';
+import { CreateBookingRequestDto } from './dto/create-booking-request.dto';
+import { QueryBookingRequestDto } from './dto/query-booking-request.dto';
+import { QuoteBookingRequestDto } from './dto/quote-booking-request.dto';
+
+// What the public booking pages show of a venue; no bookings or internal notes
+const PUBLIC_VENUE_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  address: true,
+  city: true,
+  capacity: true,
+  pricePerHour: true,
+  pricePerDay: true,
+  currency: true,
+  photos: {
+    select: { id: true, url: true, caption: true },
+    orderBy: { sortOrder: 'asc' },
+  },
+  spaces: {
+    where: { isActive: true },
+    select: { id: true, name: true, type: true, capacity: true },
+    orderBy: { name: 'asc' },
+  },
+} satisfies Prisma.VenueSelect;
+
+const BOOKING_REQUEST_INCLUDE = {
+  venue: { select: { id: true, name: true, city: true, capacity: true } },
+  reviewedBy: { select: { id: true, name: true, email: true } },
+  event: { select: { id: true, name: true, status: true } },
+} satisfies Prisma.BookingRequestInclude;
+
+type Quote = Awaited<ReturnType<EventService['previewPrice']>>;
+
+// Inputs of a quote, as stored on the request
+interface QuoteTerms {
+  venueId: string;
+  startDatetime: Date;
+  endDatetime: Date;
+  rentalType?: RentalType;
+  discount: number;
+  additionalFees: number;
+}
+
+/**
+ * BookingRequestService
+ * Requests to book a venue sent from the public booking pages. A request
+ * is quoted on arrival and waits for staff, who may adjust the quote, then
+ * approve it into an event or reject it with a reason.
+ */
+@Injectable()
+export class BookingRequestService {
+  private readonly logger = new Logger(BookingRequestService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly venueService: VenueService,
+    private readonly eventService: EventService,
+    private readonly auditService: AuditService,
+    private readonly mailService: MailService,
+  ) {}
+
+  /**
+   * Price the request exactly as the event would be priced
+   * Null when it cannot be priced, e.g. the venue has no rates.
+   */
+  private async priceRequest(terms: QuoteTerms): Promise<Quote | null> {
+    try {
+      return await this.eventService.previewPrice({
+        venueId: terms.venueId,
+        startDatetime: terms.startDatetime.toISOString(),
+        endDatetime: terms.endDatetime.toISOString(),
+        rentalType: terms.rentalType,
+        discount: terms.discount,
+        additionalFees: terms.additionalFees,
+      });
+    } catch (error) {
+      this.logger.warn(`Could not quote booking request: ${error.message}`);
+      return null;
+    }
+  }
+
+  // Quote columns for a price preview
+  private quoteData(quote: Quote | null) {
+    return {
+      quotedPrice: quote ? new Prisma.Decimal(quote.finalPrice) : null,
+      priceBreakdown: quote
+        ? (quote as unknown as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+      currency: quote ? quote.currency : null,
+      rentalType: quote ? quote.rentalType : null,
+    };
+  }
+
+  /**
+   * A request that still waits for a decision
+   */
+  private async getOpenRequest(id: string): Promise<BookingRequest> {
+    const request = await this.prisma.bookingRequest.findUnique({
+      where: { id },
+    });
+
+    if (!request) {
+      throw new NotFoundException(`Booking request with ID "${id}" not found`);
+    }
+
+    if (!BookingRequestHelper.isOpen(request.status)) {
+      throw new BadRequestException(
+        `This request has already been ${request.status.toLowerCase()}`,
+      );
+    }
+
+    return request;
+  }
+
+  /**
+   * Update a request only while it is still open
+   * When two admins act at once the first one wins; the second gets the
+   * same error as if the request had been decided before they opened it.
+   */
+  private async updateOpenRequest(
+    client: Prisma.TransactionClient,
+    id: string,
+    data: Prisma.BookingRequestUncheckedUpdateManyInput,
+  ): Promise<void> {
+    const claimed = await client.bookingRequest.updateMany({
+      where: { id, status: { in: BookingRequestHelper.OPEN_STATUSES } },
+      data,
+    });
+
+    if (claimed.count === 0) {
+      // Throws with the status the request has now
+      await this.getOpenRequest(id);
+      throw new BadRequestException('This request has already been decided');
+    }
+  }
+
+  /**
+   * Active venues, by city and name, with their photos
+   */
+  async getPublicVenues() {
+    return this.prisma.venue.findMany({
+      where: { status: VenueStatus.ACTIVE },
+      select: PUBLIC_VENUE_SELECT,
+      orderBy: [{ city: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * An active venue as shown to the public
+   * Venues that are not active are reported as not found.
+   */
+  async getPublicVenue(id: string) {
+    const venue = await this.prisma.venue.findFirst({
+      where: { id, status: VenueStatus.ACTIVE },
+      select: PUBLIC_VENUE_SELECT,
+    });
+
+    if (!venue) {
+      throw new NotFoundException('Venue not found');
+    }
+
+    return venue;
+  }
+
+  /**
+   * Whether the venue is free for the window, and why not when it isn't
+   */
+  async checkAvailability(
+    venueId: string,
+    start: Date,
+    end: Date,
+  ): Promise<{ available: boolean; reason: string | null }> {
+    await this.getPublicVenue(venueId);
+
+    const invalid = BookingRequestHelper.validateWindow(start, end, new Date());
+    if (invalid) {
+      return { available: false, reason: invalid };
+    }
+
+    const available = await this.venueService.checkVenueAvailabilityOnDate(
+      venueId,
+      start,
+      end,
+    );
+
+    return {
+      available,
+      reason: available ? null : 'The venue is already booked at that time',
+    };
+  }
+
+  /**
+   * Record a pending request and acknowledge it by email
+   * The slot is checked now but not reserved; an admin confirms it later.
+   */
+  async createRequest(
+    venueId: string,
+    createBookingRequestDto: CreateBookingRequestDto,
+    ipAddress: string | null,
+  ): Promise<BookingRequest> {
+    const venue = await this.getPublicVenue(venueId);
+    const start = new Date(createBookingRequestDto.startDatetime);
+    const end = new Date(createBookingRequestDto.endDatetime);
+
+    const invalid = BookingRequestHelper.validateWindow(start, end, new Date());
+    if (invalid) {
+      throw new BadRequestException(invalid);
+    }
+
+    if (
+      createBookingRequestDto.attendeeCount &&
+      createBookingRequestDto.attendeeCount > venue.capacity
+    ) {
+      throw new BadRequestException(
+        `${venue.name} holds up to ${venue.capacity} people`,
+      );
+    }
+
+    const available = await this.venueService.checkVenueAvailabilityOnDate(
+      venueId,
+      start,
+      end,
+    );
+
+    if (!available) {
+      throw new ConflictException(
+        'The venue is already booked at that time. Please choose another time.',
+      );
+    }
+
+    const quote = await this.priceRequest({
+      venueId,
+      startDatetime: start,
+      endDatetime: end,
+      discount: 0,
+      additionalFees: 0,
+    });
+
+    const request = await this.prisma.bookingRequest.create({
+      data: {
+        ...this.quoteData(quote),
+        venueId,
+        eventName: createBookingRequestDto.eventName,
+        description: createBookingRequestDto.description ?? null,
+        startDatetime: start,
+        endDatetime: end,
+        attendeeCount: createBookingRequestDto.attendeeCount ?? null,
+        contactName: createBookingRequestDto.contactName,
+        contactEmail: createBookingRequestDto.contactEmail,
+        contactPhone: createBookingRequestDto.contactPhone ?? null,
+        organization: createBookingRequestDto.organization ?? null,
+        ipAddress: ipAddress ? ipAddress.slice(0, 45) : null,
+      },
+    });
+
+    const reference = BookingRequestHelper.reference(request.id);
+    this.logger.log(
+      `Booking request ${reference} received for ${venue.name} from ${request.contactEmail}`,
+    );
+
+    try {
+      await this.mailService.sendBookingRequestReceived(
+        request.contactEmail,
+        reference,
+        venue.name,
+        request.startDatetime,
+        request.endDatetime,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to acknowledge booking request ${reference}: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    return request;
+  }
+
+  /**
+   * Requests waiting for staff, oldest first
+   */
+  async getQueue(queryDto: QueryBookingRequestDto) {
+    const { status, venueId, page = 1, limit = 20 } = queryDto;
+
+    const where: Prisma.BookingRequestWhereInput = {
+      status: status ?? { in: BookingRequestHelper.OPEN_STATUSES },
+    };
+
+    if (venueId) {
+      where.venueId = venueId;
+    }
+
+    // Open requests wait longest first; decided ones show the latest first
+    const oldestFirst = !status || BookingRequestHelper.isOpen(status);
+
+    const [requests, total] = await Promise.all([
+      this.prisma.bookingRequest.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: oldestFirst ? 'asc' : 'desc' },
+        include: BOOKING_REQUEST_INCLUDE,
+      }),
+      this.prisma.bookingRequest.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: requests,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Number of open requests by status, and when the oldest arrived
+   */
+  async getQueueCounts() {
+    const [groups, oldest] = await Promise.all([
+      this.prisma.bookingRequest.groupBy({
+        by: ['status'],
+        where: { status: { in: BookingRequestHelper.OPEN_STATUSES } },
+        _count: { _all: true },
+      }),
+      this.prisma.bookingRequest.findFirst({
+        where: { status: { in: BookingRequestHelper.OPEN_STATUSES } },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      }),
+    ]);
+
+    const count = (status: BookingRequestStatus) =>
+      groups.find((group) => group.status === status)?._count._all ?? 0;
+    const pending = count(BookingRequestStatus.PENDING);
+    const quoted = count(BookingRequestStatus.QUOTED);
+
+    return {
+      pending,
+      quoted,
+      open: pending + quoted,
+      oldestAt: oldest?.createdAt ?? null,
+    };
+  }
+
+  async getRequestById(id: string) {
+    const request = await this.prisma.bookingRequest.findUnique({
+      where: { id },
+      include: BOOKING_REQUEST_INCLUDE,
+    });
+
+    if (!request) {
+      throw new NotFoundException(`Booking request with ID "${id}" not found`);
+    }
+
+    return request;
+  }
+
+  /**
+   * Adjust the quote and recalculate its price
+   * Unlike the automatic quote, a quote that cannot be priced is refused.
+   * @param reviewedById - Admin adjusting the quote (session.adminId)
+   */
+  async updateQuote(
+    id: string,
+    quoteDto: QuoteBookingRequestDto,
+    reviewedById?: string,
+  ): Promise<BookingRequest> {
+    const existing = await this.getOpenRequest(id);
+
+    const terms: QuoteTerms = {
+      venueId: existing.venueId,
+      startDatetime: existing.startDatetime,
+      endDatetime: existing.endDatetime,
+      rentalType: quoteDto.rentalType,
+      discount: quoteDto.discount ?? 0,
+      additionalFees: quoteDto.additionalFees ?? 0,
+    };
+
+    let quote: Quote;
+    try {
+      quote = await this.eventService.previewPrice({
+        ...terms,
+        startDatetime: terms.startDatetime.toISOString(),
+        endDatetime: terms.endDatetime.toISOString(),
+      });
+    } catch (error) {
+      throw new BadRequestException(
+        `The request could not be priced: ${error.message}`,
+      );
+    }
+
+    // Approved or rejected meanwhile: the decision stands
+    await this.updateOpenRequest(this.prisma, id, {
+      ...this.quoteData(quote),
+      discount: new Prisma.Decimal(terms.discount),
+      additionalFees: new Prisma.Decimal(terms.additionalFees),
+      quoteNote:
+        quoteDto.quoteNote !== undefined
+          ? quoteDto.quoteNote
+          : existing.quoteNote,
+      quotedAt: new Date(),
+      status: BookingRequestStatus.QUOTED,
+      reviewedById: reviewedById || null,
+    });
+
+    const request = await this.prisma.bookingRequest.findUniqueOrThrow({
+      where: { id },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: AuditEntityType.BOOKING_REQUEST,
+      entityId: id,
+      entityLabel: request.eventName,
+      before: existing,
+      after: request,
+    });
+
+    this.logger.log(
+      `Booking request ${BookingRequestHelper.reference(id)} quoted at ${request.quotedPrice?.toString() ?? '-'} ${request.currency ?? ''}`,
+    );
+    return request;
+  }
+
+  /**
+   * Turn the request into an UPCOMING event on its quoted terms
+   * The slot is checked again: it may have been booked since the request
+   * arrived. The requester becomes a client, matched by email.
+   * @param reviewedById - Admin approving the request (session.adminId)
+   */
+  async approveRequest(id: string, reviewedById?: string) {
+    const existing = await this.getOpenRequest(id);
+
+    await this.eventService.checkVenueAvailability(
+      existing.venueId,
+      existing.startDatetime,
+      existing.endDatetime,
+    );
+
+    const prepared = await this.eventService.prepareEvent({
+      name: existing.eventName,
+      description: existing.description ?? undefined,
+      venueId: existing.venueId,
+      attendeeCount: existing.attendeeCount ?? undefined,
+      startDatetime: existing.startDatetime.toISOString(),
+      endDatetime: existing.endDatetime.toISOString(),
+      rentalType: existing.rentalType ?? undefined,
+      discount: existing.discount.toNumber(),
+      additionalFees: existing.additionalFees.toNumber(),
+      status: EventStatus.UPCOMING,
+    });
+
+    // Claim the request and book the event together, so a second approval
+    // (double click, two admins) cannot create another event. The client is
+    // only created once the claim has succeeded.
+    let client!: { id: string; created: Client | null };
+    const [event] = await this.eventService.createPreparedEvents([prepared], {
+      beforeCreate: async (tx) => {
+        await this.updateOpenRequest(tx, id, {
+          status: BookingRequestStatus.APPROVED,
+          reviewedById: reviewedById || null,
+          reviewedAt: new Date(),
+        });
+
+        client = await this.resolveClient(tx, existing);
+        prepared.data.clientId = client.id;
+      },
+      afterCreate: (tx, [created]) =>
+        tx.bookingRequest.update({
+          where: { id },
+          data: { eventId: created.id },
+        }),
+    });
+
+    const request = await this.prisma.bookingRequest.findUniqueOrThrow({
+      where: { id },
+      include: BOOKING_REQUEST_INCLUDE,
+    });
+
+    if (client.created) {
+      await this.auditService.record({
+        action: AuditAction.CREATE,
+        entityType: AuditEntityType.CLIENT,
+        entityId: client.created.id,
+        entityLabel: client.created.name,
+        after: client.created,
+      });
+    }
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: AuditEntityType.BOOKING_REQUEST,
+      entityId: id,
+      entityLabel: request.eventName,
+      before: existing,
+      after: request,
+    });
+
+    const reference = BookingRequestHelper.reference(id);
+    this.logger.log(
+      `Booking request ${reference} approved as event ${event.id}`,
+    );
+
+    try {
+      await this.mailService.sendBookingRequestApproved(
+        request.contactEmail,
+        reference,
+        request.venue.name,
+        request.startDatetime,
+        request.endDatetime,
+        event.finalPrice !== null
+          ? PricingHelper.formatCurrency(
+              event.finalPrice.toNumber(),
+              event.currency,
+            )
+          : null,
+        request.quoteNote,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send approval of booking request ${reference}: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    return { request, event };
+  }
+
+  /**
+   * Reject the request; the reason is emailed to the requester
+   * @param reviewedById - Admin rejecting the request (session.adminId)
+   */
+  async rejectRequest(
+    id: string,
+    reason: string,
+    reviewedById?: string,
+  ): Promise<BookingRequest> {
+    const existing = await this.getOpenRequest(id);
+
+    // An approval in progress has claimed the request already
+    await this.updateOpenRequest(this.prisma, id, {
+      status: BookingRequestStatus.REJECTED,
+      rejectionReason: reason,
+      reviewedById: reviewedById || null,
+      reviewedAt: new Date(),
+    });
+
+    const request = await this.prisma.bookingRequest.findUniqueOrThrow({
+      where: { id },
+      include: BOOKING_REQUEST_INCLUDE,
+    });
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: AuditEntityType.BOOKING_REQUEST,
+      entityId: id,
+      entityLabel: request.eventName,
+      before: existing,
+      after: request,
+    });
+
+    const reference = BookingRequestHelper.reference(id);
+    this.logger.log(`Booking request ${reference} rejected`);
+
+    try {
+      await this.mailService.sendBookingRequestRejected(
+        request.contactEmail,
+        reference,
+        request.venue.name,
+        reason,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send rejection of booking request ${reference}: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    return request;
+  }
+
+  // Client with the requester's email, or a new one from the request
+  // `created` is set when a client was added, for the audit log
+  private async resolveClient(
+    tx: Prisma.TransactionClient,
+    request: BookingRequest,
+  ): Promise<{ id: string; created: Client | null }> {
+    const client = await tx.client.findFirst({
+      where: { email: request.contactEmail },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    if (client) {
+      return { id: client.id, created: null };
+    }
+
+    const created = await tx.client.create({
+      data: request.organization
+        ? {
+            type: ClientType.ORGANIZATION,
+            name: request.organization,
+            contactName: request.contactName,
+            email: request.contactEmail,
+            phone: request.contactPhone,
+          }
+        : {
+            type: ClientType.INDIVIDUAL,
+            name: request.contactName,
+            email: request.contactEmail,
+            phone: request.contactPhone,
+          },
+    });
+
+    this.logger.log(`Client created: ${created.name} (ID: ${created.id})`);
+    return { id: created.id, created };
+  }
+}
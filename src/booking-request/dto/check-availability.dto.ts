@@ -0,0 +1,13 @@
+import { IsDateString } from 'class-validator';
+
+/**
+ * Check Availability DTO
+ * Time window asked about on the public booking page
+ */
+export class CheckAvailabilityDto {
+  @IsDateString({}, { message: 'Start must be a valid ISO 8601 date string' })
+  start: string;
+
+  @IsDateString({}, { message: 'End must be a valid ISO 8601 date string' })
+  end: string;
+}
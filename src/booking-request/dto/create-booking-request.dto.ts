@@ -0,0 +1,79 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsDateString,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Create Booking Request DTO
+ * Submitted from the public booking page; the venue comes from the URL
+ */
+export class CreateBookingRequestDto {
+  @IsString({ message: 'Event name must be a string' })
+  @IsNotEmpty({ message: 'Event name is required' })
+  @MaxLength(255, { message: 'Event name must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  eventName: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(5000, { message: 'Description must not exceed 5000 characters' })
+  @Transform(({ value }) => value?.trim() || undefined)
+  @Sanitize()
+  description?: string;
+
+  @IsDateString(
+    {},
+    { message: 'Start datetime must be a valid ISO 8601 date string' },
+  )
+  startDatetime: string;
+
+  @IsDateString(
+    {},
+    { message: 'End datetime must be a valid ISO 8601 date string' },
+  )
+  endDatetime: string;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsInt({ message: 'Attendee count must be a whole number' })
+  @Min(1, { message: 'Attendee count must be at least 1' })
+  attendeeCount?: number;
+
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Your name is required' })
+  @MaxLength(255, { message: 'Name must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  contactName: string;
+
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @MaxLength(255, { message: 'Email must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  contactEmail: string;
+
+  @IsOptional()
+  @Matches(/^[0-9+()\-\s]{6,50}$/, {
+    message: 'Phone may only contain digits, spaces and + ( ) -',
+  })
+  @Transform(({ value }) => value?.trim() || undefined)
+  contactPhone?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Organisation must be a string' })
+  @MaxLength(255, { message: 'Organisation must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim() || undefined)
+  @Sanitize()
+  organization?: string;
+}
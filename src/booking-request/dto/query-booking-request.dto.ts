@@ -0,0 +1,32 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { BookingRequestStatus } from '@prisma/client';
+
+export class QueryBookingRequestDto {
+  // Omitted = open requests (pending or quoted)
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @IsEnum(BookingRequestStatus, {
+    message: 'Status must be PENDING, QUOTED, APPROVED or REJECTED',
+  })
+  status?: BookingRequestStatus;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @IsUUID('4', { message: 'Venue ID must be a valid UUID' })
+  venueId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  limit?: number = 20;
+}
@@ -0,0 +1,48 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { RentalType } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Quote Booking Request DTO
+ * Staff adjustments; the price is recalculated from them
+ */
+export class QuoteBookingRequestDto {
+  // Omitted = cheapest of hourly and daily
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @IsEnum(RentalType, { message: 'Rental type must be HOURLY or DAILY' })
+  rentalType?: RentalType;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Discount must be a number' })
+  @Min(0, { message: 'Discount cannot be negative' })
+  @Max(100, { message: 'Discount cannot exceed 100%' })
+  discount?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Additional fees must be a number' })
+  @Min(0, { message: 'Additional fees cannot be negative' })
+  additionalFees?: number;
+
+  // Shown to the requester with the decision
+  @IsOptional()
+  @IsString({ message: 'Note must be a string' })
+  @MaxLength(5000, { message: 'Note must not exceed 5000 characters' })
+  @Transform(({ value }) => value?.trim() || null)
+  @Sanitize()
+  quoteNote?: string | null;
+}
@@ -0,0 +1,14 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+export class RejectBookingRequestDto {
+  // Sent to the requester
+  @IsString({ message: 'Reason must be a string' })
+  @IsNotEmpty({ message: 'A reason is required to reject a request' })
+  @MaxLength(2000, { message: 'Reason must not exceed 2000 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  reason: string;
+}
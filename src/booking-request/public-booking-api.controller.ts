@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { BookingRequestService } from './booking-request.service';
+import { CheckAvailabilityDto } from './dto/check-availability.dto';
+
+@Controller('api/public/venues')
+@UseGuards(ThrottlerGuard)
+export class PublicBookingApiController {
+  private readonly logger = new Logger(PublicBookingApiController.name);
+
+  constructor(private readonly bookingRequestService: BookingRequestService) {}
+
+  /**
+   * GET /api/public/venues/:id/availability
+   * Whether an active venue is free for a time window (no login)
+   * @returns JSON response with the availability and why not, if it isn't
+   */
+  @Get(':id/availability')
+  @HttpCode(HttpStatus.OK)
+  async checkAvailability(
+    @Param('id') id: string,
+    @Query() query: CheckAvailabilityDto,
+  ) {
+    this.logger.log(`[GET /api/public/venues/${id}/availability] API`);
+
+    const availability = await this.bookingRequestService.checkAvailability(
+      id,
+      new Date(query.start),
+      new Date(query.end),
+    );
+
+    return {
+      success: true,
+      message: availability.available
+        ? 'Venue is available'
+        : 'Venue is not available',
+      data: availability,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,122 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Render,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import type { Request, Response } from 'express';
+import { BookingRequestService } from './booking-request.service';
+import { BookingRequestHelper } from './booking-request.helper';
+import { CreateBookingRequestDto } from './dto/create-booking-request.dto';
+
+const PUBLIC_LAYOUT = 'layout/public';
+
+/**
+ * Public booking pages
+ * No login: anyone can browse active venues and ask to book one.
+ */
+@Controller('book')
+@UseGuards(ThrottlerGuard)
+export class PublicBookingController {
+  private readonly logger = new Logger(PublicBookingController.name);
+
+  constructor(private readonly bookingRequestService: BookingRequestService) {}
+
+  // GET /book
+  @Get()
+  @Render('book/list')
+  async getVenues() {
+    const venues = await this.bookingRequestService.getPublicVenues();
+
+    return {
+      title: 'Book a Venue',
+      venues,
+      layout: PUBLIC_LAYOUT,
+    };
+  }
+
+  // GET /book/venues/:id
+  @Get('venues/:id')
+  async getVenue(@Param('id') id: string, @Res() res: Response) {
+    try {
+      const venue = await this.bookingRequestService.getPublicVenue(id);
+
+      return res.render('book/venue', {
+        title: venue.name,
+        venue,
+        form: {},
+        error: null,
+        layout: PUBLIC_LAYOUT,
+      });
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).render('book/venue', {
+        title: 'Venue Not Found',
+        venue: null,
+        form: {},
+        error: error.message,
+        layout: PUBLIC_LAYOUT,
+      });
+    }
+  }
+
+  // POST /book/venues/:id/request
+  @Post('venues/:id/request')
+  @Throttle({ short: { limit: 3, ttl: 60000 } })
+  async createRequest(
+    @Param('id') id: string,
+    @Body() createBookingRequestDto: CreateBookingRequestDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /book/venues/${id}/request] New booking request`);
+
+    try {
+      const request = await this.bookingRequestService.createRequest(
+        id,
+        createBookingRequestDto,
+        req.ip ?? req.socket?.remoteAddress ?? null,
+      );
+      const venue = await this.bookingRequestService.getPublicVenue(id);
+
+      return res.render('book/submitted', {
+        title: 'Request Received',
+        venue,
+        request,
+        reference: BookingRequestHelper.reference(request.id),
+        layout: PUBLIC_LAYOUT,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Booking request for venue ${id} refused: ${error.message}`,
+      );
+
+      // Unexpected failures are not explained to the public
+      const refused = error instanceof HttpException;
+      const venue = await this.bookingRequestService
+        .getPublicVenue(id)
+        .catch(() => null);
+
+      return res
+        .status(refused ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR)
+        .render('book/venue', {
+          title: venue ? venue.name : 'Venue Not Found',
+          venue,
+          form: createBookingRequestDto,
+          error: refused
+            ? error.message
+            : 'Your request could not be sent. Please try again later.',
+          layout: PUBLIC_LAYOUT,
+        });
+    }
+  }
+}
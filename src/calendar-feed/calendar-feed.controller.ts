@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Session,
+  UseGuards,
+  Render,
+  Res,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { CalendarFeedScope } from '@prisma/client';
+import { CalendarFeedService } from './calendar-feed.service';
+import { CreateCalendarFeedDto } from './dto/create-calendar-feed.dto';
+import { AuthService } from '../auth/auth.service';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { Permission, PermissionHelper } from '../auth/permission.helper';
+
+@Controller('calendar-feeds')
+@UseGuards(AuthGuard)
+export class CalendarFeedController {
+  private readonly logger = new Logger(CalendarFeedController.name);
+
+  constructor(
+    private readonly calendarFeedService: CalendarFeedService,
+    private readonly authService: AuthService,
+  ) {}
+
+  // Feeds the admin can see: their own, or all if they manage admins
+  private async getPageData(adminId: string) {
+    const admin = await this.authService.findAdminById(adminId);
+    const manageAll = PermissionHelper.can(admin.role, Permission.ADMIN_MANAGE);
+    const { venues, cities } = await this.calendarFeedService.getFeedOptions();
+
+    return {
+      title: 'Calendar Feeds',
+      feeds: await this.calendarFeedService.getFeeds(
+        manageAll ? undefined : admin.id,
+      ),
+      manageAll,
+      venues,
+      cities,
+      scopes: Object.values(CalendarFeedScope),
+    };
+  }
+
+  /**
+   * GET /calendar-feeds
+   * ICS subscription links with their last fetch, plus the form to create one
+   * Renders: views/calendar-feeds/list.ejs
+   */
+  @Get()
+  @Render('calendar-feeds/list')
+  async getCalendarFeedsPage(
+    @Session() session: Record<string, any>,
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log('[GET /calendar-feeds] Rendering calendar feeds page');
+
+    let success: string | null = null;
+    if (successMessage === 'revoked') {
+      success = 'Calendar feed revoked successfully!';
+    }
+
+    try {
+      return {
+        ...(await this.getPageData(session.adminId)),
+        createdFeed: null,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load calendar feeds: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Calendar Feeds',
+        feeds: [],
+        manageAll: false,
+        venues: [],
+        cities: [],
+        scopes: Object.values(CalendarFeedScope),
+        createdFeed: null,
+        error: 'Failed to load calendar feeds. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /calendar-feeds
+  // Rendered rather than redirected, the link is only shown this once
+  @Post()
+  async createCalendarFeed(
+    @Body() createCalendarFeedDto: CreateCalendarFeedDto,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /calendar-feeds] Creating calendar feed: ${createCalendarFeedDto.name}`,
+    );
+
+    try {
+      const { feed, url } = await this.calendarFeedService.createFeed(
+        createCalendarFeedDto,
+        session.adminId,
+      );
+
+      return res.render('calendar-feeds/list', {
+        ...(await this.getPageData(session.adminId)),
+        createdFeed: { name: feed.name, url },
+        error: null,
+        success:
+          "Calendar feed created! Copy the link now, it won't be shown again.",
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to create calendar feed: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/calendar-feeds?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /calendar-feeds/:id/revoke
+  @Post(':id/revoke')
+  async revokeCalendarFeed(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /calendar-feeds/${id}/revoke] Revoking calendar feed`,
+    );
+
+    try {
+      await this.calendarFeedService.revokeFeed(id, session.adminId);
+      return res.redirect('/calendar-feeds?success=revoked');
+    } catch (error) {
+      this.logger.error(
+        `Failed to revoke calendar feed ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/calendar-feeds?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CalendarFeedService } from './calendar-feed.service';
+import { CalendarFeedController } from './calendar-feed.controller';
+import { IcsFeedController } from './ics-feed.controller';
+import { AuthModule } from 'src/auth/auth.module';
+import { MailModule } from 'src/mail/mail.module';
+
+@Module({
+  imports: [AuthModule, MailModule],
+  providers: [CalendarFeedService],
+  controllers: [CalendarFeedController, IcsFeedController],
+  exports: [CalendarFeedService],
+})
+export class CalendarFeedModule {}
@@ -0,0 +1,270 @@
+import { randomBytes } from 'crypto';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CalendarFeedScope, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { ApiTokenHelper } from '../auth/api-token.helper';
+import { Permission, PermissionHelper } from '../auth/permission.helper';
+import { IcsHelper } from './ics.helper';
+import { CreateCalendarFeedDto } from './dto/create-calendar-feed.dto';
+
+// Makes leaked feed links easy to recognise
+const TOKEN_PREFIX = 'vmc_';
+
+// Characters of the token kept in clear to tell feeds apart
+const VISIBLE_LENGTH = 12;
+
+// Feeds carry past events this far back, and everything ahead
+const FEED_PAST_DAYS = 90;
+
+const ICS_EVENT_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  status: true,
+  startDatetime: true,
+  endDatetime: true,
+  createdAt: true,
+  updatedAt: true,
+  icsSequence: true,
+  attendeeCount: true,
+  venue: { select: { name: true, address: true, city: true } },
+  spaces: { select: { space: { select: { name: true } } } },
+  client: { select: { name: true } },
+} satisfies Prisma.EventSelect;
+
+/**
+ * CalendarFeedService
+ * Read-only ICS feeds of bookings for Google Calendar, Outlook and the like.
+ * Each feed belongs to an admin and is reached through a secret link; only a
+ * hash of its token is stored.
+ */
+@Injectable()
+export class CalendarFeedService {
+  private readonly logger = new Logger(CalendarFeedService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mailService: MailService,
+  ) {}
+
+  private async getActiveAdmin(id: string) {
+    const admin = await this.prisma.admin.findUnique({
+      where: { id },
+      select: { id: true, email: true, role: true, isActive: true },
+    });
+
+    if (!admin?.isActive) {
+      throw new NotFoundException('Admin account not found or inactive');
+    }
+
+    return admin;
+  }
+
+  private eventLink = (eventId: string) =>
+    this.mailService.link(`/events/${eventId}`);
+
+  /**
+   * List feeds, newest first
+   * @param adminId - Only this admin's feeds
+   */
+  async getFeeds(adminId?: string) {
+    return this.prisma.calendarFeed.findMany({
+      where: adminId ? { adminId } : {},
+      select: {
+        id: true,
+        name: true,
+        scope: true,
+        city: true,
+        tokenPrefix: true,
+        lastFetchedAt: true,
+        revokedAt: true,
+        createdAt: true,
+        venue: { select: { id: true, name: true } },
+        admin: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Venues and cities a feed can be limited to
+   */
+  async getFeedOptions() {
+    const venues = await this.prisma.venue.findMany({
+      select: { id: true, name: true, city: true },
+      orderBy: { name: 'asc' },
+    });
+    const cities = [...new Set(venues.map((venue) => venue.city))].sort();
+
+    return { venues, cities };
+  }
+
+  /**
+   * Create a feed for the admin
+   * @returns The stored feed and its subscription URL, which is not kept
+   */
+  async createFeed(
+    createCalendarFeedDto: CreateCalendarFeedDto,
+    adminId: string,
+  ) {
+    const admin = await this.getActiveAdmin(adminId);
+    const { name, scope } = createCalendarFeedDto;
+    let venueId: string | null = null;
+    let city: string | null = null;
+
+    if (scope === CalendarFeedScope.VENUE) {
+      const venue = await this.prisma.venue.findUnique({
+        where: { id: createCalendarFeedDto.venueId },
+        select: { id: true },
+      });
+
+      if (!venue) {
+        throw new NotFoundException(
+          `Venue with ID "${createCalendarFeedDto.venueId}" not found`,
+        );
+      }
+
+      venueId = venue.id;
+    }
+
+    if (scope === CalendarFeedScope.CITY) {
+      const venues = await this.prisma.venue.count({
+        where: { city: createCalendarFeedDto.city },
+      });
+
+      if (venues === 0) {
+        throw new BadRequestException(
+          `There are no venues in "${createCalendarFeedDto.city}"`,
+        );
+      }
+
+      city = createCalendarFeedDto.city ?? null;
+    }
+
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const feed = await this.prisma.calendarFeed.create({
+      data: {
+        adminId: admin.id,
+        name,
+        scope,
+        venueId,
+        city,
+        tokenPrefix: token.slice(0, VISIBLE_LENGTH),
+        tokenHash: ApiTokenHelper.hash(token),
+      },
+    });
+
+    this.logger.log(
+      `Calendar feed created: ${feed.name} (ID: ${feed.id}) by ${admin.email}`,
+    );
+
+    return { feed, url: this.mailService.link(`/ics/${token}.ics`) };
+  }
+
+  /**
+   * Revoke a feed; subscribed calendars stop updating
+   * @param adminId - Admin revoking it, the owner or one who manages admins
+   */
+  async revokeFeed(id: string, adminId: string) {
+    const admin = await this.getActiveAdmin(adminId);
+    const feed = await this.prisma.calendarFeed.findUnique({ where: { id } });
+
+    if (
+      !feed ||
+      (feed.adminId !== admin.id &&
+        !PermissionHelper.can(admin.role, Permission.ADMIN_MANAGE))
+    ) {
+      throw new NotFoundException(`Calendar feed with ID "${id}" not found`);
+    }
+
+    if (feed.revokedAt) {
+      throw new BadRequestException('Calendar feed is already revoked');
+    }
+
+    await this.prisma.calendarFeed.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    this.logger.log(
+      `Calendar feed revoked: ${feed.name} (ID: ${id}) by ${admin.email}`,
+    );
+
+    return { message: 'Calendar feed revoked successfully', feedId: id };
+  }
+
+  /**
+   * The ICS document behind a feed link
+   * Cancelled events stay in the feed so subscribers remove them.
+   * @throws NotFoundException if the token is unknown, revoked or its admin
+   * has been deactivated
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { tokenHash: ApiTokenHelper.hash(token) },
+      include: { admin: { select: { isActive: true } } },
+    });
+
+    if (!feed || feed.revokedAt || !feed.admin.isActive) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const since = new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000);
+    const where: Prisma.EventWhereInput = { endDatetime: { gte: since } };
+
+    if (feed.scope === CalendarFeedScope.VENUE && feed.venueId) {
+      where.venueId = feed.venueId;
+    }
+
+    if (feed.scope === CalendarFeedScope.CITY && feed.city) {
+      where.venue = { city: feed.city };
+    }
+
+    const events = await this.prisma.event.findMany({
+      where,
+      select: ICS_EVENT_SELECT,
+      orderBy: { startDatetime: 'asc' },
+    });
+
+    await this.prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastFetchedAt: new Date() },
+    });
+
+    return IcsHelper.calendar(feed.name, events, this.eventLink);
+  }
+
+  /**
+   * A single event as an .ics file
+   * @returns File name and contents
+   */
+  async renderEvent(eventId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: ICS_EVENT_SELECT,
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Event with ID "${eventId}" not found`);
+    }
+
+    const slug =
+      event.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .slice(0, 60)
+        .replace(/^-+|-+$/g, '') || 'event';
+
+    return {
+      filename: `${slug}.ics`,
+      content: IcsHelper.calendar(event.name, [event], this.eventLink),
+    };
+  }
+}
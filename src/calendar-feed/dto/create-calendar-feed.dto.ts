@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { CalendarFeedScope } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Create Calendar Feed DTO
+ * An ICS subscription link for all events, one venue or one city
+ */
+export class CreateCalendarFeedDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  name: string;
+
+  @IsEnum(CalendarFeedScope, {
+    message: 'Scope must be one of: ALL, VENUE, CITY',
+  })
+  scope: CalendarFeedScope;
+
+  // Required for scope VENUE, ignored otherwise
+  @Transform(({ value }) => value || undefined)
+  @ValidateIf((o) => o.scope === CalendarFeedScope.VENUE)
+  @IsUUID('4', { message: 'Venue ID must be a valid UUID' })
+  venueId?: string;
+
+  // Required for scope CITY, ignored otherwise
+  @Transform(({ value }) => value?.trim() || undefined)
+  @ValidateIf((o) => o.scope === CalendarFeedScope.CITY)
+  @IsString({ message: 'City must be a string' })
+  @IsNotEmpty({ message: 'City is required' })
+  @MaxLength(255, { message: 'City must not exceed 255 characters' })
+  city?: string;
+}
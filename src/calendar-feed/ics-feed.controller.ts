@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  Logger,
+  NotFoundException,
+  Param,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import type { Response } from 'express';
+import { CalendarFeedService } from './calendar-feed.service';
+
+@Controller('ics')
+@UseGuards(ThrottlerGuard)
+export class IcsFeedController {
+  private readonly logger = new Logger(IcsFeedController.name);
+
+  constructor(private readonly calendarFeedService: CalendarFeedService) {}
+
+  /**
+   * GET /ics/:token.ics
+   * A calendar feed for subscribing calendar apps (no login, the token is
+   * the secret)
+   */
+  @Get(':token.ics')
+  async getFeed(@Param('token') token: string, @Res() res: Response) {
+    try {
+      const content = await this.calendarFeedService.renderFeed(token);
+
+      return res
+        .type('text/calendar; charset=utf-8')
+        .set('Cache-Control', 'private, max-age=300')
+        .send(content);
+    } catch (error) {
+      // Answered here so the token in the URL stays out of the error log
+      if (error instanceof NotFoundException) {
+        this.logger.warn('Unknown or revoked calendar feed requested');
+        return res
+          .status(404)
+          .type('text/plain')
+          .send('Calendar feed not found');
+      }
+
+      throw error;
+    }
+  }
+}
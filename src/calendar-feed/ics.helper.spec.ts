@@ -0,0 +1,101 @@
+import { EventStatus } from '@prisma/client';
+import { IcsEvent, IcsHelper } from './ics.helper';
+
+describe('IcsHelper', () => {
+  const event = (overrides: Partial<IcsEvent> = {}): IcsEvent => ({
+    id: 'e1',
+    name: 'Annual Gala',
+    description: null,
+    status: EventStatus.UPCOMING,
+    startDatetime: new Date('2026-11-01T11:00:00.000Z'),
+    endDatetime: new Date('2026-11-01T15:30:00.000Z'),
+    createdAt: new Date('2026-10-01T08:00:00.000Z'),
+    updatedAt: new Date('2026-10-05T09:15:42.123Z'),
+    icsSequence: 3,
+    attendeeCount: 250,
+    venue: { name: 'Grand Hall', address: 'Jl. Merdeka 1', city: 'Jakarta' },
+    spaces: [],
+    client: null,
+    ...overrides,
+  });
+  const link = (id: string) => `https://app.example/events/${id}`;
+
+  it('formats UTC date-times without separators or milliseconds', () => {
+    expect(IcsHelper.formatDate(new Date('2026-10-05T09:15:42.123Z'))).toBe(
+      '20261005T091542Z',
+    );
+  });
+
+  it('escapes text values', () => {
+    expect(IcsHelper.escape('Hall A, B; C\\D\nNext')).toBe(
+      'Hall A\\, B\\; C\\\\D\\nNext',
+    );
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const folded = IcsHelper.fold(`SUMMARY:${'é'.repeat(80)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) =>
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75),
+    );
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(lines.map((line, i) => (i ? line.slice(1) : line)).join('')).toBe(
+      `SUMMARY:${'é'.repeat(80)}`,
+    );
+  });
+
+  it('maps event statuses', () => {
+    expect(IcsHelper.status(EventStatus.HOLD)).toBe('TENTATIVE');
+    expect(IcsHelper.status(EventStatus.UPCOMING)).toBe('CONFIRMED');
+    expect(IcsHelper.status(EventStatus.COMPLETED)).toBe('CONFIRMED');
+    expect(IcsHelper.status(EventStatus.CANCELLED)).toBe('CANCELLED');
+  });
+
+  it('writes a VEVENT with a stable UID and the sequence', () => {
+    const lines = IcsHelper.vevent(
+      event({
+        spaces: [{ space: { name: 'Ballroom' } }],
+        client: { name: 'PT Maju' },
+      }),
+      link('e1'),
+    );
+
+    expect(lines).toContain('UID:event-e1@eventmanager');
+    expect(lines).toContain('SEQUENCE:3');
+    expect(lines).toContain('DTSTART:20261101T110000Z');
+    expect(lines).toContain('DTEND:20261101T153000Z');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(lines).toContain(
+      'LOCATION:Grand Hall (Ballroom)\\, Jl. Merdeka 1\\, Jakarta',
+    );
+    expect(lines).toContain(
+      'DESCRIPTION:Client: PT Maju\\nAttendees: 250\\nhttps://app.example/events/e1',
+    );
+  });
+
+  it('marks cancelled events as cancelled and free', () => {
+    const lines = IcsHelper.vevent(
+      event({ status: EventStatus.CANCELLED }),
+      link('e1'),
+    );
+
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('TRANSP:TRANSPARENT');
+  });
+
+  it('wraps events in a calendar with CRLF line endings', () => {
+    const ics = IcsHelper.calendar(
+      'Grand Hall',
+      [event(), event({ id: 'e2' })],
+      link,
+    );
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('X-WR-CALNAME:Grand Hall');
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+});
@@ -0,0 +1,145 @@
+import { EventStatus } from '@prisma/client';
+
+// Identifies this app to calendar clients (RFC 5545 PRODID)
+const PRODUCT_ID = '-//EventManager//Venue Bookings//EN';
+
+// Right-hand side of every UID, so IDs never clash with other calendars
+const UID_DOMAIN = 'eventmanager';
+
+// Longest content line in octets before it is folded
+const MAX_LINE_OCTETS = 75;
+
+export interface IcsEvent {
+  id: string;
+  name: string;
+  description: string | null;
+  status: EventStatus;
+  startDatetime: Date;
+  endDatetime: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  icsSequence: number;
+  attendeeCount: number | null;
+  venue: { name: string; address: string; city: string };
+  spaces: { space: { name: string } }[];
+  client?: { name: string } | null;
+}
+
+export class IcsHelper {
+  // Stable across edits, so clients update the entry instead of adding one
+  static uid(eventId: string): string {
+    return `event-${eventId}@${UID_DOMAIN}`;
+  }
+
+  // Holds are pencilled in; everything else not cancelled is booked
+  static status(status: EventStatus): 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED' {
+    if (status === EventStatus.CANCELLED) {
+      return 'CANCELLED';
+    }
+
+    return status === EventStatus.HOLD ? 'TENTATIVE' : 'CONFIRMED';
+  }
+
+  // UTC date-time, e.g. 20261020T093000Z
+  static formatDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+  }
+
+  static escape(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  // Split a content line into 75-octet pieces joined by CRLF and a space,
+  // without cutting a multi-byte character in half
+  static fold(line: string): string {
+    const pieces: string[] = [];
+    let piece = '';
+    let octets = 0;
+
+    for (const char of line) {
+      const size = Buffer.byteLength(char);
+      // Continuation lines lose one octet to the leading space
+      const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+      if (octets + size > limit) {
+        pieces.push(piece);
+        piece = '';
+        octets = 0;
+      }
+
+      piece += char;
+      octets += size;
+    }
+
+    pieces.push(piece);
+    return pieces.join('\r\n ');
+  }
+
+  static location(event: IcsEvent): string {
+    const spaces = event.spaces.map((eventSpace) => eventSpace.space.name);
+    const place = spaces.length
+      ? `${event.venue.name} (${spaces.join(', ')})`
+      : event.venue.name;
+
+    return `${place}, ${event.venue.address}, ${event.venue.city}`;
+  }
+
+  static vevent(event: IcsEvent, link: string): string[] {
+    const details = [
+      event.client ? `Client: ${event.client.name}` : null,
+      event.attendeeCount ? `Attendees: ${event.attendeeCount}` : null,
+      event.status === EventStatus.HOLD ? 'On hold, not yet confirmed' : null,
+      event.description,
+      link,
+    ].filter((line): line is string => !!line);
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${this.uid(event.id)}`,
+      `SEQUENCE:${event.icsSequence}`,
+      `DTSTAMP:${this.formatDate(event.updatedAt)}`,
+      `CREATED:${this.formatDate(event.createdAt)}`,
+      `LAST-MODIFIED:${this.formatDate(event.updatedAt)}`,
+      `DTSTART:${this.formatDate(event.startDatetime)}`,
+      `DTEND:${this.formatDate(event.endDatetime)}`,
+      `SUMMARY:${this.escape(event.name)}`,
+      `LOCATION:${this.escape(this.location(event))}`,
+      `DESCRIPTION:${this.escape(details.join('\n'))}`,
+      `STATUS:${this.status(event.status)}`,
+      // Holds and cancellations don't block the subscriber's own time
+      `TRANSP:${this.status(event.status) === 'CONFIRMED' ? 'OPAQUE' : 'TRANSPARENT'}`,
+      `URL:${link}`,
+      'END:VEVENT',
+    ];
+  }
+
+  /**
+   * A VCALENDAR document with one VEVENT per event
+   * @param link - Absolute URL of an event's page
+   */
+  static calendar(
+    name: string,
+    events: IcsEvent[],
+    link: (eventId: string) => string,
+  ): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escape(name)}`,
+      ...events.flatMap((event) => this.vevent(event, link(event.id))),
+      'END:VCALENDAR',
+    ];
+
+    return lines.map((line) => this.fold(line)).join('\r\n') + '\r\n';
+  }
+}
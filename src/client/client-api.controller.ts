@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ClientService } from './client.service';
+import { CreateClientDto } from './dto/create-client.dto';
+import { UpdateClientDto } from './dto/update-client.dto';
+import { QueryClientDto } from './dto/query-client.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/clients')
+@UseGuards(ApiAuthGuard)
+export class ClientApiController {
+  private readonly logger = new Logger(ClientApiController.name);
+
+  constructor(private readonly clientService: ClientService) {}
+
+  /**
+   * GET /api/clients
+   * Search clients by name, contact, email, phone or tax ID
+   * Used by the client picker of the event form
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getClients(@Query() queryDto: QueryClientDto) {
+    this.logger.log(
+      `[GET /api/clients] API: Searching clients: ${queryDto.search || 'all'}`,
+    );
+
+    const result = await this.clientService.getClients(queryDto);
+
+    return {
+      success: true,
+      message: 'Clients retrieved successfully',
+      data: result.data,
+      meta: result.meta,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/clients/:id
+   * Client with booking history, balances and totals
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getClientById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[GET /api/clients/${id}] API: Fetching client`);
+
+    const client = await this.clientService.getClientById(id);
+
+    return {
+      success: true,
+      message: 'Client retrieved successfully',
+      data: client,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/clients
+   */
+  @Post()
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  async createClient(@Body() createClientDto: CreateClientDto) {
+    this.logger.log(
+      `[POST /api/clients] API: Creating client: ${createClientDto.name}`,
+    );
+
+    const client = await this.clientService.createClient(createClientDto);
+
+    return {
+      success: true,
+      message: 'Client created successfully',
+      data: client,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * PATCH /api/clients/:id
+   */
+  @Patch(':id')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async updateClient(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateClientDto: UpdateClientDto,
+  ) {
+    this.logger.log(`[PATCH /api/clients/${id}] API: Updating client`);
+
+    const client = await this.clientService.updateClient(id, updateClientDto);
+
+    return {
+      success: true,
+      message: 'Client updated successfully',
+      data: client,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * DELETE /api/clients/:id
+   * Only clients without bookings can be deleted
+   */
+  @Delete(':id')
+  @RequirePermissions(Permission.EVENT_DELETE)
+  @HttpCode(HttpStatus.OK)
+  async deleteClient(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[DELETE /api/clients/${id}] API: Deleting client`);
+
+    const result = await this.clientService.deleteClient(id);
+
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
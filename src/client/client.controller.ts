@@ -0,0 +1,276 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Render,
+  Res,
+  Req,
+  Logger,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { ClientType } from '@prisma/client';
+import { ClientService } from './client.service';
+import { CreateClientDto } from './dto/create-client.dto';
+import { UpdateClientDto } from './dto/update-client.dto';
+import { QueryClientDto } from './dto/query-client.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+import { AuditService } from '../audit/audit.service';
+
+@Controller('clients')
+@UseGuards(AuthGuard)
+export class ClientController {
+  private readonly logger = new Logger(ClientController.name);
+
+  constructor(
+    private readonly clientService: ClientService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * GET /clients
+   * Clients matching the search, with their number of bookings
+   * Renders: views/clients/list.ejs
+   */
+  @Get()
+  @Render('clients/list')
+  async listClients(@Query() queryDto: QueryClientDto, @Req() req: Request) {
+    this.logger.log(
+      `[GET /clients] Rendering client list with filters: ${JSON.stringify(queryDto)}`,
+    );
+
+    // Set by the delete handler; the list's query cannot carry ?success=
+    const success = req.session.flashSuccess ?? null;
+    delete req.session.flashSuccess;
+
+    try {
+      const result = await this.clientService.getClients(queryDto);
+
+      return {
+        title: 'Clients',
+        clients: result.data,
+        meta: result.meta,
+        query: queryDto,
+        types: Object.values(ClientType),
+        error: null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load clients: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Clients',
+        clients: [],
+        meta: { total: 0, page: 1, limit: 20, totalPages: 0 },
+        query: queryDto,
+        types: Object.values(ClientType),
+        error: 'Failed to load clients. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  /**
+   * GET /clients/create
+   * Renders: views/clients/form.ejs
+   */
+  @Get('create')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @Render('clients/form')
+  createClientForm() {
+    this.logger.log('[GET /clients/create] Rendering create client form');
+
+    return {
+      title: 'New Client',
+      client: null,
+      action: '/clients',
+      types: Object.values(ClientType),
+      error: null,
+      success: null,
+    };
+  }
+
+  // POST /clients
+  @Post()
+  @RequirePermissions(Permission.EVENT_WRITE)
+  async createClient(
+    @Body() createClientDto: CreateClientDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /clients] Creating client: ${createClientDto.name}`);
+
+    try {
+      const client = await this.clientService.createClient(createClientDto);
+      return res.redirect(`/clients/${client.id}?success=created`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to create client: ${error.message}`,
+        error.stack,
+      );
+
+      return res.status(HttpStatus.BAD_REQUEST).render('clients/form', {
+        title: 'New Client',
+        client: createClientDto,
+        action: '/clients',
+        types: Object.values(ClientType),
+        error: error.message || 'Failed to create client. Please try again.',
+        success: null,
+      });
+    }
+  }
+
+  /**
+   * GET /clients/:id
+   * Client details, booking history with balances, and change history
+   * Renders: views/clients/details.ejs
+   */
+  @Get(':id')
+  @Render('clients/details')
+  async getClientDetail(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log(`[GET /clients/${id}] Rendering client detail page`);
+
+    let success: string | null = null;
+    if (successMessage === 'created') {
+      success = 'Client created successfully!';
+    } else if (successMessage === 'updated') {
+      success = 'Client updated successfully!';
+    }
+
+    try {
+      const [client, history] = await Promise.all([
+        this.clientService.getClientById(id),
+        this.auditService.getEntityHistory(id),
+      ]);
+
+      return {
+        title: `Client: ${client.name}`,
+        client,
+        history,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load client ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Client Not Found',
+        client: null,
+        history: [],
+        error: error.message || 'Client not found.',
+        success: null,
+      };
+    }
+  }
+
+  /**
+   * GET /clients/:id/edit
+   * Renders: views/clients/form.ejs
+   */
+  @Get(':id/edit')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @Render('clients/form')
+  async editClientForm(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[GET /clients/${id}/edit] Rendering edit client form`);
+
+    try {
+      const client = await this.clientService.getClient(id);
+
+      return {
+        title: `Edit Client: ${client.name}`,
+        client,
+        action: `/clients/${id}`,
+        types: Object.values(ClientType),
+        error: null,
+        success: null,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load client for editing: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Client Not Found',
+        client: null,
+        action: '/clients',
+        types: Object.values(ClientType),
+        error: error.message || 'Client not found.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /clients/:id
+  @Post(':id')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  async updateClient(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateClientDto: UpdateClientDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /clients/${id}] Updating client`);
+
+    try {
+      await this.clientService.updateClient(id, updateClientDto);
+      return res.redirect(`/clients/${id}?success=updated`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to update client ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.status(HttpStatus.BAD_REQUEST).render('clients/form', {
+        title: 'Edit Client',
+        client: { id, ...updateClientDto },
+        action: `/clients/${id}`,
+        types: Object.values(ClientType),
+        error: error.message || 'Failed to update client. Please try again.',
+        success: null,
+      });
+    }
+  }
+
+  // POST /clients/:id/delete
+  @Post(':id/delete')
+  @RequirePermissions(Permission.EVENT_DELETE)
+  async deleteClient(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /clients/${id}/delete] Deleting client`);
+
+    try {
+      await this.clientService.deleteClient(id);
+      req.session.flashSuccess = 'Client deleted successfully!';
+      return res.redirect('/clients');
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete client ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/clients/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
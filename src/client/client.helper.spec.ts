@@ -0,0 +1,108 @@
+import { EventStatus, PaymentType } from '@prisma/client';
+import { ClientHelper } from './client.helper';
+
+describe('ClientHelper', () => {
+  const now = new Date('2026-03-01T10:00:00.000Z');
+  const past = new Date('2026-02-10T10:00:00.000Z');
+  const future = new Date('2026-03-10T10:00:00.000Z');
+
+  it('adds up spend and balances of billed bookings per currency', () => {
+    const { summary } = ClientHelper.summarize(
+      [
+        {
+          currency: 'IDR',
+          finalPrice: 1000000,
+          status: EventStatus.COMPLETED,
+          startDatetime: past,
+          payments: [{ type: PaymentType.DEPOSIT, amount: 1000000 }],
+        },
+        {
+          currency: 'IDR',
+          finalPrice: 500000,
+          status: EventStatus.UPCOMING,
+          startDatetime: future,
+          payments: [{ type: PaymentType.DEPOSIT, amount: 200000 }],
+        },
+        {
+          currency: 'USD',
+          finalPrice: 300,
+          status: EventStatus.COMPLETED,
+          startDatetime: past,
+          payments: [],
+        },
+      ],
+      now,
+    );
+
+    expect(summary.totalBookings).toBe(3);
+    expect(summary.upcomingBookings).toBe(1);
+    expect(summary.lastBookingAt).toEqual(future);
+    expect(summary.totals).toEqual([
+      {
+        currency: 'IDR',
+        bookings: 2,
+        lifetimeSpend: 1500000,
+        netPaid: 1200000,
+        outstanding: 300000,
+        overdue: 0,
+        refundDue: 0,
+      },
+      {
+        currency: 'USD',
+        bookings: 1,
+        lifetimeSpend: 300,
+        netPaid: 0,
+        outstanding: 300,
+        overdue: 300,
+        refundDue: 0,
+      },
+    ]);
+  });
+
+  it('leaves cancelled bookings and holds out of spend', () => {
+    const { summary, balances } = ClientHelper.summarize(
+      [
+        {
+          currency: 'IDR',
+          finalPrice: 800000,
+          status: EventStatus.CANCELLED,
+          startDatetime: future,
+          payments: [{ type: PaymentType.DEPOSIT, amount: 100000 }],
+        },
+        {
+          currency: 'IDR',
+          finalPrice: 400000,
+          status: EventStatus.HOLD,
+          startDatetime: future,
+          payments: [],
+        },
+      ],
+      now,
+    );
+
+    expect(summary.cancelledBookings).toBe(1);
+    expect(summary.totals).toEqual([
+      {
+        currency: 'IDR',
+        bookings: 0,
+        lifetimeSpend: 0,
+        netPaid: 100000,
+        outstanding: 0,
+        overdue: 0,
+        refundDue: 100000,
+      },
+    ]);
+    expect(balances.map((balance) => balance.status)).toEqual([
+      'REFUND_DUE',
+      'UNPAID',
+    ]);
+  });
+
+  it('summarizes a client without bookings', () => {
+    const { summary } = ClientHelper.summarize([], now);
+
+    expect(summary.totalBookings).toBe(0);
+    expect(summary.lastBookingAt).toBeNull();
+    expect(summary.totals).toEqual([]);
+  });
+});
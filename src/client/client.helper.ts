@@ -0,0 +1,107 @@
+import { EventStatus } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  LedgerEntry,
+  PaymentHelper,
+  PaymentSummary,
+} from '../event/payment.helper';
+
+export interface ClientBooking {
+  currency: string;
+  finalPrice: Decimal | number | null;
+  status: EventStatus;
+  startDatetime: Date;
+  payments: LedgerEntry[];
+}
+
+// Amounts are in the currency of the events they come from
+export interface ClientCurrencyTotals {
+  currency: string;
+  bookings: number;
+  lifetimeSpend: number;
+  netPaid: number;
+  outstanding: number;
+  overdue: number;
+  refundDue: number;
+}
+
+export interface ClientSummary {
+  totalBookings: number;
+  upcomingBookings: number;
+  cancelledBookings: number;
+  lastBookingAt: Date | null;
+  totals: ClientCurrencyTotals[];
+}
+
+export class ClientHelper {
+  // Bookings that count towards spend: confirmed or past, not held or cancelled
+  static isBilled(status: EventStatus): boolean {
+    return status !== EventStatus.CANCELLED && status !== EventStatus.HOLD;
+  }
+
+  // Booking counts and per-currency spend and balances of a client
+  // Lifetime spend is the sum of final prices of billed bookings; the
+  // outstanding balance follows the payment ledger of each booking.
+  static summarize(bookings: ClientBooking[], now: Date = new Date()) {
+    const totals = new Map<string, ClientCurrencyTotals>();
+    const balances: PaymentSummary[] = [];
+    let upcomingBookings = 0;
+    let cancelledBookings = 0;
+    let lastBookingAt: Date | null = null;
+
+    for (const booking of bookings) {
+      const balance = PaymentHelper.summarize(booking, booking.payments, now);
+      balances.push(balance);
+
+      if (booking.status === EventStatus.CANCELLED) {
+        cancelledBookings++;
+      } else if (booking.startDatetime > now) {
+        upcomingBookings++;
+      }
+
+      if (!lastBookingAt || booking.startDatetime > lastBookingAt) {
+        lastBookingAt = booking.startDatetime;
+      }
+
+      if (!ClientHelper.isBilled(booking.status) && balance.netPaid === 0) {
+        continue;
+      }
+
+      const current = totals.get(booking.currency) ?? {
+        currency: booking.currency,
+        bookings: 0,
+        lifetimeSpend: 0,
+        netPaid: 0,
+        outstanding: 0,
+        overdue: 0,
+        refundDue: 0,
+      };
+
+      if (ClientHelper.isBilled(booking.status)) {
+        current.bookings++;
+        current.lifetimeSpend += Number(booking.finalPrice || 0);
+        current.outstanding += balance.outstanding;
+
+        if (balance.status === 'OVERDUE') {
+          current.overdue += balance.outstanding;
+        }
+      }
+
+      current.netPaid += balance.netPaid;
+      current.refundDue += balance.refundDue;
+      totals.set(booking.currency, current);
+    }
+
+    const summary: ClientSummary = {
+      totalBookings: bookings.length,
+      upcomingBookings,
+      cancelledBookings,
+      lastBookingAt,
+      totals: [...totals.values()].sort((a, b) =>
+        a.currency.localeCompare(b.currency),
+      ),
+    };
+
+    return { summary, balances };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ClientService } from './client.service';
+import { ClientController } from './client.controller';
+import { ClientApiController } from './client-api.controller';
+import { AuditModule } from 'src/audit/audit.module';
+
+@Module({
+  imports: [AuditModule],
+  providers: [ClientService],
+  controllers: [ClientController, ClientApiController],
+  exports: [ClientService],
+})
+export class ClientModule {}
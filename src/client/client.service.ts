@@ -0,0 +1,236 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  AuditAction,
+  AuditEntityType,
+  Client,
+  ClientType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { ClientHelper } from './client.helper';
+import { CreateClientDto } from './dto/create-client.dto';
+import { UpdateClientDto } from './dto/update-client.dto';
+import { QueryClientDto } from './dto/query-client.dto';
+
+// Booking history shown on the client page, newest first
+const CLIENT_EVENTS_INCLUDE = {
+  events: {
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      startDatetime: true,
+      endDatetime: true,
+      finalPrice: true,
+      currency: true,
+      venue: { select: { id: true, name: true, city: true } },
+      payments: { select: { type: true, amount: true } },
+    },
+    orderBy: { startDatetime: 'desc' },
+  },
+} satisfies Prisma.ClientInclude;
+
+/**
+ * ClientService
+ * People and organisations who book events, with their booking history,
+ * lifetime spend and outstanding balance.
+ */
+@Injectable()
+export class ClientService {
+  private readonly logger = new Logger(ClientService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Clients matching the search, by name, with their number of bookings
+   */
+  async getClients(queryDto: QueryClientDto) {
+    const { search, type, page = 1, limit = 20 } = queryDto;
+
+    const where: Prisma.ClientWhereInput = {};
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search } },
+        { contactName: { contains: search } },
+        { email: { contains: search } },
+        { phone: { contains: search } },
+        { taxId: { contains: search } },
+      ];
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    const [clients, total] = await Promise.all([
+      this.prisma.client.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { name: 'asc' },
+        include: { _count: { select: { events: true } } },
+      }),
+      this.prisma.client.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: clients,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Client without its bookings
+   */
+  async getClient(id: string): Promise<Client> {
+    const client = await this.prisma.client.findUnique({ where: { id } });
+
+    if (!client) {
+      throw new NotFoundException(`Client with ID "${id}" not found`);
+    }
+
+    return client;
+  }
+
+  /**
+   * Client with its booking history, each booking's balance and the totals
+   */
+  async getClientById(id: string) {
+    const client = await this.prisma.client.findUnique({
+      where: { id },
+      include: CLIENT_EVENTS_INCLUDE,
+    });
+
+    if (!client) {
+      throw new NotFoundException(`Client with ID "${id}" not found`);
+    }
+
+    const { summary, balances } = ClientHelper.summarize(client.events);
+
+    return {
+      ...client,
+      events: client.events.map((event, index) => ({
+        ...event,
+        netPaid: balances[index].netPaid,
+        outstanding: balances[index].outstanding,
+        paymentStatus: balances[index].status,
+      })),
+      summary,
+    };
+  }
+
+  async createClient(createClientDto: CreateClientDto): Promise<Client> {
+    this.logger.log(`Creating client: ${createClientDto.name}`);
+
+    const client = await this.prisma.client.create({
+      data: {
+        type: createClientDto.type ?? ClientType.INDIVIDUAL,
+        name: createClientDto.name,
+        contactName: createClientDto.contactName ?? null,
+        email: createClientDto.email ?? null,
+        phone: createClientDto.phone ?? null,
+        taxId: createClientDto.taxId ?? null,
+        address: createClientDto.address ?? null,
+        notes: createClientDto.notes ?? null,
+      },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.CREATE,
+      entityType: AuditEntityType.CLIENT,
+      entityId: client.id,
+      entityLabel: client.name,
+      after: client,
+    });
+
+    this.logger.log(`Client created: ${client.name} (ID: ${client.id})`);
+    return client;
+  }
+
+  async updateClient(
+    id: string,
+    updateClientDto: UpdateClientDto,
+  ): Promise<Client> {
+    this.logger.log(`Updating client: ${id}`);
+
+    const existing = await this.getClient(id);
+
+    const client = await this.prisma.client.update({
+      where: { id },
+      data: {
+        type: updateClientDto.type,
+        name: updateClientDto.name,
+        contactName: updateClientDto.contactName,
+        email: updateClientDto.email,
+        phone: updateClientDto.phone,
+        taxId: updateClientDto.taxId,
+        address: updateClientDto.address,
+        notes: updateClientDto.notes,
+      },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: AuditEntityType.CLIENT,
+      entityId: id,
+      entityLabel: client.name,
+      before: existing,
+      after: client,
+    });
+
+    this.logger.log(`Client updated: ${client.name} (ID: ${id})`);
+    return client;
+  }
+
+  /**
+   * Delete a client without bookings
+   * Clients who booked stay for the booking history; their events would
+   * otherwise lose who booked them.
+   */
+  async deleteClient(id: string) {
+    this.logger.log(`Deleting client: ${id}`);
+
+    const client = await this.getClient(id);
+    const bookings = await this.prisma.event.count({
+      where: { clientId: id },
+    });
+
+    if (bookings > 0) {
+      throw new ConflictException(
+        `Cannot delete client "${client.name}" because they have ${bookings} booking(s)`,
+      );
+    }
+
+    await this.prisma.client.delete({ where: { id } });
+
+    await this.auditService.record({
+      action: AuditAction.DELETE,
+      entityType: AuditEntityType.CLIENT,
+      entityId: id,
+      entityLabel: client.name,
+      before: client,
+    });
+
+    this.logger.log(`Client deleted: ${id}`);
+    return { message: 'Client deleted successfully', clientId: id };
+  }
+}
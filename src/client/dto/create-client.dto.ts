@@ -0,0 +1,73 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ClientType } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Create Client DTO
+ * A person or organisation that books events. Optional fields left empty
+ * are stored as null, so an edit can clear them.
+ */
+export class CreateClientDto {
+  @IsOptional()
+  @IsEnum(ClientType, {
+    message: 'Client type must be INDIVIDUAL or ORGANIZATION',
+  })
+  type?: ClientType;
+
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(255, { message: 'Name must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  name: string;
+
+  @IsOptional()
+  @IsString({ message: 'Contact name must be a string' })
+  @MaxLength(255, { message: 'Contact name must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim() || null)
+  @Sanitize()
+  contactName?: string | null;
+
+  @IsOptional()
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @MaxLength(255, { message: 'Email must not exceed 255 characters' })
+  @Transform(({ value }) => value?.toLowerCase().trim() || null)
+  email?: string | null;
+
+  @IsOptional()
+  @IsString({ message: 'Phone must be a string' })
+  @MaxLength(50, { message: 'Phone must not exceed 50 characters' })
+  @Transform(({ value }) => value?.trim() || null)
+  @Sanitize()
+  phone?: string | null;
+
+  @IsOptional()
+  @IsString({ message: 'Tax ID must be a string' })
+  @MaxLength(50, { message: 'Tax ID must not exceed 50 characters' })
+  @Transform(({ value }) => value?.trim() || null)
+  @Sanitize()
+  taxId?: string | null;
+
+  @IsOptional()
+  @IsString({ message: 'Address must be a string' })
+  @MaxLength(1000, { message: 'Address must not exceed 1000 characters' })
+  @Transform(({ value }) => value?.trim() || null)
+  @Sanitize()
+  address?: string | null;
+
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(5000, { message: 'Notes must not exceed 5000 characters' })
+  @Transform(({ value }) => value?.trim() || null)
+  @Sanitize()
+  notes?: string | null;
+}
@@ -0,0 +1,32 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ClientType } from '@prisma/client';
+
+export class QueryClientDto {
+  // Name, contact name, email, phone or tax ID
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @IsEnum(ClientType, {
+    message: 'Client type must be INDIVIDUAL or ORGANIZATION',
+  })
+  type?: ClientType;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  limit?: number = 20;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateClientDto } from './create-client.dto';
+
+export class UpdateClientDto extends PartialType(CreateClientDto) {}
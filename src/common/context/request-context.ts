@@ -0,0 +1,17 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Who made the current request, readable from services without passing it
+ * through every call. Set by RequestContextInterceptor; undefined outside
+ * HTTP requests (scheduled jobs).
+ */
+export interface RequestContext {
+  adminId: string | null;
+  ipAddress: string | null;
+}
+
+export const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return requestContextStorage.getStore();
+}
@@ -0,0 +1,32 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { Observable } from 'rxjs';
+import { requestContextStorage } from '../context/request-context';
+
+/**
+ * RequestContextInterceptor
+ * Runs the route handler inside a RequestContext holding the logged-in
+ * admin (or the admin of the API token) and client IP. An interceptor
+ * rather than a middleware so it runs after the guards and the body parser.
+ */
+@Injectable()
+export class RequestContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const store = {
+      adminId: request.apiToken?.adminId ?? request.session?.adminId ?? null,
+      ipAddress: request.ip ?? null,
+    };
+
+    return new Observable((subscriber) =>
+      requestContextStorage.run(store, () =>
+        next.handle().subscribe(subscriber),
+      ),
+    );
+  }
+}
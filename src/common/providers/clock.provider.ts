@@ -0,0 +1,23 @@
+import { Injectable, Provider } from '@nestjs/common';
+
+/**
+ * Injection token for the application clock
+ * Inject with @Inject(CLOCK) so tests can substitute a fixed time source
+ */
+export const CLOCK = 'CLOCK';
+
+export interface Clock {
+  now(): Date;
+}
+
+@Injectable()
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+export const ClockProvider: Provider = {
+  provide: CLOCK,
+  useClass: SystemClock,
+};
@@ -8,6 +8,8 @@ import {
   IsInt,
   Min,
   Max,
+  IsIn,
+  IsBooleanString,
 } from 'class-validator';
 
 enum Environment {
@@ -38,6 +40,47 @@ class EnvironmentVariables {
   @IsString()
   @IsOptional()
   FRONTEND_URL: string = 'http://localhost:3000';
+
+  // Base of links in emails, e.g. password reset and invite links
+  @IsString()
+  @IsOptional()
+  APP_URL?: string;
+
+  @IsIn(['smtp', 'file', 'console'])
+  @IsOptional()
+  MAIL_TRANSPORT: string = 'console';
+
+  @IsString()
+  @IsOptional()
+  MAIL_FROM?: string;
+
+  // Where the file transport saves .eml files
+  @IsString()
+  @IsOptional()
+  MAIL_DIR?: string;
+
+  @IsString()
+  @IsOptional()
+  SMTP_HOST?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  @IsOptional()
+  SMTP_PORT?: number;
+
+  // "true" for TLS from the start (port 465), otherwise STARTTLS when offered
+  @IsBooleanString()
+  @IsOptional()
+  SMTP_SECURE?: string;
+
+  @IsString()
+  @IsOptional()
+  SMTP_USER?: string;
+
+  @IsString()
+  @IsOptional()
+  SMTP_PASS?: string;
 }
 
 export function validateEnvironment(config: Record<string, unknown>) {
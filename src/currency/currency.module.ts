@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ExchangeRateService } from './exchange-rate.service';
+import { ExchangeRateController } from './exchange-rate.controller';
+import { ExchangeRateApiController } from './exchange-rate-api.controller';
+import { PrismaModule } from 'src/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [ExchangeRateService],
+  controllers: [ExchangeRateController, ExchangeRateApiController],
+  exports: [ExchangeRateService],
+})
+export class CurrencyModule {}
@@ -0,0 +1,32 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import { IsDateString, IsNumber, IsPositive, Matches } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+/**
+ * Create Exchange Rate DTO
+ * 1 baseCurrency = rate quoteCurrency from effectiveFrom onwards
+ */
+export class CreateExchangeRateDto {
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  @Matches(/^[A-Z]{3}$/, {
+    message: 'Base currency must be a 3-letter ISO 4217 code',
+  })
+  baseCurrency: string;
+
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  @Matches(/^[A-Z]{3}$/, {
+    message: 'Quote currency must be a 3-letter ISO 4217 code',
+  })
+  quoteCurrency: string;
+
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 8 },
+    { message: 'Rate must be a valid number with max 8 decimal places' },
+  )
+  @IsPositive({ message: 'Rate must be greater than zero' })
+  rate: number;
+
+  @IsDateString({}, { message: 'Effective from must be a valid date' })
+  effectiveFrom: string;
+}
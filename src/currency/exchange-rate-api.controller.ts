@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ExchangeRateService } from './exchange-rate.service';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/exchange-rates')
+@UseGuards(ApiAuthGuard)
+export class ExchangeRateApiController {
+  private readonly logger = new Logger(ExchangeRateApiController.name);
+
+  constructor(private readonly exchangeRateService: ExchangeRateService) {}
+
+  /**
+   * GET /api/exchange-rates?currency=
+   * List recorded rates, newest first per currency pair
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getRates(@Query('currency') currency?: string) {
+    this.logger.log(`[GET /api/exchange-rates] API: Listing exchange rates`);
+
+    const rates = await this.exchangeRateService.getRates(
+      currency?.toUpperCase(),
+    );
+
+    return {
+      success: true,
+      message: 'Exchange rates retrieved successfully',
+      data: rates,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/exchange-rates
+   * Record a rate for a currency pair from a given date
+   */
+  @Post()
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.CREATED)
+  async createRate(@Body() createExchangeRateDto: CreateExchangeRateDto) {
+    this.logger.log(
+      `[POST /api/exchange-rates] API: Recording ${createExchangeRateDto.baseCurrency}/${createExchangeRateDto.quoteCurrency}`,
+    );
+
+    const rate = await this.exchangeRateService.createRate(
+      createExchangeRateDto,
+    );
+
+    return {
+      success: true,
+      message: 'Exchange rate recorded successfully',
+      data: rate,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * DELETE /api/exchange-rates/:id
+   * Events keep the rate recorded when they were priced
+   */
+  @Delete(':id')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async deleteRate(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[DELETE /api/exchange-rates/${id}] API: Deleting rate`);
+
+    const result = await this.exchangeRateService.deleteRate(id);
+
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Render,
+  Res,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { ExchangeRateService } from './exchange-rate.service';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+import {
+  DEFAULT_REPORTING_CURRENCY,
+  SUPPORTED_CURRENCIES,
+} from './exchange-rate.helper';
+
+@Controller('exchange-rates')
+@UseGuards(AuthGuard)
+export class ExchangeRateController {
+  private readonly logger = new Logger(ExchangeRateController.name);
+
+  constructor(private readonly exchangeRateService: ExchangeRateService) {}
+
+  /**
+   * GET /exchange-rates
+   * Exchange-rate table with a form to record a rate
+   * Renders: views/exchange-rates/list.ejs
+   */
+  @Get()
+  @Render('exchange-rates/list')
+  async getRatesPage(
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log('[GET /exchange-rates] Rendering exchange rates page');
+
+    let success: string | null = null;
+    if (successMessage === 'created') {
+      success = 'Exchange rate recorded successfully!';
+    } else if (successMessage === 'deleted') {
+      success = 'Exchange rate deleted successfully!';
+    }
+
+    const page = {
+      title: 'Exchange Rates',
+      currencies: SUPPORTED_CURRENCIES,
+      reportingCurrency: DEFAULT_REPORTING_CURRENCY,
+    };
+
+    try {
+      const rates = await this.exchangeRateService.getRates();
+
+      return {
+        ...page,
+        rates,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load exchange rates: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        ...page,
+        rates: [],
+        error: 'Failed to load exchange rates. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /exchange-rates
+  @Post()
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async createRate(
+    @Body() createExchangeRateDto: CreateExchangeRateDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /exchange-rates] Recording ${createExchangeRateDto.baseCurrency}/${createExchangeRateDto.quoteCurrency}`,
+    );
+
+    try {
+      await this.exchangeRateService.createRate(createExchangeRateDto);
+      return res.redirect('/exchange-rates?success=created');
+    } catch (error) {
+      this.logger.error(
+        `Failed to record exchange rate: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/exchange-rates?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /exchange-rates/:id/delete
+  @Post(':id/delete')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async deleteRate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /exchange-rates/${id}/delete] Deleting rate`);
+
+    try {
+      await this.exchangeRateService.deleteRate(id);
+      return res.redirect('/exchange-rates?success=deleted');
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete exchange rate ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/exchange-rates?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { ExchangeRateHelper } from './exchange-rate.helper';
+
+describe('ExchangeRateHelper', () => {
+  const rates = [
+    {
+      baseCurrency: 'USD',
+      quoteCurrency: 'IDR',
+      rate: 15500,
+      effectiveFrom: new Date('2026-01-01T00:00:00.000Z'),
+    },
+    {
+      baseCurrency: 'USD',
+      quoteCurrency: 'IDR',
+      rate: 16000,
+      effectiveFrom: new Date('2026-06-01T00:00:00.000Z'),
+    },
+    {
+      baseCurrency: 'SGD',
+      quoteCurrency: 'IDR',
+      rate: 12000,
+      effectiveFrom: new Date('2026-01-01T00:00:00.000Z'),
+    },
+  ];
+
+  it('uses the latest rate effective on the date', () => {
+    expect(
+      ExchangeRateHelper.findRate(
+        rates,
+        'USD',
+        'IDR',
+        new Date(2026, 2, 15, 10, 0),
+      ),
+    ).toBe(15500);
+    expect(
+      ExchangeRateHelper.findRate(rates, 'USD', 'IDR', new Date(2026, 5, 1, 0)),
+    ).toBe(16000);
+  });
+
+  it('inverts a rate recorded for the reverse pair', () => {
+    const rate = ExchangeRateHelper.findRate(
+      rates,
+      'IDR',
+      'SGD',
+      new Date(2026, 2, 15),
+    );
+
+    expect(rate).toBeCloseTo(1 / 12000, 10);
+  });
+
+  it('returns 1 for the same currency and null when no rate is known', () => {
+    expect(
+      ExchangeRateHelper.findRate([], 'IDR', 'IDR', new Date(2026, 0, 1)),
+    ).toBe(1);
+    expect(
+      ExchangeRateHelper.findRate(rates, 'EUR', 'IDR', new Date(2026, 2, 1)),
+    ).toBeNull();
+    expect(
+      ExchangeRateHelper.findRate(rates, 'USD', 'IDR', new Date(2025, 11, 31)),
+    ).toBeNull();
+  });
+
+  it('rounds converted amounts to cents', () => {
+    expect(ExchangeRateHelper.convert(1000000, 1 / 15500)).toBe(64.52);
+  });
+});
@@ -0,0 +1,61 @@
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Currency revenue statistics are reported in unless another is requested
+export const DEFAULT_REPORTING_CURRENCY = 'IDR';
+
+// Currencies offered for venues and reporting
+export const SUPPORTED_CURRENCIES = ['IDR', 'USD', 'EUR', 'SGD'];
+
+export interface ExchangeRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: Decimal | number;
+  effectiveFrom: Date;
+}
+
+export class ExchangeRateHelper {
+  // Rate converting `from` into `to` on `date`: the latest rate for the pair
+  // effective on or before that date. A rate recorded only for the reverse
+  // pair is inverted. Null when no rate is known.
+  static findRate(
+    rates: ExchangeRateInput[],
+    from: string,
+    to: string,
+    date: Date,
+  ): number | null {
+    if (from === to) {
+      return 1;
+    }
+
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    const dateKey = `${date.getFullYear()}-${month}-${day}`;
+    // DATE columns come back as UTC midnight
+    const toKey = (value: Date) => value.toISOString().slice(0, 10);
+
+    const latest = (base: string, quote: string) =>
+      rates
+        .filter(
+          (rate) =>
+            rate.baseCurrency === base &&
+            rate.quoteCurrency === quote &&
+            toKey(rate.effectiveFrom) <= dateKey,
+        )
+        .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())
+        .at(0);
+
+    const direct = latest(from, to);
+    const reverse = latest(to, from);
+
+    if (direct && (!reverse || direct.effectiveFrom >= reverse.effectiveFrom)) {
+      return Number(direct.rate);
+    }
+
+    return reverse ? 1 / Number(reverse.rate) : null;
+  }
+
+  // Converted amount, rounded to cents
+  static convert(amount: number, rate: number): number {
+    return Math.round(amount * rate * 100) / 100;
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { ExchangeRate, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { ExchangeRateHelper } from './exchange-rate.helper';
+
+/**
+ * ExchangeRateService
+ * Locally managed exchange-rate table. A rate applies from its effective
+ * date until the next rate recorded for the same pair.
+ */
+@Injectable()
+export class ExchangeRateService {
+  private readonly logger = new Logger(ExchangeRateService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * List rates, newest first per pair
+   * @param currency - Only pairs involving this currency
+   */
+  async getRates(currency?: string): Promise<ExchangeRate[]> {
+    return this.prisma.exchangeRate.findMany({
+      where: currency
+        ? { OR: [{ baseCurrency: currency }, { quoteCurrency: currency }] }
+        : {},
+      orderBy: [
+        { baseCurrency: 'asc' },
+        { quoteCurrency: 'asc' },
+        { effectiveFrom: 'desc' },
+      ],
+    });
+  }
+
+  /**
+   * Rate converting `from` into `to` on `date`, null if none is recorded
+   */
+  async findRate(from: string, to: string, date: Date): Promise<number | null> {
+    if (from === to) {
+      return 1;
+    }
+
+    const rates = await this.prisma.exchangeRate.findMany({
+      where: {
+        OR: [
+          { baseCurrency: from, quoteCurrency: to },
+          { baseCurrency: to, quoteCurrency: from },
+        ],
+        effectiveFrom: { lte: date },
+      },
+    });
+
+    return ExchangeRateHelper.findRate(rates, from, to, date);
+  }
+
+  async createRate(
+    createExchangeRateDto: CreateExchangeRateDto,
+  ): Promise<ExchangeRate> {
+    const { baseCurrency, quoteCurrency } = createExchangeRateDto;
+
+    this.logger.log(
+      `Recording exchange rate ${baseCurrency}/${quoteCurrency} from ${createExchangeRateDto.effectiveFrom}`,
+    );
+
+    if (baseCurrency === quoteCurrency) {
+      throw new BadRequestException(
+        'Base and quote currency must be different',
+      );
+    }
+
+    const effectiveFrom = new Date(createExchangeRateDto.effectiveFrom);
+
+    const existing = await this.prisma.exchangeRate.findUnique({
+      where: {
+        baseCurrency_quoteCurrency_effectiveFrom: {
+          baseCurrency,
+          quoteCurrency,
+          effectiveFrom,
+        },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `A ${baseCurrency}/${quoteCurrency} rate is already recorded for ${createExchangeRateDto.effectiveFrom}`,
+      );
+    }
+
+    return this.prisma.exchangeRate.create({
+      data: {
+        baseCurrency,
+        quoteCurrency,
+        rate: new Prisma.Decimal(createExchangeRateDto.rate),
+        effectiveFrom,
+      },
+    });
+  }
+
+  // Events keep the rate recorded when they were priced
+  async deleteRate(id: string) {
+    this.logger.log(`Deleting exchange rate: ${id}`);
+
+    const rate = await this.prisma.exchangeRate.findUnique({ where: { id } });
+
+    if (!rate) {
+      throw new NotFoundException(`Exchange rate with ID "${id}" not found`);
+    }
+
+    await this.prisma.exchangeRate.delete({ where: { id } });
+
+    return { message: 'Exchange rate deleted successfully', rateId: id };
+  }
+}
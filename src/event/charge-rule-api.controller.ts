@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ChargeRuleService } from './charge-rule.service';
+import { CreateChargeRuleDto } from './dto/create-charge-rule.dto';
+import { UpdateChargeRuleDto } from './dto/update-charge-rule.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/charge-rules')
+@UseGuards(ApiAuthGuard)
+export class ChargeRuleApiController {
+  private readonly logger = new Logger(ChargeRuleApiController.name);
+
+  constructor(private readonly chargeRuleService: ChargeRuleService) {}
+
+  /**
+   * GET /api/charge-rules?venueId=
+   * List tax and service-charge rules (a venue's own plus global ones)
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getRules(
+    @Query('venueId', new ParseUUIDPipe({ optional: true })) venueId?: string,
+  ) {
+    this.logger.log(`[GET /api/charge-rules] API: Listing charge rules`);
+
+    const rules = await this.chargeRuleService.getRules(venueId);
+
+    return {
+      success: true,
+      message: 'Charge rules retrieved successfully',
+      data: rules,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/charge-rules/:id
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getRuleById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[GET /api/charge-rules/${id}] API: Fetching charge rule`);
+
+    const rule = await this.chargeRuleService.getRuleById(id);
+
+    return {
+      success: true,
+      message: 'Charge rule retrieved successfully',
+      data: rule,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/charge-rules
+   * Create a global or venue-specific rule
+   */
+  @Post()
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.CREATED)
+  async createRule(@Body() createChargeRuleDto: CreateChargeRuleDto) {
+    this.logger.log(
+      `[POST /api/charge-rules] API: Creating charge rule: ${createChargeRuleDto.name}`,
+    );
+
+    const rule = await this.chargeRuleService.createRule(createChargeRuleDto);
+
+    return {
+      success: true,
+      message: 'Charge rule created successfully',
+      data: rule,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * PATCH /api/charge-rules/:id
+   */
+  @Patch(':id')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async updateRule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateChargeRuleDto: UpdateChargeRuleDto,
+  ) {
+    this.logger.log(`[PATCH /api/charge-rules/${id}] API: Updating rule`);
+
+    const rule = await this.chargeRuleService.updateRule(
+      id,
+      updateChargeRuleDto,
+    );
+
+    return {
+      success: true,
+      message: 'Charge rule updated successfully',
+      data: rule,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * DELETE /api/charge-rules/:id
+   * Existing event prices keep the charges they were calculated with
+   */
+  @Delete(':id')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async deleteRule(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[DELETE /api/charge-rules/${id}] API: Deleting rule`);
+
+    const result = await this.chargeRuleService.deleteRule(id);
+
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Render,
+  Res,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { ChargeRuleService } from './charge-rule.service';
+import { CreateChargeRuleDto } from './dto/create-charge-rule.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+import { VenueService } from '../venue/venue.service';
+
+@Controller('charge-rules')
+@UseGuards(AuthGuard)
+export class ChargeRuleController {
+  private readonly logger = new Logger(ChargeRuleController.name);
+
+  constructor(
+    private readonly chargeRuleService: ChargeRuleService,
+    private readonly venueService: VenueService,
+  ) {}
+
+  /**
+   * GET /charge-rules
+   * Taxes and service charges with a form to add one
+   * Renders: views/charge-rules/list.ejs
+   */
+  @Get()
+  @Render('charge-rules/list')
+  async getRulesPage(
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log('[GET /charge-rules] Rendering charge rules page');
+
+    let success: string | null = null;
+    if (successMessage === 'created') {
+      success = 'Charge rule created successfully!';
+    } else if (successMessage === 'updated') {
+      success = 'Charge rule updated successfully!';
+    } else if (successMessage === 'deleted') {
+      success = 'Charge rule deleted successfully!';
+    }
+
+    try {
+      const [rules, venuesResult] = await Promise.all([
+        this.chargeRuleService.getRules(),
+        this.venueService.getAllVenues({
+          page: 1,
+          limit: 100,
+          sortBy: 'name',
+          sortOrder: 'asc',
+        }),
+      ]);
+
+      return {
+        title: 'Taxes & Charges',
+        rules,
+        venues: venuesResult.data,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load charge rules: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Taxes & Charges',
+        rules: [],
+        venues: [],
+        error: 'Failed to load charge rules. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /charge-rules
+  @Post()
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async createRule(
+    @Body() createChargeRuleDto: CreateChargeRuleDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /charge-rules] Creating charge rule: ${createChargeRuleDto.name}`,
+    );
+
+    try {
+      await this.chargeRuleService.createRule(createChargeRuleDto);
+      return res.redirect('/charge-rules?success=created');
+    } catch (error) {
+      this.logger.error(
+        `Failed to create charge rule: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/charge-rules?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /charge-rules/:id/toggle-active
+  @Post(':id/toggle-active')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async toggleRuleActive(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /charge-rules/${id}/toggle-active] Toggling charge rule`,
+    );
+
+    try {
+      const rule = await this.chargeRuleService.getRuleById(id);
+      await this.chargeRuleService.updateRule(id, {
+        isActive: !rule.isActive,
+      });
+
+      return res.redirect('/charge-rules?success=updated');
+    } catch (error) {
+      this.logger.error(
+        `Failed to toggle charge rule ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/charge-rules?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /charge-rules/:id/delete
+  @Post(':id/delete')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async deleteRule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /charge-rules/${id}/delete] Deleting charge rule`);
+
+    try {
+      await this.chargeRuleService.deleteRule(id);
+      return res.redirect('/charge-rules?success=deleted');
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete charge rule ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/charge-rules?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ChargeCalculation, ChargeRule, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateChargeRuleDto } from './dto/create-charge-rule.dto';
+import { UpdateChargeRuleDto } from './dto/update-charge-rule.dto';
+import { PricingHelper } from './pricing.helper';
+
+/**
+ * ChargeRuleService
+ * Taxes and service charges (PPN, service charge, regional tax) applied by
+ * the pricing engine. Prices already stored on events keep their breakdown;
+ * rule changes only affect prices calculated afterwards.
+ */
+@Injectable()
+export class ChargeRuleService {
+  private readonly logger = new Logger(ChargeRuleService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  private async ensureVenueExists(venueId: string): Promise<void> {
+    const venue = await this.prisma.venue.findUnique({
+      where: { id: venueId },
+      select: { id: true },
+    });
+
+    if (!venue) {
+      throw new NotFoundException(`Venue with ID "${venueId}" not found`);
+    }
+  }
+
+  // Percent range and effective dates of the rule as it would be saved
+  private validateRule(rule: {
+    calculation: ChargeCalculation;
+    value: number;
+    effectiveFrom: Date | null;
+    effectiveTo: Date | null;
+  }): void {
+    if (rule.calculation === ChargeCalculation.PERCENT && rule.value > 100) {
+      throw new BadRequestException('Percentage cannot exceed 100');
+    }
+
+    if (
+      rule.effectiveFrom &&
+      rule.effectiveTo &&
+      rule.effectiveTo < rule.effectiveFrom
+    ) {
+      throw new BadRequestException(
+        'Effective to date must not be before the effective from date',
+      );
+    }
+  }
+
+  /**
+   * List rules, global ones first
+   * @param venueId - Only rules that apply to this venue (its own + global)
+   */
+  async getRules(venueId?: string) {
+    return this.prisma.chargeRule.findMany({
+      where: venueId ? { OR: [{ venueId }, { venueId: null }] } : {},
+      include: { venue: { select: { id: true, name: true } } },
+      orderBy: [{ venueId: 'asc' }, { priority: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async getRuleById(id: string): Promise<ChargeRule> {
+    const rule = await this.prisma.chargeRule.findUnique({ where: { id } });
+
+    if (!rule) {
+      throw new NotFoundException(`Charge rule with ID "${id}" not found`);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Active rules for an event at the venue starting at `date`,
+   * in the order the pricing engine applies them
+   */
+  async getApplicableRules(venueId: string, date: Date): Promise<ChargeRule[]> {
+    const rules = await this.prisma.chargeRule.findMany({
+      where: {
+        isActive: true,
+        OR: [{ venueId }, { venueId: null }],
+      },
+    });
+
+    return PricingHelper.selectChargeRules(rules, date);
+  }
+
+  async createRule(
+    createChargeRuleDto: CreateChargeRuleDto,
+  ): Promise<ChargeRule> {
+    this.logger.log(`Creating charge rule: ${createChargeRuleDto.name}`);
+
+    if (createChargeRuleDto.venueId) {
+      await this.ensureVenueExists(createChargeRuleDto.venueId);
+    }
+
+    const effectiveFrom = createChargeRuleDto.effectiveFrom
+      ? new Date(createChargeRuleDto.effectiveFrom)
+      : null;
+    const effectiveTo = createChargeRuleDto.effectiveTo
+      ? new Date(createChargeRuleDto.effectiveTo)
+      : null;
+
+    this.validateRule({
+      calculation: createChargeRuleDto.calculation,
+      value: createChargeRuleDto.value,
+      effectiveFrom,
+      effectiveTo,
+    });
+
+    const rule = await this.prisma.chargeRule.create({
+      data: {
+        venueId: createChargeRuleDto.venueId || null,
+        name: createChargeRuleDto.name.trim(),
+        type: createChargeRuleDto.type,
+        calculation: createChargeRuleDto.calculation,
+        value: new Prisma.Decimal(createChargeRuleDto.value),
+        isCompound: createChargeRuleDto.isCompound ?? false,
+        priority: createChargeRuleDto.priority ?? 0,
+        effectiveFrom,
+        effectiveTo,
+        isActive: createChargeRuleDto.isActive ?? true,
+      },
+    });
+
+    this.logger.log(`Charge rule created: ${rule.name} (ID: ${rule.id})`);
+    return rule;
+  }
+
+  async updateRule(
+    id: string,
+    updateChargeRuleDto: UpdateChargeRuleDto,
+  ): Promise<ChargeRule> {
+    this.logger.log(`Updating charge rule: ${id}`);
+
+    const existing = await this.getRuleById(id);
+
+    if (updateChargeRuleDto.venueId) {
+      await this.ensureVenueExists(updateChargeRuleDto.venueId);
+    }
+
+    const effectiveFrom =
+      updateChargeRuleDto.effectiveFrom !== undefined
+        ? new Date(updateChargeRuleDto.effectiveFrom)
+        : existing.effectiveFrom;
+    const effectiveTo =
+      updateChargeRuleDto.effectiveTo !== undefined
+        ? new Date(updateChargeRuleDto.effectiveTo)
+        : existing.effectiveTo;
+
+    this.validateRule({
+      calculation: updateChargeRuleDto.calculation ?? existing.calculation,
+      value: updateChargeRuleDto.value ?? Number(existing.value),
+      effectiveFrom,
+      effectiveTo,
+    });
+
+    const updateData: Prisma.ChargeRuleUncheckedUpdateInput = {
+      effectiveFrom,
+      effectiveTo,
+    };
+
+    if (updateChargeRuleDto.venueId !== undefined) {
+      updateData.venueId = updateChargeRuleDto.venueId;
+    }
+
+    if (updateChargeRuleDto.name !== undefined) {
+      updateData.name = updateChargeRuleDto.name.trim();
+    }
+
+    if (updateChargeRuleDto.type !== undefined) {
+      updateData.type = updateChargeRuleDto.type;
+    }
+
+    if (updateChargeRuleDto.calculation !== undefined) {
+      updateData.calculation = updateChargeRuleDto.calculation;
+    }
+
+    if (updateChargeRuleDto.value !== undefined) {
+      updateData.value = new Prisma.Decimal(updateChargeRuleDto.value);
+    }
+
+    if (updateChargeRuleDto.isCompound !== undefined) {
+      updateData.isCompound = updateChargeRuleDto.isCompound;
+    }
+
+    if (updateChargeRuleDto.priority !== undefined) {
+      updateData.priority = updateChargeRuleDto.priority;
+    }
+
+    if (updateChargeRuleDto.isActive !== undefined) {
+      updateData.isActive = updateChargeRuleDto.isActive;
+    }
+
+    const rule = await this.prisma.chargeRule.update({
+      where: { id },
+      data: updateData,
+    });
+
+    this.logger.log(`Charge rule updated: ${rule.name} (ID: ${id})`);
+    return rule;
+  }
+
+  async deleteRule(id: string) {
+    this.logger.log(`Deleting charge rule: ${id}`);
+
+    await this.getRuleById(id);
+    await this.prisma.chargeRule.delete({ where: { id } });
+
+    this.logger.log(`Charge rule deleted successfully: ${id}`);
+    return { message: 'Charge rule deleted successfully', ruleId: id };
+  }
+}
@@ -0,0 +1,25 @@
+import { IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { EventStatus } from '@prisma/client';
+
+/**
+ * Calendar Query DTO
+ * Date range shown by the calendar; events overlapping it are returned
+ */
+export class CalendarQueryDto {
+  @IsDateString({}, { message: 'Start must be a valid ISO 8601 date string' })
+  start: string;
+
+  @IsDateString({}, { message: 'End must be a valid ISO 8601 date string' })
+  end: string;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Venue ID must be a valid UUID' })
+  venueId?: string;
+
+  @IsOptional()
+  @IsEnum(EventStatus, {
+    message:
+      'Status must be one of: HOLD, UPCOMING, ONGOING, COMPLETED, CANCELLED',
+  })
+  status?: EventStatus;
+}
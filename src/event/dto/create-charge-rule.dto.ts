@@ -0,0 +1,84 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ChargeCalculation, ChargeType } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Create Charge Rule DTO
+ * A tax or service charge added on top of event prices
+ */
+export class CreateChargeRuleDto {
+  // Omit for a rule that applies to every venue
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsUUID('4', { message: 'Venue ID must be a valid UUID' })
+  venueId?: string;
+
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(255, { message: 'Name must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  name: string;
+
+  @IsEnum(ChargeType, {
+    message: 'Type must be one of: TAX, SERVICE_CHARGE',
+  })
+  type: ChargeType;
+
+  @IsEnum(ChargeCalculation, {
+    message: 'Calculation must be one of: PERCENT, FLAT',
+  })
+  calculation: ChargeCalculation;
+
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Value must be a valid number with max 2 decimal places' },
+  )
+  @Min(0, { message: 'Value cannot be negative' })
+  value: number; // Percentages above 100 are rejected by the service
+
+  @IsOptional()
+  @Transform(
+    ({ value }) => value === 'true' || value === 'on' || value === true,
+  )
+  @IsBoolean({ message: 'Compound flag must be true or false' })
+  isCompound?: boolean;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsInt({ message: 'Priority must be an integer' })
+  priority?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsDateString({}, { message: 'Effective from must be a valid date' })
+  effectiveFrom?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsDateString({}, { message: 'Effective to must be a valid date' })
+  effectiveTo?: string;
+
+  @IsOptional()
+  @Transform(
+    ({ value }) => value === 'true' || value === 'on' || value === true,
+  )
+  @IsBoolean({ message: 'Active flag must be true or false' })
+  isActive?: boolean;
+}
@@ -0,0 +1,112 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import { OmitType } from '@nestjs/mapped-types';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { RecurrenceFrequency } from '@prisma/client';
+import { CreateEventDto } from './create-event.dto';
+import { WEEKDAY_CODES } from '../recurrence.helper';
+
+/**
+ * Create Event Series DTO
+ * Event fields describe the first occurrence; the rule repeats it
+ */
+export class CreateEventSeriesDto extends OmitType(CreateEventDto, [
+  'status',
+  'holdExpiresAt',
+  'startDatetime',
+  'endDatetime',
+  'startDate',
+  'startTime',
+  'endDate',
+  'endTime',
+  'promoCode',
+] as const) {
+  @IsDateString(
+    {},
+    { message: 'Start datetime must be a valid ISO 8601 date string' },
+  )
+  @IsNotEmpty({ message: 'Start datetime is required' })
+  startDatetime: string;
+
+  @IsDateString(
+    {},
+    { message: 'End datetime must be a valid ISO 8601 date string' },
+  )
+  @IsNotEmpty({ message: 'End datetime is required' })
+  endDatetime: string;
+
+  // ========================================
+  // RECURRENCE RULE
+  // ========================================
+
+  @IsEnum(RecurrenceFrequency, {
+    message: 'Frequency must be one of: DAILY, WEEKLY, MONTHLY',
+  })
+  frequency: RecurrenceFrequency;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Interval must be an integer' })
+  @Min(1, { message: 'Interval must be at least 1' })
+  @Max(99, { message: 'Interval cannot exceed 99' })
+  interval?: number;
+
+  // WEEKLY only; defaults to the weekday of the first occurrence
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value.split(',').map((code) => code.trim().toUpperCase())
+      : value,
+  )
+  @IsArray({ message: 'Weekdays must be an array' })
+  @IsIn(WEEKDAY_CODES, {
+    each: true,
+    message: `Each weekday must be one of: ${WEEKDAY_CODES.join(', ')}`,
+  })
+  byWeekday?: string[];
+
+  @IsOptional()
+  @IsDateString({}, { message: 'Until must be a valid ISO 8601 date string' })
+  until?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Count must be an integer' })
+  @Min(1, { message: 'Count must be at least 1' })
+  count?: number;
+
+  // Dates to skip, YYYY-MM-DD
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((date) => date.trim())
+          .filter((date) => !!date)
+      : value,
+  )
+  @IsArray({ message: 'Exception dates must be an array' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    each: true,
+    message: 'Each exception date must use the YYYY-MM-DD format',
+  })
+  exceptionDates?: string[];
+
+  // Create the free occurrences and report the rest instead of failing
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean({ message: 'Skip conflicts must be true or false' })
+  skipConflicts?: boolean;
+}
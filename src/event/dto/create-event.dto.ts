@@ -11,6 +11,7 @@ import {
   Min,
   Max,
   IsBoolean,
+  IsArray,
 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import { EventStatus, RentalType } from '@prisma/client';
@@ -35,6 +36,24 @@ export class CreateEventDto {
   @IsNotEmpty({ message: 'Venue ID is required' })
   venueId: string;
 
+  // Spaces inside the venue to book; empty = whole venue
+  // Accepts a single value or repeated form fields; blank entries are dropped
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === undefined || value === null
+      ? undefined
+      : ([] as string[]).concat(value).filter((id) => !!id),
+  )
+  @IsArray({ message: 'Space IDs must be an array' })
+  @IsUUID('4', { each: true, message: 'Each space ID must be a valid UUID' })
+  spaceIds?: string[];
+
+  // Who booked it; an empty value removes the client on update
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? null : value))
+  @IsUUID('4', { message: 'Client ID must be a valid UUID' })
+  clientId?: string | null;
+
   @IsNumber()
   @IsOptional()
   @Min(1, { message: 'Attendee count must be at least 1' })
@@ -83,10 +102,29 @@ export class CreateEventDto {
 
   @IsOptional()
   @IsEnum(EventStatus, {
-    message: 'Status must be one of: UPCOMING, ONGOING, COMPLETED, CANCELLED',
+    message:
+      'Status must be one of: HOLD, UPCOMING, ONGOING, COMPLETED, CANCELLED',
   })
   status?: EventStatus;
 
+  // HOLD only; defaults to 48 hours from now (never past the start)
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'Hold expiry must be a valid ISO 8601 date string' },
+  )
+  @Transform(({ value }) => value || undefined)
+  holdExpiresAt?: string;
+
+  // Book over tentative holds; the overridden holds are released
+  @IsOptional()
+  @Transform(
+    ({ value }) =>
+      value === 'true' || value === 'on' || value === true || value === '1',
+  )
+  @IsBoolean({ message: 'Override holds must be true or false' })
+  overrideHolds?: boolean;
+
   @IsOptional()
   @IsEnum(RentalType, {
     message: 'Rental type must be one of: HOURLY, DAILY',
@@ -116,14 +154,10 @@ export class CreateEventDto {
   })
   additionalFees?: number;
 
+  // Applied after the discount; recorded as a redemption of the code
   @IsOptional()
-  @Transform(({ value }) => {
-    if (value === 'true' || value === true || value === 1 || value === '1')
-      return true;
-    if (value === 'false' || value === false || value === 0 || value === '0')
-      return false;
-    return false;
-  })
-  @IsBoolean({ message: 'Payment status must be true or false' })
-  isPaid?: boolean;
+  @Transform(({ value }) => value?.trim().toUpperCase() || undefined)
+  @IsString({ message: 'Promo code must be a string' })
+  @MaxLength(50, { message: 'Promo code must not exceed 50 characters' })
+  promoCode?: string;
 }
@@ -0,0 +1,33 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Create Holiday DTO
+ * A date on the holiday calendar used by holiday pricing rules
+ */
+export class CreateHolidayDto {
+  // Omit for a holiday observed by every venue
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsUUID('4', { message: 'Venue ID must be a valid UUID' })
+  venueId?: string;
+
+  @IsDateString({}, { message: 'Date must be a valid date' })
+  date: string;
+
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(255, { message: 'Name must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  name: string;
+}
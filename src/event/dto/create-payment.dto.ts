@@ -0,0 +1,57 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { PaymentMethod, PaymentType } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Create Payment DTO
+ * One ledger entry: a deposit, an installment or a refund
+ */
+export class CreatePaymentDto {
+  @IsEnum(PaymentType, {
+    message: 'Payment type must be one of: DEPOSIT, INSTALLMENT, REFUND',
+  })
+  type: PaymentType;
+
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Amount must be a valid number with max 2 decimal places' },
+  )
+  @IsPositive({ message: 'Amount must be a positive number' })
+  amount: number;
+
+  @IsEnum(PaymentMethod, {
+    message:
+      'Payment method must be one of: CASH, BANK_TRANSFER, CARD, E_WALLET, OTHER',
+  })
+  method: PaymentMethod;
+
+  @IsOptional()
+  @IsString({ message: 'Reference must be a string' })
+  @MaxLength(255, { message: 'Reference must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim() || undefined)
+  @Sanitize()
+  reference?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @Transform(({ value }) => value?.trim() || undefined)
+  @Sanitize()
+  notes?: string;
+
+  // When the money moved; defaults to now
+  @IsOptional()
+  @IsDateString({}, { message: 'Paid at must be a valid ISO 8601 date string' })
+  @Transform(({ value }) => value || undefined)
+  paidAt?: string;
+}
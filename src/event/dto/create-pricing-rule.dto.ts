@@ -0,0 +1,136 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { PricingAdjustment } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+import { WEEKDAY_CODES } from '../recurrence.helper';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Create Pricing Rule DTO
+ * A seasonal or time-of-day rate for one venue
+ */
+export class CreatePricingRuleDto {
+  @IsUUID('4', { message: 'Venue ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Venue ID is required' })
+  venueId: string;
+
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(255, { message: 'Name must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  name: string;
+
+  // Omit for every day of the week
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value.split(',').map((code) => code.trim().toUpperCase())
+      : value,
+  )
+  @IsArray({ message: 'Days of week must be an array' })
+  @IsIn(WEEKDAY_CODES, {
+    each: true,
+    message: `Each day must be one of: ${WEEKDAY_CODES.join(', ')}`,
+  })
+  daysOfWeek?: string[];
+
+  // HH:MM; a start after the end wraps past midnight
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @Matches(TIME_PATTERN, { message: 'Start time must be in HH:MM format' })
+  startTime?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @Matches(TIME_PATTERN, { message: 'End time must be in HH:MM format' })
+  endTime?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsDateString({}, { message: 'Date from must be a valid date' })
+  dateFrom?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsDateString({}, { message: 'Date to must be a valid date' })
+  dateTo?: string;
+
+  @IsOptional()
+  @Transform(
+    ({ value }) => value === 'true' || value === 'on' || value === true,
+  )
+  @IsBoolean({ message: 'Holidays only flag must be true or false' })
+  holidaysOnly?: boolean;
+
+  @IsEnum(PricingAdjustment, {
+    message: 'Adjustment must be one of: MULTIPLIER, OVERRIDE',
+  })
+  adjustment: PricingAdjustment;
+
+  // MULTIPLIER rules; OVERRIDE rules need a price instead (checked by the service)
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Multiplier must be a valid number with max 2 decimal places' },
+  )
+  @Min(0, { message: 'Multiplier cannot be negative' })
+  multiplier?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    {
+      message:
+        'Price per hour must be a valid number with max 2 decimal places',
+    },
+  )
+  @Min(0, { message: 'Price per hour cannot be negative' })
+  pricePerHour?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    {
+      message: 'Price per day must be a valid number with max 2 decimal places',
+    },
+  )
+  @Min(0, { message: 'Price per day cannot be negative' })
+  pricePerDay?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsInt({ message: 'Priority must be an integer' })
+  priority?: number;
+
+  @IsOptional()
+  @Transform(
+    ({ value }) => value === 'true' || value === 'on' || value === true,
+  )
+  @IsBoolean({ message: 'Active flag must be true or false' })
+  isActive?: boolean;
+}
@@ -0,0 +1,106 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { DiscountType } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Create Promo Code DTO
+ * A reusable discount code entered when booking an event
+ */
+export class CreatePromoCodeDto {
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  @Matches(/^[A-Z0-9_-]{3,50}$/, {
+    message:
+      'Code must be 3-50 characters of letters, digits, dashes or underscores',
+  })
+  code: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @Transform(({ value }) => value?.trim() || undefined)
+  @Sanitize()
+  description?: string;
+
+  @IsEnum(DiscountType, {
+    message: 'Discount type must be one of: PERCENT, FIXED',
+  })
+  discountType: DiscountType;
+
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Value must be a valid number with max 2 decimal places' },
+  )
+  @Min(0.01, { message: 'Value must be greater than zero' })
+  value: number; // Percentages above 100 are rejected by the service
+
+  // Currency of a fixed amount and the minimum spend (defaults to IDR)
+  @IsOptional()
+  @Transform(({ value }) => value?.trim().toUpperCase() || undefined)
+  @Matches(/^[A-Z]{3}$/, {
+    message: 'Currency must be a 3-letter ISO 4217 code',
+  })
+  currency?: string;
+
+  // Rental price before discounts required to use the code
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    {
+      message: 'Minimum spend must be a valid number with max 2 decimal places',
+    },
+  )
+  @Min(0, { message: 'Minimum spend cannot be negative' })
+  minimumSpend?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsDateString({}, { message: 'Valid from must be a valid date' })
+  validFrom?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value || undefined)
+  @IsDateString({}, { message: 'Valid until must be a valid date' })
+  validUntil?: string;
+
+  // Omit for unlimited use
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsInt({ message: 'Usage limit must be an integer' })
+  @Min(1, { message: 'Usage limit must be at least 1' })
+  usageLimit?: number;
+
+  // Venues the code is restricted to; empty = all venues
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === undefined || value === null
+      ? undefined
+      : ([] as string[]).concat(value).filter((id) => !!id),
+  )
+  @IsArray({ message: 'Venue IDs must be an array' })
+  @IsUUID('4', { each: true, message: 'Each venue ID must be a valid UUID' })
+  venueIds?: string[];
+
+  @IsOptional()
+  @Transform(
+    ({ value }) => value === 'true' || value === 'on' || value === true,
+  )
+  @IsBoolean({ message: 'Active flag must be true or false' })
+  isActive?: boolean;
+}
@@ -0,0 +1,48 @@
+import {
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { EventStatus } from '@prisma/client';
+import type { ImportMapping } from '../event-import.helper';
+
+export const IMPORT_FORMATS = ['CSV', 'ICS'] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+/**
+ * Import Events DTO
+ * File contents are sent as text; the browser reads the file
+ */
+export class ImportEventsDto {
+  @IsIn(IMPORT_FORMATS, { message: 'Format must be one of: CSV, ICS' })
+  format: ImportFormat;
+
+  @IsString({ message: 'File contents must be a string' })
+  @IsNotEmpty({ message: 'File is empty' })
+  @MaxLength(2_000_000, { message: 'File must not exceed 2 MB' })
+  content: string;
+
+  // CSV only: column header per field; guessed from the headers when omitted
+  @IsOptional()
+  @IsObject({ message: 'Column mapping must be an object' })
+  mapping?: ImportMapping;
+
+  // Used for rows without a venue column, or whose venue is blank
+  @IsOptional()
+  @IsUUID('4', { message: 'Default venue ID must be a valid UUID' })
+  venueId?: string;
+
+  // Used for rows without a status
+  @IsOptional()
+  @IsEnum(EventStatus, {
+    message:
+      'Default status must be one of: HOLD, UPCOMING, ONGOING, COMPLETED, CANCELLED',
+  })
+  status?: EventStatus;
+}
@@ -0,0 +1,9 @@
+import { IsEnum, IsOptional } from 'class-validator';
+
+export class InvoiceQueryDto {
+  @IsOptional()
+  @IsEnum(['pdf', 'html', 'json'], {
+    message: 'Format must be one of: pdf, html, json',
+  })
+  format?: 'pdf' | 'html' | 'json' = 'pdf';
+}
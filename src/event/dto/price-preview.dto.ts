@@ -0,0 +1,28 @@
+import { PickType } from '@nestjs/mapped-types';
+import { IsDateString } from 'class-validator';
+import { CreateEventDto } from './create-event.dto';
+
+/**
+ * Price Preview DTO
+ * Booking details to price before the event is saved
+ */
+export class PricePreviewDto extends PickType(CreateEventDto, [
+  'venueId',
+  'spaceIds',
+  'rentalType',
+  'discount',
+  'additionalFees',
+  'promoCode',
+] as const) {
+  @IsDateString(
+    {},
+    { message: 'Start datetime must be a valid ISO 8601 date string' },
+  )
+  startDatetime: string;
+
+  @IsDateString(
+    {},
+    { message: 'End datetime must be a valid ISO 8601 date string' },
+  )
+  endDatetime: string;
+}
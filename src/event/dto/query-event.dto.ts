@@ -19,9 +19,14 @@ export class QueryEventDto {
   @IsUUID('4', { message: 'Venue ID must be a valid UUID' })
   venueId?: string;
 
+  @IsOptional()
+  @IsUUID('4', { message: 'Client ID must be a valid UUID' })
+  clientId?: string;
+
   @IsOptional()
   @IsEnum(EventStatus, {
-    message: 'Status must be one of: UPCOMING, ONGOING, COMPLETED, CANCELLED',
+    message:
+      'Status must be one of: HOLD, UPCOMING, ONGOING, COMPLETED, CANCELLED',
   })
   status?: EventStatus;
 
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateChargeRuleDto } from './create-charge-rule.dto';
+
+export class UpdateChargeRuleDto extends PartialType(CreateChargeRuleDto) {}
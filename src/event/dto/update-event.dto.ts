@@ -1,8 +1,11 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
 import { CreateEventDto } from './create-event.dto';
 
 /**
  * Update Event DTO
  * Extends CreateEventDto dengan semua field menjadi optional
+ * A promo code can only be applied when the event is created
  */
-export class UpdateEventDto extends PartialType(CreateEventDto) {}
+export class UpdateEventDto extends PartialType(
+  OmitType(CreateEventDto, ['promoCode'] as const),
+) {}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreatePricingRuleDto } from './create-pricing-rule.dto';
+
+// Rules stay with the venue they were created for
+export class UpdatePricingRuleDto extends PartialType(
+  OmitType(CreatePricingRuleDto, ['venueId'] as const),
+) {}
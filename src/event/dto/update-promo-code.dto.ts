@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreatePromoCodeDto } from './create-promo-code.dto';
+
+// The code itself is fixed once created; redemptions refer to it
+export class UpdatePromoCodeDto extends PartialType(
+  OmitType(CreatePromoCodeDto, ['code'] as const),
+) {}
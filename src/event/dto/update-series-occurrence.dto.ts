@@ -0,0 +1,17 @@
+import { IsIn } from 'class-validator';
+import { UpdateEventDto } from './update-event.dto';
+
+export const OCCURRENCE_EDIT_SCOPES = ['THIS', 'FOLLOWING'] as const;
+export type OccurrenceEditScope = (typeof OCCURRENCE_EDIT_SCOPES)[number];
+
+/**
+ * Update Series Occurrence DTO
+ * THIS edits one occurrence; FOLLOWING applies the same change to it and
+ * every later occurrence (datetimes shift by the same offset)
+ */
+export class UpdateSeriesOccurrenceDto extends UpdateEventDto {
+  @IsIn(OCCURRENCE_EDIT_SCOPES, {
+    message: 'Scope must be one of: THIS, FOLLOWING',
+  })
+  scope: OccurrenceEditScope;
+}
@@ -12,21 +12,31 @@ import {
   HttpStatus,
   Logger,
   BadRequestException,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import { EventService } from './event.service';
+import { EventLifecycleService } from './event-lifecycle.service';
 import { CreateEventDto } from './dto/create-event.dto';
 import { UpdateEventDto } from './dto/update-event.dto';
 import { QueryEventDto } from './dto/query-event.dto';
+import { PricePreviewDto } from './dto/price-preview.dto';
+import { CalendarQueryDto } from './dto/calendar-query.dto';
 import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
 
 @Controller('api/events')
 @UseGuards(ApiAuthGuard)
 export class EventApiController {
   private readonly logger = new Logger(EventApiController.name);
 
-  constructor(private readonly eventService: EventService) { }
+  constructor(
+    private readonly eventService: EventService,
+    private readonly eventLifecycleService: EventLifecycleService,
+  ) {}
 
   @Post()
+  @RequirePermissions(Permission.EVENT_WRITE)
   @HttpCode(HttpStatus.CREATED)
   async createEvent(@Body() createEventDto: CreateEventDto) {
     this.logger.log(
@@ -83,15 +93,74 @@ export class EventApiController {
     };
   }
 
-  // GET /api/events/financial/statistics
+  // GET /api/events/calendar
+  @Get('calendar')
+  @HttpCode(HttpStatus.OK)
+  async getCalendarEvents(@Query() queryDto: CalendarQueryDto) {
+    this.logger.log(
+      `[GET /api/events/calendar] API: Fetching events from ${queryDto.start} to ${queryDto.end}`,
+    );
+
+    const events = await this.eventService.getCalendarEvents(queryDto);
+
+    return {
+      success: true,
+      message: 'Calendar events retrieved successfully',
+      data: events,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // POST /api/events/lifecycle/reconcile
+  // 409 while a scheduled or manual run is still in progress
+  @Post('lifecycle/reconcile')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async reconcileLifecycle() {
+    this.logger.log(
+      '[POST /api/events/lifecycle/reconcile] API: Reconciling event statuses',
+    );
+
+    const result = await this.eventLifecycleService.reconcile();
+
+    return {
+      success: true,
+      message: `Lifecycle reconciled: ${result.started} started, ${result.completed} completed`,
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // GET /api/events/price-preview
+  // Itemised price for a booking before it is saved
+  @Get('price-preview')
+  @HttpCode(HttpStatus.OK)
+  async previewPrice(@Query() pricePreviewDto: PricePreviewDto) {
+    this.logger.log(
+      `[GET /api/events/price-preview] API: Pricing booking at venue ${pricePreviewDto.venueId}`,
+    );
+
+    const preview = await this.eventService.previewPrice(pricePreviewDto);
+
+    return {
+      success: true,
+      message: 'Price calculated successfully',
+      data: preview,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // GET /api/events/financial/statistics?currency=
+  // Revenue converted into the reporting currency (default IDR)
   @Get('financial/statistics')
+  @RequirePermissions(Permission.FINANCE_VIEW)
   @HttpCode(HttpStatus.OK)
-  async getFinancialStatistics() {
+  async getFinancialStatistics(@Query('currency') currency?: string) {
     this.logger.log(
       '[GET /api/events/financial/statistics] API: Fetching financial statistics',
     );
 
-    const statistics = await this.eventService.getFinancialStatistics();
+    const statistics = await this.eventService.getFinancialStatistics(currency);
 
     return {
       success: true,
@@ -101,13 +170,15 @@ export class EventApiController {
     };
   }
 
-  // GET /api/events/financial/revenue
+  // GET /api/events/financial/revenue?startDate=&endDate=&currency=
 
   @Get('financial/revenue')
+  @RequirePermissions(Permission.FINANCE_VIEW)
   @HttpCode(HttpStatus.OK)
   async getRevenueByDateRange(
     @Query('startDate') startDate: string,
     @Query('endDate') endDate: string,
+    @Query('currency') currency?: string,
   ) {
     if (!startDate || !endDate) {
       throw new BadRequestException('Both startDate and endDate are required');
@@ -126,7 +197,11 @@ export class EventApiController {
       );
     }
 
-    const revenue = await this.eventService.getRevenueByDateRange(start, end);
+    const revenue = await this.eventService.getRevenueByDateRange(
+      start,
+      end,
+      currency,
+    );
 
     return {
       success: true,
@@ -169,8 +244,71 @@ export class EventApiController {
     };
   }
 
+  // GET /api/events/:id/status-history
+  @Get(':id/status-history')
+  @HttpCode(HttpStatus.OK)
+  async getStatusHistory(@Param('id') id: string) {
+    this.logger.log(
+      `[GET /api/events/${id}/status-history] API: Fetching status transitions`,
+    );
+
+    // Ensures the event exists and the ID is valid
+    await this.eventService.getEventById(id);
+
+    const history = await this.eventLifecycleService.getStatusHistory(id);
+
+    return {
+      success: true,
+      message: 'Status history retrieved successfully',
+      data: history,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // GET /api/events/:id/hold-queue
+  @Get(':id/hold-queue')
+  @HttpCode(HttpStatus.OK)
+  async getHoldQueue(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[GET /api/events/${id}/hold-queue] API: Fetching holds`);
+
+    const queue = await this.eventService.getHoldQueue(id);
+
+    return {
+      success: true,
+      message: 'Hold queue retrieved successfully',
+      data: queue,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // POST /api/events/:id/confirm-hold
+  @Post(':id/confirm-hold')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async confirmHold(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body('overrideHolds') overrideHolds?: boolean,
+  ) {
+    this.logger.log(
+      `[POST /api/events/${id}/confirm-hold] API: Confirming hold`,
+    );
+
+    const event = await this.eventService.confirmHold(
+      id,
+      overrideHolds === true,
+    );
+
+    return {
+      success: true,
+      message: 'Hold confirmed successfully',
+      data: event,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   // PATCH /api/events/:id
   @Patch(':id')
+  @RequirePermissions(Permission.EVENT_WRITE)
   @HttpCode(HttpStatus.OK)
   async updateEvent(
     @Param('id') id: string,
@@ -192,6 +330,7 @@ export class EventApiController {
 
   // DELETE /api/events/:id
   @Delete(':id')
+  @RequirePermissions(Permission.EVENT_DELETE)
   @HttpCode(HttpStatus.OK)
   async deleteEvent(@Param('id') id: string) {
     this.logger.log(
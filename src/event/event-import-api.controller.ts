@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { EventImportService } from './event-import.service';
+import { ImportEventsDto } from './dto/import-events.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/events/import')
+@UseGuards(ApiAuthGuard)
+@RequirePermissions(Permission.EVENT_WRITE)
+export class EventImportApiController {
+  private readonly logger = new Logger(EventImportApiController.name);
+
+  constructor(private readonly eventImportService: EventImportService) {}
+
+  /**
+   * POST /api/events/import/preview
+   * Parse a CSV or ICS file and report errors per row without saving
+   */
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  async previewImport(@Body() importDto: ImportEventsDto) {
+    this.logger.log(
+      `[POST /api/events/import/preview] API: Previewing ${importDto.format} import`,
+    );
+
+    const preview = await this.eventImportService.preview(importDto);
+
+    return {
+      success: true,
+      message: `${preview.validCount} of ${preview.total} booking(s) can be imported`,
+      data: preview,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/events/import
+   * Import the valid rows of a CSV or ICS file in one transaction
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async importEvents(@Body() importDto: ImportEventsDto) {
+    this.logger.log(
+      `[POST /api/events/import] API: Importing ${importDto.format} file`,
+    );
+
+    const result = await this.eventImportService.commit(importDto);
+
+    return {
+      success: true,
+      message:
+        result.skipped.length > 0
+          ? `${result.created} booking(s) imported, ${result.skipped.length} skipped`
+          : `${result.created} booking(s) imported`,
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
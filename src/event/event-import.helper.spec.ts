@@ -0,0 +1,128 @@
+import { EventImportHelper } from './event-import.helper';
+
+describe('EventImportHelper', () => {
+  describe('parseCsv', () => {
+    it('reads quoted cells, escaped quotes and line breaks', () => {
+      const table = EventImportHelper.parseCsv(
+        'Name,Start,Notes\r\n"Gala, 2026",2026-11-01 18:00,"Say ""hi""\nat the door"\r\n\r\nMeeting,2026-11-02 09:00,\n',
+      );
+
+      expect(table.columns).toEqual(['Name', 'Start', 'Notes']);
+      expect(table.rows).toEqual([
+        ['Gala, 2026', '2026-11-01 18:00', 'Say "hi"\nat the door'],
+        ['Meeting', '2026-11-02 09:00', ''],
+      ]);
+    });
+
+    it('detects semicolon and tab delimiters', () => {
+      expect(EventImportHelper.parseCsv('a;b\n1;2').rows).toEqual([['1', '2']]);
+      expect(EventImportHelper.parseCsv('a\tb\n1\t2').rows).toEqual([
+        ['1', '2'],
+      ]);
+    });
+  });
+
+  it('guesses the mapping from header names and applies it', () => {
+    const table = EventImportHelper.parseCsv(
+      'Event Name,Start Date,Start Time,End_Date,Pax,Other\nGala,01/11/2026,18:00,01/11/2026,120,x',
+    );
+    const mapping = EventImportHelper.guessMapping(table.columns);
+
+    expect(mapping).toEqual({
+      name: 'Event Name',
+      start: 'Start Date',
+      startTime: 'Start Time',
+      end: 'End_Date',
+      attendeeCount: 'Pax',
+    });
+    expect(EventImportHelper.applyMapping(table, mapping)).toEqual([
+      {
+        name: 'Gala',
+        start: '01/11/2026',
+        startTime: '18:00',
+        end: '01/11/2026',
+        attendeeCount: '120',
+      },
+    ]);
+  });
+
+  describe('parseDateTime', () => {
+    it('reads ISO, year-first and day-first dates', () => {
+      expect(
+        EventImportHelper.parseDateTime('2026-11-01T18:00:00.000Z')?.value,
+      ).toEqual(new Date('2026-11-01T18:00:00.000Z'));
+      expect(
+        EventImportHelper.parseDateTime('2026-11-01 18:30')?.value,
+      ).toEqual(new Date(2026, 10, 1, 18, 30));
+      expect(EventImportHelper.parseDateTime('01/11/2026', '18.30')).toEqual({
+        value: new Date(2026, 10, 1, 18, 30),
+        hasTime: true,
+      });
+      expect(EventImportHelper.parseDateTime('1.11.2026')).toEqual({
+        value: new Date(2026, 10, 1),
+        hasTime: false,
+      });
+    });
+
+    it('rejects unreadable and impossible dates', () => {
+      expect(EventImportHelper.parseDateTime('next friday')).toBeNull();
+      expect(EventImportHelper.parseDateTime('31/02/2026')).toBeNull();
+      expect(EventImportHelper.parseDateTime('2026-11-01 25:00')).toBeNull();
+    });
+  });
+
+  describe('parseIcs', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:1@example',
+      'SUMMARY:Annual Gala\\, 2026',
+      'DESCRIPTION:Line one\\nLine tw',
+      ' o',
+      'DTSTART:20261101T110000Z',
+      'DTEND:20261101T150000Z',
+      'LOCATION:Grand Hall',
+      'STATUS:TENTATIVE',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Closed',
+      'DTSTART;VALUE=DATE:20261224',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Jakarta time',
+      'DTSTART;TZID=Asia/Jakarta:20261102T090000',
+      'DTEND;TZID="Asia/Jakarta":20261102T170000',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('reads events with unfolded, unescaped text', () => {
+      const [gala] = EventImportHelper.parseIcs(ics);
+
+      expect(gala).toEqual({
+        name: 'Annual Gala, 2026',
+        description: 'Line one\nLine two',
+        start: '2026-11-01T11:00:00.000Z',
+        end: '2026-11-01T15:00:00.000Z',
+        venue: 'Grand Hall',
+        status: 'HOLD',
+      });
+    });
+
+    it('gives all-day events a one-day span and keeps cancellations', () => {
+      const closed = EventImportHelper.parseIcs(ics)[1];
+
+      expect(closed.status).toBe('CANCELLED');
+      expect(closed.start).toBe(new Date(2026, 11, 24).toISOString());
+      expect(closed.end).toBe(new Date(2026, 11, 25).toISOString());
+    });
+
+    it('converts TZID times to UTC', () => {
+      const jakarta = EventImportHelper.parseIcs(ics)[2];
+
+      expect(jakarta.start).toBe('2026-11-02T02:00:00.000Z');
+      expect(jakarta.end).toBe('2026-11-02T10:00:00.000Z');
+    });
+  });
+});
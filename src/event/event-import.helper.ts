@@ -0,0 +1,368 @@
+// Fields a CSV column can be mapped to, with header names recognised for each
+export const IMPORT_FIELDS = {
+  name: ['name', 'event', 'event name', 'title', 'summary', 'acara'],
+  description: ['description', 'notes', 'details', 'keterangan'],
+  venue: ['venue', 'venue name', 'venue id', 'location', 'tempat'],
+  start: ['start', 'start date', 'start datetime', 'from', 'date', 'mulai'],
+  startTime: ['start time', 'time', 'from time', 'jam mulai'],
+  end: ['end', 'end date', 'end datetime', 'to', 'until', 'selesai'],
+  endTime: ['end time', 'to time', 'jam selesai'],
+  attendeeCount: ['attendees', 'attendee count', 'guests', 'pax', 'peserta'],
+  status: ['status'],
+  rentalType: ['rental type', 'rental'],
+  discount: ['discount', 'diskon'],
+  additionalFees: ['additional fees', 'fees', 'extra fees', 'biaya tambahan'],
+};
+
+export type ImportField = keyof typeof IMPORT_FIELDS;
+
+// CSV column header for each mapped field
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+// One booking read from a file, values as written there
+export type ImportRecord = Partial<Record<ImportField, string>>;
+
+export interface CsvTable {
+  columns: string[];
+  rows: string[][];
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+export class EventImportHelper {
+  static isField(field: string): field is ImportField {
+    return Object.keys(IMPORT_FIELDS).includes(field);
+  }
+
+  // Comma, semicolon or tab, whichever the header line uses most
+  static detectDelimiter(headerLine: string): string {
+    const unquoted = headerLine.replace(/"[^"]*"/g, '');
+
+    return DELIMITERS.reduce((best, delimiter) =>
+      unquoted.split(delimiter).length > unquoted.split(best).length
+        ? delimiter
+        : best,
+    );
+  }
+
+  /**
+   * Parse CSV text (RFC 4180 quoting) into a header and rows
+   * Blank lines are skipped; cells are trimmed.
+   */
+  static parseCsv(content: string): CsvTable {
+    const text = content.replace(/^\uFEFF/, '');
+    const delimiter = this.detectDelimiter(text.split(/\r?\n/, 1)[0] ?? '');
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === delimiter) {
+        record.push(cell.trim());
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        record.push(cell.trim());
+        records.push(record);
+        record = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    record.push(cell.trim());
+    records.push(record);
+
+    const [columns = [], ...rows] = records.filter((row) =>
+      row.some((value) => value !== ''),
+    );
+
+    return { columns, rows };
+  }
+
+  // Map each field to the first column whose header it recognises
+  static guessMapping(columns: string[]): ImportMapping {
+    const mapping: ImportMapping = {};
+    const normalized = columns.map((column) =>
+      column.toLowerCase().replace(/[_-]+/g, ' ').trim(),
+    );
+
+    for (const [field, names] of Object.entries(IMPORT_FIELDS)) {
+      const index = normalized.findIndex((column) => names.includes(column));
+
+      if (index !== -1 && this.isField(field)) {
+        mapping[field] = columns[index];
+      }
+    }
+
+    return mapping;
+  }
+
+  static applyMapping(table: CsvTable, mapping: ImportMapping): ImportRecord[] {
+    return table.rows.map((row) => {
+      const record: ImportRecord = {};
+
+      for (const [field, column] of Object.entries(mapping)) {
+        const index = column ? table.columns.indexOf(column) : -1;
+
+        if (index !== -1 && this.isField(field) && row[index]) {
+          record[field] = row[index];
+        }
+      }
+
+      return record;
+    });
+  }
+
+  /**
+   * Read a date, optionally with a separate time
+   * Accepts ISO 8601 (with or without a zone), YYYY-MM-DD HH:mm and
+   * DD/MM/YYYY HH:mm (also with - or . between date parts and HH.mm).
+   * Times without a zone are in the server's time zone.
+   * @returns The moment, whether a time was given, or null if unreadable
+   */
+  static parseDateTime(
+    date: string,
+    time?: string,
+  ): { value: Date; hasTime: boolean } | null {
+    const text = time ? `${date.trim()} ${time.trim()}` : date.trim();
+
+    // Explicit zone: let the Date parser handle it
+    if (
+      /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(
+        text,
+      )
+    ) {
+      const value = new Date(text);
+      return isNaN(value.getTime()) ? null : { value, hasTime: true };
+    }
+
+    const match =
+      /^(?:(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}))(?:[ T](\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?)?$/.exec(
+        text,
+      );
+
+    if (!match) {
+      return null;
+    }
+
+    const year = Number(match[1] ?? match[6]);
+    const month = Number(match[2] ?? match[5]);
+    const day = Number(match[3] ?? match[4]);
+    const hasTime = match[7] !== undefined;
+    const hours = hasTime ? Number(match[7]) : 0;
+    const minutes = hasTime ? Number(match[8]) : 0;
+    const seconds = match[9] ? Number(match[9]) : 0;
+
+    const value = new Date(year, month - 1, day, hours, minutes, seconds);
+
+    // Reject rolled-over dates such as 31/02
+    if (
+      value.getFullYear() !== year ||
+      value.getMonth() !== month - 1 ||
+      value.getDate() !== day ||
+      hours > 23 ||
+      minutes > 59 ||
+      seconds > 59
+    ) {
+      return null;
+    }
+
+    return { value, hasTime };
+  }
+
+  // Undo line folding and split each line into name, time zone and value
+  private static icsProperties(content: string) {
+    return content
+      .replace(/\r?\n[ \t]/g, '')
+      .split(/\r?\n/)
+      .filter((line) => line.includes(':'))
+      .map((line) => {
+        const colon = line.indexOf(':');
+        const [name, ...params] = line.slice(0, colon).split(';');
+
+        return {
+          name: name.toUpperCase(),
+          tzid: params
+            .find((param) => param.toUpperCase().startsWith('TZID='))
+            ?.slice(5)
+            .replace(/^"|"$/g, ''),
+          value: line.slice(colon + 1),
+        };
+      });
+  }
+
+  static unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+      char === 'n' || char === 'N' ? '\n' : char,
+    );
+  }
+
+  // Milliseconds the zone is ahead of UTC at `utc`
+  private static zoneOffset(utc: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(utc);
+    const part = (type: string) =>
+      Number(parts.find((entry) => entry.type === type)?.value);
+
+    return (
+      Date.UTC(
+        part('year'),
+        part('month') - 1,
+        part('day'),
+        part('hour'),
+        part('minute'),
+        part('second'),
+      ) - utc.getTime()
+    );
+  }
+
+  /**
+   * Read an iCalendar DATE or DATE-TIME value
+   * UTC (Z) and TZID times are converted; floating times are in the
+   * server's time zone, as are unknown TZIDs.
+   */
+  static parseIcsDate(
+    value: string,
+    tzid?: string,
+  ): { value: Date; isDate: boolean } | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+      value.trim(),
+    );
+
+    if (!match) {
+      return null;
+    }
+
+    const [year, month, day] = [match[1], match[2], match[3]].map(Number);
+
+    if (match[4] === undefined) {
+      return { value: new Date(year, month - 1, day), isDate: true };
+    }
+
+    const [hours, minutes, seconds] = [match[4], match[5], match[6]].map(
+      Number,
+    );
+    const asUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+    if (match[7]) {
+      return { value: new Date(asUtc), isDate: false };
+    }
+
+    if (tzid) {
+      try {
+        const guess = new Date(asUtc - this.zoneOffset(new Date(asUtc), tzid));
+        const offset = this.zoneOffset(guess, tzid);
+        return { value: new Date(asUtc - offset), isDate: false };
+      } catch {
+        // Unknown zone, read as local time below
+      }
+    }
+
+    return {
+      value: new Date(year, month - 1, day, hours, minutes, seconds),
+      isDate: false,
+    };
+  }
+
+  /**
+   * Bookings in an iCalendar file, one record per VEVENT
+   * All-day events end at midnight after their last day. TENTATIVE events
+   * become holds and CANCELLED ones keep their status so they can be
+   * reported rather than booked.
+   */
+  static parseIcs(content: string): ImportRecord[] {
+    const records: ImportRecord[] = [];
+    let current: ImportRecord | null = null;
+    let allDayEnd: Date | null = null;
+
+    for (const property of this.icsProperties(content)) {
+      if (property.name === 'BEGIN' && property.value.trim() === 'VEVENT') {
+        current = {};
+        allDayEnd = null;
+        continue;
+      }
+
+      if (!current) {
+        continue;
+      }
+
+      if (property.name === 'END' && property.value.trim() === 'VEVENT') {
+        if (!current.end && allDayEnd) {
+          current.end = allDayEnd.toISOString();
+        }
+        records.push(current);
+        current = null;
+        continue;
+      }
+
+      switch (property.name) {
+        case 'SUMMARY':
+          current.name = this.unescapeText(property.value).trim();
+          break;
+        case 'DESCRIPTION':
+          current.description = this.unescapeText(property.value).trim();
+          break;
+        case 'LOCATION':
+          current.venue = this.unescapeText(property.value).trim();
+          break;
+        case 'STATUS': {
+          const status = property.value.trim().toUpperCase();
+          current.status =
+            status === 'TENTATIVE'
+              ? 'HOLD'
+              : status === 'CANCELLED'
+                ? 'CANCELLED'
+                : 'UPCOMING';
+          break;
+        }
+        case 'DTSTART':
+        case 'DTEND': {
+          const parsed = this.parseIcsDate(property.value, property.tzid);
+          const key = property.name === 'DTSTART' ? 'start' : 'end';
+
+          if (!parsed) {
+            current[key] = property.value;
+          } else {
+            current[key] = parsed.value.toISOString();
+
+            // An all-day event without DTEND lasts one day
+            if (key === 'start' && parsed.isDate) {
+              const next = new Date(parsed.value);
+              next.setDate(next.getDate() + 1);
+              allDayEnd = next;
+            }
+          }
+          break;
+        }
+      }
+    }
+
+    return records;
+  }
+}
@@ -0,0 +1,72 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventImportService } from './event-import.service';
+import { EventService } from './event.service';
+import { CreateEventDto } from './dto/create-event.dto';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('EventImportService', () => {
+  const hall = {
+    id: '6f1c2b1e-3a4d-4e5f-8a9b-0c1d2e3f4a5b',
+    name: 'Grand Hall',
+  };
+  const garden = { id: '7a2d3c2f-4b5e-4f60-9bac-1d2e3f4a5b6c', name: 'Garden' };
+
+  let service: EventImportService;
+  let eventService: { prepareEvent: jest.Mock };
+
+  beforeEach(async () => {
+    eventService = {
+      prepareEvent: jest.fn((createEventDto: CreateEventDto) =>
+        createEventDto.venueId === garden.id
+          ? Promise.reject(
+              new BadRequestException('Hourly price not set for this venue'),
+            )
+          : Promise.resolve({
+              data: {
+                name: createEventDto.name,
+                finalPrice: 1000000,
+                currency: 'IDR',
+              },
+            }),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventImportService,
+        {
+          provide: PrismaService,
+          useValue: {
+            venue: { findMany: jest.fn().mockResolvedValue([hall, garden]) },
+          },
+        },
+        { provide: EventService, useValue: eventService },
+      ],
+    }).compile();
+
+    service = module.get<EventImportService>(EventImportService);
+  });
+
+  describe('preview', () => {
+    it('reports an unpriced venue on its row and keeps the other rows', async () => {
+      const preview = await service.preview({
+        format: 'CSV',
+        content: [
+          'name,venue,start,end',
+          'Product launch,Grand Hall,2027-05-01 09:00,2027-05-01 17:00',
+          'Garden party,Garden,2027-05-02 09:00,2027-05-02 17:00',
+        ].join('\n'),
+      });
+
+      expect(preview.total).toBe(2);
+      expect(preview.validCount).toBe(1);
+      expect(preview.rows[0]).toMatchObject({ valid: true, errors: [] });
+      expect(preview.rows[1]).toMatchObject({
+        valid: false,
+        event: null,
+        errors: ['Hourly price not set for this venue'],
+      });
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { EventStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventService } from './event.service';
+import { CreateEventDto } from './dto/create-event.dto';
+import { ImportEventsDto } from './dto/import-events.dto';
+import {
+  EventImportHelper,
+  ImportMapping,
+  ImportRecord,
+} from './event-import.helper';
+
+// Largest number of bookings in one file
+const MAX_IMPORT_ROWS = 500;
+
+type PreparedEvent = Awaited<ReturnType<EventService['prepareEvent']>>;
+
+export interface ImportRowPreview {
+  row: number; // 1-based, not counting the CSV header
+  values: ImportRecord;
+  event: {
+    name: string;
+    venueId: string;
+    venueName: string;
+    startDatetime: Date;
+    endDatetime: Date;
+    status: EventStatus;
+    finalPrice: number;
+    currency: string;
+  } | null;
+  errors: string[];
+  valid: boolean;
+}
+
+export interface ImportPreview {
+  columns: string[];
+  mapping: ImportMapping;
+  total: number;
+  validCount: number;
+  rows: ImportRowPreview[];
+}
+
+/**
+ * EventImportService
+ * Imports existing bookings from CSV or iCalendar files. Every row is
+ * validated like a manually created event and checked against the other
+ * rows of the file; the valid rows are saved in one transaction.
+ */
+@Injectable()
+export class EventImportService {
+  private readonly logger = new Logger(EventImportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventService: EventService,
+  ) {}
+
+  // Records of the file, and the CSV columns and mapping used
+  private readRecords(importDto: ImportEventsDto) {
+    if (importDto.format === 'ICS') {
+      return {
+        columns: [] as string[],
+        mapping: {} as ImportMapping,
+        records: EventImportHelper.parseIcs(importDto.content),
+      };
+    }
+
+    const table = EventImportHelper.parseCsv(importDto.content);
+    const mapping: ImportMapping = {};
+
+    for (const [field, column] of Object.entries(
+      importDto.mapping ?? EventImportHelper.guessMapping(table.columns),
+    )) {
+      if (!EventImportHelper.isField(field) || !column) {
+        continue;
+      }
+
+      if (!table.columns.includes(column)) {
+        throw new BadRequestException(
+          `Column "${column}" mapped to ${field} is not in the file`,
+        );
+      }
+
+      mapping[field] = column;
+    }
+
+    return {
+      columns: table.columns,
+      mapping,
+      records: EventImportHelper.applyMapping(table, mapping),
+    };
+  }
+
+  /**
+   * Start and end of a row
+   * A date-only end covers that whole day, and an end time without an end
+   * date is on the start date.
+   */
+  private readDates(record: ImportRecord, errors: string[]) {
+    const start = record.start
+      ? EventImportHelper.parseDateTime(record.start, record.startTime)
+      : null;
+
+    if (!record.start) {
+      errors.push('Start date is required');
+    } else if (!start) {
+      errors.push(`Start "${record.start}" is not a date we can read`);
+    }
+
+    let end: Date | null = null;
+
+    if (record.end) {
+      const parsed = EventImportHelper.parseDateTime(
+        record.end,
+        record.endTime,
+      );
+
+      if (!parsed) {
+        errors.push(`End "${record.end}" is not a date we can read`);
+      } else if (parsed.hasTime) {
+        end = parsed.value;
+      } else {
+        end = new Date(parsed.value);
+        end.setDate(end.getDate() + 1);
+      }
+    } else if (record.endTime && start) {
+      const day = start.value;
+      const parsed = EventImportHelper.parseDateTime(
+        `${day.getFullYear()}-${day.getMonth() + 1}-${day.getDate()}`,
+        record.endTime,
+      );
+
+      if (!parsed) {
+        errors.push(`End time "${record.endTime}" is not a time we can read`);
+      } else {
+        end = parsed.value;
+      }
+    } else if (start && !start.hasTime) {
+      // A start date alone books that day
+      end = new Date(start.value);
+      end.setDate(end.getDate() + 1);
+    } else if (start) {
+      errors.push('End date is required');
+    }
+
+    return { start: start?.value ?? null, end };
+  }
+
+  /**
+   * Parse and validate a file without saving anything
+   * @throws BadRequestException if the file has no rows or too many
+   */
+  private async evaluate(importDto: ImportEventsDto) {
+    const { columns, mapping, records } = this.readRecords(importDto);
+
+    if (records.length === 0) {
+      throw new BadRequestException('The file contains no bookings');
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `The file contains ${records.length} bookings; import at most ${MAX_IMPORT_ROWS} at a time`,
+      );
+    }
+
+    const venues = await this.prisma.venue.findMany({
+      select: { id: true, name: true },
+    });
+    const venueById = new Map(venues.map((venue) => [venue.id, venue]));
+    const venueByName = new Map(
+      venues.map((venue) => [venue.name.trim().toLowerCase(), venue]),
+    );
+    const defaultVenue = importDto.venueId
+      ? venueById.get(importDto.venueId)
+      : undefined;
+
+    if (importDto.venueId && !defaultVenue) {
+      throw new BadRequestException(
+        `Venue with ID "${importDto.venueId}" not found`,
+      );
+    }
+
+    const rows: ImportRowPreview[] = [];
+    // Prepared bookings of the valid rows, by row number
+    const prepared = new Map<number, PreparedEvent>();
+
+    for (const [index, record] of records.entries()) {
+      const errors: string[] = [];
+      const given = record.venue?.trim();
+      let venue = given
+        ? (venueById.get(given) ?? venueByName.get(given.toLowerCase()))
+        : defaultVenue;
+
+      // ICS locations are often addresses, so they fall back to the default
+      if (!venue && given && importDto.format === 'ICS') {
+        venue = defaultVenue;
+      }
+
+      if (!venue) {
+        errors.push(
+          given
+            ? `Venue "${given}" not found`
+            : 'Venue is required; map a venue column or choose a default venue',
+        );
+      }
+
+      const { start, end } = this.readDates(record, errors);
+      const status = (record.status?.trim().toUpperCase() ||
+        importDto.status ||
+        EventStatus.UPCOMING) as EventStatus;
+
+      if (status === EventStatus.CANCELLED) {
+        errors.push('Cancelled bookings are not imported');
+      }
+
+      const createEventDto = plainToInstance(
+        CreateEventDto,
+        {
+          name: record.name,
+          description: record.description,
+          venueId: venue?.id,
+          startDatetime: start?.toISOString(),
+          endDatetime: end?.toISOString(),
+          attendeeCount: record.attendeeCount,
+          status,
+          rentalType: record.rentalType?.trim().toUpperCase() || undefined,
+          discount: record.discount,
+          additionalFees: record.additionalFees,
+        },
+        { enableImplicitConversion: true },
+      );
+
+      // Field errors already reported above aren't repeated
+      const reported = new Set(
+        venue && start && end
+          ? []
+          : ['venueId', 'startDatetime', 'endDatetime'],
+      );
+
+      // One message per field, "is required" when the value is missing
+      for (const error of validateSync(createEventDto, {
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      })) {
+        const constraints = error.constraints || {};
+        const message =
+          constraints.isNotEmpty ?? Object.values(constraints).pop();
+
+        if (message && !reported.has(error.property)) {
+          errors.push(message);
+        }
+      }
+
+      const row: ImportRowPreview = {
+        row: index + 1,
+        values: record,
+        event: null,
+        errors,
+        valid: false,
+      };
+      rows.push(row);
+
+      if (errors.length > 0 || !venue || !start || !end) {
+        continue;
+      }
+
+      // Firm bookings in the same file can't overlap; holds may queue
+      const clash = rows.find(
+        (other) =>
+          other.valid &&
+          other.event!.venueId === venue.id &&
+          other.event!.startDatetime < end &&
+          other.event!.endDatetime > start &&
+          (status !== EventStatus.HOLD ||
+            other.event!.status !== EventStatus.HOLD),
+      );
+
+      if (clash) {
+        errors.push(
+          `Overlaps row ${clash.row} ("${clash.event!.name}") at the same venue`,
+        );
+        continue;
+      }
+
+      try {
+        const booking = await this.eventService.prepareEvent(createEventDto);
+        const { data } = booking;
+
+        prepared.set(row.row, booking);
+        row.valid = true;
+        row.event = {
+          name: data.name,
+          venueId: venue.id,
+          venueName: venue.name,
+          startDatetime: data.startDatetime,
+          endDatetime: data.endDatetime,
+          status: data.status,
+          finalPrice: Number(data.finalPrice),
+          currency: data.currency,
+        };
+      } catch (error) {
+        if (!(error instanceof HttpException)) {
+          throw error;
+        }
+
+        errors.push(error.message);
+      }
+    }
+
+    return { columns, mapping, rows, prepared };
+  }
+
+  /**
+   * Parsed rows with their errors; nothing is saved
+   */
+  async preview(importDto: ImportEventsDto): Promise<ImportPreview> {
+    const { columns, mapping, rows } = await this.evaluate(importDto);
+
+    return {
+      columns,
+      mapping,
+      total: rows.length,
+      validCount: rows.filter((row) => row.valid).length,
+      rows,
+    };
+  }
+
+  /**
+   * Save the valid rows in one transaction; rows with errors are skipped
+   * Rows are validated again, so a slot booked since the preview is caught.
+   * @throws BadRequestException if no row is valid
+   */
+  async commit(importDto: ImportEventsDto) {
+    const { rows, prepared } = await this.evaluate(importDto);
+
+    if (prepared.size === 0) {
+      throw new BadRequestException('No valid bookings to import');
+    }
+
+    const events = await this.eventService.createPreparedEvents([
+      ...prepared.values(),
+    ]);
+
+    this.logger.log(
+      `Imported ${events.length} of ${rows.length} booking(s) from ${importDto.format}`,
+    );
+
+    return {
+      created: events.length,
+      skipped: rows
+        .filter((row) => !row.valid)
+        .map(({ row, errors }) => ({ row, errors })),
+      events: events.map((event) => ({ id: event.id, name: event.name })),
+    };
+  }
+}
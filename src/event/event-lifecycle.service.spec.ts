@@ -0,0 +1,178 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventStatus, TransitionTrigger } from '@prisma/client';
+import { EventLifecycleService } from './event-lifecycle.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PromoCodeService } from './promo-code.service';
+import { CLOCK } from '../common/providers/clock.provider';
+
+describe('EventLifecycleService', () => {
+  const now = new Date('2026-03-01T10:00:00.000Z');
+
+  let service: EventLifecycleService;
+  let tx: {
+    event: { updateMany: jest.Mock };
+    eventStatusTransition: { create: jest.Mock };
+  };
+  let promoCodeService: { releaseRedemption: jest.Mock };
+  let prisma: {
+    event: { findMany: jest.Mock };
+    eventStatusTransition: { findMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    tx = {
+      event: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      eventStatusTransition: { create: jest.fn().mockResolvedValue({}) },
+    };
+    promoCodeService = {
+      releaseRedemption: jest.fn().mockResolvedValue(undefined),
+    };
+    prisma = {
+      event: { findMany: jest.fn() },
+      eventStatusTransition: { findMany: jest.fn() },
+      $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+        callback(tx),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventLifecycleService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PromoCodeService, useValue: promoCodeService },
+        { provide: CLOCK, useValue: { now: () => now } },
+      ],
+    }).compile();
+
+    service = module.get<EventLifecycleService>(EventLifecycleService);
+  });
+
+  it('moves started events to ONGOING and finished events to COMPLETED', async () => {
+    prisma.event.findMany
+      .mockResolvedValueOnce([
+        { id: 'a', name: 'Started', status: EventStatus.UPCOMING },
+      ])
+      .mockResolvedValueOnce([
+        { id: 'b', name: 'Finished', status: EventStatus.ONGOING },
+        { id: 'c', name: 'Missed', status: EventStatus.UPCOMING },
+      ])
+      .mockResolvedValueOnce([]);
+
+    const result = await service.reconcile();
+
+    expect(result.checkedAt).toBe(now);
+    expect(result.started).toBe(1);
+    expect(result.completed).toBe(2);
+    expect(tx.event.updateMany).toHaveBeenCalledWith({
+      where: { id: 'a', status: EventStatus.UPCOMING },
+      data: { status: EventStatus.ONGOING },
+    });
+    expect(tx.eventStatusTransition.create).toHaveBeenCalledWith({
+      data: {
+        eventId: 'c',
+        fromStatus: EventStatus.UPCOMING,
+        toStatus: EventStatus.COMPLETED,
+        trigger: TransitionTrigger.RECONCILE,
+        transitionedAt: now,
+      },
+    });
+  });
+
+  it('queries due events relative to the injected clock', async () => {
+    prisma.event.findMany.mockResolvedValue([]);
+
+    await service.reconcile();
+
+    expect(prisma.event.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: EventStatus.UPCOMING,
+          startDatetime: { lte: now },
+          endDatetime: { gt: now },
+        },
+      }),
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('releases holds that expired without being confirmed', async () => {
+    prisma.event.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { id: 'h', name: 'Pencilled', status: EventStatus.HOLD },
+      ]);
+
+    const result = await service.reconcile();
+
+    expect(prisma.event.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: EventStatus.HOLD, holdExpiresAt: { lte: now } },
+      }),
+    );
+    expect(result.released).toBe(1);
+    expect(tx.event.updateMany).toHaveBeenCalledWith({
+      where: { id: 'h', status: EventStatus.HOLD },
+      data: { status: EventStatus.CANCELLED, icsSequence: { increment: 1 } },
+    });
+    expect(promoCodeService.releaseRedemption).toHaveBeenCalledWith(tx, 'h');
+  });
+
+  it('skips events whose status changed since they were read', async () => {
+    prisma.event.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { id: 'b', name: 'Edited', status: EventStatus.ONGOING },
+      ])
+      .mockResolvedValueOnce([]);
+    tx.event.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const result = await service.reconcile(TransitionTrigger.SCHEDULER);
+
+    expect(result.completed).toBe(0);
+    expect(result.transitions).toEqual([]);
+    expect(tx.eventStatusTransition.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a manual run while another run is in progress', async () => {
+    let finishRead: (events: unknown[]) => void = () => undefined;
+    prisma.event.findMany
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          finishRead = resolve;
+        }),
+      )
+      .mockResolvedValue([]);
+
+    const scheduled = service.reconcile(TransitionTrigger.SCHEDULER);
+
+    await expect(service.reconcile()).rejects.toBeInstanceOf(ConflictException);
+
+    finishRead([]);
+    await scheduled;
+
+    // The refused call must not have cleared the running flag early
+    await expect(service.reconcile()).resolves.toMatchObject({ started: 0 });
+  });
+
+  it('skips a scheduled tick while a manual run is in progress', async () => {
+    let finishRead: (events: unknown[]) => void = () => undefined;
+    prisma.event.findMany
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          finishRead = resolve;
+        }),
+      )
+      .mockResolvedValue([]);
+
+    const manual = service.reconcile();
+    await service.handleScheduledReconcile();
+
+    expect(prisma.event.findMany).toHaveBeenCalledTimes(3);
+
+    finishRead([]);
+    await manual;
+  });
+});
@@ -0,0 +1,205 @@
+import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { EventStatus, TransitionTrigger } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PromoCodeService } from './promo-code.service';
+import { CLOCK } from '../common/providers/clock.provider';
+import type { Clock } from '../common/providers/clock.provider';
+
+export interface LifecycleTransition {
+  eventId: string;
+  eventName: string;
+  fromStatus: EventStatus;
+  toStatus: EventStatus;
+}
+
+export interface LifecycleReconcileResult {
+  checkedAt: Date;
+  started: number;
+  completed: number;
+  released: number;
+  transitions: LifecycleTransition[];
+}
+
+/**
+ * EventLifecycleService
+ * Moves events through UPCOMING -> ONGOING -> COMPLETED based on their
+ * start/end datetimes, and releases (cancels) HOLDs past their expiry.
+ * CANCELLED events are never touched.
+ */
+@Injectable()
+export class EventLifecycleService {
+  private readonly logger = new Logger(EventLifecycleService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly promoCodeService: PromoCodeService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  /**
+   * Scheduled worker, runs every minute
+   * Skips the tick if the previous run is still in progress
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'event-lifecycle' })
+  async handleScheduledReconcile(): Promise<void> {
+    try {
+      await this.reconcile(TransitionTrigger.SCHEDULER);
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        this.logger.warn('Previous lifecycle run still in progress, skipping');
+        return;
+      }
+
+      this.logger.error(
+        `Scheduled lifecycle reconcile failed: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Apply every status transition that is due at the current clock time
+   * @param trigger - What initiated this run (recorded on each transition)
+   * @returns Summary of the transitions that were applied
+   * @throws ConflictException if another run (scheduled or manual) is in progress
+   */
+  async reconcile(
+    trigger: TransitionTrigger = TransitionTrigger.RECONCILE,
+  ): Promise<LifecycleReconcileResult> {
+    if (this.isRunning) {
+      throw new ConflictException('A lifecycle run is already in progress');
+    }
+
+    this.isRunning = true;
+
+    try {
+      const now = this.clock.now();
+
+      const [toStart, toComplete, toRelease] = await Promise.all([
+        // Started but not yet finished
+        this.prisma.event.findMany({
+          where: {
+            status: EventStatus.UPCOMING,
+            startDatetime: { lte: now },
+            endDatetime: { gt: now },
+          },
+          select: { id: true, name: true, status: true },
+        }),
+        // Already finished, whether or not they were ever marked ONGOING
+        this.prisma.event.findMany({
+          where: {
+            status: { in: [EventStatus.UPCOMING, EventStatus.ONGOING] },
+            endDatetime: { lte: now },
+          },
+          select: { id: true, name: true, status: true },
+        }),
+        // Tentative holds nobody confirmed in time
+        this.prisma.event.findMany({
+          where: {
+            status: EventStatus.HOLD,
+            holdExpiresAt: { lte: now },
+          },
+          select: { id: true, name: true, status: true },
+        }),
+      ]);
+
+      const due: LifecycleTransition[] = [
+        ...toStart.map((event) => ({
+          eventId: event.id,
+          eventName: event.name,
+          fromStatus: event.status,
+          toStatus: EventStatus.ONGOING,
+        })),
+        ...toComplete.map((event) => ({
+          eventId: event.id,
+          eventName: event.name,
+          fromStatus: event.status,
+          toStatus: EventStatus.COMPLETED,
+        })),
+        ...toRelease.map((event) => ({
+          eventId: event.id,
+          eventName: event.name,
+          fromStatus: event.status,
+          toStatus: EventStatus.CANCELLED,
+        })),
+      ];
+
+      const applied: LifecycleTransition[] = [];
+
+      if (due.length > 0) {
+        await this.prisma.$transaction(async (tx) => {
+          for (const transition of due) {
+            // Guard on the previous status so a concurrent manual edit wins
+            const { count } = await tx.event.updateMany({
+              where: { id: transition.eventId, status: transition.fromStatus },
+              data: {
+                status: transition.toStatus,
+                // Only a released hold changes what calendar feeds show
+                ...(transition.toStatus === EventStatus.CANCELLED && {
+                  icsSequence: { increment: 1 },
+                }),
+              },
+            });
+
+            if (count === 0) {
+              continue;
+            }
+
+            // A released hold no longer uses its promo code
+            if (transition.toStatus === EventStatus.CANCELLED) {
+              await this.promoCodeService.releaseRedemption(
+                tx,
+                transition.eventId,
+              );
+            }
+
+            await tx.eventStatusTransition.create({
+              data: {
+                eventId: transition.eventId,
+                fromStatus: transition.fromStatus,
+                toStatus: transition.toStatus,
+                trigger,
+                transitionedAt: now,
+              },
+            });
+
+            applied.push(transition);
+          }
+        });
+      }
+
+      const result: LifecycleReconcileResult = {
+        checkedAt: now,
+        started: applied.filter((t) => t.toStatus === EventStatus.ONGOING)
+          .length,
+        completed: applied.filter((t) => t.toStatus === EventStatus.COMPLETED)
+          .length,
+        released: applied.filter((t) => t.toStatus === EventStatus.CANCELLED)
+          .length,
+        transitions: applied,
+      };
+
+      if (applied.length > 0) {
+        this.logger.log(
+          `Lifecycle reconcile (${trigger}): ${result.started} started, ${result.completed} completed, ${result.released} hold(s) released`,
+        );
+      }
+
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Get the recorded status transitions for an event, newest first
+   */
+  async getStatusHistory(eventId: string) {
+    return this.prisma.eventStatusTransition.findMany({
+      where: { eventId },
+      orderBy: { transitionedAt: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { EventSeriesService } from './event-series.service';
+import { CreateEventSeriesDto } from './dto/create-event-series.dto';
+import { UpdateSeriesOccurrenceDto } from './dto/update-series-occurrence.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/events/series')
+@UseGuards(ApiAuthGuard)
+export class EventSeriesApiController {
+  private readonly logger = new Logger(EventSeriesApiController.name);
+
+  constructor(private readonly eventSeriesService: EventSeriesService) {}
+
+  /**
+   * POST /api/events/series/preview
+   * Expand a recurrence rule and report conflicts per date without saving
+   */
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  async previewSeries(@Body() createSeriesDto: CreateEventSeriesDto) {
+    this.logger.log(
+      `[POST /api/events/series/preview] API: Previewing series: ${createSeriesDto.name}`,
+    );
+
+    const preview =
+      await this.eventSeriesService.previewSeries(createSeriesDto);
+
+    return {
+      success: true,
+      message:
+        preview.conflictCount > 0
+          ? `${preview.conflictCount} of ${preview.total} occurrence(s) have conflicts`
+          : `All ${preview.total} occurrence(s) are available`,
+      data: preview,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/events/series
+   * Create a recurring series and book its occurrences
+   */
+  @Post()
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  async createSeries(@Body() createSeriesDto: CreateEventSeriesDto) {
+    this.logger.log(
+      `[POST /api/events/series] API: Creating series: ${createSeriesDto.name}`,
+    );
+
+    const result = await this.eventSeriesService.createSeries(createSeriesDto);
+
+    return {
+      success: true,
+      message: `Event series created with ${result.events.length} occurrence(s)`,
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/events/series/:id
+   * Get a series with its occurrences
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getSeriesById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[GET /api/events/series/${id}] API: Fetching series`);
+
+    const series = await this.eventSeriesService.getSeriesById(id);
+
+    return {
+      success: true,
+      message: 'Event series retrieved successfully',
+      data: series,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * PATCH /api/events/series/:id/occurrences/:eventId
+   * Edit this occurrence only, or this and all following occurrences
+   */
+  @Patch(':id/occurrences/:eventId')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async updateOccurrence(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('eventId', ParseUUIDPipe) eventId: string,
+    @Body() updateOccurrenceDto: UpdateSeriesOccurrenceDto,
+  ) {
+    this.logger.log(
+      `[PATCH /api/events/series/${id}/occurrences/${eventId}] API: Updating (${updateOccurrenceDto.scope})`,
+    );
+
+    const result = await this.eventSeriesService.updateOccurrence(
+      id,
+      eventId,
+      updateOccurrenceDto,
+    );
+
+    return {
+      success: true,
+      message: `${result.events.length} occurrence(s) updated successfully`,
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
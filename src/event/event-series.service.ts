@@ -0,0 +1,466 @@
+import { randomUUID } from 'crypto';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { Event, EventSeries, EventStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventService } from './event.service';
+import { CreateEventSeriesDto } from './dto/create-event-series.dto';
+import { UpdateSeriesOccurrenceDto } from './dto/update-series-occurrence.dto';
+import { RecurrenceHelper, RecurrenceRule } from './recurrence.helper';
+
+export interface SeriesOccurrencePreview {
+  occurrenceIndex: number;
+  date: string; // YYYY-MM-DD
+  startDatetime: Date;
+  endDatetime: Date;
+  available: boolean;
+  conflict: string | null;
+}
+
+export interface SeriesPreview {
+  total: number;
+  conflictCount: number;
+  occurrences: SeriesOccurrencePreview[];
+}
+
+/**
+ * EventSeriesService
+ * Recurring bookings: expands a recurrence rule into Event rows, each one
+ * validated by EventService exactly like a manually created event.
+ */
+@Injectable()
+export class EventSeriesService {
+  private readonly logger = new Logger(EventSeriesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventService: EventService,
+  ) {}
+
+  /**
+   * Validate the rule and expand it into occurrence windows
+   */
+  private async buildOccurrences(createSeriesDto: CreateEventSeriesDto) {
+    const firstStart = new Date(createSeriesDto.startDatetime);
+    const firstEnd = new Date(createSeriesDto.endDatetime);
+    const durationMs = firstEnd.getTime() - firstStart.getTime();
+
+    if (durationMs <= 0) {
+      throw new BadRequestException(
+        'End datetime must be after start datetime',
+      );
+    }
+
+    if (!createSeriesDto.until && !createSeriesDto.count) {
+      throw new BadRequestException(
+        'A series needs either an "until" date or an occurrence "count"',
+      );
+    }
+
+    if (createSeriesDto.until && createSeriesDto.count) {
+      throw new BadRequestException(
+        'Use either "until" or "count" for a series, not both',
+      );
+    }
+
+    const until = createSeriesDto.until
+      ? RecurrenceHelper.parseUntil(createSeriesDto.until)
+      : null;
+
+    if (until && until < firstStart) {
+      throw new BadRequestException(
+        'Series "until" date must not be before the first occurrence',
+      );
+    }
+
+    const venue = await this.prisma.venue.findUnique({
+      where: { id: createSeriesDto.venueId },
+      select: { id: true, name: true, status: true },
+    });
+
+    if (!venue) {
+      throw new NotFoundException(
+        `Venue with ID "${createSeriesDto.venueId}" not found`,
+      );
+    }
+
+    if (venue.status === 'INACTIVE') {
+      throw new BadRequestException(
+        `Cannot book venue "${venue.name}" because it is currently inactive. Please choose another venue or contact administrator.`,
+      );
+    }
+
+    const rule: RecurrenceRule = {
+      frequency: createSeriesDto.frequency,
+      interval: createSeriesDto.interval ?? 1,
+      byWeekday: createSeriesDto.byWeekday,
+      until,
+      count: createSeriesDto.count ?? null,
+      exceptionDates: createSeriesDto.exceptionDates,
+    };
+
+    const starts = RecurrenceHelper.expand(firstStart, rule);
+
+    if (starts.length === 0) {
+      throw new BadRequestException(
+        'The recurrence rule does not produce any occurrences',
+      );
+    }
+
+    if (starts.length > RecurrenceHelper.MAX_OCCURRENCES) {
+      throw new BadRequestException(
+        `A series cannot have more than ${RecurrenceHelper.MAX_OCCURRENCES} occurrences. Please shorten the "until" date or lower the count.`,
+      );
+    }
+
+    const occurrences = starts.map((start, index) => ({
+      occurrenceIndex: index + 1,
+      date: RecurrenceHelper.toDateKey(start),
+      startDatetime: start,
+      endDatetime: new Date(start.getTime() + durationMs),
+    }));
+
+    // Occurrences of the same series must not overlap each other
+    for (let i = 1; i < occurrences.length; i++) {
+      if (occurrences[i].startDatetime < occurrences[i - 1].endDatetime) {
+        throw new BadRequestException(
+          `Occurrences on ${occurrences[i - 1].date} and ${occurrences[i].date} overlap. Shorten the event or increase the interval.`,
+        );
+      }
+    }
+
+    return { rule, occurrences };
+  }
+
+  /**
+   * Run the regular overlap check for one occurrence window
+   * @returns The conflict message, or null when the slot is free
+   */
+  private async findConflict(
+    venueId: string,
+    startDatetime: Date,
+    endDatetime: Date,
+    spaceIds: string[],
+    excludeEventIds?: string[],
+    allowHolds = false,
+  ): Promise<string | null> {
+    if (startDatetime < new Date()) {
+      return 'Occurrence is in the past';
+    }
+
+    try {
+      await this.eventService.checkVenueAvailability(
+        venueId,
+        startDatetime,
+        endDatetime,
+        excludeEventIds,
+        spaceIds,
+        { allowHolds },
+      );
+      return null;
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Expand a series and check every occurrence without saving anything
+   */
+  async previewSeries(
+    createSeriesDto: CreateEventSeriesDto,
+  ): Promise<SeriesPreview> {
+    const { occurrences } = await this.buildOccurrences(createSeriesDto);
+    const spaceIds = [...new Set(createSeriesDto.spaceIds ?? [])];
+
+    const checked: SeriesOccurrencePreview[] = [];
+    for (const occurrence of occurrences) {
+      const conflict = await this.findConflict(
+        createSeriesDto.venueId,
+        occurrence.startDatetime,
+        occurrence.endDatetime,
+        spaceIds,
+        undefined,
+        createSeriesDto.overrideHolds,
+      );
+      checked.push({ ...occurrence, available: !conflict, conflict });
+    }
+
+    return {
+      total: checked.length,
+      conflictCount: checked.filter((occurrence) => !occurrence.available)
+        .length,
+      occurrences: checked,
+    };
+  }
+
+  /**
+   * Create a series and materialise its occurrences as events
+   * Fails with a per-date conflict report unless skipConflicts is set,
+   * in which case only the free occurrences are booked.
+   */
+  async createSeries(createSeriesDto: CreateEventSeriesDto) {
+    this.logger.log(`Creating event series: ${createSeriesDto.name}`);
+
+    const preview = await this.previewSeries(createSeriesDto);
+    const conflicts = preview.occurrences.filter(
+      (occurrence) => !occurrence.available,
+    );
+
+    if (conflicts.length > 0 && !createSeriesDto.skipConflicts) {
+      throw new ConflictException(
+        conflicts.map(
+          (occurrence) => `${occurrence.date}: ${occurrence.conflict}`,
+        ),
+      );
+    }
+
+    const bookable = preview.occurrences.filter(
+      (occurrence) => occurrence.available,
+    );
+
+    if (bookable.length === 0) {
+      throw new ConflictException(
+        'None of the occurrences in this series can be booked',
+      );
+    }
+
+    // Occurrences refer to the series before it is saved with them
+    const seriesId = randomUUID();
+
+    const prepared: Awaited<ReturnType<EventService['prepareEvent']>>[] = [];
+    for (const occurrence of bookable) {
+      prepared.push(
+        await this.eventService.prepareEvent(
+          {
+            name: createSeriesDto.name,
+            description: createSeriesDto.description,
+            venueId: createSeriesDto.venueId,
+            spaceIds: createSeriesDto.spaceIds,
+            clientId: createSeriesDto.clientId,
+            attendeeCount: createSeriesDto.attendeeCount,
+            rentalType: createSeriesDto.rentalType,
+            discount: createSeriesDto.discount,
+            additionalFees: createSeriesDto.additionalFees,
+            overrideHolds: createSeriesDto.overrideHolds,
+            startDatetime: occurrence.startDatetime.toISOString(),
+            endDatetime: occurrence.endDatetime.toISOString(),
+            status: EventStatus.UPCOMING,
+          },
+          { seriesId, occurrenceIndex: occurrence.occurrenceIndex },
+        ),
+      );
+    }
+
+    // The series and all of its occurrences are saved together or not at all
+    // `series` is set inside the transaction before any occurrence is saved
+    let series!: EventSeries;
+    const created = await this.eventService.createPreparedEvents(prepared, {
+      beforeCreate: async (tx) => {
+        series = await tx.eventSeries.create({
+          data: {
+            id: seriesId,
+            venueId: createSeriesDto.venueId,
+            name: createSeriesDto.name,
+            description: createSeriesDto.description || null,
+            frequency: createSeriesDto.frequency,
+            interval: createSeriesDto.interval ?? 1,
+            byWeekday: createSeriesDto.byWeekday?.join(',') || null,
+            until: createSeriesDto.until
+              ? RecurrenceHelper.parseUntil(createSeriesDto.until)
+              : null,
+            count: createSeriesDto.count ?? null,
+            exceptionDates: createSeriesDto.exceptionDates ?? Prisma.JsonNull,
+            startDatetime: new Date(createSeriesDto.startDatetime),
+            endDatetime: new Date(createSeriesDto.endDatetime),
+          },
+        });
+      },
+    });
+
+    this.logger.log(
+      `Event series created: ${series.name} (ID: ${series.id}) | ${created.length} occurrence(s), ${conflicts.length} skipped`,
+    );
+
+    return {
+      series,
+      events: created,
+      skipped: conflicts,
+    };
+  }
+
+  /**
+   * Get a series with all of its occurrences
+   */
+  async getSeriesById(id: string): Promise<EventSeries & { events: Event[] }> {
+    const series = await this.prisma.eventSeries.findUnique({
+      where: { id },
+      include: {
+        venue: { select: { id: true, name: true, city: true } },
+        events: { orderBy: { startDatetime: 'asc' } },
+      },
+    });
+
+    if (!series) {
+      throw new NotFoundException(`Event series with ID "${id}" not found`);
+    }
+
+    return series;
+  }
+
+  /**
+   * Edit one occurrence ("THIS") or an occurrence and every later one
+   * ("FOLLOWING"). With FOLLOWING, new start/end datetimes are applied as
+   * an offset from the edited occurrence so each keeps its own date.
+   */
+  async updateOccurrence(
+    seriesId: string,
+    eventId: string,
+    updateOccurrenceDto: UpdateSeriesOccurrenceDto,
+  ) {
+    const { scope, ...changes } = updateOccurrenceDto;
+
+    const anchor = await this.prisma.event.findFirst({
+      where: { id: eventId, seriesId },
+    });
+
+    if (!anchor) {
+      throw new NotFoundException(
+        `Event with ID "${eventId}" is not part of series "${seriesId}"`,
+      );
+    }
+
+    if (scope === 'THIS') {
+      await this.eventService.updateEvent(eventId, changes);
+      const event = await this.prisma.event.update({
+        where: { id: eventId },
+        data: { isSeriesException: true },
+      });
+
+      this.logger.log(`Series occurrence updated: ${eventId}`);
+      return { scope, events: [event] };
+    }
+
+    const targets = await this.prisma.event.findMany({
+      where: {
+        seriesId,
+        startDatetime: { gte: anchor.startDatetime },
+        OR: [{ id: anchor.id }, { status: EventStatus.UPCOMING }],
+      },
+      include: { spaces: { select: { spaceId: true } } },
+      orderBy: { startDatetime: 'asc' },
+    });
+
+    const startShift = changes.startDatetime
+      ? new Date(changes.startDatetime).getTime() -
+        anchor.startDatetime.getTime()
+      : 0;
+    const endShift = changes.endDatetime
+      ? new Date(changes.endDatetime).getTime() - anchor.endDatetime.getTime()
+      : 0;
+    const isRescheduled = startShift !== 0 || endShift !== 0;
+    const targetIds = targets.map((event) => event.id);
+
+    const plans = targets.map((event) => ({
+      event,
+      date: RecurrenceHelper.toDateKey(event.startDatetime),
+      startDatetime: new Date(event.startDatetime.getTime() + startShift),
+      endDatetime: new Date(event.endDatetime.getTime() + endShift),
+    }));
+
+    // Re-check every moved occurrence before touching any of them;
+    // the occurrences being moved don't block each other
+    if (isRescheduled || changes.venueId || changes.spaceIds !== undefined) {
+      for (let i = 1; i < plans.length; i++) {
+        if (plans[i].startDatetime < plans[i - 1].endDatetime) {
+          throw new BadRequestException(
+            `Occurrences on ${plans[i - 1].date} and ${plans[i].date} would overlap after this change`,
+          );
+        }
+      }
+
+      const conflicts: string[] = [];
+
+      for (const plan of plans) {
+        const venueChanged =
+          !!changes.venueId && changes.venueId !== plan.event.venueId;
+        const spaceIds =
+          changes.spaceIds ??
+          (venueChanged ? [] : plan.event.spaces.map((space) => space.spaceId));
+
+        const conflict = await this.findConflict(
+          changes.venueId || plan.event.venueId,
+          plan.startDatetime,
+          plan.endDatetime,
+          spaceIds,
+          targetIds,
+          changes.overrideHolds,
+        );
+
+        if (conflict) {
+          conflicts.push(`${plan.date}: ${conflict}`);
+        }
+      }
+
+      if (conflicts.length > 0) {
+        throw new ConflictException(conflicts);
+      }
+    }
+
+    // Every occurrence is checked before any is saved, then all are saved
+    // in one transaction together with the series template
+    const prepared: Awaited<ReturnType<EventService['prepareUpdate']>>[] = [];
+    for (const plan of plans) {
+      prepared.push(
+        await this.eventService.prepareUpdate(
+          plan.event.id,
+          {
+            ...changes,
+            ...(changes.startDatetime && {
+              startDatetime: plan.startDatetime.toISOString(),
+            }),
+            ...(changes.endDatetime && {
+              endDatetime: plan.endDatetime.toISOString(),
+            }),
+          },
+          targetIds,
+        ),
+      );
+    }
+
+    // Keep the series template in step with its future occurrences
+    const updated = await this.eventService.updatePreparedEvents(prepared, {
+      afterUpdate: async (tx) => {
+        if (changes.name !== undefined || changes.description !== undefined) {
+          await tx.eventSeries.update({
+            where: { id: seriesId },
+            data: {
+              ...(changes.name !== undefined && { name: changes.name }),
+              ...(changes.description !== undefined && {
+                description: changes.description,
+              }),
+            },
+          });
+        }
+      },
+    });
+
+    this.logger.log(
+      `Series ${seriesId}: ${updated.length} occurrence(s) updated from ${anchor.id}`,
+    );
+
+    return {
+      scope,
+      events: updated.sort(
+        (a, b) => a.startDatetime.getTime() - b.startDatetime.getTime(),
+      ),
+    };
+  }
+}
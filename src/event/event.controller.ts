@@ -14,14 +14,26 @@ import {
   Logger,
   HttpStatus,
   ParseUUIDPipe,
+  Session,
 } from '@nestjs/common';
 import type { Response } from 'express';
 import { EventService } from './event.service';
+import { PaymentService } from './payment.service';
+import { InvoiceService } from './invoice.service';
+import { AuditService } from '../audit/audit.service';
+import { CreatePaymentDto } from './dto/create-payment.dto';
 import { CreateEventDto } from './dto/create-event.dto';
 import { UpdateEventDto } from './dto/update-event.dto';
 import { QueryEventDto } from './dto/query-event.dto';
+import { IMPORT_FIELDS } from './event-import.helper';
+import { SUPPORTED_CURRENCIES } from '../currency/exchange-rate.helper';
 import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
 import { VenueService } from '../venue/venue.service';
+import { HoldConflictException } from '../venue/hold-conflict.exception';
+import { CalendarFeedService } from '../calendar-feed/calendar-feed.service';
+import { EventStatus, PaymentType } from '@prisma/client';
 
 @Controller('events')
 @UseGuards(AuthGuard)
@@ -31,6 +43,10 @@ export class EventController {
   constructor(
     private readonly eventService: EventService,
     private readonly venueService: VenueService,
+    private readonly paymentService: PaymentService,
+    private readonly invoiceService: InvoiceService,
+    private readonly auditService: AuditService,
+    private readonly calendarFeedService: CalendarFeedService,
   ) {}
 
   /**
@@ -76,8 +92,12 @@ export class EventController {
    * Renders: views/events/form.ejs
    */
   @Get('create')
+  @RequirePermissions(Permission.EVENT_WRITE)
   @Render('events/form')
-  async createEventForm(@Query('venueId') venueId?: string) {
+  async createEventForm(
+    @Query('venueId') venueId?: string,
+    @Query('clientId') clientId?: string,
+  ) {
     this.logger.log(
       `[GET /events/create] Rendering create event form${venueId ? ` for venue: ${venueId}` : ''}`,
     );
@@ -96,6 +116,7 @@ export class EventController {
         event: null, // null indicates create mode
         venues: venuesResult.data,
         selectedVenueId: venueId || null, // Pre-select venue if provided
+        selectedClientId: clientId || null, // Booking for a client's page
         action: '/events',
         method: 'POST',
         error: null,
@@ -112,6 +133,7 @@ export class EventController {
         event: null,
         venues: [],
         selectedVenueId: venueId || null,
+        selectedClientId: clientId || null,
         action: '/events',
         method: 'POST',
         error: 'Failed to load venues. Please try again.',
@@ -121,6 +143,7 @@ export class EventController {
   }
 
   @Get('create')
+  @RequirePermissions(Permission.EVENT_WRITE)
   @Render('events/form')
   async getCreateEventForm(@Query('venueId') selectedVenueId?: string) {
     this.logger.log('[GET /events/create] Rendering create event form');
@@ -174,6 +197,7 @@ export class EventController {
     @Query('startDatetime') startDatetime: string,
     @Query('endDatetime') endDatetime: string,
     @Query('excludeEventId') excludeEventId?: string,
+    @Query('spaceIds') spaceIds?: string | string[],
   ) {
     this.logger.log(
       `Checking availability for venue ${venueId} from ${startDatetime} to ${endDatetime}`,
@@ -188,6 +212,7 @@ export class EventController {
         start,
         end,
         excludeEventId,
+        ([] as string[]).concat(spaceIds ?? []).filter((id) => !!id),
       );
 
       return {
@@ -195,14 +220,26 @@ export class EventController {
         message: 'Venue is available on selected date',
       };
     } catch (error) {
+      // Holds can be overridden by staff, firm bookings cannot
+      if (error instanceof HoldConflictException) {
+        return {
+          available: false,
+          conflictType: 'HOLD',
+          message: error.message,
+          holds: error.holds,
+        };
+      }
+
       return {
         available: false,
+        conflictType: 'FIRM',
         message: error.message,
       };
     }
   }
   // POST /events
   @Post()
+  @RequirePermissions(Permission.EVENT_WRITE)
   async createEvent(
     @Body() createEventDto: CreateEventDto,
     @Res() res: Response,
@@ -264,6 +301,95 @@ export class EventController {
     }
   }
 
+  /**
+   * GET /events/calendar
+   * Display bookings on a month, week, day or venue timeline calendar
+   * Events are fetched per visible range from GET /api/events/calendar
+   * Renders: views/events/calendar.ejs
+   * Note: Route MUST be before /:id to avoid conflict
+   */
+  @Get('calendar')
+  @Render('events/calendar')
+  async getCalendar() {
+    this.logger.log('[GET /events/calendar] Rendering calendar page');
+
+    try {
+      const venuesResult = await this.venueService.getAllVenues({
+        page: 1,
+        limit: 100,
+        sortBy: 'name',
+        sortOrder: 'asc',
+      });
+
+      return {
+        title: 'Booking Calendar',
+        venues: venuesResult.data,
+        statuses: Object.values(EventStatus),
+        error: null,
+        success: null,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load venues for calendar: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Booking Calendar',
+        venues: [],
+        statuses: Object.values(EventStatus),
+        error: 'Failed to load venues. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  /**
+   * GET /events/import
+   * Display the import page for existing bookings from CSV or ICS files
+   * Files are previewed and imported through /api/events/import
+   * Renders: views/events/import.ejs
+   * Note: Route MUST be before /:id to avoid conflict
+   */
+  @Get('import')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  @Render('events/import')
+  async getImportPage() {
+    this.logger.log('[GET /events/import] Rendering import page');
+
+    try {
+      const venuesResult = await this.venueService.getAllVenues({
+        page: 1,
+        limit: 100,
+        sortBy: 'name',
+        sortOrder: 'asc',
+      });
+
+      return {
+        title: 'Import Bookings',
+        venues: venuesResult.data,
+        fields: Object.keys(IMPORT_FIELDS),
+        statuses: [EventStatus.UPCOMING, EventStatus.HOLD],
+        error: null,
+        success: null,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load venues for import: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Import Bookings',
+        venues: [],
+        fields: Object.keys(IMPORT_FIELDS),
+        statuses: [EventStatus.UPCOMING, EventStatus.HOLD],
+        error: 'Failed to load venues. Please try again.',
+        success: null,
+      };
+    }
+  }
+
   /**
    * GET /events/statistics/overview
    * Display event statistics page
@@ -304,22 +430,26 @@ export class EventController {
   /**
    * GET /events/financial/overview
    * Display financial statistics page
+   * Query: ?currency= reporting currency (defaults to IDR)
    * Renders: views/events/financial.ejs
    * Note: Route MUST be before /:id to avoid conflict
    */
   @Get('financial/overview')
+  @RequirePermissions(Permission.FINANCE_VIEW)
   @Render('events/financial')
-  async getFinancialStatistics() {
+  async getFinancialStatistics(@Query('currency') currency?: string) {
     this.logger.log(
       '[GET /events/financial/overview] Rendering financial statistics page',
     );
 
     try {
-      const statistics = await this.eventService.getFinancialStatistics();
+      const statistics =
+        await this.eventService.getFinancialStatistics(currency);
 
       return {
         title: 'Financial Statistics',
         statistics,
+        currencies: SUPPORTED_CURRENCIES,
         error: null,
         success: null,
       };
@@ -332,6 +462,7 @@ export class EventController {
       return {
         title: 'Financial Statistics',
         statistics: null,
+        currencies: SUPPORTED_CURRENCIES,
         error: 'Failed to load financial statistics. Please try again.',
         success: null,
       };
@@ -354,6 +485,13 @@ export class EventController {
 
     try {
       const event = await this.eventService.getEventById(id);
+      const holdQueue =
+        event.status === EventStatus.HOLD
+          ? await this.eventService.getHoldQueue(id)
+          : null;
+      const ledger = await this.paymentService.getPayments(id);
+      const invoiceStatus = await this.invoiceService.getInvoiceStatus(id);
+      const history = await this.auditService.getEntityHistory(id);
 
       // Map success query param to user-friendly message
       let success: string | null = null;
@@ -361,6 +499,16 @@ export class EventController {
         success = 'Event created successfully!';
       } else if (successMessage === 'updated') {
         success = 'Event updated successfully!';
+      } else if (successMessage === 'hold-confirmed') {
+        success = 'Hold confirmed, the booking is now firm!';
+      } else if (successMessage === 'payment-recorded') {
+        success = 'Payment recorded successfully!';
+      } else if (successMessage === 'refund-recorded') {
+        success = 'Refund recorded successfully!';
+      } else if (successMessage === 'invoice-issued') {
+        success = 'Invoice issued successfully!';
+      } else if (successMessage === 'booking-approved') {
+        success = 'Booking request approved, the event is booked!';
       }
 
       // Decode error message if present
@@ -369,6 +517,12 @@ export class EventController {
       return {
         title: `Event: ${event.name}`,
         event,
+        holdQueue,
+        payments: ledger.payments,
+        paymentSummary: ledger.summary,
+        invoice: invoiceStatus.invoice,
+        invoiceOutdated: invoiceStatus.isOutdated,
+        history,
         error,
         success,
       };
@@ -381,18 +535,57 @@ export class EventController {
       return {
         title: 'Event Not Found',
         event: null,
+        holdQueue: null,
+        payments: [],
+        paymentSummary: null,
+        invoice: null,
+        invoiceOutdated: false,
+        history: [],
         error: error.message || 'Event not found.',
         success: null,
       };
     }
   }
 
+  /**
+   * GET /events/:id/ics
+   * Download the event as an .ics file for a calendar app
+   */
+  @Get(':id/ics')
+  async downloadEventIcs(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[GET /events/${id}/ics] Downloading event as iCalendar`);
+
+    try {
+      const { filename, content } =
+        await this.calendarFeedService.renderEvent(id);
+
+      res.set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      });
+      return res.send(content);
+    } catch (error) {
+      this.logger.error(
+        `Failed to export event ${id} as iCalendar: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/events/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
   /**
    * GET /events/:id/edit
    * Display edit event form with venue dropdown
    * Renders: views/events/form.ejs
    */
   @Get(':id/edit')
+  @RequirePermissions(Permission.EVENT_WRITE)
   @Render('events/form')
   async editEventForm(@Param('id') id: string) {
     this.logger.log(`[GET /events/${id}/edit] Rendering edit event form`);
@@ -424,6 +617,9 @@ export class EventController {
         endTime: event.endDatetime
           ? new Date(event.endDatetime).toTimeString().substring(0, 5)
           : '',
+        spaceIds: event.spaces.map(
+          (eventSpace: { space: { id: string } }) => eventSpace.space.id,
+        ),
       };
 
       return {
@@ -482,6 +678,7 @@ export class EventController {
    * Redirects to: /events/:id (detail) or re-renders form with errors
    */
   @Post(':id')
+  @RequirePermissions(Permission.EVENT_WRITE)
   async updateEvent(
     @Param('id') id: string,
     @Body() updateEventDto: UpdateEventDto,
@@ -544,6 +741,7 @@ export class EventController {
    * Redirects to: /events (list) with success/error message
    */
   @Post(':id/delete')
+  @RequirePermissions(Permission.EVENT_DELETE)
   async deleteEvent(@Param('id') id: string, @Res() res: Response) {
     this.logger.log(`[POST /events/${id}/delete] Attempting to delete event`);
 
@@ -568,36 +766,97 @@ export class EventController {
   }
 
   /**
-   * POST /events/:id/toggle-payment
-   * Toggle payment status (mark as paid/unpaid)
+   * POST /events/:id/payments
+   * Record a deposit, installment or refund in the payment ledger
    * Redirects to: /events/:id (detail)
    */
-  @Post(':id/toggle-payment')
-  async togglePaymentStatus(@Param('id') id: string, @Res() res: Response) {
+  @Post(':id/payments')
+  @RequirePermissions(Permission.PAYMENT_RECORD)
+  async recordPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createPaymentDto: CreatePaymentDto,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
     this.logger.log(
-      `[POST /events/${id}/toggle-payment] Toggling payment status`,
+      `[POST /events/${id}/payments] Recording ${createPaymentDto.type}`,
     );
 
     try {
-      // Get current event
-      const event = await this.eventService.getEventById(id);
+      await this.paymentService.recordPayment(
+        id,
+        createPaymentDto,
+        session.adminId,
+      );
 
-      // Toggle payment status
-      await this.eventService.updateEvent(id, {
-        isPaid: !event.isPaid,
-      });
+      return res.redirect(
+        `/events/${id}?success=${createPaymentDto.type === PaymentType.REFUND ? 'refund-recorded' : 'payment-recorded'}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to record payment: ${error.message}`,
+        error.stack,
+      );
 
-      this.logger.log(
-        `Payment status toggled: ${event.name} (isPaid: ${!event.isPaid})`,
+      return res.redirect(
+        `/events/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  /**
+   * POST /events/:id/invoice
+   * Issue (or reissue after a price change) the event's invoice
+   * Redirects to: /events/:id (detail)
+   */
+  @Post(':id/invoice')
+  @RequirePermissions(Permission.PAYMENT_RECORD)
+  async issueInvoice(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Session() session: Record<string, any>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /events/${id}/invoice] Issuing invoice`);
+
+    try {
+      await this.invoiceService.issueInvoice(id, session.adminId);
+      return res.redirect(`/events/${id}?success=invoice-issued`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to issue invoice: ${error.message}`,
+        error.stack,
       );
 
-      // Redirect back to detail page
       return res.redirect(
-        `/events/${id}?success=${event.isPaid ? 'unpaid' : 'paid'}`,
+        `/events/${id}?error=${encodeURIComponent(error.message)}`,
       );
+    }
+  }
+
+  /**
+   * POST /events/:id/confirm-hold
+   * Turn a tentative hold into a firm booking
+   * Redirects to: /events/:id (detail)
+   */
+  @Post(':id/confirm-hold')
+  @RequirePermissions(Permission.EVENT_WRITE)
+  async confirmHold(
+    @Param('id') id: string,
+    @Body('overrideHolds') overrideHolds: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /events/${id}/confirm-hold] Confirming hold`);
+
+    try {
+      await this.eventService.confirmHold(
+        id,
+        overrideHolds === 'true' || overrideHolds === 'on',
+      );
+
+      return res.redirect(`/events/${id}?success=hold-confirmed`);
     } catch (error) {
       this.logger.error(
-        `Failed to toggle payment status: ${error.message}`,
+        `Failed to confirm hold: ${error.message}`,
         error.stack,
       );
 
@@ -1,14 +1,66 @@
 import { Module } from '@nestjs/common';
 import { EventService } from './event.service';
+import { EventLifecycleService } from './event-lifecycle.service';
+import { EventSeriesService } from './event-series.service';
+import { EventImportService } from './event-import.service';
+import { PaymentService } from './payment.service';
+import { InvoiceService } from './invoice.service';
+import { ChargeRuleService } from './charge-rule.service';
+import { PricingRuleService } from './pricing-rule.service';
+import { PromoCodeService } from './promo-code.service';
 import { EventController } from './event.controller';
 import { EventApiController } from './event-api.controller';
+import { EventSeriesApiController } from './event-series-api.controller';
+import { EventImportApiController } from './event-import-api.controller';
+import { PaymentApiController } from './payment-api.controller';
+import { InvoiceApiController } from './invoice-api.controller';
+import { ChargeRuleController } from './charge-rule.controller';
+import { ChargeRuleApiController } from './charge-rule-api.controller';
+import { PricingRuleController } from './pricing-rule.controller';
+import { PricingRuleApiController } from './pricing-rule-api.controller';
+import { PromoCodeController } from './promo-code.controller';
+import { PromoCodeApiController } from './promo-code-api.controller';
 import { VenueModule } from 'src/venue/venue.module';
+import { CurrencyModule } from 'src/currency/currency.module';
+import { AuditModule } from 'src/audit/audit.module';
 import { PrismaModule } from 'src/prisma/prisma.module';
+import { CalendarFeedModule } from 'src/calendar-feed/calendar-feed.module';
+import { ClockProvider } from 'src/common/providers/clock.provider';
 
 @Module({
-  imports: [VenueModule, PrismaModule],
-  providers: [EventService],
-  controllers: [EventController, EventApiController],
+  imports: [
+    VenueModule,
+    CurrencyModule,
+    AuditModule,
+    PrismaModule,
+    CalendarFeedModule,
+  ],
+  providers: [
+    EventService,
+    EventLifecycleService,
+    EventSeriesService,
+    EventImportService,
+    PaymentService,
+    InvoiceService,
+    ChargeRuleService,
+    PricingRuleService,
+    PromoCodeService,
+    ClockProvider,
+  ],
+  controllers: [
+    EventController,
+    ChargeRuleController,
+    PricingRuleController,
+    PromoCodeController,
+    EventSeriesApiController,
+    EventImportApiController,
+    PaymentApiController,
+    InvoiceApiController,
+    ChargeRuleApiController,
+    PricingRuleApiController,
+    PromoCodeApiController,
+    EventApiController,
+  ],
   exports: [EventService],
 })
 export class EventModule {}
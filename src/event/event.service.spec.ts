@@ -0,0 +1,324 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BlackoutType, EventStatus } from '@prisma/client';
+import { EventService } from './event.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentService } from './payment.service';
+import { ChargeRuleService } from './charge-rule.service';
+import { PricingRuleService } from './pricing-rule.service';
+import { PromoCodeService } from './promo-code.service';
+import { ExchangeRateService } from '../currency/exchange-rate.service';
+import { AuditService } from '../audit/audit.service';
+import { HoldConflictException } from '../venue/hold-conflict.exception';
+
+describe('EventService', () => {
+  const start = new Date('2026-05-01T09:00:00.000Z');
+  const end = new Date('2026-05-01T17:00:00.000Z');
+
+  let service: EventService;
+  let tx: {
+    event: { create: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  };
+  let prisma: {
+    venue: { findUnique: jest.Mock };
+    venueBlackout: { findFirst: jest.Mock };
+    event: { findMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let promoCodeService: {
+    claimRedemption: jest.Mock;
+    releaseRedemption: jest.Mock;
+  };
+  let auditService: { record: jest.Mock };
+
+  beforeEach(async () => {
+    tx = {
+      event: {
+        create: jest.fn(({ data }: { data: { name: string } }) =>
+          Promise.resolve({ id: `id-${data.name}`, name: data.name }),
+        ),
+        update: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve({ id: where.id, name: where.id }),
+        ),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    prisma = {
+      venue: { findUnique: jest.fn().mockResolvedValue(null) },
+      venueBlackout: { findFirst: jest.fn().mockResolvedValue(null) },
+      event: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+        callback(tx),
+      ),
+    };
+    promoCodeService = {
+      claimRedemption: jest.fn().mockResolvedValue(undefined),
+      releaseRedemption: jest.fn().mockResolvedValue(undefined),
+    };
+    auditService = { record: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PaymentService, useValue: {} },
+        {
+          provide: ChargeRuleService,
+          useValue: { getApplicableRules: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: PricingRuleService,
+          useValue: { getSchedule: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: ExchangeRateService,
+          useValue: { findRate: jest.fn().mockResolvedValue(null) },
+        },
+        { provide: PromoCodeService, useValue: promoCodeService },
+        { provide: AuditService, useValue: auditService },
+      ],
+    }).compile();
+
+    service = module.get<EventService>(EventService);
+  });
+
+  describe('checkVenueAvailability', () => {
+    it('rejects a slot inside a blackout before looking at bookings', async () => {
+      prisma.venueBlackout.findFirst.mockResolvedValue({
+        type: BlackoutType.MAINTENANCE,
+        reason: 'Roof repair',
+        startDatetime: start,
+        endDatetime: end,
+      });
+
+      const check = service.checkVenueAvailability('v1', start, end);
+
+      await expect(check).rejects.toThrow(ConflictException);
+      await expect(check).rejects.not.toBeInstanceOf(HoldConflictException);
+      await expect(check).rejects.toThrow(/closed for maintenance/);
+      expect(prisma.venueBlackout.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            venueId: 'v1',
+            startDatetime: { lt: end },
+            endDatetime: { gt: start },
+          },
+        }),
+      );
+      expect(prisma.event.findMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a firm booking conflict when there is no blackout', async () => {
+      prisma.event.findMany.mockResolvedValueOnce([
+        { id: 'e1', name: 'Gala', startDatetime: start, endDatetime: end },
+      ]);
+
+      await expect(
+        service.checkVenueAvailability('v1', start, end),
+      ).rejects.toThrow(/already booked for event "Gala"/);
+    });
+
+    it('reports active holds once blackouts and firm bookings are clear', async () => {
+      const hold = {
+        id: 'h1',
+        name: 'Pencilled',
+        startDatetime: start,
+        endDatetime: end,
+        holdExpiresAt: end,
+        createdAt: start,
+      };
+      prisma.event.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([hold]);
+
+      await expect(
+        service.checkVenueAvailability('v1', start, end),
+      ).rejects.toBeInstanceOf(HoldConflictException);
+    });
+  });
+
+  describe('createPreparedEvents', () => {
+    const hold = {
+      id: 'h1',
+      name: 'Pencilled',
+      startDatetime: start,
+      endDatetime: end,
+      holdExpiresAt: end,
+      createdAt: start,
+    };
+    // prepareEvent output, trimmed to what the save reads
+    const prepare = (
+      name: string,
+      displacedHolds = [hold],
+      promoCodeId?: string,
+    ) =>
+      ({
+        data: {
+          name,
+          promoRedemption: promoCodeId
+            ? { create: { promoCodeId, discountAmount: 0 } }
+            : undefined,
+        },
+        displacedHolds,
+        durationHours: 8,
+      }) as unknown as Awaited<ReturnType<EventService['prepareEvent']>>;
+
+    it('releases displaced holds and audits only after the commit', async () => {
+      const order: string[] = [];
+      tx.event.create.mockImplementation(
+        ({ data }: { data: { name: string } }) => {
+          order.push(`create ${data.name}`);
+          return Promise.resolve({ id: `id-${data.name}`, name: data.name });
+        },
+      );
+      tx.event.updateMany.mockImplementation(() => {
+        order.push('release');
+        return Promise.resolve({ count: 1 });
+      });
+
+      const events = await service.createPreparedEvents([
+        prepare('First'),
+        prepare('Second', []),
+      ]);
+
+      expect(events.map((event) => event.id)).toEqual([
+        'id-First',
+        'id-Second',
+      ]);
+      expect(order).toEqual(['create First', 'create Second', 'release']);
+      expect(promoCodeService.releaseRedemption).toHaveBeenCalledWith(tx, 'h1');
+      expect(tx.event.updateMany).toHaveBeenCalledWith({
+        where: { id: 'h1', status: EventStatus.HOLD },
+        data: { status: EventStatus.CANCELLED, icsSequence: { increment: 1 } },
+      });
+    });
+
+    it('releases nothing and audits nothing when the transaction fails', async () => {
+      tx.event.create
+        .mockResolvedValueOnce({ id: 'id-First', name: 'First' })
+        .mockRejectedValueOnce(new Error('insert failed'));
+
+      await expect(
+        service.createPreparedEvents([prepare('First'), prepare('Second')]),
+      ).rejects.toThrow('insert failed');
+
+      expect(tx.event.updateMany).not.toHaveBeenCalled();
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+
+    it('runs the beforeCreate step inside the transaction first', async () => {
+      const beforeCreate = jest.fn((client: unknown) => {
+        expect(client).toBe(tx);
+        expect(tx.event.create).not.toHaveBeenCalled();
+        return Promise.resolve();
+      });
+
+      await service.createPreparedEvents([prepare('First', [])], {
+        beforeCreate,
+      });
+
+      expect(beforeCreate).toHaveBeenCalledTimes(1);
+    });
+
+    it('counts every booking against its promo code before saving it', async () => {
+      await service.createPreparedEvents([
+        prepare('First', [], 'p1'),
+        prepare('Second', [], 'p1'),
+        prepare('Third', []),
+      ]);
+
+      expect(promoCodeService.claimRedemption).toHaveBeenCalledTimes(2);
+      expect(promoCodeService.claimRedemption).toHaveBeenCalledWith(tx, 'p1');
+    });
+
+    it('saves nothing once a promo code reaches its usage limit', async () => {
+      promoCodeService.claimRedemption
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(
+          new BadRequestException(
+            'Promo code SPRING has reached its usage limit',
+          ),
+        );
+
+      await expect(
+        service.createPreparedEvents([
+          prepare('First', [], 'p1'),
+          prepare('Second', [], 'p1'),
+        ]),
+      ).rejects.toThrow(/usage limit/);
+
+      expect(tx.event.create).toHaveBeenCalledTimes(1);
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prepareEvent', () => {
+    it('reports a venue without rates as a bad request', async () => {
+      prisma.venue.findUnique.mockResolvedValue({
+        id: 'v1',
+        name: 'Garden',
+        status: 'ACTIVE',
+        capacity: 100,
+        pricePerHour: null,
+        pricePerDay: null,
+        currency: 'IDR',
+      });
+
+      const prepare = service.prepareEvent({
+        name: 'Garden party',
+        venueId: 'v1',
+        startDatetime: '2027-05-01T09:00:00.000Z',
+        endDatetime: '2027-05-01T17:00:00.000Z',
+      });
+
+      await expect(prepare).rejects.toThrow(BadRequestException);
+      await expect(prepare).rejects.toThrow(/price not set for this venue/);
+    });
+  });
+
+  describe('updatePreparedEvents', () => {
+    // prepareUpdate output, trimmed to what the save reads
+    const prepareUpdate = (id: string) =>
+      ({
+        id,
+        existingEvent: { status: EventStatus.UPCOMING },
+        data: { name: 'Renamed' },
+        status: EventStatus.UPCOMING,
+        redemption: null,
+        isConfirmingHold: false,
+        displacedHolds: [],
+        refreshPayment: false,
+      }) as unknown as Parameters<EventService['updatePreparedEvents']>[0][0];
+
+    it('saves every change and the afterUpdate step in one transaction', async () => {
+      const afterUpdate = jest.fn().mockResolvedValue(undefined);
+
+      await service.updatePreparedEvents(
+        [prepareUpdate('e1'), prepareUpdate('e2')],
+        { afterUpdate },
+      );
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(tx.event.update).toHaveBeenCalledTimes(2);
+      expect(afterUpdate).toHaveBeenCalledWith(tx);
+      expect(auditService.record).toHaveBeenCalledTimes(2);
+    });
+
+    it('audits nothing when one of the changes fails', async () => {
+      tx.event.update
+        .mockResolvedValueOnce({ id: 'e1', name: 'Renamed' })
+        .mockRejectedValueOnce(new Error('Record to update not found'));
+
+      await expect(
+        service.updatePreparedEvents([
+          prepareUpdate('e1'),
+          prepareUpdate('e2'),
+        ]),
+      ).rejects.toThrow('Record to update not found');
+
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+});
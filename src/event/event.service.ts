@@ -5,14 +5,82 @@ import {
   BadRequestException,
   Logger,
   ConflictException,
+  HttpException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateEventDto } from './dto/create-event.dto';
 import { UpdateEventDto } from './dto/update-event.dto';
 import { QueryEventDto } from './dto/query-event.dto';
-import { Prisma, Event } from '@prisma/client';
-import { EventStatus } from '@prisma/client';
-import { PricingHelper } from './pricing.helper';
+import { PricePreviewDto } from './dto/price-preview.dto';
+import { CalendarQueryDto } from './dto/calendar-query.dto';
+import { Prisma, Event, Space, RentalType } from '@prisma/client';
+import { EventStatus, PaymentType } from '@prisma/client';
+import { AuditAction, AuditEntityType } from '@prisma/client';
+import { PriceBreakdown, PricingHelper } from './pricing.helper';
+import { PaymentService } from './payment.service';
+import { ChargeRuleService } from './charge-rule.service';
+import { PricingRuleService } from './pricing-rule.service';
+import { PromoCodeService } from './promo-code.service';
+import { PromoCodeHelper, PromoCodeInput } from './promo-code.helper';
+import { ExchangeRateService } from '../currency/exchange-rate.service';
+import { AuditService } from '../audit/audit.service';
+import {
+  DEFAULT_REPORTING_CURRENCY,
+  ExchangeRateHelper,
+  ExchangeRateInput,
+} from '../currency/exchange-rate.helper';
+import { PaymentHelper, PaymentStatus } from './payment.helper';
+import { BookingConflictHelper } from '../venue/booking-conflict.helper';
+import {
+  HeldSlot,
+  HoldConflictException,
+} from '../venue/hold-conflict.exception';
+
+// Default lifetime of a tentative hold
+const DEFAULT_HOLD_HOURS = 48;
+
+// Longest range the calendar may ask for (a month view spans six weeks)
+const MAX_CALENDAR_RANGE_DAYS = 92;
+
+// Space fields returned alongside events
+const EVENT_SPACES_INCLUDE = {
+  select: {
+    space: {
+      select: { id: true, name: true, type: true, capacity: true },
+    },
+  },
+} satisfies Prisma.Event$spacesArgs;
+
+// Returned by createEvent
+const EVENT_CREATED_INCLUDE = {
+  venue: {
+    select: {
+      id: true,
+      name: true,
+      city: true,
+      address: true,
+      pricePerHour: true,
+      pricePerDay: true,
+      currency: true,
+    },
+  },
+  spaces: EVENT_SPACES_INCLUDE,
+} satisfies Prisma.EventInclude;
+
+// Returned by updateEvent
+const EVENT_UPDATED_INCLUDE = {
+  venue: {
+    select: {
+      id: true,
+      name: true,
+      city: true,
+      address: true,
+      capacity: true,
+      status: true,
+    },
+  },
+  spaces: EVENT_SPACES_INCLUDE,
+} satisfies Prisma.EventInclude;
 
 @Injectable()
 export class EventService {
@@ -34,15 +102,31 @@ export class EventService {
 
   /**
    * 🆕 VALIDASI: Cek kapasitas venue vs jumlah peserta
+   * When specific spaces are booked, their combined capacity applies
    */
   private async validateVenueCapacity(
     venueId: string,
     attendeeCount: number,
+    spaces: Pick<Space, 'capacity'>[] = [],
   ): Promise<void> {
     if (!attendeeCount || attendeeCount <= 0) {
       return; // Skip validation if no attendee count provided
     }
 
+    if (spaces.length > 0) {
+      const spaceCapacity = spaces.reduce(
+        (total, space) => total + space.capacity,
+        0,
+      );
+
+      if (Number(attendeeCount) > spaceCapacity) {
+        throw new BadRequestException(
+          `Attendee count (${attendeeCount}) cannot exceed the combined capacity of the selected spaces (${spaceCapacity}).`,
+        );
+      }
+      return;
+    }
+
     const venue = await this.prisma.venue.findUnique({
       where: { id: venueId },
       select: { capacity: true, name: true },
@@ -76,6 +160,214 @@ export class EventService {
     }
   }
 
+  private async validateClientExists(clientId: string): Promise<void> {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+      select: { id: true },
+    });
+
+    if (!client) {
+      throw new NotFoundException(`Client with ID "${clientId}" not found`);
+    }
+  }
+
+  /**
+   * Load the requested spaces and make sure they are bookable in this venue
+   * @returns Empty array when the whole venue is booked
+   */
+  private async resolveSpaces(
+    venueId: string,
+    spaceIds?: string[],
+  ): Promise<Space[]> {
+    if (!spaceIds || spaceIds.length === 0) {
+      return [];
+    }
+
+    const uniqueIds = [...new Set(spaceIds)];
+
+    const spaces = await this.prisma.space.findMany({
+      where: { id: { in: uniqueIds }, venueId },
+    });
+
+    if (spaces.length !== uniqueIds.length) {
+      throw new BadRequestException(
+        'One or more selected spaces do not belong to the selected venue',
+      );
+    }
+
+    const inactiveSpace = spaces.find((space) => !space.isActive);
+    if (inactiveSpace) {
+      throw new BadRequestException(
+        `Space "${inactiveSpace.name}" is currently not available for booking`,
+      );
+    }
+
+    return spaces;
+  }
+
+  /**
+   * Rates used for pricing: combined space rates when spaces are booked,
+   * falling back to the venue rates if the spaces define no prices at all
+   */
+  private resolveRates(
+    venue: {
+      pricePerHour: Prisma.Decimal | null;
+      pricePerDay: Prisma.Decimal | null;
+    },
+    spaces: Space[],
+  ) {
+    if (spaces.length > 0) {
+      const combined = PricingHelper.combineSpaceRates(spaces);
+      if (combined.pricePerHour || combined.pricePerDay) {
+        return combined;
+      }
+    }
+
+    return { pricePerHour: venue.pricePerHour, pricePerDay: venue.pricePerDay };
+  }
+
+  private resolveReportingCurrency(currency?: string): string {
+    const code = (currency || DEFAULT_REPORTING_CURRENCY).trim().toUpperCase();
+
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new BadRequestException(
+        'Currency must be a 3-letter ISO 4217 code',
+      );
+    }
+
+    return code;
+  }
+
+  /**
+   * Rate converting an event's amounts into the reporting currency: the one
+   * recorded when it was priced, otherwise the table rate on its start date
+   */
+  private reportingRate(
+    event: {
+      currency: string;
+      reportingCurrency: string | null;
+      exchangeRate: Prisma.Decimal | null;
+      startDatetime: Date;
+    },
+    reportingCurrency: string,
+    rates: ExchangeRateInput[],
+  ): number | null {
+    if (
+      event.reportingCurrency === reportingCurrency &&
+      event.exchangeRate !== null
+    ) {
+      return Number(event.exchangeRate);
+    }
+
+    return ExchangeRateHelper.findRate(
+      rates,
+      event.currency,
+      reportingCurrency,
+      event.startDatetime,
+    );
+  }
+
+  /**
+   * Price a booking: every hour (or day) at the seasonal/time-of-day rate
+   * in force, then discount, promo code, fees and the taxes and charges for
+   * the venue. Also looks up the rate into the reporting currency to record
+   * with it.
+   * @param rentalType - Cheapest rental type for the normal rates if omitted
+   * @param promo - Must apply to the booking (venue, currency, minimum spend)
+   */
+  private async priceBooking(booking: {
+    venueId: string;
+    currency: string;
+    rates: {
+      pricePerHour: Prisma.Decimal | null;
+      pricePerDay: Prisma.Decimal | null;
+    };
+    startDatetime: Date;
+    endDatetime: Date;
+    rentalType?: RentalType;
+    discount: number;
+    additionalFees: number;
+    promo?: PromoCodeInput | null;
+  }): Promise<{
+    rentalType: RentalType;
+    priceBreakdown: PriceBreakdown;
+    exchangeRate: number | null;
+  }> {
+    const { rates, startDatetime, endDatetime } = booking;
+
+    const durationHours = PricingHelper.calculateDuration(
+      startDatetime,
+      endDatetime,
+    );
+
+    const rentalType =
+      booking.rentalType ??
+      PricingHelper.getOptimalRentalType(
+        rates.pricePerHour,
+        rates.pricePerDay,
+        durationHours,
+      );
+
+    const [schedule, chargeRules, exchangeRate] = await Promise.all([
+      this.pricingRuleService.getSchedule(
+        booking.venueId,
+        startDatetime,
+        endDatetime,
+      ),
+      this.chargeRuleService.getApplicableRules(booking.venueId, startDatetime),
+      this.exchangeRateService.findRate(
+        booking.currency,
+        DEFAULT_REPORTING_CURRENCY,
+        startDatetime,
+      ),
+    ]);
+
+    if (exchangeRate === null) {
+      this.logger.warn(
+        `No ${booking.currency}/${DEFAULT_REPORTING_CURRENCY} exchange rate recorded; price stored without one`,
+      );
+    }
+
+    const basePrice = PricingHelper.calculateBasePrice(
+      rentalType,
+      rates.pricePerHour,
+      rates.pricePerDay,
+      durationHours,
+      schedule,
+    );
+    const baseItems = PricingHelper.calculateBaseItems(
+      rentalType,
+      rates.pricePerHour,
+      rates.pricePerDay,
+      durationHours,
+      schedule,
+    );
+
+    if (booking.promo) {
+      const reason = PromoCodeHelper.checkApplies(booking.promo, {
+        venueId: booking.venueId,
+        currency: booking.currency,
+        subtotal: basePrice,
+      });
+
+      if (reason) {
+        throw new BadRequestException(reason);
+      }
+    }
+
+    const priceBreakdown = PricingHelper.calculatePriceBreakdown(
+      basePrice,
+      booking.discount,
+      booking.additionalFees,
+      chargeRules,
+      baseItems,
+      booking.promo,
+      booking.currency,
+    );
+
+    return { rentalType, priceBreakdown, exchangeRate };
+  }
+
   private validateDateTimeRange(startDatetime: Date, endDatetime: Date): void {
     if (startDatetime >= endDatetime) {
       throw new BadRequestException(
@@ -98,6 +390,151 @@ export class EventService {
     }
   }
 
+  /**
+   * Expiry for a HOLD booking: the requested time, or DEFAULT_HOLD_HOURS
+   * from now, never later than the event start
+   */
+  private resolveHoldExpiry(
+    startDatetime: Date,
+    requestedExpiry?: string,
+  ): Date {
+    const now = new Date();
+
+    if (requestedExpiry) {
+      const expiry = new Date(requestedExpiry);
+
+      if (expiry <= now) {
+        throw new BadRequestException('Hold expiry must be in the future');
+      }
+
+      if (expiry > startDatetime) {
+        throw new BadRequestException(
+          'Hold expiry cannot be later than the event start',
+        );
+      }
+
+      return expiry;
+    }
+
+    const defaultExpiry = new Date(
+      now.getTime() + DEFAULT_HOLD_HOURS * 60 * 60 * 1000,
+    );
+    return defaultExpiry < startDatetime ? defaultExpiry : startDatetime;
+  }
+
+  private describeHolds(holds: HeldSlot[], spaceIds: string[]): string {
+    const [first] = holds;
+    const target = spaceIds.length > 0 ? 'The selected space is' : 'Venue is';
+    const queued =
+      holds.length > 1 ? ` ${holds.length - 1} more hold(s) are queued.` : '';
+
+    return `${target} on hold for "${first.name}" until ${first.holdExpiresAt?.toLocaleString()}.${queued} Override the hold to book anyway.`;
+  }
+
+  /**
+   * Availability check for a booking with the given status
+   * A HOLD may queue behind other holds. A firm booking is blocked by the
+   * holds queued ahead of it unless staff override them.
+   * @param heldSince - Creation time of the hold being confirmed, if any;
+   *   holds queued behind it don't block the confirmation
+   * @returns Holds to release once the firm booking is saved
+   */
+  private async checkSlotForStatus(
+    venueId: string,
+    startDatetime: Date,
+    endDatetime: Date,
+    spaceIds: string[],
+    status: EventStatus,
+    options: {
+      excludeEventId?: string | string[];
+      overrideHolds?: boolean;
+      heldSince?: Date;
+    } = {},
+  ): Promise<HeldSlot[]> {
+    const holds = await this.checkVenueAvailability(
+      venueId,
+      startDatetime,
+      endDatetime,
+      options.excludeEventId,
+      spaceIds,
+      { allowHolds: true },
+    );
+
+    if (status === EventStatus.HOLD) {
+      return [];
+    }
+
+    const heldSince = options.heldSince;
+    const aheadInQueue = heldSince
+      ? holds.filter((hold) => hold.createdAt < heldSince)
+      : holds;
+
+    if (aheadInQueue.length > 0 && !options.overrideHolds) {
+      throw new HoldConflictException(
+        this.describeHolds(aheadInQueue, spaceIds),
+        aheadInQueue,
+      );
+    }
+
+    return holds;
+  }
+
+  /**
+   * Release holds displaced by a firm booking
+   */
+  private async releaseHolds(holds: HeldSlot[], bookedEventId: string) {
+    if (holds.length === 0) {
+      return;
+    }
+
+    // One at a time, so each released hold gives back its promo code use
+    const count = await this.prisma.$transaction(async (tx) => {
+      let released = 0;
+
+      for (const hold of holds) {
+        const result = await tx.event.updateMany({
+          where: { id: hold.id, status: EventStatus.HOLD },
+          data: {
+            status: EventStatus.CANCELLED,
+            icsSequence: { increment: 1 },
+          },
+        });
+
+        if (result.count > 0) {
+          await this.promoCodeService.releaseRedemption(tx, hold.id);
+          released++;
+        }
+      }
+
+      return released;
+    });
+
+    this.logger.log(
+      `Released ${count} hold(s) displaced by event ${bookedEventId}`,
+    );
+
+    for (const hold of holds) {
+      await this.auditService.record({
+        action: AuditAction.CANCEL,
+        entityType: AuditEntityType.EVENT,
+        entityId: hold.id,
+        entityLabel: hold.name,
+        before: { status: EventStatus.HOLD },
+        after: { status: EventStatus.CANCELLED },
+      });
+    }
+  }
+
+  // Event as recorded in the audit log, with its spaces by name
+  private toAuditRecord(
+    event: Event & { spaces?: { space: { name: string } }[] },
+  ) {
+    return {
+      ...event,
+      spaces: event.spaces?.map(({ space }) => space.name).join(', ') || null,
+    };
+  }
+
   private toNumber(value: any): number {
     if (value === null || value === undefined) {
       return 0;
@@ -117,11 +554,27 @@ export class EventService {
     return isNaN(num) ? 0 : num;
   }
 
-  constructor(private readonly prisma: PrismaService) { }
-
-  async createEvent(createEventDto: CreateEventDto): Promise<Event> {
-    this.logger.log(`Creating new event: ${createEventDto.name}`);
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paymentService: PaymentService,
+    private readonly chargeRuleService: ChargeRuleService,
+    private readonly pricingRuleService: PricingRuleService,
+    private readonly exchangeRateService: ExchangeRateService,
+    private readonly promoCodeService: PromoCodeService,
+    private readonly auditService: AuditService,
+  ) {}
 
+  /**
+   * Validate and price a new booking without saving it
+   * Runs every check of createEvent; the importer saves a batch of these in
+   * one transaction.
+   * @param series - Set when the event is an occurrence of an EventSeries
+   * @returns What to save, and holds the booking displaces
+   */
+  async prepareEvent(
+    createEventDto: CreateEventDto,
+    series?: { seriesId: string; occurrenceIndex: number },
+  ) {
     // Validate datetime range
     const startDatetime = new Date(createEventDto.startDatetime!);
     const endDatetime = new Date(createEventDto.endDatetime!);
@@ -135,11 +588,31 @@ export class EventService {
     // 🆕 VALIDASI 3: Venue harus aktif
     await this.validateVenueActive(createEventDto.venueId);
 
-    // VALIDASI 4: Venue available (no double booking)
-    await this.checkVenueAvailability(
+    if (createEventDto.clientId) {
+      await this.validateClientExists(createEventDto.clientId);
+    }
+
+    // Spaces inside the venue (empty = whole venue)
+    const spaces = await this.resolveSpaces(
+      createEventDto.venueId,
+      createEventDto.spaceIds,
+    );
+    const spaceIds = spaces.map((space) => space.id);
+
+    const status = createEventDto.status || EventStatus.UPCOMING;
+    const holdExpiresAt =
+      status === EventStatus.HOLD
+        ? this.resolveHoldExpiry(startDatetime, createEventDto.holdExpiresAt)
+        : null;
+
+    // VALIDASI 4: Venue/spaces available (no double booking)
+    const displacedHolds = await this.checkSlotForStatus(
       createEventDto.venueId,
       startDatetime,
       endDatetime,
+      spaceIds,
+      status,
+      { overrideHolds: createEventDto.overrideHolds },
     );
 
     // 🆕 VALIDASI 5: Capacity check
@@ -147,6 +620,7 @@ export class EventService {
       await this.validateVenueCapacity(
         createEventDto.venueId,
         createEventDto.attendeeCount,
+        spaces,
       );
     }
 
@@ -166,68 +640,92 @@ export class EventService {
       endDatetime,
     );
 
-    let rentalType = createEventDto.rentalType;
-    if (!rentalType) {
-      rentalType = PricingHelper.getOptimalRentalType(
-        venueExists.pricePerHour,
-        venueExists.pricePerDay,
-        durationHours,
-      );
-    }
+    // VALIDASI 6: Promo code redeemable and valid for this booking
+    const promo = createEventDto.promoCode
+      ? await this.promoCodeService.getRedeemable(createEventDto.promoCode)
+      : null;
 
-    const basePrice = PricingHelper.calculateBasePrice(
+    const { rentalType, priceBreakdown, exchangeRate } =
+      await this.priceBooking({
+        venueId: createEventDto.venueId,
+        currency: venueExists.currency,
+        rates: this.resolveRates(venueExists, spaces),
+        startDatetime,
+        endDatetime,
+        rentalType: createEventDto.rentalType,
+        discount: createEventDto.discount || 0,
+        additionalFees: createEventDto.additionalFees || 0,
+        promo,
+      }).catch((error: Error) => {
+        // Missing venue rates, promo code not applicable
+        throw new BadRequestException(error.message);
+      });
+    const basePrice = priceBreakdown.basePrice;
+    const finalPrice = priceBreakdown.finalPrice;
+
+    const data = {
+      name: createEventDto.name,
+      description: createEventDto.description || null,
+      startDatetime: startDatetime,
+      endDatetime: endDatetime,
+      status,
+      holdExpiresAt,
+      venueId: createEventDto.venueId,
+      clientId: createEventDto.clientId || null,
+      attendeeCount: createEventDto.attendeeCount,
       rentalType,
-      venueExists.pricePerHour,
-      venueExists.pricePerDay,
-      durationHours,
-    );
+      basePrice: new Prisma.Decimal(basePrice),
+      finalPrice: new Prisma.Decimal(finalPrice),
+      priceBreakdown: priceBreakdown as unknown as Prisma.InputJsonValue,
+      currency: venueExists.currency,
+      reportingCurrency: exchangeRate ? DEFAULT_REPORTING_CURRENCY : null,
+      exchangeRate:
+        exchangeRate !== null ? new Prisma.Decimal(exchangeRate) : null,
+      discount: new Prisma.Decimal(createEventDto.discount || 0),
+      additionalFees: new Prisma.Decimal(createEventDto.additionalFees || 0),
+      seriesId: series?.seriesId,
+      occurrenceIndex: series?.occurrenceIndex,
+      spaces: {
+        create: spaceIds.map((spaceId) => ({ spaceId })),
+      },
+      promoRedemption: promo
+        ? {
+            create: {
+              promoCodeId: promo.id,
+              discountAmount: new Prisma.Decimal(priceBreakdown.promoDiscount),
+            },
+          }
+        : undefined,
+    } satisfies Prisma.EventUncheckedCreateInput;
 
-    const finalPrice = PricingHelper.calculateFinalPrice(
-      basePrice,
-      createEventDto.discount || 0,
-      createEventDto.additionalFees || 0,
-    );
+    return { data, displacedHolds, durationHours };
+  }
+
+  /**
+   * @param series - Set when the event is an occurrence of an EventSeries
+   */
+  async createEvent(
+    createEventDto: CreateEventDto,
+    series?: { seriesId: string; occurrenceIndex: number },
+  ): Promise<Event> {
+    this.logger.log(`Creating new event: ${createEventDto.name}`);
+
+    const prepared = await this.prepareEvent(createEventDto, series);
 
     try {
-      const event = await this.prisma.event.create({
-        data: {
-          name: createEventDto.name,
-          description: createEventDto.description || null,
-          startDatetime: startDatetime,
-          endDatetime: endDatetime,
-          status: createEventDto.status || EventStatus.UPCOMING,
-          venueId: createEventDto.venueId,
-          attendeeCount: createEventDto.attendeeCount,
-          rentalType,
-          basePrice: new Prisma.Decimal(basePrice),
-          finalPrice: new Prisma.Decimal(finalPrice),
-          discount: new Prisma.Decimal(createEventDto.discount || 0),
-          additionalFees: new Prisma.Decimal(
-            createEventDto.additionalFees || 0,
-          ),
-          isPaid: createEventDto.isPaid || false,
-        },
-        include: {
-          venue: {
-            select: {
-              id: true,
-              name: true,
-              city: true,
-              address: true,
-              pricePerHour: true,
-              pricePerDay: true,
-              currency: true,
-            },
-          },
-        },
-      });
+      const [event] = await this.createPreparedEvents([prepared]);
 
       this.logger.log(`Event created successfully: ${event.id}`);
       this.logger.log(
-        `Event created: ${event.name} | Duration: ${durationHours}h | Price: ${PricingHelper.formatCurrency(finalPrice)}`,
+        `Event created: ${event.name} | Duration: ${prepared.durationHours}h | Price: ${PricingHelper.formatCurrency(Number(event.finalPrice), event.currency)}`,
       );
       return event;
     } catch (error) {
+      // e.g. the promo code reached its usage limit meanwhile
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
       this.logger.error(
         `Failed to create event: ${error.message}`,
         error.stack,
@@ -238,23 +736,150 @@ export class EventService {
     }
   }
 
-  async getAllEvents(queryDto: QueryEventDto) {
+  /**
+   * Save prepared bookings in one transaction; if one fails, none are saved
+   * Promo codes are counted against their usage limit in the same
+   * transaction. Displaced holds are released and audit entries written only once the
+   * transaction has committed.
+   * @param hooks.beforeCreate - Runs first inside the transaction, e.g. to
+   *   insert the series the bookings belong to
+   * @param hooks.afterCreate - Runs last inside the transaction, e.g. to
+   *   link the new events to the record they were booked from
+   */
+  async createPreparedEvents(
+    prepared: Awaited<ReturnType<EventService['prepareEvent']>>[],
+    hooks: {
+      beforeCreate?: (tx: Prisma.TransactionClient) => Promise<unknown>;
+      afterCreate?: (
+        tx: Prisma.TransactionClient,
+        events: Event[],
+      ) => Promise<unknown>;
+    } = {},
+  ): Promise<Event[]> {
+    this.logger.log(`Creating ${prepared.length} prepared event(s)`);
+
+    const events = await this.prisma.$transaction(
+      async (tx) => {
+        if (hooks.beforeCreate) {
+          await hooks.beforeCreate(tx);
+        }
+
+        const created: Prisma.EventGetPayload<{
+          include: typeof EVENT_CREATED_INCLUDE;
+        }>[] = [];
+        for (const { data } of prepared) {
+          if (data.promoRedemption && data.status !== EventStatus.CANCELLED) {
+            await this.promoCodeService.claimRedemption(
+              tx,
+              data.promoRedemption.create.promoCodeId,
+            );
+          }
+
+          created.push(
+            await tx.event.create({ data, include: EVENT_CREATED_INCLUDE }),
+          );
+        }
+
+        if (hooks.afterCreate) {
+          await hooks.afterCreate(tx, created);
+        }
+
+        return created;
+      },
+      // Imports save up to a few hundred bookings
+      { timeout: 30000 },
+    );
+
+    for (const [index, event] of events.entries()) {
+      await this.releaseHolds(prepared[index].displacedHolds, event.id);
+    }
+
+    for (const event of events) {
+      await this.auditService.record({
+        action: AuditAction.CREATE,
+        entityType: AuditEntityType.EVENT,
+        entityId: event.id,
+        entityLabel: event.name,
+        after: this.toAuditRecord(event),
+      });
+    }
+
+    this.logger.log(`${events.length} event(s) created in one transaction`);
+    return events;
+  }
+
+  /**
+   * Price a booking exactly as createEvent would, without saving it
+   */
+  async previewPrice(pricePreviewDto: PricePreviewDto) {
+    const startDatetime = new Date(pricePreviewDto.startDatetime);
+    const endDatetime = new Date(pricePreviewDto.endDatetime);
+
+    this.validateDateTimeRange(startDatetime, endDatetime);
+
+    const venue = await this.prisma.venue.findUnique({
+      where: { id: pricePreviewDto.venueId },
+    });
+
+    if (!venue) {
+      throw new NotFoundException(
+        `Venue with ID "${pricePreviewDto.venueId}" not found`,
+      );
+    }
+
+    const spaces = await this.resolveSpaces(
+      pricePreviewDto.venueId,
+      pricePreviewDto.spaceIds,
+    );
+
+    const promo = pricePreviewDto.promoCode
+      ? await this.promoCodeService.getRedeemable(pricePreviewDto.promoCode)
+      : null;
+
+    try {
+      const { rentalType, priceBreakdown } = await this.priceBooking({
+        venueId: venue.id,
+        currency: venue.currency,
+        rates: this.resolveRates(venue, spaces),
+        startDatetime,
+        endDatetime,
+        rentalType: pricePreviewDto.rentalType,
+        discount: pricePreviewDto.discount || 0,
+        additionalFees: pricePreviewDto.additionalFees || 0,
+        promo,
+      });
+
+      return {
+        rentalType,
+        currency: venue.currency,
+        durationHours: PricingHelper.calculateDuration(
+          startDatetime,
+          endDatetime,
+        ),
+        ...priceBreakdown,
+      };
+    } catch (error) {
+      // Missing venue rates, promo code not applicable
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  /**
+   * Where clause and order of the event list for the given filters
+   * Shared by the paginated list and the unpaginated export
+   */
+  buildEventListQuery(queryDto: QueryEventDto) {
     const {
       search,
       venueId,
+      clientId,
       status,
       startDate,
       endDate,
-      page = 1,
-      limit = 10,
       sortBy = 'startDatetime',
       sortOrder = 'asc',
     } = queryDto;
 
-    this.logger.log(
-      `Fetching events - Page: ${page}, Limit: ${limit}, Search: ${search || 'none'}`,
-    );
-
     const where: Prisma.EventWhereInput = {};
 
     if (search) {
@@ -265,6 +890,10 @@ export class EventService {
       where.venueId = venueId;
     }
 
+    if (clientId) {
+      where.clientId = clientId;
+    }
+
     if (status) {
       where.status = status;
     }
@@ -289,13 +918,25 @@ export class EventService {
       }
     }
 
-    const skip = (page - 1) * limit;
-    const take = limit;
-
     const orderBy: Prisma.EventOrderByWithRelationInput = {
       [sortBy]: sortOrder,
     };
 
+    return { where, orderBy };
+  }
+
+  async getAllEvents(queryDto: QueryEventDto) {
+    const { search, page = 1, limit = 10 } = queryDto;
+
+    this.logger.log(
+      `Fetching events - Page: ${page}, Limit: ${limit}, Search: ${search || 'none'}`,
+    );
+
+    const { where, orderBy } = this.buildEventListQuery(queryDto);
+
+    const skip = (page - 1) * limit;
+    const take = limit;
+
     try {
       const [events, total] = await Promise.all([
         this.prisma.event.findMany({
@@ -314,6 +955,8 @@ export class EventService {
                 status: true,
               },
             },
+            spaces: EVENT_SPACES_INCLUDE,
+            client: { select: { id: true, name: true } },
           },
         }),
         this.prisma.event.count({ where }),
@@ -343,7 +986,9 @@ export class EventService {
     }
   }
 
-  async getEventById(id: string): Promise<Event & { venue: any }> {
+  async getEventById(
+    id: string,
+  ): Promise<Event & { venue: any; spaces: any[] }> {
     this.logger.log(`Fetching event: ${id}`);
 
     if (!this.isValidUUID(id)) {
@@ -368,6 +1013,33 @@ export class EventService {
               status: true,
             },
           },
+          spaces: EVENT_SPACES_INCLUDE,
+          client: {
+            select: {
+              id: true,
+              type: true,
+              name: true,
+              contactName: true,
+              email: true,
+              phone: true,
+            },
+          },
+          series: {
+            select: {
+              id: true,
+              name: true,
+              frequency: true,
+              interval: true,
+              _count: { select: { events: true } },
+            },
+          },
+          promoRedemption: {
+            select: {
+              discountAmount: true,
+              redeemedAt: true,
+              promoCode: { select: { id: true, code: true } },
+            },
+          },
         },
       });
 
@@ -387,12 +1059,19 @@ export class EventService {
     }
   }
 
-  async updateEvent(
+  /**
+   * Validate and price changes to a booking without saving them
+   * Runs every check of updateEvent; a series saves a batch of these in one
+   * transaction.
+   * @param excludeEventIds - Other events changed in the same batch, which
+   *   don't block this one
+   * @returns What to save, and what to follow up with once it is saved
+   */
+  async prepareUpdate(
     id: string,
     updateEventDto: UpdateEventDto,
-  ): Promise<Event> {
-    this.logger.log(`Updating event: ${id}`);
-
+    excludeEventIds: string[] = [],
+  ) {
     // Validate UUID format
     if (!this.isValidUUID(id)) {
       throw new BadRequestException('Invalid event ID format');
@@ -410,6 +1089,19 @@ export class EventService {
             status: true,
             pricePerHour: true,
             pricePerDay: true,
+            currency: true,
+          },
+        },
+        spaces: { include: { space: true } },
+        promoRedemption: {
+          include: {
+            promoCode: {
+              include: {
+                venues: {
+                  select: { venue: { select: { id: true, name: true } } },
+                },
+              },
+            },
           },
         },
       },
@@ -432,6 +1124,20 @@ export class EventService {
         ? updateEventDto.attendeeCount
         : existingEvent.attendeeCount;
 
+    const venueChanged =
+      !!updateEventDto.venueId &&
+      updateEventDto.venueId !== existingEvent.venueId;
+
+    // Space selection: explicit list, otherwise cleared when moving venues
+    const spacesChanged = updateEventDto.spaceIds !== undefined || venueChanged;
+    const spaces =
+      updateEventDto.spaceIds !== undefined
+        ? await this.resolveSpaces(venueId, updateEventDto.spaceIds)
+        : venueChanged
+          ? []
+          : existingEvent.spaces.map((eventSpace) => eventSpace.space);
+    const spaceIds = spaces.map((space) => space.id);
+
     // VALIDASI 1: Tanggal tidak boleh masa lalu (jika diubah)
     if (updateEventDto.startDatetime) {
       this.validateNotPastDate(startDatetime);
@@ -448,30 +1154,56 @@ export class EventService {
       await this.validateVenueActive(venueId);
     }
 
+    if (updateEventDto.clientId) {
+      await this.validateClientExists(updateEventDto.clientId);
+    }
+
+    const status = updateEventDto.status || existingEvent.status;
+    // A hold turning into a real booking has to win the slot again
+    const isConfirmingHold =
+      existingEvent.status === EventStatus.HOLD &&
+      status !== EventStatus.HOLD &&
+      status !== EventStatus.CANCELLED;
+
     // VALIDASI 4: Venue available (jika datetime atau venue diubah)
+    let displacedHolds: HeldSlot[] = [];
     if (
       updateEventDto.startDatetime ||
       updateEventDto.endDatetime ||
-      updateEventDto.venueId
+      updateEventDto.venueId ||
+      spacesChanged ||
+      isConfirmingHold ||
+      updateEventDto.overrideHolds
     ) {
-      await this.checkVenueAvailability(
+      displacedHolds = await this.checkSlotForStatus(
         venueId,
         startDatetime,
         endDatetime,
-        id,
+        spaceIds,
+        status,
+        {
+          excludeEventId: [id, ...excludeEventIds],
+          overrideHolds: updateEventDto.overrideHolds,
+          heldSince: isConfirmingHold ? existingEvent.createdAt : undefined,
+        },
       );
     }
 
-    // VALIDASI 5: Capacity check (jika attendee atau venue diubah)
+    // VALIDASI 5: Capacity check (jika attendee, venue atau space diubah)
     if (
       attendeeCount &&
-      (updateEventDto.attendeeCount !== undefined || updateEventDto.venueId)
+      (updateEventDto.attendeeCount !== undefined ||
+        updateEventDto.venueId ||
+        spacesChanged)
     ) {
-      await this.validateVenueCapacity(venueId, attendeeCount);
+      await this.validateVenueCapacity(venueId, attendeeCount, spaces);
     }
 
     // Prepare update data
-    const updateData: Prisma.EventUpdateInput = {};
+    // Calendar subscribers pick up any edit by its higher sequence
+    const updateData: Prisma.EventUpdateInput = {
+      icsSequence: { increment: 1 },
+    };
 
     // Basic fields
     if (updateEventDto.name !== undefined) {
@@ -494,116 +1226,233 @@ export class EventService {
       updateData.status = updateEventDto.status;
     }
 
+    if (status === EventStatus.HOLD) {
+      // New hold, explicit expiry, or moved to start before the old expiry
+      if (
+        updateEventDto.holdExpiresAt ||
+        existingEvent.status !== EventStatus.HOLD ||
+        (existingEvent.holdExpiresAt &&
+          existingEvent.holdExpiresAt > startDatetime)
+      ) {
+        updateData.holdExpiresAt = this.resolveHoldExpiry(
+          startDatetime,
+          updateEventDto.holdExpiresAt,
+        );
+      }
+    } else if (existingEvent.holdExpiresAt) {
+      updateData.holdExpiresAt = null;
+    }
+
     if (updateEventDto.venueId !== undefined) {
       updateData.venue = {
         connect: { id: updateEventDto.venueId },
       };
     }
 
+    if (updateEventDto.clientId !== undefined) {
+      updateData.client = updateEventDto.clientId
+        ? { connect: { id: updateEventDto.clientId } }
+        : { disconnect: true };
+    }
+
     if (updateEventDto.attendeeCount !== undefined) {
       updateData.attendeeCount = updateEventDto.attendeeCount;
     }
 
-    // Payment handling
-    if (updateEventDto.isPaid !== undefined) {
-      updateData.isPaid = updateEventDto.isPaid;
-
-      if (updateEventDto.isPaid === true && !existingEvent.isPaid) {
-        updateData.paymentDate = new Date();
-      } else if (updateEventDto.isPaid === false) {
-        updateData.paymentDate = null;
-      }
+    if (spacesChanged) {
+      updateData.spaces = {
+        deleteMany: {},
+        create: spaceIds.map((spaceId) => ({ spaceId })),
+      };
     }
 
+    const redemption = existingEvent.promoRedemption;
+
     // RECALCULATE PRICING if needed
     const shouldRecalculatePrice =
       updateEventDto.startDatetime ||
       updateEventDto.endDatetime ||
       updateEventDto.venueId ||
+      spacesChanged ||
       updateEventDto.discount !== undefined ||
       updateEventDto.additionalFees !== undefined;
 
     if (shouldRecalculatePrice) {
       const venue =
         updateEventDto.venueId &&
-          updateEventDto.venueId !== existingEvent.venueId
+        updateEventDto.venueId !== existingEvent.venueId
           ? await this.prisma.venue.findUnique({
-            where: { id: venueId },
-            select: {
-              pricePerHour: true,
-              pricePerDay: true,
-            },
-          })
+              where: { id: venueId },
+              select: {
+                pricePerHour: true,
+                pricePerDay: true,
+                currency: true,
+              },
+            })
           : existingEvent.venue;
 
       if (!venue) {
         throw new NotFoundException('Venue not found');
       }
 
-      // Calculate duration
-      const duration = PricingHelper.calculateDuration(
-        startDatetime,
-        endDatetime,
-      );
+      // Recalculate with the pricing rules, taxes and charges in force; a
+      // redeemed promo code must still apply to the changed booking
+      const { rentalType, priceBreakdown, exchangeRate } =
+        await this.priceBooking({
+          venueId,
+          currency: venue.currency,
+          rates: this.resolveRates(venue, spaces),
+          startDatetime,
+          endDatetime,
+          discount:
+            updateEventDto.discount !== undefined
+              ? this.toNumber(updateEventDto.discount)
+              : this.toNumber(existingEvent.discount),
+          additionalFees:
+            updateEventDto.additionalFees !== undefined
+              ? this.toNumber(updateEventDto.additionalFees)
+              : this.toNumber(existingEvent.additionalFees),
+          promo: redemption
+            ? this.promoCodeService.toInput(redemption.promoCode)
+            : null,
+        });
+
+      updateData.rentalType = rentalType;
+      updateData.basePrice = priceBreakdown.basePrice;
+      updateData.finalPrice = priceBreakdown.finalPrice;
+      updateData.priceBreakdown =
+        priceBreakdown as unknown as Prisma.InputJsonValue;
+      updateData.currency = venue.currency;
+      updateData.reportingCurrency = exchangeRate
+        ? DEFAULT_REPORTING_CURRENCY
+        : null;
+      updateData.exchangeRate = exchangeRate;
+
+      if (redemption) {
+        updateData.promoRedemption = {
+          update: { discountAmount: priceBreakdown.promoDiscount },
+        };
+      }
+    }
+
+    if (updateEventDto.discount !== undefined) {
+      updateData.discount = updateEventDto.discount;
+    }
+
+    if (updateEventDto.additionalFees !== undefined) {
+      updateData.additionalFees = updateEventDto.additionalFees;
+    }
+
+    return {
+      id,
+      existingEvent,
+      data: updateData,
+      status,
+      redemption,
+      isConfirmingHold,
+      displacedHolds,
+      // Price or cancellation changes the balance owed
+      refreshPayment:
+        !!shouldRecalculatePrice || updateEventDto.status !== undefined,
+    };
+  }
+
+  /**
+   * Save prepared changes in one transaction; if one fails, none are saved
+   * Cancelling gives a promo code use back and restoring takes it again, in
+   * the same transaction. Displaced holds are released, payment status
+   * refreshed and audit entries written once the transaction has committed.
+   * @param hooks.afterUpdate - Runs last inside the transaction, e.g. to
+   *   update the series the events belong to
+   */
+  async updatePreparedEvents(
+    prepared: Awaited<ReturnType<EventService['prepareUpdate']>>[],
+    hooks: {
+      afterUpdate?: (tx: Prisma.TransactionClient) => Promise<unknown>;
+    } = {},
+  ): Promise<Event[]> {
+    const events = await this.prisma.$transaction(
+      async (tx) => {
+        const updated: Prisma.EventGetPayload<{
+          include: typeof EVENT_UPDATED_INCLUDE;
+        }>[] = [];
+        for (const {
+          id,
+          existingEvent,
+          data,
+          status,
+          redemption,
+        } of prepared) {
+          const wasCancelled = existingEvent.status === EventStatus.CANCELLED;
+          const isCancelled = status === EventStatus.CANCELLED;
+
+          if (redemption && !wasCancelled && isCancelled) {
+            await this.promoCodeService.releaseRedemption(tx, id);
+          } else if (redemption && wasCancelled && !isCancelled) {
+            await this.promoCodeService.claimRedemption(
+              tx,
+              redemption.promoCodeId,
+            );
+          }
+
+          updated.push(
+            await tx.event.update({
+              where: { id },
+              data,
+              include: EVENT_UPDATED_INCLUDE,
+            }),
+          );
+        }
+
+        if (hooks.afterUpdate) {
+          await hooks.afterUpdate(tx);
+        }
+
+        return updated;
+      },
+      // A series updates every following occurrence
+      { timeout: 30000 },
+    );
 
-      // Determine rental type
-      // Determine rental type
-      const rentalType = PricingHelper.getOptimalRentalType(
-        venue.pricePerHour,
-        venue.pricePerDay,
-        duration,
-      );
+    for (const [index, event] of events.entries()) {
+      const { existingEvent, status, isConfirmingHold } = prepared[index];
 
-      // Calculate base price
-      const basePrice = PricingHelper.calculateBasePrice(
-        rentalType,
-        venue.pricePerHour,
-        venue.pricePerDay,
-        duration,
-      );
+      await this.releaseHolds(prepared[index].displacedHolds, event.id);
 
-      // Calculate final price
-      const finalPrice = PricingHelper.calculateFinalPrice(
-        basePrice,
-        updateEventDto.discount !== undefined
-          ? this.toNumber(updateEventDto.discount)
-          : this.toNumber(existingEvent.discount),
-        updateEventDto.additionalFees !== undefined
-          ? this.toNumber(updateEventDto.additionalFees)
-          : this.toNumber(existingEvent.additionalFees),
-      );
+      if (prepared[index].refreshPayment) {
+        await this.paymentService.refreshPaymentStatus(event.id);
+      }
 
-      updateData.rentalType = rentalType;
-      updateData.basePrice = basePrice;
-      updateData.finalPrice = finalPrice;
+      await this.auditService.record({
+        action:
+          status === EventStatus.CANCELLED &&
+          existingEvent.status !== EventStatus.CANCELLED
+            ? AuditAction.CANCEL
+            : isConfirmingHold
+              ? AuditAction.CONFIRM
+              : AuditAction.UPDATE,
+        entityType: AuditEntityType.EVENT,
+        entityId: event.id,
+        entityLabel: event.name,
+        before: this.toAuditRecord(existingEvent),
+        after: this.toAuditRecord(event),
+      });
     }
 
-    if (updateEventDto.discount !== undefined) {
-      updateData.discount = updateEventDto.discount;
-    }
+    return events;
+  }
 
-    if (updateEventDto.additionalFees !== undefined) {
-      updateData.additionalFees = updateEventDto.additionalFees;
-    }
+  async updateEvent(
+    id: string,
+    updateEventDto: UpdateEventDto,
+  ): Promise<Event> {
+    this.logger.log(`Updating event: ${id}`);
+
+    const prepared = await this.prepareUpdate(id, updateEventDto);
 
     // Execute update
     try {
-      const updatedEvent = await this.prisma.event.update({
-        where: { id },
-        data: updateData,
-        include: {
-          venue: {
-            select: {
-              id: true,
-              name: true,
-              city: true,
-              address: true,
-              capacity: true,
-              status: true,
-            },
-          },
-        },
-      });
+      const [updatedEvent] = await this.updatePreparedEvents([prepared]);
 
       this.logger.log(`Event updated successfully: ${id}`);
       return updatedEvent;
@@ -654,13 +1503,45 @@ export class EventService {
       throw new NotFoundException(`Event with ID "${id}" not found`);
     }
 
+    // The payment ledger and issued invoices must stay intact for finance
+    const [paymentCount, invoiceCount] = await Promise.all([
+      this.prisma.payment.count({ where: { eventId: id } }),
+      this.prisma.invoice.count({ where: { eventId: id } }),
+    ]);
+
+    if (paymentCount > 0) {
+      throw new BadRequestException(
+        `Event "${event.name}" has ${paymentCount} recorded payment(s) and cannot be deleted. Cancel it instead.`,
+      );
+    }
+
+    if (invoiceCount > 0) {
+      throw new BadRequestException(
+        `Event "${event.name}" has been invoiced and cannot be deleted. Cancel it instead.`,
+      );
+    }
+
     try {
-      await this.prisma.event.delete({
-        where: { id },
+      await this.prisma.$transaction(async (tx) => {
+        if (event.status !== EventStatus.CANCELLED) {
+          await this.promoCodeService.releaseRedemption(tx, id);
+        }
+
+        await tx.event.delete({
+          where: { id },
+        });
       });
 
       this.logger.log(`Event deleted successfully: ${event.name}`);
 
+      await this.auditService.record({
+        action: AuditAction.DELETE,
+        entityType: AuditEntityType.EVENT,
+        entityId: id,
+        entityLabel: event.name,
+        before: event,
+      });
+
       return {
         message: `Event "${event.name}" at ${event.venue.name} has been successfully deleted`,
       };
@@ -679,59 +1560,70 @@ export class EventService {
     try {
       const now = new Date();
 
-      const [total, byStatus, upcomingCount, ongoingCount, completedCount] =
-        await Promise.all([
-          this.prisma.event.count(),
-          this.prisma.event.groupBy({
-            by: ['status'],
-            _count: true,
-            orderBy: {
-              _count: {
-                status: 'desc',
-              },
+      const [
+        total,
+        byStatus,
+        upcomingCount,
+        ongoingCount,
+        completedCount,
+        onHoldCount,
+      ] = await Promise.all([
+        this.prisma.event.count(),
+        this.prisma.event.groupBy({
+          by: ['status'],
+          _count: true,
+          orderBy: {
+            _count: {
+              status: 'desc',
             },
-          }),
-          // Upcoming: future events
-          this.prisma.event.count({
-            where: {
-              status: EventStatus.UPCOMING,
-              startDatetime: {
-                gte: now,
-              },
+          },
+        }),
+        // Upcoming: future events
+        this.prisma.event.count({
+          where: {
+            status: EventStatus.UPCOMING,
+            startDatetime: {
+              gte: now,
             },
-          }),
-          // Ongoing: events happening now
-          this.prisma.event.count({
-            where: {
-              status: EventStatus.ONGOING,
-              startDatetime: {
-                lte: now,
-              },
-              endDatetime: {
-                gte: now,
-              },
+          },
+        }),
+        // Ongoing: events happening now
+        this.prisma.event.count({
+          where: {
+            status: EventStatus.ONGOING,
+            startDatetime: {
+              lte: now,
             },
-          }),
-          // Completed: past events
-          this.prisma.event.count({
-            where: {
-              OR: [
-                { status: EventStatus.COMPLETED },
-                {
-                  endDatetime: {
-                    lt: now,
-                  },
-                },
-              ],
+            endDatetime: {
+              gte: now,
             },
-          }),
-        ]);
+          },
+        }),
+        // Completed: past events
+        this.prisma.event.count({
+          where: {
+            OR: [
+              { status: EventStatus.COMPLETED },
+              {
+                endDatetime: {
+                  lt: now,
+                },
+              },
+            ],
+          },
+        }),
+        // On hold: tentative holds that have not expired
+        this.prisma.event.count({
+          where: BookingConflictHelper.activeHoldWhere(now),
+        }),
+      ]);
 
       const statistics = {
         total,
         upcoming: upcomingCount,
         ongoing: ongoingCount,
         completed: completedCount,
+        onHold: onHoldCount,
         byStatus: byStatus.map((item) => ({
           status: item.status,
           count: item._count,
@@ -803,100 +1695,296 @@ export class EventService {
     }
   }
 
-  // Get financial statistics
-  async getFinancialStatistics() {
-    this.logger.log('Fetching financial statistics');
+  /**
+   * Events overlapping a date range, for the calendar
+   * Events that started before the range or end after it are included.
+   */
+  async getCalendarEvents(queryDto: CalendarQueryDto) {
+    const start = new Date(queryDto.start);
+    const end = new Date(queryDto.end);
 
-    try {
-      const [
-        totalRevenue,
-        paidRevenue,
-        unpaidRevenue,
-        revenueByVenue,
-        revenueByMonth,
-        averagePrice,
-      ] = await Promise.all([
-        this.prisma.event.aggregate({
-          _sum: { finalPrice: true },
-        }),
+    if (start >= end) {
+      throw new BadRequestException('End must be after start');
+    }
 
-        this.prisma.event.aggregate({
-          where: { isPaid: true },
-          _sum: { finalPrice: true },
-        }),
+    if (
+      end.getTime() - start.getTime() >
+      MAX_CALENDAR_RANGE_DAYS * 24 * 60 * 60 * 1000
+    ) {
+      throw new BadRequestException(
+        `The calendar range cannot exceed ${MAX_CALENDAR_RANGE_DAYS} days`,
+      );
+    }
 
-        this.prisma.event.aggregate({
-          where: { isPaid: false },
-          _sum: { finalPrice: true },
-        }),
+    const where: Prisma.EventWhereInput = {
+      startDatetime: { lt: end },
+      endDatetime: { gt: start },
+    };
 
-        this.prisma.event.groupBy({
-          by: ['venueId'],
-          _sum: { finalPrice: true },
-          _count: true,
-        }),
+    if (queryDto.venueId) {
+      where.venueId = queryDto.venueId;
+    }
+
+    if (queryDto.status) {
+      where.status = queryDto.status;
+    }
+
+    return this.prisma.event.findMany({
+      where,
+      orderBy: { startDatetime: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        startDatetime: true,
+        endDatetime: true,
+        holdExpiresAt: true,
+        attendeeCount: true,
+        venue: { select: { id: true, name: true, city: true } },
+        spaces: EVENT_SPACES_INCLUDE,
+        client: { select: { id: true, name: true } },
+      },
+    });
+  }
+
+  // Get financial statistics
+  // Booked revenue comes from finalPrice of confirmed (non-hold, non-cancelled)
+  // events; paid revenue is what was actually received minus refunds.
+  /**
+   * @param currency - Reporting currency (ISO 4217); amounts of each event are
+   * converted at the rate recorded when it was priced, or the exchange-rate
+   * table rate on its start date. Events without a rate are left out and
+   * listed under `unconverted`.
+   */
+  async getFinancialStatistics(currency?: string) {
+    const reportingCurrency = this.resolveReportingCurrency(currency);
+    this.logger.log(`Fetching financial statistics in ${reportingCurrency}`);
+
+    try {
+      const now = new Date();
+      // Receipts by month cover the last 6 months
+      const monthsFrom = new Date(now);
+      monthsFrom.setMonth(monthsFrom.getMonth() - 6);
 
-        // Revenue by month (last 6 months)
-        this.prisma.$queryRaw`
-        SELECT 
-          DATE_FORMAT(start_datetime, '%Y-%m') as month,
-          SUM(final_price) as revenue,
-          COUNT(*) as event_count
-        FROM events
-        WHERE start_datetime >= DATE_SUB(NOW(), INTERVAL 6 MONTH)
-        GROUP BY DATE_FORMAT(start_datetime, '%Y-%m')
-        ORDER BY month DESC
-      `,
-
-        this.prisma.event.aggregate({
-          _avg: { finalPrice: true },
+      const [events, rates] = await Promise.all([
+        // Everything that is owed, or that still holds money
+        this.prisma.event.findMany({
+          where: {
+            OR: [
+              {
+                status: {
+                  notIn: [EventStatus.CANCELLED, EventStatus.HOLD],
+                },
+              },
+              { payments: { some: {} } },
+            ],
+          },
+          select: {
+            id: true,
+            venueId: true,
+            status: true,
+            startDatetime: true,
+            finalPrice: true,
+            currency: true,
+            reportingCurrency: true,
+            exchangeRate: true,
+            payments: {
+              select: { type: true, amount: true, method: true, paidAt: true },
+            },
+            promoRedemption: {
+              select: {
+                discountAmount: true,
+                promoCode: { select: { id: true, code: true } },
+              },
+            },
+          },
         }),
+        this.exchangeRateService.getRates(),
       ]);
 
-      const revenueByVenueEnriched = await Promise.all(
-        revenueByVenue.map(async (item) => {
-          const venue = await this.prisma.venue.findUnique({
-            where: { id: item.venueId },
-            select: { name: true, city: true },
-          });
+      let totalRevenue = 0;
+      let bookedEventCount = 0;
+      let receivedRevenue = 0;
+      let refundedAmount = 0;
+      let unpaidRevenue = 0;
+      let overdueRevenue = 0;
+      let refundDue = 0;
+      const byPaymentStatus: Record<PaymentStatus, number> = {
+        UNPAID: 0,
+        PARTIALLY_PAID: 0,
+        PAID: 0,
+        OVERDUE: 0,
+        REFUND_DUE: 0,
+      };
+      const venueTotals = new Map<
+        string,
+        { totalRevenue: number; receivedRevenue: number; eventCount: number }
+      >();
+      const byMethod = new Map<string, number>();
+      const byMonth = new Map<
+        string,
+        { revenue: number; events: Set<string> }
+      >();
+      const unconverted = new Map<string, number>();
+      const byPromoCode = new Map<
+        string,
+        { code: string; redemptions: number; discount: number }
+      >();
+      let promoDiscount = 0;
+
+      for (const event of events) {
+        const summary = PaymentHelper.summarize(event, event.payments, now);
+        byPaymentStatus[summary.status]++;
+
+        const rate = this.reportingRate(event, reportingCurrency, rates);
+        if (rate === null) {
+          unconverted.set(
+            event.currency,
+            (unconverted.get(event.currency) || 0) + 1,
+          );
+          continue;
+        }
+        const convert = (amount: number) =>
+          ExchangeRateHelper.convert(amount, rate);
+
+        const isBooked = event.status !== EventStatus.CANCELLED;
+        if (isBooked) {
+          totalRevenue += convert(summary.amountDue);
+          bookedEventCount++;
+        }
+
+        const redemption = event.promoRedemption;
+        if (isBooked && redemption) {
+          const discount = convert(Number(redemption.discountAmount));
+          const promoTotal = byPromoCode.get(redemption.promoCode.id) || {
+            code: redemption.promoCode.code,
+            redemptions: 0,
+            discount: 0,
+          };
+          promoTotal.redemptions++;
+          promoTotal.discount += discount;
+          byPromoCode.set(redemption.promoCode.id, promoTotal);
+          promoDiscount += discount;
+        }
+        unpaidRevenue += convert(summary.outstanding);
+        refundDue += convert(summary.refundDue);
+        if (summary.status === 'OVERDUE') {
+          overdueRevenue += convert(summary.outstanding);
+        }
+
+        const venueTotal = venueTotals.get(event.venueId) || {
+          totalRevenue: 0,
+          receivedRevenue: 0,
+          eventCount: 0,
+        };
+        venueTotal.totalRevenue += convert(summary.amountDue);
+        venueTotal.receivedRevenue += convert(summary.netPaid);
+        venueTotal.eventCount += isBooked ? 1 : 0;
+        venueTotals.set(event.venueId, venueTotal);
+
+        for (const payment of event.payments) {
+          const amount = convert(Number(payment.amount));
+          const isRefund = payment.type === PaymentType.REFUND;
+
+          if (isRefund) {
+            refundedAmount += amount;
+          } else {
+            receivedRevenue += amount;
+          }
+
+          byMethod.set(
+            payment.method,
+            (byMethod.get(payment.method) || 0) + (isRefund ? -amount : amount),
+          );
+
+          if (payment.paidAt >= monthsFrom) {
+            const month = `${payment.paidAt.getFullYear()}-${String(payment.paidAt.getMonth() + 1).padStart(2, '0')}`;
+            const monthTotal = byMonth.get(month) || {
+              revenue: 0,
+              events: new Set<string>(),
+            };
+            monthTotal.revenue += isRefund ? -amount : amount;
+            monthTotal.events.add(event.id);
+            byMonth.set(month, monthTotal);
+          }
+        }
+      }
+
+      const paidRevenue = receivedRevenue - refundedAmount;
+
+      const venues = await this.prisma.venue.findMany({
+        where: { id: { in: [...venueTotals.keys()] } },
+        select: { id: true, name: true, city: true, currency: true },
+      });
 
+      const revenueByVenue = [...venueTotals.entries()]
+        .map(([venueId, totals]) => {
+          const venue = venues.find((v) => v.id === venueId);
           return {
-            venueId: item.venueId,
+            venueId,
             venueName: venue?.name || 'Unknown',
             venueCity: venue?.city || 'Unknown',
-            totalRevenue: Number(item._sum.finalPrice || 0),
-            eventCount: item._count,
+            venueCurrency: venue?.currency || reportingCurrency,
+            ...totals,
           };
-        }),
-      );
+        })
+        .sort((a, b) => b.totalRevenue - a.totalRevenue);
+
+      const averagePrice =
+        bookedEventCount > 0 ? totalRevenue / bookedEventCount : 0;
 
-      revenueByVenueEnriched.sort((a, b) => b.totalRevenue - a.totalRevenue);
+      const format = (amount: number) =>
+        PricingHelper.formatCurrency(amount, reportingCurrency);
 
       const statistics = {
-        totalRevenue: Number(totalRevenue._sum.finalPrice || 0),
-        paidRevenue: Number(paidRevenue._sum.finalPrice || 0),
-        unpaidRevenue: Number(unpaidRevenue._sum.finalPrice || 0),
-        averagePrice: Number(averagePrice._avg.finalPrice || 0),
-        revenueByVenue: revenueByVenueEnriched,
-        revenueByMonth,
+        currency: reportingCurrency,
+        totalRevenue,
+        receivedRevenue,
+        refundedAmount,
+        paidRevenue,
+        unpaidRevenue,
+        overdueRevenue,
+        refundDue,
+        averagePrice,
+        promoDiscount,
+        byPaymentStatus,
+        revenueByMethod: [...byMethod.entries()].map(([method, amount]) => ({
+          method,
+          amount,
+        })),
+        revenueByVenue,
+        // Discount given through promo codes on booked events
+        promoCodes: [...byPromoCode.entries()]
+          .map(([promoCodeId, totals]) => ({ promoCodeId, ...totals }))
+          .sort((a, b) => b.discount - a.discount),
+        revenueByMonth: [...byMonth.entries()]
+          .sort(([a], [b]) => b.localeCompare(a))
+          .map(([month, totals]) => ({
+            month,
+            revenue: totals.revenue,
+            event_count: totals.events.size,
+          })),
+        unconverted: [...unconverted.entries()].map(
+          ([eventCurrency, eventCount]) => ({
+            currency: eventCurrency,
+            eventCount,
+          }),
+        ),
         formatted: {
-          totalRevenue: PricingHelper.formatCurrency(
-            Number(totalRevenue._sum.finalPrice || 0),
-          ),
-          paidRevenue: PricingHelper.formatCurrency(
-            Number(paidRevenue._sum.finalPrice || 0),
-          ),
-          unpaidRevenue: PricingHelper.formatCurrency(
-            Number(unpaidRevenue._sum.finalPrice || 0),
-          ),
-          averagePrice: PricingHelper.formatCurrency(
-            Number(averagePrice._avg.finalPrice || 0),
-          ),
+          totalRevenue: format(totalRevenue),
+          receivedRevenue: format(receivedRevenue),
+          refundedAmount: format(refundedAmount),
+          paidRevenue: format(paidRevenue),
+          unpaidRevenue: format(unpaidRevenue),
+          overdueRevenue: format(overdueRevenue),
+          refundDue: format(refundDue),
+          averagePrice: format(averagePrice),
+          promoDiscount: format(promoDiscount),
         },
       };
 
       this.logger.log(
-        `Financial stats: Total Revenue = ${statistics.formatted.totalRevenue}`,
+        `Financial stats: Total Revenue = ${statistics.formatted.totalRevenue}, Received = ${statistics.formatted.paidRevenue}`,
       );
       return statistics;
     } catch (error) {
@@ -910,7 +1998,16 @@ export class EventService {
 
   // Get revenue by date range
 
-  async getRevenueByDateRange(startDate: Date, endDate: Date) {
+  // Event amounts stay in their own currency; the summary is converted into
+  // the reporting currency like getFinancialStatistics
+
+  async getRevenueByDateRange(
+    startDate: Date,
+    endDate: Date,
+    currency?: string,
+  ) {
+    const reportingCurrency = this.resolveReportingCurrency(currency);
+
     const events = await this.prisma.event.findMany({
       where: {
         startDatetime: {
@@ -921,8 +2018,12 @@ export class EventService {
       select: {
         id: true,
         name: true,
+        status: true,
         startDatetime: true,
         finalPrice: true,
+        currency: true,
+        reportingCurrency: true,
+        exchangeRate: true,
         isPaid: true,
         venue: {
           select: {
@@ -930,73 +2031,107 @@ export class EventService {
             city: true,
           },
         },
+        payments: { select: { type: true, amount: true } },
       },
       orderBy: {
         startDatetime: 'desc',
       },
     });
 
-    const totalRevenue = events.reduce(
-      (sum, event) => sum + Number(event.finalPrice || 0),
-      0,
-    );
+    const now = new Date();
+    const rates = await this.exchangeRateService.getRates();
+
+    let totalRevenue = 0;
+    let paidRevenue = 0;
+    let unpaidRevenue = 0;
+    let unconvertedEvents = 0;
+
+    const eventsWithBalance = events.map(({ payments, ...event }) => {
+      const summary = PaymentHelper.summarize(event, payments, now);
+      const rate = this.reportingRate(event, reportingCurrency, rates);
+
+      if (rate === null) {
+        unconvertedEvents++;
+      } else {
+        totalRevenue += ExchangeRateHelper.convert(summary.amountDue, rate);
+        paidRevenue += ExchangeRateHelper.convert(summary.netPaid, rate);
+        unpaidRevenue += ExchangeRateHelper.convert(summary.outstanding, rate);
+      }
 
-    const paidRevenue = events
-      .filter((e) => e.isPaid)
-      .reduce((sum, event) => sum + Number(event.finalPrice || 0), 0);
+      return {
+        ...event,
+        netPaid: summary.netPaid,
+        outstanding: summary.outstanding,
+        paymentStatus: summary.status,
+      };
+    });
 
     return {
-      events,
+      events: eventsWithBalance,
       summary: {
+        currency: reportingCurrency,
         totalEvents: events.length,
         totalRevenue,
         paidRevenue,
-        unpaidRevenue: totalRevenue - paidRevenue,
+        unpaidRevenue,
+        unconvertedEvents,
         formatted: {
-          totalRevenue: PricingHelper.formatCurrency(totalRevenue),
-          paidRevenue: PricingHelper.formatCurrency(paidRevenue),
+          totalRevenue: PricingHelper.formatCurrency(
+            totalRevenue,
+            reportingCurrency,
+          ),
+          paidRevenue: PricingHelper.formatCurrency(
+            paidRevenue,
+            reportingCurrency,
+          ),
           unpaidRevenue: PricingHelper.formatCurrency(
-            totalRevenue - paidRevenue,
+            unpaidRevenue,
+            reportingCurrency,
           ),
         },
       },
     };
   }
 
+  /**
+   * Throw ConflictException if the venue is closed by a blackout or the
+   * venue (or the requested spaces) is already booked in the given window.
+   * Active holds throw a HoldConflictException instead, unless allowHolds
+   * is set.
+   * @param spaceIds - Spaces to book; empty/omitted = whole venue
+   * @returns Active holds on the slot, first in queue first
+   */
   async checkVenueAvailability(
     venueId: string,
     startDatetime: Date,
     endDatetime: Date,
-    excludeEventId?: string,
-  ): Promise<void> {
+    excludeEventId?: string | string[],
+    spaceIds: string[] = [],
+    options: { allowHolds?: boolean } = {},
+  ): Promise<HeldSlot[]> {
+    const blackout = await this.prisma.venueBlackout.findFirst({
+      where: BookingConflictHelper.blackoutWhere(
+        venueId,
+        startDatetime,
+        endDatetime,
+      ),
+      orderBy: { startDatetime: 'asc' },
+    });
+
+    if (blackout) {
+      throw new ConflictException(
+        BookingConflictHelper.describeBlackout(blackout),
+      );
+    }
+
     const overlappingEvents = await this.prisma.event.findMany({
-      where: {
+      where: BookingConflictHelper.conflictWhere(
         venueId,
-        id: excludeEventId ? { not: excludeEventId } : undefined,
-        status: {
-          in: ['UPCOMING', 'ONGOING'],
-        },
-        OR: [
-          {
-            AND: [
-              { startDatetime: { lte: startDatetime } },
-              { endDatetime: { gt: startDatetime } },
-            ],
-          },
-          {
-            AND: [
-              { startDatetime: { lt: endDatetime } },
-              { endDatetime: { gte: endDatetime } },
-            ],
-          },
-          {
-            AND: [
-              { startDatetime: { gte: startDatetime } },
-              { endDatetime: { lte: endDatetime } },
-            ],
-          },
-        ],
-      },
+        startDatetime,
+        endDatetime,
+        spaceIds,
+        excludeEventId,
+      ),
       select: {
         id: true,
         name: true,
@@ -1007,9 +2142,114 @@ export class EventService {
 
     if (overlappingEvents.length > 0) {
       const conflictingEvent = overlappingEvents[0];
+      const target = spaceIds.length > 0 ? 'The selected space is' : 'Venue is';
       throw new ConflictException(
-        `Venue is already booked for event "${conflictingEvent.name}" from ${conflictingEvent.startDatetime.toLocaleString()} to ${conflictingEvent.endDatetime.toLocaleString()}. Please choose different date or venue.`,
+        `${target} already booked for event "${conflictingEvent.name}" from ${conflictingEvent.startDatetime.toLocaleString()} to ${conflictingEvent.endDatetime.toLocaleString()}. Please choose different date or venue.`,
+      );
+    }
+
+    const holds = await this.prisma.event.findMany({
+      where: BookingConflictHelper.holdConflictWhere(
+        venueId,
+        startDatetime,
+        endDatetime,
+        spaceIds,
+        excludeEventId,
+      ),
+      select: {
+        id: true,
+        name: true,
+        startDatetime: true,
+        endDatetime: true,
+        holdExpiresAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (holds.length > 0 && !options.allowHolds) {
+      throw new HoldConflictException(
+        this.describeHolds(holds, spaceIds),
+        holds,
+      );
+    }
+
+    return holds;
+  }
+
+  /**
+   * Confirm a tentative hold as a firm UPCOMING booking
+   * Holds queued behind it are released; holds ahead of it need an override
+   */
+  async confirmHold(id: string, overrideHolds = false): Promise<Event> {
+    const event = await this.prisma.event.findUnique({
+      where: { id },
+      select: { status: true, holdExpiresAt: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Event with ID "${id}" not found`);
+    }
+
+    if (event.status !== EventStatus.HOLD) {
+      throw new BadRequestException('Only events on hold can be confirmed');
+    }
+
+    if (event.holdExpiresAt && event.holdExpiresAt <= new Date()) {
+      throw new BadRequestException(
+        'This hold has expired. Create a new booking instead.',
       );
     }
+
+    return this.updateEvent(id, {
+      status: EventStatus.UPCOMING,
+      overrideHolds,
+    });
+  }
+
+  /**
+   * Queue of active holds competing for an event's slot, in priority order
+   * The event itself is included when it is an active hold
+   */
+  async getHoldQueue(id: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id },
+      include: { spaces: { select: { spaceId: true } } },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Event with ID "${id}" not found`);
+    }
+
+    const spaceIds = event.spaces.map((space) => space.spaceId);
+    const holds = await this.prisma.event.findMany({
+      where: {
+        OR: [
+          BookingConflictHelper.holdConflictWhere(
+            event.venueId,
+            event.startDatetime,
+            event.endDatetime,
+            spaceIds,
+          ),
+          { id, ...BookingConflictHelper.activeHoldWhere() },
+        ],
+      },
+      select: {
+        id: true,
+        name: true,
+        startDatetime: true,
+        endDatetime: true,
+        holdExpiresAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const index = holds.findIndex((hold) => hold.id === id);
+
+    return {
+      position: index >= 0 ? index + 1 : null,
+      holds: holds.map((hold, i) => ({ ...hold, position: i + 1 })),
+    };
   }
 }
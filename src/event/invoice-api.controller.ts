@@ -0,0 +1,120 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+  Session,
+  Req,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { InvoiceService } from './invoice.service';
+import { InvoicePdfHelper } from './invoice-pdf.helper';
+import { InvoiceQueryDto } from './dto/invoice-query.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/events/:eventId/invoice')
+@UseGuards(ApiAuthGuard)
+export class InvoiceApiController {
+  private readonly logger = new Logger(InvoiceApiController.name);
+
+  constructor(private readonly invoiceService: InvoiceService) {}
+
+  /**
+   * GET /api/events/:eventId/invoice?format=pdf|html|json
+   * Current invoice with payments received; 404 until one is issued
+   */
+  @Get()
+  async getInvoice(
+    @Param('eventId', ParseUUIDPipe) eventId: string,
+    @Query() query: InvoiceQueryDto,
+    @Res() res: Response,
+  ) {
+    const format = query.format || 'pdf';
+    this.logger.log(
+      `[GET /api/events/${eventId}/invoice] API: Rendering invoice as ${format}`,
+    );
+
+    const document = await this.invoiceService.getInvoiceDocument(eventId);
+    const { number } = document.invoice;
+
+    if (format === 'pdf') {
+      const pdf = await InvoicePdfHelper.render(document);
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${number}.pdf"`,
+        'Content-Length': pdf.length,
+      });
+      return res.send(pdf);
+    }
+
+    if (format === 'html') {
+      return res.render('invoices/invoice', { layout: false, ...document });
+    }
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Invoice retrieved successfully',
+      data: document,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * GET /api/events/:eventId/invoice/history
+   * Every invoice issued for the event, including voided ones
+   */
+  @Get('history')
+  @HttpCode(HttpStatus.OK)
+  async getInvoiceHistory(@Param('eventId', ParseUUIDPipe) eventId: string) {
+    this.logger.log(
+      `[GET /api/events/${eventId}/invoice/history] API: Fetching invoices`,
+    );
+
+    const invoices = await this.invoiceService.getInvoices(eventId);
+
+    return {
+      success: true,
+      message: 'Invoices retrieved successfully',
+      data: invoices,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/events/:eventId/invoice
+   * Issue a new invoice for the current figures, voiding the previous one
+   */
+  @Post()
+  @RequirePermissions(Permission.PAYMENT_RECORD)
+  @HttpCode(HttpStatus.CREATED)
+  async issueInvoice(
+    @Param('eventId', ParseUUIDPipe) eventId: string,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    this.logger.log(
+      `[POST /api/events/${eventId}/invoice] API: Issuing invoice`,
+    );
+
+    const invoice = await this.invoiceService.issueInvoice(
+      eventId,
+      req.apiToken?.adminId ?? session.adminId,
+    );
+
+    return {
+      success: true,
+      message: `Invoice ${invoice.number} issued successfully`,
+      data: invoice,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,210 @@
+import PDFDocument from 'pdfkit';
+import { InvoiceStatus, PaymentType } from '@prisma/client';
+import { InvoiceDocument } from './invoice.helper';
+import { PricingHelper } from './pricing.helper';
+
+const PAGE_MARGIN = 50;
+const MUTED = '#64748b';
+const TEXT = '#0f172a';
+
+export class InvoicePdfHelper {
+  // Render an invoice (with its receipt section) to an A4 PDF
+  static render(document: InvoiceDocument): Promise<Buffer> {
+    const pdf = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN });
+    const chunks: Buffer[] = [];
+
+    const done = new Promise<Buffer>((resolve, reject) => {
+      pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+      pdf.on('end', () => resolve(Buffer.concat(chunks)));
+      pdf.on('error', reject);
+    });
+
+    this.writeHeader(pdf, document);
+    this.writeLines(pdf, document);
+    this.writeReceipt(pdf, document);
+
+    pdf.end();
+    return done;
+  }
+
+  private static formatDate(value: Date | string): string {
+    return new Date(value).toLocaleDateString('id-ID', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+  }
+
+  private static formatDateTime(value: Date | string): string {
+    return new Date(value).toLocaleString('id-ID', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  // Right-aligned amount on the current line
+  private static amount(
+    pdf: PDFKit.PDFDocument,
+    value: number,
+    y: number,
+    currency: string,
+  ) {
+    pdf.text(PricingHelper.formatCurrency(value, currency), 395, y, {
+      width: 150,
+      align: 'right',
+    });
+  }
+
+  private static writeHeader(
+    pdf: PDFKit.PDFDocument,
+    { invoice }: InvoiceDocument,
+  ) {
+    const { event, venue } = invoice.snapshot;
+
+    pdf.fillColor(TEXT).fontSize(22).font('Helvetica-Bold').text('INVOICE');
+    pdf.fontSize(10).font('Helvetica').fillColor(MUTED);
+    pdf.text(`No. ${invoice.number}`);
+    pdf.text(`Issued ${this.formatDate(invoice.issuedAt)}`);
+
+    if (invoice.status === InvoiceStatus.VOID) {
+      pdf
+        .fillColor('#dc2626')
+        .font('Helvetica-Bold')
+        .text(
+          `VOID${invoice.voidedAt ? ` since ${this.formatDate(invoice.voidedAt)}` : ''}`,
+        )
+        .font('Helvetica');
+    }
+
+    pdf.moveDown(1.5);
+    const top = pdf.y;
+
+    pdf.fillColor(MUTED).text('Venue', PAGE_MARGIN, top);
+    pdf.fillColor(TEXT).font('Helvetica-Bold').text(venue.name);
+    pdf.font('Helvetica').text(venue.address, { width: 230 });
+    pdf.text(venue.city);
+    const venueBottom = pdf.y;
+
+    pdf.fillColor(MUTED).text('Event', 310, top);
+    pdf.fillColor(TEXT).font('Helvetica-Bold').text(event.name, 310);
+    pdf.font('Helvetica');
+    pdf.text(`${this.formatDateTime(event.startDatetime)} -`, 310);
+    pdf.text(this.formatDateTime(event.endDatetime), 310);
+    if (event.attendeeCount) {
+      pdf.text(`${event.attendeeCount} attendees`, 310);
+    }
+
+    pdf.x = PAGE_MARGIN;
+    pdf.y = Math.max(venueBottom, pdf.y);
+    pdf.moveDown(2);
+  }
+
+  private static writeLines(
+    pdf: PDFKit.PDFDocument,
+    { invoice }: InvoiceDocument,
+  ) {
+    let y = pdf.y;
+    pdf.fontSize(9).fillColor(MUTED).font('Helvetica-Bold');
+    pdf.text('Description', PAGE_MARGIN, y);
+    pdf.text('Qty', 300, y, { width: 80, align: 'right' });
+    pdf.text('Amount', 395, y, { width: 150, align: 'right' });
+    pdf
+      .moveTo(PAGE_MARGIN, y + 14)
+      .lineTo(545, y + 14)
+      .strokeColor('#e2e8f0')
+      .stroke();
+
+    pdf.fontSize(10).fillColor(TEXT).font('Helvetica');
+    y += 22;
+
+    for (const line of invoice.lines) {
+      pdf.text(line.description, PAGE_MARGIN, y, { width: 240 });
+      const next = pdf.y;
+      if (line.unit) {
+        pdf.text(`${line.quantity} ${line.unit}(s)`, 300, y, {
+          width: 80,
+          align: 'right',
+        });
+      }
+      this.amount(pdf, line.amount, y, invoice.currency);
+      y = Math.max(next, y + 14) + 6;
+    }
+
+    pdf.moveTo(300, y).lineTo(545, y).strokeColor('#e2e8f0').stroke();
+    y += 8;
+
+    pdf.fillColor(MUTED).text('Subtotal', 300, y);
+    this.amount(pdf, Number(invoice.subtotal), y, invoice.currency);
+    y += 16;
+
+    for (const tax of invoice.taxLines) {
+      pdf.text(tax.label, 300, y, { width: 95 });
+      this.amount(pdf, tax.amount, y, invoice.currency);
+      y += 16;
+    }
+
+    pdf.fillColor(TEXT).font('Helvetica-Bold').fontSize(12);
+    pdf.text('Total', 300, y + 4);
+    this.amount(pdf, Number(invoice.total), y + 4, invoice.currency);
+
+    pdf.font('Helvetica').fontSize(10);
+    pdf.x = PAGE_MARGIN;
+    pdf.y = y + 24;
+    pdf.moveDown(2);
+  }
+
+  private static writeReceipt(
+    pdf: PDFKit.PDFDocument,
+    { invoice, payments, summary, generatedAt }: InvoiceDocument,
+  ) {
+    pdf
+      .fillColor(TEXT)
+      .font('Helvetica-Bold')
+      .fontSize(12)
+      .text('Payments received', PAGE_MARGIN);
+    pdf.font('Helvetica').fontSize(9).fillColor(MUTED);
+    pdf.text(`As of ${this.formatDateTime(generatedAt)}`);
+    pdf.moveDown(0.5);
+
+    pdf.fontSize(10).fillColor(TEXT);
+    let y = pdf.y;
+
+    if (payments.length === 0) {
+      pdf.fillColor(MUTED).text('No payments recorded.', PAGE_MARGIN, y);
+      y = pdf.y + 6;
+    }
+
+    for (const payment of payments) {
+      const isRefund = payment.type === PaymentType.REFUND;
+      pdf.text(
+        `${this.formatDate(payment.paidAt)}  ${payment.type} via ${payment.method.replace('_', ' ')}${payment.reference ? ` (${payment.reference})` : ''}`,
+        PAGE_MARGIN,
+        y,
+        { width: 330 },
+      );
+      const next = pdf.y;
+      const amount = Number(payment.amount);
+      this.amount(pdf, isRefund ? -amount : amount, y, invoice.currency);
+      y = Math.max(next, y + 14) + 4;
+    }
+
+    pdf.font('Helvetica-Bold');
+    if (summary.refundDue > 0) {
+      pdf.text('Refund due', 300, y + 4);
+      this.amount(pdf, summary.refundDue, y + 4, invoice.currency);
+    } else {
+      pdf.text('Balance due', 300, y + 4);
+      this.amount(pdf, summary.outstanding, y + 4, invoice.currency);
+    }
+
+    if (summary.status === 'PAID') {
+      pdf
+        .fillColor('#059669')
+        .fontSize(16)
+        .text('PAID IN FULL', PAGE_MARGIN, y + 40);
+    }
+  }
+}
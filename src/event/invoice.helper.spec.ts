@@ -0,0 +1,160 @@
+import { ChargeCalculation, ChargeType, RentalType } from '@prisma/client';
+import { InvoiceHelper } from './invoice.helper';
+
+describe('InvoiceHelper', () => {
+  const event = {
+    name: 'Annual Gala',
+    startDatetime: new Date('2026-03-10T10:00:00.000Z'),
+    endDatetime: new Date('2026-03-10T15:00:00.000Z'),
+    rentalType: RentalType.HOURLY,
+    attendeeCount: 120,
+    basePrice: 1000000,
+    discount: 10,
+    additionalFees: 150000,
+    finalPrice: 1050000,
+    priceBreakdown: null,
+    venue: { name: 'Grand Hall', address: 'Jl. Merdeka 1', city: 'Jakarta' },
+    spaces: [{ space: { name: 'Ballroom' } }],
+  };
+
+  it('pads invoice numbers per year', () => {
+    expect(InvoiceHelper.formatNumber(2026, 42)).toBe('INV-2026-00042');
+  });
+
+  it('builds rental, discount and fee lines that add up to the final price', () => {
+    const draft = InvoiceHelper.build(event);
+
+    expect(draft.lines).toEqual([
+      {
+        description: 'Venue rental: Grand Hall (Ballroom)',
+        quantity: 5,
+        unit: 'hour',
+        unitPrice: 200000,
+        amount: 1000000,
+      },
+      {
+        description: 'Discount (10%)',
+        quantity: 1,
+        unit: null,
+        unitPrice: -100000,
+        amount: -100000,
+      },
+      {
+        description: 'Additional fees',
+        quantity: 1,
+        unit: null,
+        unitPrice: 150000,
+        amount: 150000,
+      },
+    ]);
+    expect(draft.total).toBe(1050000);
+    expect(draft.taxLines).toEqual([]);
+  });
+
+  it('lists taxes and charges from the stored price breakdown', () => {
+    const draft = InvoiceHelper.build({
+      ...event,
+      finalPrice: 1218000,
+      priceBreakdown: {
+        charges: [
+          {
+            ruleId: 'service',
+            name: 'Service charge',
+            type: ChargeType.SERVICE_CHARGE,
+            calculation: ChargeCalculation.PERCENT,
+            value: 5,
+            isCompound: false,
+            base: 1050000,
+            amount: 52500,
+          },
+          {
+            ruleId: 'ppn',
+            name: 'PPN',
+            type: ChargeType.TAX,
+            calculation: ChargeCalculation.PERCENT,
+            value: 11,
+            isCompound: false,
+            base: 1050000,
+            amount: 115500,
+          },
+        ],
+      },
+    });
+
+    expect(draft.taxLines).toEqual([
+      { label: 'Service charge 5%', rate: 5, amount: 52500 },
+      { label: 'PPN 11%', rate: 11, amount: 115500 },
+    ]);
+    expect(draft.subtotal).toBe(1050000);
+    expect(draft.lines).toHaveLength(3);
+  });
+
+  it('splits the rental into rate periods when seasonal pricing applied', () => {
+    const draft = InvoiceHelper.build({
+      ...event,
+      basePrice: 1100000,
+      finalPrice: 1140000,
+      priceBreakdown: {
+        charges: [],
+        baseItems: [
+          {
+            from: '2026-03-10T10:00:00.000Z',
+            to: '2026-03-10T13:00:00.000Z',
+            quantity: 3,
+            unit: 'hour',
+            rate: 200000,
+            amount: 600000,
+            ruleId: null,
+            ruleName: null,
+          },
+          {
+            from: '2026-03-10T13:00:00.000Z',
+            to: '2026-03-10T15:00:00.000Z',
+            quantity: 2,
+            unit: 'hour',
+            rate: 250000,
+            amount: 500000,
+            ruleId: 'peak',
+            ruleName: 'Peak afternoon',
+          },
+        ],
+      },
+    });
+
+    expect(draft.lines.slice(0, 2)).toEqual([
+      {
+        description: 'Venue rental: Grand Hall (Ballroom) - Standard rate',
+        quantity: 3,
+        unit: 'hour',
+        unitPrice: 200000,
+        amount: 600000,
+      },
+      {
+        description: 'Venue rental: Grand Hall (Ballroom) - Peak afternoon',
+        quantity: 2,
+        unit: 'hour',
+        unitPrice: 250000,
+        amount: 500000,
+      },
+    ]);
+    expect(draft.subtotal).toBe(1140000);
+  });
+
+  it('detects price changes since an invoice was issued', () => {
+    const issued = InvoiceHelper.build(event);
+
+    expect(InvoiceHelper.differs(issued, InvoiceHelper.build(event))).toBe(
+      false,
+    );
+    expect(
+      InvoiceHelper.differs(
+        issued,
+        InvoiceHelper.build({
+          ...event,
+          additionalFees: 0,
+          finalPrice: 900000,
+        }),
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  ChargeCalculation,
+  Invoice,
+  PaymentMethod,
+  PaymentType,
+  RentalType,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { PriceBreakdown, PricingHelper } from './pricing.helper';
+import { PaymentSummary } from './payment.helper';
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unit: string | null; // 'hour', 'day' or null for flat lines
+  unitPrice: number;
+  amount: number;
+}
+
+// One tax or service charge from the event's price breakdown
+export interface InvoiceTaxLine {
+  label: string;
+  rate: number | null; // Percent; null for flat charges
+  amount: number;
+}
+
+// Event and venue details frozen at issue time
+export interface InvoiceSnapshot {
+  event: {
+    name: string;
+    startDatetime: string;
+    endDatetime: string;
+    rentalType: RentalType;
+    attendeeCount: number | null;
+    spaces: string[];
+  };
+  venue: {
+    name: string;
+    address: string;
+    city: string;
+  };
+}
+
+export interface InvoiceDraft {
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+  lines: InvoiceLine[];
+  taxLines: InvoiceTaxLine[];
+  snapshot: InvoiceSnapshot;
+}
+
+// What the HTML and PDF renderings show: the issued invoice plus the
+// payments received so far (receipt section, live)
+export interface InvoiceDocument {
+  invoice: Invoice & {
+    lines: InvoiceLine[];
+    taxLines: InvoiceTaxLine[];
+    snapshot: InvoiceSnapshot;
+  };
+  payments: {
+    type: PaymentType;
+    method: PaymentMethod;
+    amount: Decimal | number;
+    reference: string | null;
+    paidAt: Date;
+  }[];
+  summary: PaymentSummary;
+  generatedAt: Date;
+}
+
+export class InvoiceHelper {
+  // Number shown on the document, e.g. INV-2026-00042
+  static formatNumber(year: number, sequence: number): string {
+    return `INV-${year}-${String(sequence).padStart(5, '0')}`;
+  }
+
+  // Build line items and tax lines from an event's stored pricing
+  // The total always equals the event's final price; taxes and charges come
+  // from the breakdown stored when the price was calculated.
+  static build(event: {
+    name: string;
+    startDatetime: Date;
+    endDatetime: Date;
+    rentalType: RentalType;
+    attendeeCount: number | null;
+    basePrice: Decimal | number | null;
+    discount: Decimal | number | null;
+    additionalFees: Decimal | number | null;
+    finalPrice: Decimal | number | null;
+    priceBreakdown: unknown;
+    venue: { name: string; address: string; city: string };
+    spaces: { space: { name: string } }[];
+  }): InvoiceDraft {
+    const basePrice = Number(event.basePrice || 0);
+    const discountPercent = Number(event.discount || 0);
+    const additionalFees = Number(event.additionalFees || 0);
+    const total = Number(event.finalPrice || 0);
+    const breakdown = event.priceBreakdown as PriceBreakdown | null;
+    const charges = breakdown?.charges ?? [];
+    const baseItems = breakdown?.baseItems ?? [];
+
+    const hours = PricingHelper.calculateDuration(
+      event.startDatetime,
+      event.endDatetime,
+    );
+    const isDaily = event.rentalType === RentalType.DAILY;
+    const quantity = isDaily ? Math.ceil(hours / 24) : hours;
+    const spaces = event.spaces.map(({ space }) => space.name);
+    const rental =
+      spaces.length > 0
+        ? `Venue rental: ${event.venue.name} (${spaces.join(', ')})`
+        : `Venue rental: ${event.venue.name}`;
+
+    // One rental line per rate period when seasonal pricing applied
+    const lines: InvoiceLine[] = baseItems.some((item) => item.ruleId)
+      ? baseItems.map((item) => ({
+          description: `${rental} - ${item.ruleName ?? 'Standard rate'}`,
+          quantity: item.quantity,
+          unit: item.unit,
+          unitPrice: item.rate,
+          amount: item.amount,
+        }))
+      : [
+          {
+            description: rental,
+            quantity,
+            unit: isDaily ? 'day' : 'hour',
+            unitPrice: quantity > 0 ? basePrice / quantity : basePrice,
+            amount: basePrice,
+          },
+        ];
+
+    if (discountPercent > 0) {
+      const discountAmount = (basePrice * discountPercent) / 100;
+      lines.push(
+        this.flatLine(`Discount (${discountPercent}%)`, -discountAmount),
+      );
+    }
+
+    if (breakdown?.promoDiscount) {
+      lines.push(
+        this.flatLine(
+          `Promo code ${breakdown.promoCode}`,
+          -breakdown.promoDiscount,
+        ),
+      );
+    }
+
+    if (additionalFees > 0) {
+      lines.push(this.flatLine('Additional fees', additionalFees));
+    }
+
+    const taxLines: InvoiceTaxLine[] = charges.map((charge) => ({
+      label:
+        charge.calculation === ChargeCalculation.PERCENT
+          ? `${charge.name} ${charge.value}%`
+          : charge.name,
+      rate:
+        charge.calculation === ChargeCalculation.PERCENT ? charge.value : null,
+      amount: charge.amount,
+    }));
+    const taxTotal = taxLines.reduce((sum, line) => sum + line.amount, 0);
+    const subtotal = total - taxTotal;
+
+    // Final prices are rounded to whole rupiah
+    const lineTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    const rounding = Math.round((subtotal - lineTotal) * 100) / 100;
+    if (rounding !== 0) {
+      lines.push(this.flatLine('Rounding', rounding));
+    }
+
+    return {
+      subtotal,
+      taxTotal,
+      total,
+      lines,
+      taxLines,
+      snapshot: {
+        event: {
+          name: event.name,
+          startDatetime: event.startDatetime.toISOString(),
+          endDatetime: event.endDatetime.toISOString(),
+          rentalType: event.rentalType,
+          attendeeCount: event.attendeeCount,
+          spaces,
+        },
+        venue: {
+          name: event.venue.name,
+          address: event.venue.address,
+          city: event.venue.city,
+        },
+      },
+    };
+  }
+
+  // True when the event's current figures no longer match an issued invoice
+  // (compared field by field: MySQL does not keep JSON key order)
+  static differs(
+    issued: { total: Decimal | number; lines: unknown },
+    current: InvoiceDraft,
+  ): boolean {
+    const signature = (lines: InvoiceLine[]) =>
+      lines
+        .map((line) => `${line.description}|${line.quantity}|${line.amount}`)
+        .join('\n');
+
+    return (
+      Number(issued.total) !== current.total ||
+      signature(issued.lines as InvoiceLine[]) !== signature(current.lines)
+    );
+  }
+
+  private static flatLine(description: string, amount: number): InvoiceLine {
+    return { description, quantity: 1, unit: null, unitPrice: amount, amount };
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { EventStatus, Invoice, InvoiceStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentService } from './payment.service';
+import { InvoiceDocument, InvoiceHelper } from './invoice.helper';
+
+/**
+ * InvoiceService
+ * Issues numbered invoices as immutable snapshots of an event's charges.
+ * A price change never rewrites an issued invoice: the old one is voided
+ * and a new number is issued instead.
+ */
+@Injectable()
+export class InvoiceService {
+  private readonly logger = new Logger(InvoiceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paymentService: PaymentService,
+  ) {}
+
+  private async getEventOrFail(eventId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      include: {
+        venue: { select: { name: true, address: true, city: true } },
+        spaces: { select: { space: { select: { name: true } } } },
+      },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Event with ID "${eventId}" not found`);
+    }
+
+    return event;
+  }
+
+  /**
+   * All invoices of an event, newest first (including voided ones)
+   */
+  async getInvoices(eventId: string): Promise<Invoice[]> {
+    await this.getEventOrFail(eventId);
+
+    return this.prisma.invoice.findMany({
+      where: { eventId },
+      orderBy: { issuedAt: 'desc' },
+    });
+  }
+
+  /**
+   * The invoice currently in force, or null if none was issued
+   */
+  async getCurrentInvoice(eventId: string): Promise<Invoice | null> {
+    return this.prisma.invoice.findFirst({
+      where: { eventId, status: InvoiceStatus.ISSUED },
+      orderBy: { issuedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Current invoice plus whether the event's figures have changed since
+   */
+  async getInvoiceStatus(
+    eventId: string,
+  ): Promise<{ invoice: Invoice | null; isOutdated: boolean }> {
+    const [event, invoice] = await Promise.all([
+      this.getEventOrFail(eventId),
+      this.getCurrentInvoice(eventId),
+    ]);
+
+    return {
+      invoice,
+      isOutdated:
+        invoice !== null &&
+        InvoiceHelper.differs(invoice, InvoiceHelper.build(event)),
+    };
+  }
+
+  /**
+   * Issue an invoice for the event's current figures
+   * Voids the invoice in force, if any; refuses when nothing has changed.
+   * @param issuedById - Admin issuing the invoice (session.adminId)
+   */
+  async issueInvoice(eventId: string, issuedById?: string): Promise<Invoice> {
+    this.logger.log(`Issuing invoice for event: ${eventId}`);
+
+    const event = await this.getEventOrFail(eventId);
+
+    if (
+      event.status === EventStatus.CANCELLED ||
+      event.status === EventStatus.HOLD
+    ) {
+      throw new BadRequestException(
+        `Cannot invoice a ${event.status.toLowerCase()} event. Invoices are only issued for confirmed bookings.`,
+      );
+    }
+
+    if (event.finalPrice === null) {
+      throw new BadRequestException('Event has no price to invoice');
+    }
+
+    const draft = InvoiceHelper.build(event);
+    const current = await this.getCurrentInvoice(eventId);
+
+    if (current && !InvoiceHelper.differs(current, draft)) {
+      throw new BadRequestException(
+        `Invoice ${current.number} already matches the event's current figures`,
+      );
+    }
+
+    const issuedAt = new Date();
+    const year = issuedAt.getFullYear();
+
+    const invoice = await this.prisma.$transaction(async (tx) => {
+      if (current) {
+        await tx.invoice.update({
+          where: { id: current.id },
+          data: { status: InvoiceStatus.VOID, voidedAt: issuedAt },
+        });
+      }
+
+      // Row lock on the year's counter keeps numbers gap-free and unique
+      const { lastNumber } = await tx.invoiceSequence.upsert({
+        where: { year },
+        create: { year, lastNumber: 1 },
+        update: { lastNumber: { increment: 1 } },
+      });
+
+      return tx.invoice.create({
+        data: {
+          number: InvoiceHelper.formatNumber(year, lastNumber),
+          year,
+          sequence: lastNumber,
+          eventId,
+          subtotal: new Prisma.Decimal(draft.subtotal),
+          taxTotal: new Prisma.Decimal(draft.taxTotal),
+          total: new Prisma.Decimal(draft.total),
+          currency: event.currency,
+          lines: draft.lines as unknown as Prisma.InputJsonValue,
+          taxLines: draft.taxLines as unknown as Prisma.InputJsonValue,
+          snapshot: draft.snapshot as unknown as Prisma.InputJsonValue,
+          issuedById: issuedById || null,
+          issuedAt,
+        },
+      });
+    });
+
+    this.logger.log(
+      `Invoice issued: ${invoice.number} (event: ${eventId}${current ? `, replaces ${current.number}` : ''})`,
+    );
+    return invoice;
+  }
+
+  /**
+   * Everything needed to render the invoice and its receipt section
+   * Read-only: invoices are only issued through issueInvoice.
+   */
+  async getInvoiceDocument(eventId: string): Promise<InvoiceDocument> {
+    const invoice = await this.getCurrentInvoice(eventId);
+
+    if (!invoice) {
+      throw new NotFoundException(
+        `No invoice has been issued for event "${eventId}"`,
+      );
+    }
+
+    const { payments, summary } =
+      await this.paymentService.getPayments(eventId);
+
+    return {
+      invoice: invoice as InvoiceDocument['invoice'],
+      payments,
+      summary,
+      generatedAt: new Date(),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+  Session,
+  Req,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { PaymentService } from './payment.service';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/events/:eventId/payments')
+@UseGuards(ApiAuthGuard)
+export class PaymentApiController {
+  private readonly logger = new Logger(PaymentApiController.name);
+
+  constructor(private readonly paymentService: PaymentService) {}
+
+  /**
+   * GET /api/events/:eventId/payments
+   * Ledger entries with outstanding balance and payment status
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getPayments(@Param('eventId', ParseUUIDPipe) eventId: string) {
+    this.logger.log(
+      `[GET /api/events/${eventId}/payments] API: Fetching payment ledger`,
+    );
+
+    const ledger = await this.paymentService.getPayments(eventId);
+
+    return {
+      success: true,
+      message: 'Payments retrieved successfully',
+      data: ledger,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/events/:eventId/payments
+   * Record a deposit, installment or refund
+   */
+  @Post()
+  @RequirePermissions(Permission.PAYMENT_RECORD)
+  @HttpCode(HttpStatus.CREATED)
+  async recordPayment(
+    @Param('eventId', ParseUUIDPipe) eventId: string,
+    @Body() createPaymentDto: CreatePaymentDto,
+    @Session() session: Record<string, any>,
+    @Req() req: Request,
+  ) {
+    this.logger.log(
+      `[POST /api/events/${eventId}/payments] API: Recording ${createPaymentDto.type}`,
+    );
+
+    const payment = await this.paymentService.recordPayment(
+      eventId,
+      createPaymentDto,
+      req.apiToken?.adminId ?? session.adminId,
+    );
+    const summary = await this.paymentService.getPaymentSummary(eventId);
+
+    return {
+      success: true,
+      message: 'Payment recorded successfully',
+      data: { payment, summary },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
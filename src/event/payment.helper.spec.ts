@@ -0,0 +1,61 @@
+import { EventStatus, PaymentType } from '@prisma/client';
+import { PaymentHelper } from './payment.helper';
+
+describe('PaymentHelper', () => {
+  const now = new Date('2026-03-01T10:00:00.000Z');
+  const upcoming = {
+    finalPrice: 1000000,
+    status: EventStatus.UPCOMING,
+    startDatetime: new Date('2026-03-10T10:00:00.000Z'),
+  };
+
+  it('reports a partially paid balance after a deposit', () => {
+    const summary = PaymentHelper.summarize(
+      upcoming,
+      [{ type: PaymentType.DEPOSIT, amount: 300000 }],
+      now,
+    );
+
+    expect(summary.netPaid).toBe(300000);
+    expect(summary.outstanding).toBe(700000);
+    expect(summary.status).toBe('PARTIALLY_PAID');
+  });
+
+  it('nets refunds against receipts', () => {
+    const summary = PaymentHelper.summarize(
+      upcoming,
+      [
+        { type: PaymentType.DEPOSIT, amount: 600000 },
+        { type: PaymentType.INSTALLMENT, amount: 500000 },
+        { type: PaymentType.REFUND, amount: 100000 },
+      ],
+      now,
+    );
+
+    expect(summary.totalReceived).toBe(1100000);
+    expect(summary.totalRefunded).toBe(100000);
+    expect(summary.status).toBe('PAID');
+  });
+
+  it('marks an unpaid balance overdue once the event has started', () => {
+    const summary = PaymentHelper.summarize(
+      { ...upcoming, startDatetime: new Date('2026-02-28T10:00:00.000Z') },
+      [],
+      now,
+    );
+
+    expect(summary.status).toBe('OVERDUE');
+  });
+
+  it('owes back everything paid on a cancelled event', () => {
+    const summary = PaymentHelper.summarize(
+      { ...upcoming, status: EventStatus.CANCELLED },
+      [{ type: PaymentType.DEPOSIT, amount: 300000 }],
+      now,
+    );
+
+    expect(summary.amountDue).toBe(0);
+    expect(summary.refundDue).toBe(300000);
+    expect(summary.status).toBe('REFUND_DUE');
+  });
+});
@@ -0,0 +1,85 @@
+import { EventStatus, PaymentType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+// PAID means nothing is left to collect (including events with no charge)
+export type PaymentStatus =
+  | 'UNPAID'
+  | 'PARTIALLY_PAID'
+  | 'PAID'
+  | 'OVERDUE'
+  | 'REFUND_DUE';
+
+export interface LedgerEntry {
+  type: PaymentType;
+  amount: Decimal | number;
+}
+
+export interface PaymentSummary {
+  amountDue: number;
+  totalReceived: number;
+  totalRefunded: number;
+  netPaid: number;
+  outstanding: number;
+  refundDue: number;
+  status: PaymentStatus;
+}
+
+export class PaymentHelper {
+  // Signed effect of a ledger entry on the amount paid
+  static signedAmount(entry: LedgerEntry): number {
+    const amount = Number(entry.amount);
+    return entry.type === PaymentType.REFUND ? -amount : amount;
+  }
+
+  // Balance and derived payment status of an event
+  // Cancelled events owe nothing; anything still held is due back.
+  // Balances are due when the event starts.
+  static summarize(
+    event: {
+      finalPrice: Decimal | number | null;
+      status: EventStatus;
+      startDatetime: Date;
+    },
+    entries: LedgerEntry[],
+    now: Date = new Date(),
+  ): PaymentSummary {
+    const amountDue =
+      event.status === EventStatus.CANCELLED
+        ? 0
+        : Number(event.finalPrice || 0);
+
+    const totalReceived = entries
+      .filter((entry) => entry.type !== PaymentType.REFUND)
+      .reduce((sum, entry) => sum + Number(entry.amount), 0);
+    const totalRefunded = entries
+      .filter((entry) => entry.type === PaymentType.REFUND)
+      .reduce((sum, entry) => sum + Number(entry.amount), 0);
+    const netPaid = totalReceived - totalRefunded;
+
+    const outstanding = Math.max(amountDue - netPaid, 0);
+    const refundDue = Math.max(netPaid - amountDue, 0);
+
+    let status: PaymentStatus;
+    if (refundDue > 0) {
+      status = 'REFUND_DUE';
+    } else if (outstanding === 0) {
+      status = 'PAID';
+    } else if (event.startDatetime <= now) {
+      status = 'OVERDUE';
+    } else if (netPaid > 0) {
+      status = 'PARTIALLY_PAID';
+    } else {
+      status = 'UNPAID';
+    }
+
+    return {
+      amountDue,
+      totalReceived,
+      totalRefunded,
+      netPaid,
+      outstanding,
+      refundDue,
+      status,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventStatus, PaymentMethod, PaymentType } from '@prisma/client';
+import { PaymentService } from './payment.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('PaymentService', () => {
+  const event = {
+    id: 'e1',
+    name: 'Product launch',
+    status: EventStatus.UPCOMING,
+    startDatetime: new Date('2027-05-01T09:00:00.000Z'),
+    finalPrice: 1000000,
+    currency: 'IDR',
+    isPaid: false,
+  };
+
+  let service: PaymentService;
+  let tx: {
+    $queryRaw: jest.Mock;
+    event: {
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      update: jest.Mock;
+    };
+    payment: { findMany: jest.Mock; create: jest.Mock };
+  };
+  let auditService: { record: jest.Mock };
+
+  beforeEach(async () => {
+    tx = {
+      $queryRaw: jest.fn().mockResolvedValue([{ id: 'e1' }]),
+      event: {
+        findUnique: jest.fn().mockResolvedValue(event),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(event),
+        update: jest.fn().mockResolvedValue(event),
+      },
+      payment: {
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn().mockResolvedValue({
+          id: 'p1',
+          type: PaymentType.DEPOSIT,
+        }),
+      },
+    };
+    auditService = { record: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        {
+          provide: PrismaService,
+          useValue: {
+            $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+              callback(tx),
+            ),
+          },
+        },
+        { provide: AuditService, useValue: auditService },
+      ],
+    }).compile();
+
+    service = module.get<PaymentService>(PaymentService);
+  });
+
+  describe('recordPayment', () => {
+    const deposit = {
+      type: PaymentType.DEPOSIT,
+      amount: 600000,
+      method: PaymentMethod.BANK_TRANSFER,
+    };
+
+    it('locks the event before reading the balance it checks', async () => {
+      await service.recordPayment('e1', deposit, 'a1');
+
+      expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.payment.findMany.mock.invocationCallOrder[0],
+      );
+      expect(tx.payment.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses a receipt over the balance left by an entry recorded meanwhile', async () => {
+      tx.payment.findMany.mockResolvedValue([
+        { type: PaymentType.DEPOSIT, amount: 600000, paidAt: new Date() },
+      ]);
+
+      await expect(service.recordPayment('e1', deposit)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(tx.payment.create).not.toHaveBeenCalled();
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+});
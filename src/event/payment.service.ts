@@ -0,0 +1,218 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import {
+  AuditAction,
+  AuditEntityType,
+  Payment,
+  PaymentType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+import { PaymentHelper, PaymentSummary } from './payment.helper';
+import { PricingHelper } from './pricing.helper';
+
+/**
+ * PaymentService
+ * Append-only payment ledger per event. Event.isPaid / paymentDate are kept
+ * as a cache of the ledger for list filters and badges.
+ */
+@Injectable()
+export class PaymentService {
+  private readonly logger = new Logger(PaymentService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  private async getEventOrFail(
+    eventId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const event = await tx.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        startDatetime: true,
+        finalPrice: true,
+        currency: true,
+      },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Event with ID "${eventId}" not found`);
+    }
+
+    return event;
+  }
+
+  /**
+   * Ledger entries of an event, oldest first, with the running balance
+   */
+  async getPayments(
+    eventId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<{
+    payments: Payment[];
+    summary: PaymentSummary;
+    currency: string;
+  }> {
+    const event = await this.getEventOrFail(eventId, tx);
+
+    const payments = await tx.payment.findMany({
+      where: { eventId },
+      include: {
+        recordedBy: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: [{ paidAt: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return {
+      payments,
+      summary: PaymentHelper.summarize(event, payments),
+      currency: event.currency,
+    };
+  }
+
+  /**
+   * Outstanding balance and derived status of an event
+   */
+  async getPaymentSummary(eventId: string): Promise<PaymentSummary> {
+    const { summary } = await this.getPayments(eventId);
+    return summary;
+  }
+
+  /**
+   * Record a deposit, installment or refund
+   * Receipts may not exceed the outstanding balance and refunds may not
+   * exceed what has been paid.
+   * @param recordedById - Admin recording the entry (session.adminId)
+   */
+  async recordPayment(
+    eventId: string,
+    createPaymentDto: CreatePaymentDto,
+    recordedById?: string,
+  ): Promise<Payment> {
+    this.logger.log(
+      `Recording ${createPaymentDto.type} of ${createPaymentDto.amount} for event: ${eventId}`,
+    );
+
+    const amount = createPaymentDto.amount;
+    const paidAt = createPaymentDto.paidAt
+      ? new Date(createPaymentDto.paidAt)
+      : new Date();
+
+    if (paidAt > new Date()) {
+      throw new BadRequestException('Payment date cannot be in the future');
+    }
+
+    const { payment, currency } = await this.prisma.$transaction(async (tx) => {
+      // Lock the event so concurrent entries are checked against the
+      // balance one after another
+      await tx.$queryRaw`SELECT id FROM events WHERE id = ${eventId} FOR UPDATE`;
+
+      const { summary, currency } = await this.getPayments(eventId, tx);
+      const format = (value: number) =>
+        PricingHelper.formatCurrency(value, currency);
+
+      if (createPaymentDto.type === PaymentType.REFUND) {
+        if (amount > summary.netPaid) {
+          throw new BadRequestException(
+            `Refund of ${format(amount)} exceeds the amount paid (${format(summary.netPaid)})`,
+          );
+        }
+      } else if (amount > summary.outstanding) {
+        throw new BadRequestException(
+          summary.outstanding === 0
+            ? 'This event has no outstanding balance'
+            : `Payment of ${format(amount)} exceeds the outstanding balance (${format(summary.outstanding)})`,
+        );
+      }
+
+      const created = await tx.payment.create({
+        data: {
+          eventId,
+          type: createPaymentDto.type,
+          amount: new Prisma.Decimal(amount),
+          method: createPaymentDto.method,
+          reference: createPaymentDto.reference || null,
+          notes: createPaymentDto.notes || null,
+          recordedById: recordedById || null,
+          paidAt,
+        },
+      });
+
+      await this.refreshPaymentStatus(eventId, tx);
+      return { payment: created, currency };
+    });
+
+    this.logger.log(`Payment recorded: ${payment.id} (event: ${eventId})`);
+
+    await this.auditService.record({
+      action: AuditAction.CREATE,
+      entityType: AuditEntityType.PAYMENT,
+      entityId: payment.id,
+      entityLabel: `${payment.type} ${PricingHelper.formatCurrency(amount, currency)}`,
+      parentId: eventId,
+      after: payment,
+    });
+
+    return payment;
+  }
+
+  /**
+   * Re-derive Event.isPaid / paymentDate from the ledger
+   * Call after any change to the ledger or to the event price or status
+   */
+  async refreshPaymentStatus(
+    eventId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<PaymentSummary> {
+    const [event, payments] = await Promise.all([
+      tx.event.findUniqueOrThrow({
+        where: { id: eventId },
+        select: {
+          finalPrice: true,
+          status: true,
+          startDatetime: true,
+          isPaid: true,
+        },
+      }),
+      tx.payment.findMany({
+        where: { eventId },
+        select: { type: true, amount: true, paidAt: true },
+        orderBy: { paidAt: 'asc' },
+      }),
+    ]);
+
+    const summary = PaymentHelper.summarize(event, payments);
+    const isPaid = summary.amountDue > 0 && summary.outstanding === 0;
+
+    if (isPaid !== event.isPaid) {
+      // Settled on the receipt that brought the running total to the price
+      let runningTotal = 0;
+      const settledBy = payments.find((payment) => {
+        runningTotal += PaymentHelper.signedAmount(payment);
+        return runningTotal >= summary.amountDue;
+      });
+
+      await tx.event.update({
+        where: { id: eventId },
+        data: {
+          isPaid,
+          paymentDate: isPaid ? (settledBy?.paidAt ?? new Date()) : null,
+        },
+      });
+    }
+
+    return summary;
+  }
+}
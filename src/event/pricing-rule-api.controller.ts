@@ -0,0 +1,199 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { PricingRuleService } from './pricing-rule.service';
+import { CreatePricingRuleDto } from './dto/create-pricing-rule.dto';
+import { UpdatePricingRuleDto } from './dto/update-pricing-rule.dto';
+import { CreateHolidayDto } from './dto/create-holiday.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/pricing-rules')
+@UseGuards(ApiAuthGuard)
+export class PricingRuleApiController {
+  private readonly logger = new Logger(PricingRuleApiController.name);
+
+  constructor(private readonly pricingRuleService: PricingRuleService) {}
+
+  /**
+   * GET /api/pricing-rules/holidays?venueId=
+   * Holiday calendar (a venue's own dates plus global ones)
+   */
+  @Get('holidays')
+  @HttpCode(HttpStatus.OK)
+  async getHolidays(
+    @Query('venueId', new ParseUUIDPipe({ optional: true })) venueId?: string,
+  ) {
+    this.logger.log(`[GET /api/pricing-rules/holidays] API: Listing holidays`);
+
+    const holidays = await this.pricingRuleService.getHolidays(venueId);
+
+    return {
+      success: true,
+      message: 'Holidays retrieved successfully',
+      data: holidays,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/pricing-rules/holidays
+   */
+  @Post('holidays')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.CREATED)
+  async createHoliday(@Body() createHolidayDto: CreateHolidayDto) {
+    this.logger.log(
+      `[POST /api/pricing-rules/holidays] API: Adding holiday: ${createHolidayDto.name}`,
+    );
+
+    const holiday =
+      await this.pricingRuleService.createHoliday(createHolidayDto);
+
+    return {
+      success: true,
+      message: 'Holiday added successfully',
+      data: holiday,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * DELETE /api/pricing-rules/holidays/:id
+   */
+  @Delete('holidays/:id')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async deleteHoliday(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(
+      `[DELETE /api/pricing-rules/holidays/${id}] API: Deleting holiday`,
+    );
+
+    const result = await this.pricingRuleService.deleteHoliday(id);
+
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/pricing-rules?venueId=
+   * List seasonal and time-of-day pricing rules
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getRules(
+    @Query('venueId', new ParseUUIDPipe({ optional: true })) venueId?: string,
+  ) {
+    this.logger.log(`[GET /api/pricing-rules] API: Listing pricing rules`);
+
+    const rules = await this.pricingRuleService.getRules(venueId);
+
+    return {
+      success: true,
+      message: 'Pricing rules retrieved successfully',
+      data: rules,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/pricing-rules/:id
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getRuleById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(
+      `[GET /api/pricing-rules/${id}] API: Fetching pricing rule`,
+    );
+
+    const rule = await this.pricingRuleService.getRuleById(id);
+
+    return {
+      success: true,
+      message: 'Pricing rule retrieved successfully',
+      data: rule,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/pricing-rules
+   */
+  @Post()
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.CREATED)
+  async createRule(@Body() createPricingRuleDto: CreatePricingRuleDto) {
+    this.logger.log(
+      `[POST /api/pricing-rules] API: Creating pricing rule: ${createPricingRuleDto.name}`,
+    );
+
+    const rule = await this.pricingRuleService.createRule(createPricingRuleDto);
+
+    return {
+      success: true,
+      message: 'Pricing rule created successfully',
+      data: rule,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * PATCH /api/pricing-rules/:id
+   */
+  @Patch(':id')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async updateRule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updatePricingRuleDto: UpdatePricingRuleDto,
+  ) {
+    this.logger.log(`[PATCH /api/pricing-rules/${id}] API: Updating rule`);
+
+    const rule = await this.pricingRuleService.updateRule(
+      id,
+      updatePricingRuleDto,
+    );
+
+    return {
+      success: true,
+      message: 'Pricing rule updated successfully',
+      data: rule,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * DELETE /api/pricing-rules/:id
+   * Existing event prices keep the rates they were calculated with
+   */
+  @Delete(':id')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async deleteRule(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[DELETE /api/pricing-rules/${id}] API: Deleting rule`);
+
+    const result = await this.pricingRuleService.deleteRule(id);
+
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
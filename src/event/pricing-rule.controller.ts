@@ -0,0 +1,222 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Render,
+  Res,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { PricingRuleService } from './pricing-rule.service';
+import { CreatePricingRuleDto } from './dto/create-pricing-rule.dto';
+import { CreateHolidayDto } from './dto/create-holiday.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+import { VenueService } from '../venue/venue.service';
+
+@Controller('pricing-rules')
+@UseGuards(AuthGuard)
+export class PricingRuleController {
+  private readonly logger = new Logger(PricingRuleController.name);
+
+  constructor(
+    private readonly pricingRuleService: PricingRuleService,
+    private readonly venueService: VenueService,
+  ) {}
+
+  /**
+   * GET /pricing-rules
+   * Seasonal and time-of-day rates plus the holiday calendar
+   * Renders: views/pricing-rules/list.ejs
+   */
+  @Get()
+  @Render('pricing-rules/list')
+  async getRulesPage(
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log('[GET /pricing-rules] Rendering pricing rules page');
+
+    let success: string | null = null;
+    if (successMessage === 'created') {
+      success = 'Pricing rule created successfully!';
+    } else if (successMessage === 'updated') {
+      success = 'Pricing rule updated successfully!';
+    } else if (successMessage === 'deleted') {
+      success = 'Pricing rule deleted successfully!';
+    } else if (successMessage === 'holiday-added') {
+      success = 'Holiday added successfully!';
+    } else if (successMessage === 'holiday-deleted') {
+      success = 'Holiday deleted successfully!';
+    }
+
+    try {
+      const [rules, holidays, venuesResult] = await Promise.all([
+        this.pricingRuleService.getRules(),
+        this.pricingRuleService.getHolidays(),
+        this.venueService.getAllVenues({
+          page: 1,
+          limit: 100,
+          sortBy: 'name',
+          sortOrder: 'asc',
+        }),
+      ]);
+
+      return {
+        title: 'Seasonal Pricing',
+        rules,
+        holidays,
+        venues: venuesResult.data,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load pricing rules: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Seasonal Pricing',
+        rules: [],
+        holidays: [],
+        venues: [],
+        error: 'Failed to load pricing rules. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /pricing-rules
+  @Post()
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async createRule(
+    @Body() createPricingRuleDto: CreatePricingRuleDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /pricing-rules] Creating pricing rule: ${createPricingRuleDto.name}`,
+    );
+
+    try {
+      await this.pricingRuleService.createRule(createPricingRuleDto);
+      return res.redirect('/pricing-rules?success=created');
+    } catch (error) {
+      this.logger.error(
+        `Failed to create pricing rule: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/pricing-rules?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /pricing-rules/holidays
+  @Post('holidays')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async createHoliday(
+    @Body() createHolidayDto: CreateHolidayDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /pricing-rules/holidays] Adding holiday: ${createHolidayDto.name}`,
+    );
+
+    try {
+      await this.pricingRuleService.createHoliday(createHolidayDto);
+      return res.redirect('/pricing-rules?success=holiday-added');
+    } catch (error) {
+      this.logger.error(`Failed to add holiday: ${error.message}`, error.stack);
+
+      return res.redirect(
+        `/pricing-rules?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /pricing-rules/holidays/:id/delete
+  @Post('holidays/:id/delete')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async deleteHoliday(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /pricing-rules/holidays/${id}/delete] Deleting`);
+
+    try {
+      await this.pricingRuleService.deleteHoliday(id);
+      return res.redirect('/pricing-rules?success=holiday-deleted');
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete holiday ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/pricing-rules?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /pricing-rules/:id/toggle-active
+  @Post(':id/toggle-active')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async toggleRuleActive(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /pricing-rules/${id}/toggle-active] Toggling pricing rule`,
+    );
+
+    try {
+      const rule = await this.pricingRuleService.getRuleById(id);
+      await this.pricingRuleService.updateRule(id, {
+        isActive: !rule.isActive,
+      });
+
+      return res.redirect('/pricing-rules?success=updated');
+    } catch (error) {
+      this.logger.error(
+        `Failed to toggle pricing rule ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/pricing-rules?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /pricing-rules/:id/delete
+  @Post(':id/delete')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async deleteRule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /pricing-rules/${id}/delete] Deleting pricing rule`);
+
+    try {
+      await this.pricingRuleService.deleteRule(id);
+      return res.redirect('/pricing-rules?success=deleted');
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete pricing rule ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/pricing-rules?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import {
+  Holiday,
+  PricingAdjustment,
+  PricingRule,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreatePricingRuleDto } from './dto/create-pricing-rule.dto';
+import { UpdatePricingRuleDto } from './dto/update-pricing-rule.dto';
+import { CreateHolidayDto } from './dto/create-holiday.dto';
+import { PricingSchedule } from './pricing.helper';
+
+/**
+ * PricingRuleService
+ * Seasonal and time-of-day venue rates plus the holiday calendar they use.
+ * Like taxes and charges, changes only affect prices calculated afterwards.
+ */
+@Injectable()
+export class PricingRuleService {
+  private readonly logger = new Logger(PricingRuleService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  private async ensureVenueExists(venueId: string): Promise<void> {
+    const venue = await this.prisma.venue.findUnique({
+      where: { id: venueId },
+      select: { id: true },
+    });
+
+    if (!venue) {
+      throw new NotFoundException(`Venue with ID "${venueId}" not found`);
+    }
+  }
+
+  // Adjustment values and date range of the rule as it would be saved
+  private validateRule(rule: {
+    adjustment: PricingAdjustment;
+    multiplier: Prisma.Decimal | number | null;
+    pricePerHour: Prisma.Decimal | number | null;
+    pricePerDay: Prisma.Decimal | number | null;
+    dateFrom: Date | null;
+    dateTo: Date | null;
+  }): void {
+    if (rule.adjustment === PricingAdjustment.MULTIPLIER && !rule.multiplier) {
+      throw new BadRequestException('Multiplier rules need a multiplier');
+    }
+
+    if (
+      rule.adjustment === PricingAdjustment.OVERRIDE &&
+      rule.pricePerHour === null &&
+      rule.pricePerDay === null
+    ) {
+      throw new BadRequestException(
+        'Override rules need an hourly or daily price',
+      );
+    }
+
+    if (rule.dateFrom && rule.dateTo && rule.dateTo < rule.dateFrom) {
+      throw new BadRequestException('Date to must not be before the date from');
+    }
+  }
+
+  /**
+   * List rules, highest priority first
+   * @param venueId - Only this venue's rules
+   */
+  async getRules(venueId?: string) {
+    return this.prisma.pricingRule.findMany({
+      where: venueId ? { venueId } : {},
+      include: {
+        venue: { select: { id: true, name: true, currency: true } },
+      },
+      orderBy: [{ venueId: 'asc' }, { priority: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  async getRuleById(id: string): Promise<PricingRule> {
+    const rule = await this.prisma.pricingRule.findUnique({ where: { id } });
+
+    if (!rule) {
+      throw new NotFoundException(`Pricing rule with ID "${id}" not found`);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Active rules and holidays needed to price a booking at the venue
+   */
+  async getSchedule(
+    venueId: string,
+    startDatetime: Date,
+    endDatetime: Date,
+  ): Promise<PricingSchedule> {
+    // Whole days around the window, holidays are DATE columns
+    const from = new Date(startDatetime.getTime() - 24 * 60 * 60 * 1000);
+    const to = new Date(endDatetime.getTime() + 24 * 60 * 60 * 1000);
+
+    const [rules, holidays] = await Promise.all([
+      this.prisma.pricingRule.findMany({
+        where: { venueId, isActive: true },
+      }),
+      this.prisma.holiday.findMany({
+        where: {
+          OR: [{ venueId }, { venueId: null }],
+          date: { gte: from, lte: to },
+        },
+        select: { date: true },
+      }),
+    ]);
+
+    return {
+      start: startDatetime,
+      rules,
+      holidays: holidays.map((holiday) => holiday.date),
+    };
+  }
+
+  async createRule(
+    createPricingRuleDto: CreatePricingRuleDto,
+  ): Promise<PricingRule> {
+    this.logger.log(`Creating pricing rule: ${createPricingRuleDto.name}`);
+
+    await this.ensureVenueExists(createPricingRuleDto.venueId);
+
+    const data = {
+      adjustment: createPricingRuleDto.adjustment,
+      multiplier: createPricingRuleDto.multiplier ?? null,
+      pricePerHour: createPricingRuleDto.pricePerHour ?? null,
+      pricePerDay: createPricingRuleDto.pricePerDay ?? null,
+      dateFrom: createPricingRuleDto.dateFrom
+        ? new Date(createPricingRuleDto.dateFrom)
+        : null,
+      dateTo: createPricingRuleDto.dateTo
+        ? new Date(createPricingRuleDto.dateTo)
+        : null,
+    };
+
+    this.validateRule(data);
+
+    const rule = await this.prisma.pricingRule.create({
+      data: {
+        ...data,
+        venueId: createPricingRuleDto.venueId,
+        name: createPricingRuleDto.name.trim(),
+        daysOfWeek: createPricingRuleDto.daysOfWeek?.length
+          ? createPricingRuleDto.daysOfWeek.join(',')
+          : null,
+        startTime: createPricingRuleDto.startTime || null,
+        endTime: createPricingRuleDto.endTime || null,
+        holidaysOnly: createPricingRuleDto.holidaysOnly ?? false,
+        priority: createPricingRuleDto.priority ?? 0,
+        isActive: createPricingRuleDto.isActive ?? true,
+      },
+    });
+
+    this.logger.log(`Pricing rule created: ${rule.name} (ID: ${rule.id})`);
+    return rule;
+  }
+
+  async updateRule(
+    id: string,
+    updatePricingRuleDto: UpdatePricingRuleDto,
+  ): Promise<PricingRule> {
+    this.logger.log(`Updating pricing rule: ${id}`);
+
+    const existing = await this.getRuleById(id);
+
+    const values = {
+      adjustment: updatePricingRuleDto.adjustment ?? existing.adjustment,
+      multiplier:
+        updatePricingRuleDto.multiplier !== undefined
+          ? updatePricingRuleDto.multiplier
+          : existing.multiplier,
+      pricePerHour:
+        updatePricingRuleDto.pricePerHour !== undefined
+          ? updatePricingRuleDto.pricePerHour
+          : existing.pricePerHour,
+      pricePerDay:
+        updatePricingRuleDto.pricePerDay !== undefined
+          ? updatePricingRuleDto.pricePerDay
+          : existing.pricePerDay,
+      dateFrom:
+        updatePricingRuleDto.dateFrom !== undefined
+          ? new Date(updatePricingRuleDto.dateFrom)
+          : existing.dateFrom,
+      dateTo:
+        updatePricingRuleDto.dateTo !== undefined
+          ? new Date(updatePricingRuleDto.dateTo)
+          : existing.dateTo,
+    };
+
+    this.validateRule(values);
+
+    const updateData: Prisma.PricingRuleUncheckedUpdateInput = {
+      ...values,
+    };
+
+    if (updatePricingRuleDto.name !== undefined) {
+      updateData.name = updatePricingRuleDto.name.trim();
+    }
+
+    if (updatePricingRuleDto.daysOfWeek !== undefined) {
+      updateData.daysOfWeek = updatePricingRuleDto.daysOfWeek.length
+        ? updatePricingRuleDto.daysOfWeek.join(',')
+        : null;
+    }
+
+    if (updatePricingRuleDto.startTime !== undefined) {
+      updateData.startTime = updatePricingRuleDto.startTime;
+    }
+
+    if (updatePricingRuleDto.endTime !== undefined) {
+      updateData.endTime = updatePricingRuleDto.endTime;
+    }
+
+    if (updatePricingRuleDto.holidaysOnly !== undefined) {
+      updateData.holidaysOnly = updatePricingRuleDto.holidaysOnly;
+    }
+
+    if (updatePricingRuleDto.priority !== undefined) {
+      updateData.priority = updatePricingRuleDto.priority;
+    }
+
+    if (updatePricingRuleDto.isActive !== undefined) {
+      updateData.isActive = updatePricingRuleDto.isActive;
+    }
+
+    const rule = await this.prisma.pricingRule.update({
+      where: { id },
+      data: updateData,
+    });
+
+    this.logger.log(`Pricing rule updated: ${rule.name} (ID: ${id})`);
+    return rule;
+  }
+
+  async deleteRule(id: string) {
+    this.logger.log(`Deleting pricing rule: ${id}`);
+
+    await this.getRuleById(id);
+    await this.prisma.pricingRule.delete({ where: { id } });
+
+    this.logger.log(`Pricing rule deleted successfully: ${id}`);
+    return { message: 'Pricing rule deleted successfully', ruleId: id };
+  }
+
+  /**
+   * Holiday calendar, soonest first
+   * @param venueId - Only holidays observed by this venue (its own + global)
+   */
+  async getHolidays(venueId?: string) {
+    return this.prisma.holiday.findMany({
+      where: venueId ? { OR: [{ venueId }, { venueId: null }] } : {},
+      include: { venue: { select: { id: true, name: true } } },
+      orderBy: [{ date: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async createHoliday(createHolidayDto: CreateHolidayDto): Promise<Holiday> {
+    this.logger.log(
+      `Adding holiday ${createHolidayDto.name} on ${createHolidayDto.date}`,
+    );
+
+    if (createHolidayDto.venueId) {
+      await this.ensureVenueExists(createHolidayDto.venueId);
+    }
+
+    return this.prisma.holiday.create({
+      data: {
+        venueId: createHolidayDto.venueId || null,
+        date: new Date(createHolidayDto.date),
+        name: createHolidayDto.name.trim(),
+      },
+    });
+  }
+
+  async deleteHoliday(id: string) {
+    this.logger.log(`Deleting holiday: ${id}`);
+
+    const holiday = await this.prisma.holiday.findUnique({ where: { id } });
+
+    if (!holiday) {
+      throw new NotFoundException(`Holiday with ID "${id}" not found`);
+    }
+
+    await this.prisma.holiday.delete({ where: { id } });
+
+    return { message: 'Holiday deleted successfully', holidayId: id };
+  }
+}
@@ -0,0 +1,285 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  ChargeCalculation,
+  ChargeType,
+  DiscountType,
+  PricingAdjustment,
+  RentalType,
+} from '@prisma/client';
+import {
+  ChargeRuleInput,
+  PricingHelper,
+  PricingRuleInput,
+} from './pricing.helper';
+
+describe('PricingHelper', () => {
+  const rule = (overrides: Partial<ChargeRuleInput>): ChargeRuleInput => ({
+    id: overrides.name ?? 'rule',
+    venueId: null,
+    name: 'Rule',
+    type: ChargeType.TAX,
+    calculation: ChargeCalculation.PERCENT,
+    value: 10,
+    isCompound: false,
+    priority: 0,
+    effectiveFrom: null,
+    effectiveTo: null,
+    ...overrides,
+  });
+
+  describe('calculatePriceBreakdown', () => {
+    it('keeps the discount-and-fees price when no charges apply', () => {
+      const breakdown = PricingHelper.calculatePriceBreakdown(
+        1000000,
+        10,
+        50000,
+      );
+
+      expect(breakdown.netPrice).toBe(950000);
+      expect(breakdown.charges).toEqual([]);
+      expect(breakdown.finalPrice).toBe(950000);
+    });
+
+    it('applies charges in order, compounding only where flagged', () => {
+      const breakdown = PricingHelper.calculatePriceBreakdown(1000000, 0, 0, [
+        rule({
+          name: 'Service charge',
+          type: ChargeType.SERVICE_CHARGE,
+          value: 5,
+        }),
+        rule({ name: 'PPN', value: 11, isCompound: true }),
+        rule({
+          name: 'Cleaning',
+          calculation: ChargeCalculation.FLAT,
+          value: 25000,
+        }),
+      ]);
+
+      expect(breakdown.charges.map((charge) => charge.amount)).toEqual([
+        50000, 115500, 25000,
+      ]);
+      expect(breakdown.charges[1].base).toBe(1050000);
+      expect(breakdown.chargeTotal).toBe(190500);
+      expect(breakdown.finalPrice).toBe(1190500);
+    });
+
+    it('takes a promo code off the discounted price, before fees', () => {
+      const percent = PricingHelper.calculatePriceBreakdown(
+        1000000,
+        10,
+        50000,
+        [],
+        [],
+        { code: 'EARLY', discountType: DiscountType.PERCENT, value: 20 },
+      );
+
+      expect(percent.promoCode).toBe('EARLY');
+      expect(percent.promoDiscount).toBe(180000);
+      expect(percent.finalPrice).toBe(770000);
+
+      const fixed = PricingHelper.calculatePriceBreakdown(
+        100000,
+        0,
+        50000,
+        [],
+        [],
+        { code: 'VIP', discountType: DiscountType.FIXED, value: 250000 },
+      );
+
+      expect(fixed.promoDiscount).toBe(100000);
+      expect(fixed.finalPrice).toBe(50000);
+    });
+
+    it('rounds to the minor unit of the currency', () => {
+      const breakdown = PricingHelper.calculatePriceBreakdown(
+        99.99,
+        0,
+        0,
+        [rule({ name: 'Sales tax', value: 11 })],
+        [],
+        { code: 'EARLY', discountType: DiscountType.PERCENT, value: 15 },
+        'USD',
+      );
+
+      expect(breakdown.promoDiscount).toBe(15);
+      expect(breakdown.charges[0].amount).toBe(9.35);
+      expect(breakdown.finalPrice).toBe(94.34);
+    });
+  });
+
+  describe('selectChargeRules', () => {
+    const date = new Date(2026, 5, 15, 19, 0);
+
+    it('skips rules outside their effective dates', () => {
+      const rules = PricingHelper.selectChargeRules(
+        [
+          rule({ name: 'Current', effectiveTo: new Date('2026-06-15') }),
+          rule({ name: 'Expired', effectiveTo: new Date('2026-06-14') }),
+          rule({ name: 'Future', effectiveFrom: new Date('2026-06-16') }),
+        ],
+        date,
+      );
+
+      expect(rules.map((r) => r.name)).toEqual(['Current']);
+    });
+
+    it('lets a venue rule replace the global rule of the same name', () => {
+      const rules = PricingHelper.selectChargeRules(
+        [
+          rule({ name: 'PPN', priority: 2 }),
+          rule({ name: 'Service charge', priority: 1 }),
+          rule({ id: 'venue-ppn', name: 'ppn', venueId: 'v1', priority: 2 }),
+        ],
+        date,
+      );
+
+      expect(rules.map((r) => r.id)).toEqual(['Service charge', 'venue-ppn']);
+    });
+  });
+
+  describe('calculateBaseItems', () => {
+    const pricingRule = (
+      overrides: Partial<PricingRuleInput>,
+    ): PricingRuleInput => ({
+      id: overrides.name ?? 'pricing-rule',
+      name: 'Pricing rule',
+      daysOfWeek: null,
+      startTime: null,
+      endTime: null,
+      dateFrom: null,
+      dateTo: null,
+      holidaysOnly: false,
+      adjustment: PricingAdjustment.MULTIPLIER,
+      multiplier: 1,
+      pricePerHour: null,
+      pricePerDay: null,
+      priority: 0,
+      ...overrides,
+    });
+
+    it('prices each hour by the time-of-day rule in force', () => {
+      // Friday 16:00 - 20:00, peak rate from 18:00
+      const schedule = {
+        start: new Date(2026, 5, 12, 16, 0),
+        rules: [
+          pricingRule({
+            name: 'Peak evening',
+            daysOfWeek: 'FR,SA',
+            startTime: '18:00',
+            endTime: '23:00',
+            multiplier: 1.5,
+          }),
+        ],
+        holidays: [],
+      };
+
+      const items = PricingHelper.calculateBaseItems(
+        RentalType.HOURLY,
+        new Decimal(100000),
+        null,
+        4,
+        schedule,
+      );
+
+      expect(
+        items.map(({ quantity, rate, ruleName }) => ({
+          quantity,
+          rate,
+          ruleName,
+        })),
+      ).toEqual([
+        { quantity: 2, rate: 100000, ruleName: null },
+        { quantity: 2, rate: 150000, ruleName: 'Peak evening' },
+      ]);
+      expect(
+        PricingHelper.calculateBasePrice(
+          RentalType.HOURLY,
+          new Decimal(100000),
+          null,
+          4,
+          schedule,
+        ),
+      ).toBe(500000);
+    });
+
+    it('lets the highest-priority rule win and skips time windows for daily rentals', () => {
+      const items = PricingHelper.calculateBaseItems(
+        RentalType.DAILY,
+        null,
+        new Decimal(2000000),
+        48,
+        {
+          start: new Date(2026, 5, 13, 10, 0), // Saturday
+          rules: [
+            pricingRule({
+              name: 'Weekend',
+              daysOfWeek: 'SA,SU',
+              multiplier: 1.2,
+            }),
+            pricingRule({
+              name: 'Holiday',
+              holidaysOnly: true,
+              adjustment: PricingAdjustment.OVERRIDE,
+              pricePerDay: 3000000,
+              priority: 5,
+            }),
+            pricingRule({
+              name: 'Night',
+              startTime: '22:00',
+              endTime: '06:00',
+              multiplier: 2,
+              priority: 10,
+            }),
+          ],
+          holidays: [new Date('2026-06-14')],
+        },
+      );
+
+      expect(items.map((item) => [item.ruleName, item.amount])).toEqual([
+        ['Weekend', 2400000],
+        ['Holiday', 3000000],
+      ]);
+    });
+
+    it('matches time windows that run past midnight', () => {
+      const rules = [
+        pricingRule({ name: 'Night', startTime: '22:00', endTime: '06:00' }),
+      ];
+      const at = (hour: number) =>
+        PricingHelper.matchPricingRule(
+          rules,
+          new Date(2026, 5, 12, hour, 0),
+          new Set(),
+        )?.name ?? null;
+
+      expect([at(23), at(2), at(6), at(12)]).toEqual([
+        'Night',
+        'Night',
+        null,
+        null,
+      ]);
+    });
+  });
+
+  describe('combineSpaceRates', () => {
+    it('adds up the rates of every selected space', () => {
+      const rates = PricingHelper.combineSpaceRates([
+        { pricePerHour: new Decimal(100000), pricePerDay: new Decimal(800000) },
+        { pricePerHour: new Decimal(50000), pricePerDay: new Decimal(300000) },
+      ]);
+
+      expect(Number(rates.pricePerHour)).toBe(150000);
+      expect(Number(rates.pricePerDay)).toBe(1100000);
+    });
+
+    it('drops a rate that any selected space does not define', () => {
+      const rates = PricingHelper.combineSpaceRates([
+        { pricePerHour: new Decimal(100000), pricePerDay: new Decimal(800000) },
+        { pricePerHour: null, pricePerDay: new Decimal(300000) },
+      ]);
+
+      expect(rates.pricePerHour).toBeNull();
+      expect(Number(rates.pricePerDay)).toBe(1100000);
+    });
+  });
+});
@@ -1,5 +1,93 @@
 import { Decimal } from '@prisma/client/runtime/library';
-import { RentalType } from '@prisma/client';
+import {
+  ChargeCalculation,
+  ChargeType,
+  DiscountType,
+  PricingAdjustment,
+  RentalType,
+} from '@prisma/client';
+import { WEEKDAY_CODES } from './recurrence.helper';
+
+export interface PricingRuleInput {
+  id: string;
+  name: string;
+  daysOfWeek: string | null; // "FR,SA"
+  startTime: string | null; // "HH:MM"
+  endTime: string | null;
+  dateFrom: Date | null;
+  dateTo: Date | null;
+  holidaysOnly: boolean;
+  adjustment: PricingAdjustment;
+  multiplier: Decimal | number | null;
+  pricePerHour: Decimal | number | null;
+  pricePerDay: Decimal | number | null;
+  priority: number;
+}
+
+// Seasonal and time-of-day rules evaluated across the booking window
+export interface PricingSchedule {
+  start: Date;
+  rules: PricingRuleInput[];
+  holidays: Date[]; // Holiday calendar dates for the venue
+}
+
+// Consecutive hours (or days) billed at the same rate
+export interface BasePriceItem {
+  from: string;
+  to: string;
+  quantity: number;
+  unit: 'hour' | 'day';
+  rate: number;
+  amount: number;
+  ruleId: string | null; // Null = normal venue rate
+  ruleName: string | null;
+}
+
+export interface ChargeRuleInput {
+  id: string;
+  venueId: string | null;
+  name: string;
+  type: ChargeType;
+  calculation: ChargeCalculation;
+  value: Decimal | number;
+  isCompound: boolean;
+  priority: number;
+  effectiveFrom: Date | null;
+  effectiveTo: Date | null;
+}
+
+export interface AppliedCharge {
+  ruleId: string;
+  name: string;
+  type: ChargeType;
+  calculation: ChargeCalculation;
+  value: number; // Percent or flat amount
+  isCompound: boolean;
+  base: number; // Amount the percentage was taken of
+  amount: number;
+}
+
+// Promo code applied after the manual discount
+export interface PromoDiscountInput {
+  code: string;
+  discountType: DiscountType;
+  value: Decimal | number; // Percent or fixed amount
+}
+
+// Stored on Event.priceBreakdown
+export interface PriceBreakdown {
+  basePrice: number;
+  baseItems: BasePriceItem[];
+  discountPercent: number;
+  discountAmount: number;
+  promoCode: string | null;
+  promoDiscount: number;
+  additionalFees: number;
+  netPrice: number; // Before taxes and charges
+  charges: AppliedCharge[];
+  chargeTotal: number;
+  finalPrice: number;
+}
 
 export class PricingHelper {
   // Calculate rental duration in hours
@@ -10,13 +98,25 @@ export class PricingHelper {
   }
 
   // Calculate base price based on rental type
+  // With a schedule every hour (or day) is priced by the pricing rules.
 
   static calculateBasePrice(
     rentalType: RentalType,
     pricePerHour: Decimal | null,
     pricePerDay: Decimal | null,
     durationHours: number,
+    schedule?: PricingSchedule,
   ): number {
+    if (schedule) {
+      return this.calculateBaseItems(
+        rentalType,
+        pricePerHour,
+        pricePerDay,
+        durationHours,
+        schedule,
+      ).reduce((total, item) => total + item.amount, 0);
+    }
+
     if (rentalType === RentalType.DAILY) {
       if (!pricePerDay) {
         throw new Error('Daily price not set for this venue');
@@ -31,6 +131,157 @@ export class PricingHelper {
     }
   }
 
+  // Itemised base price: each billed hour (or 24h block for daily rentals)
+  // takes the rate of the highest-priority rule matching its start. Daily
+  // blocks ignore time-of-day windows.
+
+  static calculateBaseItems(
+    rentalType: RentalType,
+    pricePerHour: Decimal | null,
+    pricePerDay: Decimal | null,
+    durationHours: number,
+    schedule: PricingSchedule,
+  ): BasePriceItem[] {
+    const isDaily = rentalType === RentalType.DAILY;
+    const normalRate = isDaily ? pricePerDay : pricePerHour;
+
+    if (!normalRate) {
+      throw new Error(
+        isDaily
+          ? 'Daily price not set for this venue'
+          : 'Hourly price not set for this venue',
+      );
+    }
+
+    const unit = isDaily ? 'day' : 'hour';
+    const slotMs = (isDaily ? 24 : 1) * 60 * 60 * 1000;
+    const slots = isDaily ? Math.ceil(durationHours / 24) : durationHours;
+    const holidayKeys = new Set(schedule.holidays.map(this.dbDateKey));
+
+    const items: BasePriceItem[] = [];
+
+    for (let i = 0; i < slots; i++) {
+      const from = new Date(schedule.start.getTime() + i * slotMs);
+      const to = new Date(from.getTime() + slotMs);
+      const rule = this.matchPricingRule(
+        schedule.rules,
+        from,
+        holidayKeys,
+        isDaily,
+      );
+
+      let rate = Number(normalRate);
+      if (rule?.adjustment === PricingAdjustment.MULTIPLIER) {
+        rate = Math.round(rate * Number(rule.multiplier) * 100) / 100;
+      } else if (rule) {
+        rate = Number(isDaily ? rule.pricePerDay : rule.pricePerHour);
+      }
+
+      const last = items[items.length - 1];
+      if (last && last.ruleId === (rule?.id ?? null) && last.rate === rate) {
+        last.to = to.toISOString();
+        last.quantity += 1;
+        last.amount += rate;
+        continue;
+      }
+
+      items.push({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        quantity: 1,
+        unit,
+        rate,
+        amount: rate,
+        ruleId: rule?.id ?? null,
+        ruleName: rule?.name ?? null,
+      });
+    }
+
+    return items;
+  }
+
+  // Highest-priority rule in force at `at`, null for the normal rate
+  // Override rules without a price for the rental type never match.
+
+  static matchPricingRule<T extends PricingRuleInput>(
+    rules: T[],
+    at: Date,
+    holidayKeys: Set<string>,
+    isDaily = false,
+  ): T | null {
+    const dateKey = this.localDateKey(at);
+    const weekday = WEEKDAY_CODES[at.getDay()];
+    const minute = at.getHours() * 60 + at.getMinutes();
+
+    const matching = rules.filter((rule) => {
+      if (rule.adjustment === PricingAdjustment.OVERRIDE) {
+        if ((isDaily ? rule.pricePerDay : rule.pricePerHour) === null) {
+          return false;
+        }
+      }
+
+      if (rule.dateFrom && dateKey < this.dbDateKey(rule.dateFrom)) {
+        return false;
+      }
+
+      if (rule.dateTo && dateKey > this.dbDateKey(rule.dateTo)) {
+        return false;
+      }
+
+      if (rule.holidaysOnly && !holidayKeys.has(dateKey)) {
+        return false;
+      }
+
+      if (rule.daysOfWeek && !rule.daysOfWeek.split(',').includes(weekday)) {
+        return false;
+      }
+
+      if (rule.startTime || rule.endTime) {
+        return !isDaily && this.inTimeWindow(minute, rule);
+      }
+
+      return true;
+    });
+
+    matching.sort(
+      (a, b) => b.priority - a.priority || a.name.localeCompare(b.name),
+    );
+
+    return matching[0] ?? null;
+  }
+
+  // Window start inclusive, end exclusive; start after end wraps past midnight
+  private static inTimeWindow(
+    minute: number,
+    rule: { startTime: string | null; endTime: string | null },
+  ): boolean {
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+    const start = rule.startTime ? toMinutes(rule.startTime) : 0;
+    const end = rule.endTime ? toMinutes(rule.endTime) : 24 * 60;
+
+    if (start === end) {
+      return true;
+    }
+
+    return start < end
+      ? minute >= start && minute < end
+      : minute >= start || minute < end;
+  }
+
+  private static localDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  // DATE columns come back as UTC midnight
+  private static dbDateKey(this: void, value: Date): string {
+    return value.toISOString().slice(0, 10);
+  }
+
   // Calculate final price with discount and fees
 
   static calculateFinalPrice(
@@ -38,10 +289,117 @@ export class PricingHelper {
     discountPercent: number = 0,
     additionalFees: number = 0,
   ): number {
+    return this.calculatePriceBreakdown(
+      basePrice,
+      discountPercent,
+      additionalFees,
+    ).finalPrice;
+  }
+
+  // Full price breakdown: discount, promo code, fees, then taxes and
+  // charges in order. Rules must already be selected for the event (see
+  // selectChargeRules).
+
+  static calculatePriceBreakdown(
+    basePrice: number,
+    discountPercent: number = 0,
+    additionalFees: number = 0,
+    rules: ChargeRuleInput[] = [],
+    baseItems: BasePriceItem[] = [],
+    promo: PromoDiscountInput | null = null,
+    currency: string = 'IDR',
+  ): PriceBreakdown {
     const discountAmount = (basePrice * discountPercent) / 100;
-    const priceAfterDiscount = basePrice - discountAmount;
-    const finalPrice = priceAfterDiscount + additionalFees;
-    return Math.round(finalPrice);
+    const promoDiscount = promo
+      ? this.calculatePromoDiscount(promo, basePrice - discountAmount, currency)
+      : 0;
+    const netPrice =
+      basePrice - discountAmount - promoDiscount + additionalFees;
+
+    const charges: AppliedCharge[] = [];
+    let chargeTotal = 0;
+
+    for (const rule of rules) {
+      const value = Number(rule.value);
+      // Compound charges are also taken of the charges applied before them
+      const base = rule.isCompound ? netPrice + chargeTotal : netPrice;
+      const amount =
+        rule.calculation === ChargeCalculation.PERCENT
+          ? this.roundAmount((base * value) / 100, currency)
+          : value;
+
+      charges.push({
+        ruleId: rule.id,
+        name: rule.name,
+        type: rule.type,
+        calculation: rule.calculation,
+        value,
+        isCompound: rule.isCompound,
+        base,
+        amount,
+      });
+      chargeTotal += amount;
+    }
+
+    return {
+      basePrice,
+      baseItems,
+      discountPercent,
+      discountAmount,
+      promoCode: promo ? promo.code : null,
+      promoDiscount,
+      additionalFees,
+      netPrice,
+      charges,
+      chargeTotal,
+      finalPrice: this.roundAmount(netPrice + chargeTotal, currency),
+    };
+  }
+
+  // Promo discount off `amount`; a fixed amount never exceeds it
+
+  static calculatePromoDiscount(
+    promo: PromoDiscountInput,
+    amount: number,
+    currency: string = 'IDR',
+  ): number {
+    const value = Number(promo.value);
+
+    if (promo.discountType === DiscountType.PERCENT) {
+      return this.roundAmount((amount * value) / 100, currency);
+    }
+
+    return Math.max(0, Math.min(value, amount));
+  }
+
+  // Rules in force for an event starting at `date`, in application order
+  // A venue rule replaces the global rule of the same name.
+
+  static selectChargeRules<T extends ChargeRuleInput>(
+    rules: T[],
+    date: Date,
+  ): T[] {
+    const dateKey = this.localDateKey(date);
+    const toKey = this.dbDateKey;
+
+    const effective = rules.filter(
+      (rule) =>
+        (!rule.effectiveFrom || toKey(rule.effectiveFrom) <= dateKey) &&
+        (!rule.effectiveTo || dateKey <= toKey(rule.effectiveTo)),
+    );
+
+    const overridden = new Set(
+      effective
+        .filter((rule) => rule.venueId !== null)
+        .map((rule) => rule.name.toLowerCase()),
+    );
+
+    return effective
+      .filter(
+        (rule) =>
+          rule.venueId !== null || !overridden.has(rule.name.toLowerCase()),
+      )
+      .sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
   }
 
   // Get optimal rental type
@@ -62,11 +420,41 @@ export class PricingHelper {
     return hourlyPrice <= dailyPrice ? RentalType.HOURLY : RentalType.DAILY;
   }
 
-  // Format currency to IDR
-  static formatCurrency(amount: number): string {
+  // Combine rates of several booked spaces into one venue-like rate
+  // A rate is only available when every selected space defines it
+
+  static combineSpaceRates(
+    spaces: { pricePerHour: Decimal | null; pricePerDay: Decimal | null }[],
+  ): { pricePerHour: Decimal | null; pricePerDay: Decimal | null } {
+    const sum = (rates: (Decimal | null)[]) =>
+      rates.every((rate) => rate !== null)
+        ? new Decimal(rates.reduce((total, rate) => total + Number(rate), 0))
+        : null;
+
+    return {
+      pricePerHour: sum(spaces.map((space) => space.pricePerHour)),
+      pricePerDay: sum(spaces.map((space) => space.pricePerDay)),
+    };
+  }
+
+  // Round an amount to the minor unit of its currency (cents for USD,
+  // whole yen for JPY)
+
+  static roundAmount(amount: number, currency: string = 'IDR'): number {
+    const digits = new Intl.NumberFormat('en', {
+      style: 'currency',
+      currency,
+    }).resolvedOptions().maximumFractionDigits;
+    const factor = 10 ** (digits ?? 2);
+
+    return Math.round(amount * factor) / factor;
+  }
+
+  // Format an amount in the given currency (IDR by default)
+  static formatCurrency(amount: number, currency: string = 'IDR'): string {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
-      currency: 'IDR',
+      currency,
       minimumFractionDigits: 0,
     }).format(amount);
   }
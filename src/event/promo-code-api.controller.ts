@@ -0,0 +1,132 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { PromoCodeService } from './promo-code.service';
+import { CreatePromoCodeDto } from './dto/create-promo-code.dto';
+import { UpdatePromoCodeDto } from './dto/update-promo-code.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/promo-codes')
+@UseGuards(ApiAuthGuard)
+export class PromoCodeApiController {
+  private readonly logger = new Logger(PromoCodeApiController.name);
+
+  constructor(private readonly promoCodeService: PromoCodeService) {}
+
+  /**
+   * GET /api/promo-codes
+   * List promo codes with their venue restrictions and usage
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getPromoCodes() {
+    this.logger.log(`[GET /api/promo-codes] API: Listing promo codes`);
+
+    const promoCodes = await this.promoCodeService.getPromoCodes();
+
+    return {
+      success: true,
+      message: 'Promo codes retrieved successfully',
+      data: promoCodes,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/promo-codes/:id
+   * Promo code with its redemptions
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getPromoCodeById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[GET /api/promo-codes/${id}] API: Fetching promo code`);
+
+    const promoCode = await this.promoCodeService.getPromoCodeById(id);
+
+    return {
+      success: true,
+      message: 'Promo code retrieved successfully',
+      data: promoCode,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/promo-codes
+   */
+  @Post()
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.CREATED)
+  async createPromoCode(@Body() createPromoCodeDto: CreatePromoCodeDto) {
+    this.logger.log(
+      `[POST /api/promo-codes] API: Creating promo code: ${createPromoCodeDto.code}`,
+    );
+
+    const promoCode =
+      await this.promoCodeService.createPromoCode(createPromoCodeDto);
+
+    return {
+      success: true,
+      message: 'Promo code created successfully',
+      data: promoCode,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * PATCH /api/promo-codes/:id
+   */
+  @Patch(':id')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async updatePromoCode(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updatePromoCodeDto: UpdatePromoCodeDto,
+  ) {
+    this.logger.log(`[PATCH /api/promo-codes/${id}] API: Updating promo code`);
+
+    const promoCode = await this.promoCodeService.updatePromoCode(
+      id,
+      updatePromoCodeDto,
+    );
+
+    return {
+      success: true,
+      message: 'Promo code updated successfully',
+      data: promoCode,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * DELETE /api/promo-codes/:id
+   * Only codes that were never redeemed can be deleted
+   */
+  @Delete(':id')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async deletePromoCode(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[DELETE /api/promo-codes/${id}] API: Deleting promo code`);
+
+    const result = await this.promoCodeService.deletePromoCode(id);
+
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,205 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Render,
+  Res,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { PromoCodeService } from './promo-code.service';
+import { CreatePromoCodeDto } from './dto/create-promo-code.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+import { VenueService } from '../venue/venue.service';
+import { SUPPORTED_CURRENCIES } from '../currency/exchange-rate.helper';
+
+@Controller('promo-codes')
+@UseGuards(AuthGuard)
+export class PromoCodeController {
+  private readonly logger = new Logger(PromoCodeController.name);
+
+  constructor(
+    private readonly promoCodeService: PromoCodeService,
+    private readonly venueService: VenueService,
+  ) {}
+
+  /**
+   * GET /promo-codes
+   * Promo codes with their usage, plus the form to add one
+   * Renders: views/promo-codes/list.ejs
+   */
+  @Get()
+  @Render('promo-codes/list')
+  async getPromoCodesPage(
+    @Query('success') successMessage?: string,
+    @Query('error') errorMessage?: string,
+  ) {
+    this.logger.log('[GET /promo-codes] Rendering promo codes page');
+
+    let success: string | null = null;
+    if (successMessage === 'created') {
+      success = 'Promo code created successfully!';
+    } else if (successMessage === 'updated') {
+      success = 'Promo code updated successfully!';
+    } else if (successMessage === 'deleted') {
+      success = 'Promo code deleted successfully!';
+    }
+
+    try {
+      const [promoCodes, venuesResult] = await Promise.all([
+        this.promoCodeService.getPromoCodes(),
+        this.venueService.getAllVenues({
+          page: 1,
+          limit: 100,
+          sortBy: 'name',
+          sortOrder: 'asc',
+        }),
+      ]);
+
+      return {
+        title: 'Promo Codes',
+        promoCodes,
+        venues: venuesResult.data,
+        currencies: SUPPORTED_CURRENCIES,
+        error: errorMessage ? decodeURIComponent(errorMessage) : null,
+        success,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load promo codes: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Promo Codes',
+        promoCodes: [],
+        venues: [],
+        currencies: SUPPORTED_CURRENCIES,
+        error: 'Failed to load promo codes. Please try again.',
+        success: null,
+      };
+    }
+  }
+
+  /**
+   * GET /promo-codes/:id
+   * Promo code details and the bookings that redeemed it
+   * Renders: views/promo-codes/details.ejs
+   */
+  @Get(':id')
+  @Render('promo-codes/details')
+  async getPromoCodeDetailsPage(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`[GET /promo-codes/${id}] Rendering promo code details`);
+
+    try {
+      const promoCode = await this.promoCodeService.getPromoCodeById(id);
+
+      return {
+        title: `Promo Code ${promoCode.code}`,
+        promoCode,
+        error: null,
+        success: null,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to load promo code ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        title: 'Promo Code Not Found',
+        promoCode: null,
+        error: error.message || 'Promo code not found.',
+        success: null,
+      };
+    }
+  }
+
+  // POST /promo-codes
+  @Post()
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async createPromoCode(
+    @Body() createPromoCodeDto: CreatePromoCodeDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /promo-codes] Creating promo code: ${createPromoCodeDto.code}`,
+    );
+
+    try {
+      await this.promoCodeService.createPromoCode(createPromoCodeDto);
+      return res.redirect('/promo-codes?success=created');
+    } catch (error) {
+      this.logger.error(
+        `Failed to create promo code: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/promo-codes?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /promo-codes/:id/toggle-active
+  @Post(':id/toggle-active')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async togglePromoCodeActive(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /promo-codes/${id}/toggle-active] Toggling promo code`,
+    );
+
+    try {
+      const promoCode = await this.promoCodeService.getPromoCodeById(id);
+      await this.promoCodeService.updatePromoCode(id, {
+        isActive: !promoCode.isActive,
+      });
+
+      return res.redirect('/promo-codes?success=updated');
+    } catch (error) {
+      this.logger.error(
+        `Failed to toggle promo code ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/promo-codes?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /promo-codes/:id/delete
+  @Post(':id/delete')
+  @RequirePermissions(Permission.PRICING_MANAGE)
+  async deletePromoCode(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /promo-codes/${id}/delete] Deleting promo code`);
+
+    try {
+      await this.promoCodeService.deletePromoCode(id);
+      return res.redirect('/promo-codes?success=deleted');
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete promo code ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/promo-codes?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+}
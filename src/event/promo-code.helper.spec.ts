@@ -0,0 +1,86 @@
+import { DiscountType } from '@prisma/client';
+import { PromoCodeHelper, PromoCodeInput } from './promo-code.helper';
+
+describe('PromoCodeHelper', () => {
+  const promo = (overrides: Partial<PromoCodeInput> = {}): PromoCodeInput => ({
+    id: 'promo',
+    code: 'EARLYBIRD',
+    discountType: DiscountType.PERCENT,
+    value: 10,
+    currency: 'IDR',
+    minimumSpend: null,
+    validFrom: new Date('2026-03-01T00:00:00.000Z'),
+    validUntil: new Date('2026-03-31T00:00:00.000Z'),
+    usageLimit: 5,
+    isActive: true,
+    venueIds: [],
+    ...overrides,
+  });
+  const booking = { venueId: 'hall', currency: 'IDR', subtotal: 1000000 };
+
+  describe('checkRedeemable', () => {
+    it('accepts an active code within its window and usage limit', () => {
+      expect(
+        PromoCodeHelper.checkRedeemable(promo(), 4, new Date(2026, 2, 31, 23)),
+      ).toBeNull();
+    });
+
+    it('rejects inactive, early, expired and used-up codes', () => {
+      const now = new Date(2026, 2, 15, 10);
+
+      expect(
+        PromoCodeHelper.checkRedeemable(promo({ isActive: false }), 0, now),
+      ).toBe('Promo code EARLYBIRD is not active');
+      expect(
+        PromoCodeHelper.checkRedeemable(promo(), 0, new Date(2026, 1, 28)),
+      ).toBe('Promo code EARLYBIRD is not valid until 2026-03-01');
+      expect(
+        PromoCodeHelper.checkRedeemable(promo(), 0, new Date(2026, 3, 1)),
+      ).toBe('Promo code EARLYBIRD expired on 2026-03-31');
+      expect(PromoCodeHelper.checkRedeemable(promo(), 5, now)).toBe(
+        'Promo code EARLYBIRD has reached its usage limit',
+      );
+      expect(
+        PromoCodeHelper.checkRedeemable(promo({ usageLimit: null }), 50, now),
+      ).toBeNull();
+    });
+  });
+
+  describe('checkApplies', () => {
+    it('restricts codes to their venues', () => {
+      expect(
+        PromoCodeHelper.checkApplies(promo({ venueIds: ['hall'] }), booking),
+      ).toBeNull();
+      expect(
+        PromoCodeHelper.checkApplies(promo({ venueIds: ['garden'] }), booking),
+      ).toBe('Promo code EARLYBIRD is not valid at this venue');
+    });
+
+    it('requires the minimum spend in the code currency', () => {
+      expect(
+        PromoCodeHelper.checkApplies(promo({ minimumSpend: 1000000 }), booking),
+      ).toBeNull();
+      expect(
+        PromoCodeHelper.checkApplies(promo({ minimumSpend: 1500000 }), booking),
+      ).toMatch(/requires a minimum spend of/);
+      expect(
+        PromoCodeHelper.checkApplies(promo({ minimumSpend: 100 }), {
+          ...booking,
+          currency: 'USD',
+        }),
+      ).toBe('Promo code EARLYBIRD is only valid for bookings priced in IDR');
+    });
+
+    it('applies percentage codes without a minimum in any currency', () => {
+      expect(
+        PromoCodeHelper.checkApplies(promo(), { ...booking, currency: 'USD' }),
+      ).toBeNull();
+      expect(
+        PromoCodeHelper.checkApplies(
+          promo({ discountType: DiscountType.FIXED, value: 50000 }),
+          { ...booking, currency: 'USD' },
+        ),
+      ).toMatch(/only valid for bookings priced in IDR/);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { DiscountType } from '@prisma/client';
+import { PricingHelper, PromoDiscountInput } from './pricing.helper';
+
+export interface PromoCodeInput extends PromoDiscountInput {
+  id: string;
+  currency: string;
+  minimumSpend: Decimal | number | null;
+  validFrom: Date | null;
+  validUntil: Date | null; // Inclusive
+  usageLimit: number | null;
+  isActive: boolean;
+  venueIds: string[]; // Empty = all venues
+}
+
+export class PromoCodeHelper {
+  // Reason the code cannot be redeemed at `now`, or null
+  // `usedCount` counts the bookings already using it (cancelled excluded).
+
+  static checkRedeemable(
+    promo: PromoCodeInput,
+    usedCount: number,
+    now: Date,
+  ): string | null {
+    if (!promo.isActive) {
+      return `Promo code ${promo.code} is not active`;
+    }
+
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    const day = String(now.getDate()).padStart(2, '0');
+    const today = `${now.getFullYear()}-${month}-${day}`;
+    // DATE columns come back as UTC midnight
+    const toKey = (value: Date) => value.toISOString().slice(0, 10);
+
+    if (promo.validFrom && toKey(promo.validFrom) > today) {
+      return `Promo code ${promo.code} is not valid until ${toKey(promo.validFrom)}`;
+    }
+
+    if (promo.validUntil && toKey(promo.validUntil) < today) {
+      return `Promo code ${promo.code} expired on ${toKey(promo.validUntil)}`;
+    }
+
+    if (promo.usageLimit !== null && usedCount >= promo.usageLimit) {
+      return `Promo code ${promo.code} has reached its usage limit`;
+    }
+
+    return null;
+  }
+
+  // Reason the code does not apply to the booking, or null
+  // Fixed amounts and minimum spends only apply in the code's currency;
+  // `subtotal` is the rental price before any discount.
+
+  static checkApplies(
+    promo: PromoCodeInput,
+    booking: { venueId: string; currency: string; subtotal: number },
+  ): string | null {
+    if (
+      promo.venueIds.length > 0 &&
+      !promo.venueIds.includes(booking.venueId)
+    ) {
+      return `Promo code ${promo.code} is not valid at this venue`;
+    }
+
+    const minimumSpend =
+      promo.minimumSpend !== null ? Number(promo.minimumSpend) : 0;
+
+    if (
+      (promo.discountType === DiscountType.FIXED || minimumSpend > 0) &&
+      booking.currency !== promo.currency
+    ) {
+      return `Promo code ${promo.code} is only valid for bookings priced in ${promo.currency}`;
+    }
+
+    if (booking.subtotal < minimumSpend) {
+      return `Promo code ${promo.code} requires a minimum spend of ${PricingHelper.formatCurrency(minimumSpend, promo.currency)}`;
+    }
+
+    return null;
+  }
+}
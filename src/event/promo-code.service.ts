@@ -0,0 +1,363 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { DiscountType, Prisma, PromoCode } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreatePromoCodeDto } from './dto/create-promo-code.dto';
+import { UpdatePromoCodeDto } from './dto/update-promo-code.dto';
+import { PromoCodeHelper, PromoCodeInput } from './promo-code.helper';
+
+// Venues the code is restricted to; usedCount holds how often it is used
+const PROMO_CODE_INCLUDE = {
+  venues: { select: { venue: { select: { id: true, name: true } } } },
+} satisfies Prisma.PromoCodeInclude;
+
+type PromoCodeWithVenues = PromoCode & {
+  venues: { venue: { id: string; name: string } }[];
+};
+
+/**
+ * PromoCodeService
+ * Reusable discount codes applied when an event is booked. Each booking
+ * using a code is recorded as a redemption with the discount it received.
+ */
+@Injectable()
+export class PromoCodeService {
+  private readonly logger = new Logger(PromoCodeService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  private async ensureVenuesExist(venueIds: string[]): Promise<void> {
+    const count = await this.prisma.venue.count({
+      where: { id: { in: venueIds } },
+    });
+
+    if (count !== new Set(venueIds).size) {
+      throw new NotFoundException('One or more venues were not found');
+    }
+  }
+
+  // Percent range and validity window of the code as it would be saved
+  private validatePromoCode(promo: {
+    discountType: DiscountType;
+    value: number;
+    validFrom: Date | null;
+    validUntil: Date | null;
+  }): void {
+    if (promo.discountType === DiscountType.PERCENT && promo.value > 100) {
+      throw new BadRequestException('Percentage cannot exceed 100');
+    }
+
+    if (
+      promo.validFrom &&
+      promo.validUntil &&
+      promo.validUntil < promo.validFrom
+    ) {
+      throw new BadRequestException(
+        'Valid until date must not be before the valid from date',
+      );
+    }
+  }
+
+  // Shape used by the pricing engine
+  toInput(promo: PromoCodeWithVenues): PromoCodeInput {
+    return {
+      id: promo.id,
+      code: promo.code,
+      discountType: promo.discountType,
+      value: promo.value,
+      currency: promo.currency,
+      minimumSpend: promo.minimumSpend,
+      validFrom: promo.validFrom,
+      validUntil: promo.validUntil,
+      usageLimit: promo.usageLimit,
+      isActive: promo.isActive,
+      venueIds: promo.venues.map(({ venue }) => venue.id),
+    };
+  }
+
+  /**
+   * List promo codes with their usage, active ones first
+   */
+  async getPromoCodes() {
+    return this.prisma.promoCode.findMany({
+      include: PROMO_CODE_INCLUDE,
+      orderBy: [{ isActive: 'desc' }, { code: 'asc' }],
+    });
+  }
+
+  /**
+   * Promo code with its redemptions, newest first
+   */
+  async getPromoCodeById(id: string) {
+    const promo = await this.prisma.promoCode.findUnique({
+      where: { id },
+      include: {
+        ...PROMO_CODE_INCLUDE,
+        redemptions: {
+          include: {
+            event: {
+              select: {
+                id: true,
+                name: true,
+                status: true,
+                startDatetime: true,
+                currency: true,
+                venue: { select: { id: true, name: true } },
+              },
+            },
+          },
+          orderBy: { redeemedAt: 'desc' },
+        },
+      },
+    });
+
+    if (!promo) {
+      throw new NotFoundException(`Promo code with ID "${id}" not found`);
+    }
+
+    return promo;
+  }
+
+  /**
+   * Code that can be redeemed now: active, within its validity window and
+   * below its usage limit. Whether it applies to a particular booking is
+   * checked when the booking is priced.
+   */
+  async getRedeemable(code: string): Promise<PromoCodeInput> {
+    const promo = await this.prisma.promoCode.findUnique({
+      where: { code: code.trim().toUpperCase() },
+      include: PROMO_CODE_INCLUDE,
+    });
+
+    if (!promo) {
+      throw new BadRequestException(`Promo code "${code}" does not exist`);
+    }
+
+    const reason = PromoCodeHelper.checkRedeemable(
+      this.toInput(promo),
+      promo.usedCount,
+      new Date(),
+    );
+
+    if (reason) {
+      throw new BadRequestException(reason);
+    }
+
+    return this.toInput(promo);
+  }
+
+  /**
+   * Count a booking against the code's usage limit
+   * Runs in the transaction that saves the booking. The increment only
+   * applies below the limit, so concurrent bookings cannot both take the
+   * last use.
+   */
+  async claimRedemption(
+    tx: Prisma.TransactionClient,
+    promoCodeId: string,
+  ): Promise<void> {
+    const { count } = await tx.promoCode.updateMany({
+      where: {
+        id: promoCodeId,
+        OR: [
+          { usageLimit: null },
+          { usedCount: { lt: tx.promoCode.fields.usageLimit } },
+        ],
+      },
+      data: { usedCount: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      const promo = await tx.promoCode.findUnique({
+        where: { id: promoCodeId },
+        select: { code: true },
+      });
+
+      throw new BadRequestException(
+        `Promo code ${promo?.code ?? ''} has reached its usage limit`,
+      );
+    }
+  }
+
+  /**
+   * Give back the use of a booking that is cancelled or deleted
+   * Does nothing when the event has no promo code.
+   */
+  async releaseRedemption(
+    tx: Prisma.TransactionClient,
+    eventId: string,
+  ): Promise<void> {
+    await tx.promoCode.updateMany({
+      where: { redemptions: { some: { eventId } }, usedCount: { gt: 0 } },
+      data: { usedCount: { decrement: 1 } },
+    });
+  }
+
+  async createPromoCode(
+    createPromoCodeDto: CreatePromoCodeDto,
+  ): Promise<PromoCode> {
+    this.logger.log(`Creating promo code: ${createPromoCodeDto.code}`);
+
+    const existing = await this.prisma.promoCode.findUnique({
+      where: { code: createPromoCodeDto.code },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Promo code ${createPromoCodeDto.code} already exists`,
+      );
+    }
+
+    const venueIds = createPromoCodeDto.venueIds ?? [];
+    if (venueIds.length > 0) {
+      await this.ensureVenuesExist(venueIds);
+    }
+
+    const validFrom = createPromoCodeDto.validFrom
+      ? new Date(createPromoCodeDto.validFrom)
+      : null;
+    const validUntil = createPromoCodeDto.validUntil
+      ? new Date(createPromoCodeDto.validUntil)
+      : null;
+
+    this.validatePromoCode({
+      discountType: createPromoCodeDto.discountType,
+      value: createPromoCodeDto.value,
+      validFrom,
+      validUntil,
+    });
+
+    const promo = await this.prisma.promoCode.create({
+      data: {
+        code: createPromoCodeDto.code,
+        description: createPromoCodeDto.description || null,
+        discountType: createPromoCodeDto.discountType,
+        value: new Prisma.Decimal(createPromoCodeDto.value),
+        currency: createPromoCodeDto.currency || 'IDR',
+        minimumSpend:
+          createPromoCodeDto.minimumSpend !== undefined
+            ? new Prisma.Decimal(createPromoCodeDto.minimumSpend)
+            : null,
+        validFrom,
+        validUntil,
+        usageLimit: createPromoCodeDto.usageLimit ?? null,
+        isActive: createPromoCodeDto.isActive ?? true,
+        venues: {
+          create: [...new Set(venueIds)].map((venueId) => ({ venueId })),
+        },
+      },
+    });
+
+    this.logger.log(`Promo code created: ${promo.code} (ID: ${promo.id})`);
+    return promo;
+  }
+
+  /**
+   * Update a promo code
+   * Events that already redeemed it keep the discount they were priced with.
+   */
+  async updatePromoCode(
+    id: string,
+    updatePromoCodeDto: UpdatePromoCodeDto,
+  ): Promise<PromoCode> {
+    this.logger.log(`Updating promo code: ${id}`);
+
+    const existing = await this.getPromoCodeById(id);
+
+    if (updatePromoCodeDto.venueIds?.length) {
+      await this.ensureVenuesExist(updatePromoCodeDto.venueIds);
+    }
+
+    const validFrom =
+      updatePromoCodeDto.validFrom !== undefined
+        ? new Date(updatePromoCodeDto.validFrom)
+        : existing.validFrom;
+    const validUntil =
+      updatePromoCodeDto.validUntil !== undefined
+        ? new Date(updatePromoCodeDto.validUntil)
+        : existing.validUntil;
+
+    this.validatePromoCode({
+      discountType: updatePromoCodeDto.discountType ?? existing.discountType,
+      value: updatePromoCodeDto.value ?? Number(existing.value),
+      validFrom,
+      validUntil,
+    });
+
+    const updateData: Prisma.PromoCodeUpdateInput = { validFrom, validUntil };
+
+    if (updatePromoCodeDto.description !== undefined) {
+      updateData.description = updatePromoCodeDto.description;
+    }
+
+    if (updatePromoCodeDto.discountType !== undefined) {
+      updateData.discountType = updatePromoCodeDto.discountType;
+    }
+
+    if (updatePromoCodeDto.value !== undefined) {
+      updateData.value = new Prisma.Decimal(updatePromoCodeDto.value);
+    }
+
+    if (updatePromoCodeDto.currency !== undefined) {
+      updateData.currency = updatePromoCodeDto.currency;
+    }
+
+    if (updatePromoCodeDto.minimumSpend !== undefined) {
+      updateData.minimumSpend = new Prisma.Decimal(
+        updatePromoCodeDto.minimumSpend,
+      );
+    }
+
+    if (updatePromoCodeDto.usageLimit !== undefined) {
+      updateData.usageLimit = updatePromoCodeDto.usageLimit;
+    }
+
+    if (updatePromoCodeDto.isActive !== undefined) {
+      updateData.isActive = updatePromoCodeDto.isActive;
+    }
+
+    if (updatePromoCodeDto.venueIds !== undefined) {
+      updateData.venues = {
+        deleteMany: {},
+        create: [...new Set(updatePromoCodeDto.venueIds)].map((venueId) => ({
+          venueId,
+        })),
+      };
+    }
+
+    const promo = await this.prisma.promoCode.update({
+      where: { id },
+      data: updateData,
+    });
+
+    this.logger.log(`Promo code updated: ${promo.code} (ID: ${id})`);
+    return promo;
+  }
+
+  /**
+   * Delete a promo code that was never redeemed
+   * Redeemed codes stay for reporting; deactivate them instead.
+   */
+  async deletePromoCode(id: string) {
+    this.logger.log(`Deleting promo code: ${id}`);
+
+    const promo = await this.getPromoCodeById(id);
+
+    if (promo.redemptions.length > 0) {
+      throw new BadRequestException(
+        `Promo code ${promo.code} has been redeemed ${promo.redemptions.length} time(s). Deactivate it instead.`,
+      );
+    }
+
+    await this.prisma.promoCode.delete({ where: { id } });
+
+    this.logger.log(`Promo code deleted successfully: ${id}`);
+    return { message: 'Promo code deleted successfully', promoCodeId: id };
+  }
+}
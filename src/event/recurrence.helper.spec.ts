@@ -0,0 +1,71 @@
+import { RecurrenceFrequency } from '@prisma/client';
+import { RecurrenceHelper } from './recurrence.helper';
+
+describe('RecurrenceHelper', () => {
+  // Monday 2 March 2026, 19:00 local time
+  const firstStart = new Date(2026, 2, 2, 19, 0);
+  const keys = (dates: Date[]) =>
+    dates.map((date) => RecurrenceHelper.toDateKey(date));
+
+  it('expands a daily rule with an interval and count', () => {
+    const dates = RecurrenceHelper.expand(firstStart, {
+      frequency: RecurrenceFrequency.DAILY,
+      interval: 2,
+      count: 3,
+    });
+
+    expect(keys(dates)).toEqual(['2026-03-02', '2026-03-04', '2026-03-06']);
+    expect(dates.every((date) => date.getHours() === 19)).toBe(true);
+  });
+
+  it('expands weekly rules on several weekdays until a date', () => {
+    const dates = RecurrenceHelper.expand(firstStart, {
+      frequency: RecurrenceFrequency.WEEKLY,
+      byWeekday: ['TH', 'MO'],
+      until: new Date(2026, 2, 12, 23, 59),
+    });
+
+    expect(keys(dates)).toEqual([
+      '2026-03-02',
+      '2026-03-05',
+      '2026-03-09',
+      '2026-03-12',
+    ]);
+  });
+
+  it('includes the occurrence on a date-only until day', () => {
+    const dates = RecurrenceHelper.expand(firstStart, {
+      frequency: RecurrenceFrequency.DAILY,
+      until: RecurrenceHelper.parseUntil('2026-03-04'),
+    });
+
+    expect(keys(dates)).toEqual(['2026-03-02', '2026-03-03', '2026-03-04']);
+  });
+
+  it('skips exception dates without extending the count', () => {
+    const dates = RecurrenceHelper.expand(firstStart, {
+      frequency: RecurrenceFrequency.WEEKLY,
+      count: 3,
+      exceptionDates: ['2026-03-09'],
+    });
+
+    expect(keys(dates)).toEqual(['2026-03-02', '2026-03-16']);
+  });
+
+  it('skips months that do not have the day of the first occurrence', () => {
+    const dates = RecurrenceHelper.expand(new Date(2026, 0, 31, 10, 0), {
+      frequency: RecurrenceFrequency.MONTHLY,
+      count: 3,
+    });
+
+    expect(keys(dates)).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+  });
+
+  it('stops one past the occurrence limit for open-ended rules', () => {
+    const dates = RecurrenceHelper.expand(firstStart, {
+      frequency: RecurrenceFrequency.DAILY,
+    });
+
+    expect(dates).toHaveLength(RecurrenceHelper.MAX_OCCURRENCES + 1);
+  });
+});
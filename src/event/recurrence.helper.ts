@@ -0,0 +1,148 @@
+import { RecurrenceFrequency } from '@prisma/client';
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  byWeekday?: string[]; // WEEKLY only, e.g. ['MO', 'TH']
+  until?: Date | null;
+  count?: number | null;
+  exceptionDates?: string[]; // YYYY-MM-DD, local time
+}
+
+/**
+ * RecurrenceHelper
+ * Expands an RFC 5545-style rule (FREQ, INTERVAL, BYDAY, UNTIL, COUNT, EXDATE)
+ * into occurrence start datetimes. Times follow the first occurrence.
+ */
+export class RecurrenceHelper {
+  // Upper bound on generated occurrences for a single series
+  static readonly MAX_OCCURRENCES = 366;
+
+  // Local calendar date as YYYY-MM-DD
+  static toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Read an UNTIL value
+   * A date without a time (YYYY-MM-DD) runs through the end of that local
+   * day, so an occurrence on it is included.
+   */
+  static parseUntil(value: string): Date {
+    const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+
+    if (!dateOnly) {
+      return new Date(value);
+    }
+
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    return new Date(year, month - 1, day, 23, 59, 59, 999);
+  }
+
+  // Same wall-clock time as `time`, on the given calendar day
+  private static atTimeOf(
+    time: Date,
+    year: number,
+    month: number,
+    day: number,
+  ): Date {
+    return new Date(
+      year,
+      month,
+      day,
+      time.getHours(),
+      time.getMinutes(),
+      time.getSeconds(),
+      time.getMilliseconds(),
+    );
+  }
+
+  // Candidate dates in chronological order, before UNTIL/COUNT/EXDATE apply
+  private static *candidates(
+    firstStart: Date,
+    rule: RecurrenceRule,
+  ): Generator<Date> {
+    const interval = Math.max(1, rule.interval || 1);
+    const year = firstStart.getFullYear();
+    const month = firstStart.getMonth();
+    const day = firstStart.getDate();
+
+    switch (rule.frequency) {
+      case RecurrenceFrequency.DAILY:
+        for (let i = 0; ; i++) {
+          yield this.atTimeOf(firstStart, year, month, day + i * interval);
+        }
+
+      case RecurrenceFrequency.WEEKLY: {
+        const weekdays = (
+          rule.byWeekday && rule.byWeekday.length > 0
+            ? rule.byWeekday.map((code) => WEEKDAY_CODES.indexOf(code))
+            : [firstStart.getDay()]
+        )
+          // Weeks start on Monday (RFC 5545 default WKST)
+          .map((weekday) => (weekday + 6) % 7)
+          .sort((a, b) => a - b);
+        const weekStart = day - ((firstStart.getDay() + 6) % 7);
+
+        for (let week = 0; ; week += interval) {
+          for (const offset of weekdays) {
+            const date = this.atTimeOf(
+              firstStart,
+              year,
+              month,
+              weekStart + week * 7 + offset,
+            );
+            if (date >= firstStart) {
+              yield date;
+            }
+          }
+        }
+      }
+
+      case RecurrenceFrequency.MONTHLY:
+        for (let i = 0; ; i++) {
+          const date = this.atTimeOf(firstStart, year, month + i * interval, 1);
+          date.setDate(day);
+          // Months without this day (e.g. the 31st) are skipped, not clamped
+          if (date.getDate() === day) {
+            yield date;
+          }
+        }
+    }
+  }
+
+  /**
+   * Expand a rule into occurrence start datetimes
+   * COUNT counts occurrences before exception dates are removed (as EXDATE).
+   * At most MAX_OCCURRENCES + 1 dates are returned so callers can detect
+   * rules that are too long.
+   */
+  static expand(firstStart: Date, rule: RecurrenceRule): Date[] {
+    const exceptions = new Set(rule.exceptionDates ?? []);
+    const occurrences: Date[] = [];
+    let generated = 0;
+
+    for (const date of this.candidates(firstStart, rule)) {
+      if (rule.until && date > rule.until) {
+        break;
+      }
+      if (rule.count && generated >= rule.count) {
+        break;
+      }
+      if (generated > this.MAX_OCCURRENCES) {
+        break;
+      }
+
+      generated++;
+      if (!exceptions.has(this.toDateKey(date))) {
+        occurrences.push(date);
+      }
+    }
+
+    return occurrences;
+  }
+}
@@ -0,0 +1,18 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { IsIn, IsOptional } from 'class-validator';
+import { QueryEventDto } from '../../event/dto/query-event.dto';
+import { EXPORT_FORMATS } from '../spreadsheet.helper';
+import type { ExportFormat } from '../spreadsheet.helper';
+
+/**
+ * Export Events Query DTO
+ * The event list filters, without pagination
+ */
+export class ExportEventsQueryDto extends OmitType(QueryEventDto, [
+  'page',
+  'limit',
+] as const) {
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS, { message: 'Format must be one of: csv, xlsx' })
+  format?: ExportFormat = 'csv';
+}
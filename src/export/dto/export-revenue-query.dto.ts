@@ -0,0 +1,23 @@
+import { IsDateString, IsIn, IsOptional, IsString } from 'class-validator';
+import { EXPORT_FORMATS } from '../spreadsheet.helper';
+import type { ExportFormat } from '../spreadsheet.helper';
+
+/**
+ * Export Revenue Query DTO
+ * Events starting in the range, with their payment balances
+ */
+export class ExportRevenueQueryDto {
+  @IsDateString({}, { message: 'Start date must be a valid ISO 8601 date' })
+  startDate: string;
+
+  @IsDateString({}, { message: 'End date must be a valid ISO 8601 date' })
+  endDate: string;
+
+  @IsOptional()
+  @IsString()
+  currency?: string;
+
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS, { message: 'Format must be one of: csv, xlsx' })
+  format?: ExportFormat = 'csv';
+}
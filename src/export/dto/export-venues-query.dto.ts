@@ -0,0 +1,18 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { IsIn, IsOptional } from 'class-validator';
+import { QueryVenueDto } from '../../venue/dto/query-venue.dto';
+import { EXPORT_FORMATS } from '../spreadsheet.helper';
+import type { ExportFormat } from '../spreadsheet.helper';
+
+/**
+ * Export Venues Query DTO
+ * The venue list filters, without pagination
+ */
+export class ExportVenuesQueryDto extends OmitType(QueryVenueDto, [
+  'page',
+  'limit',
+] as const) {
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS, { message: 'Format must be one of: csv, xlsx' })
+  format?: ExportFormat = 'csv';
+}
@@ -0,0 +1,114 @@
+import { Controller, Get, Query, Res, UseGuards, Logger } from '@nestjs/common';
+import type { Response } from 'express';
+import { ExportService } from './export.service';
+import {
+  CONTENT_TYPES,
+  ExportFormat,
+  Sheet,
+  SpreadsheetHelper,
+} from './spreadsheet.helper';
+import { ExportEventsQueryDto } from './dto/export-events-query.dto';
+import { ExportVenuesQueryDto } from './dto/export-venues-query.dto';
+import { ExportRevenueQueryDto } from './dto/export-revenue-query.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/export')
+@UseGuards(ApiAuthGuard)
+export class ExportApiController {
+  private readonly logger = new Logger(ExportApiController.name);
+
+  constructor(private readonly exportService: ExportService) {}
+
+  /**
+   * Stream a sheet as a download
+   * Errors before the first byte reach the exception filters; later ones
+   * can only cut the download short.
+   */
+  private async send(sheet: Sheet, format: ExportFormat, res: Response) {
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.set({
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${sheet.name.toLowerCase()}-${date}.${format}"`,
+      'Cache-Control': 'no-store',
+    });
+
+    try {
+      await SpreadsheetHelper.write(format, sheet, res);
+    } catch (error) {
+      if (!res.headersSent) {
+        // Let the exception filter answer with JSON, not a download
+        res.removeHeader('Content-Type');
+        res.removeHeader('Content-Disposition');
+        throw error;
+      }
+
+      this.logger.error(
+        `${sheet.name} export stopped: ${error.message}`,
+        error.stack,
+      );
+      res.destroy();
+    }
+  }
+
+  /**
+   * GET /api/export/events?format=csv|xlsx
+   * Events matching the event list filters (search, venueId, clientId,
+   * status, startDate, endDate, sortBy, sortOrder), all pages
+   */
+  @Get('events')
+  async exportEvents(
+    @Query() queryDto: ExportEventsQueryDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log('[GET /api/export/events] API: Exporting events');
+
+    await this.send(
+      this.exportService.exportEvents(queryDto),
+      queryDto.format ?? 'csv',
+      res,
+    );
+  }
+
+  /**
+   * GET /api/export/venues?format=csv|xlsx
+   * Venues matching the venue list filters (search, city, status, sortBy,
+   * sortOrder), all pages
+   */
+  @Get('venues')
+  async exportVenues(
+    @Query() queryDto: ExportVenuesQueryDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log('[GET /api/export/venues] API: Exporting venues');
+
+    await this.send(
+      this.exportService.exportVenues(queryDto),
+      queryDto.format ?? 'csv',
+      res,
+    );
+  }
+
+  /**
+   * GET /api/export/revenue?startDate=&endDate=&currency=&format=csv|xlsx
+   * Events starting in the range with their payment balances
+   */
+  @Get('revenue')
+  @RequirePermissions(Permission.FINANCE_VIEW)
+  async exportRevenue(
+    @Query() queryDto: ExportRevenueQueryDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[GET /api/export/revenue] API: Exporting revenue from ${queryDto.startDate} to ${queryDto.endDate}`,
+    );
+
+    await this.send(
+      await this.exportService.exportRevenue(queryDto),
+      queryDto.format ?? 'csv',
+      res,
+    );
+  }
+}
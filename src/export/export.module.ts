@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ExportService } from './export.service';
+import { ExportApiController } from './export-api.controller';
+import { AuthModule } from 'src/auth/auth.module';
+import { EventModule } from 'src/event/event.module';
+import { VenueModule } from 'src/venue/venue.module';
+
+@Module({
+  imports: [AuthModule, EventModule, VenueModule],
+  providers: [ExportService],
+  controllers: [ExportApiController],
+})
+export class ExportModule {}
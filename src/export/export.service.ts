@@ -0,0 +1,238 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventService } from '../event/event.service';
+import { VenueService } from '../venue/venue.service';
+import { Cell, Sheet } from './spreadsheet.helper';
+import { ExportEventsQueryDto } from './dto/export-events-query.dto';
+import { ExportVenuesQueryDto } from './dto/export-venues-query.dto';
+import { ExportRevenueQueryDto } from './dto/export-revenue-query.dto';
+
+// Rows read from the database per query while streaming
+const BATCH_SIZE = 500;
+
+const decimal = (value: Prisma.Decimal | null) =>
+  value === null ? null : Number(value);
+
+/**
+ * ExportService
+ * Spreadsheet exports of the venue and event lists and the revenue report.
+ * Lists honour the same filters as their pages, without pagination, and are
+ * read in batches so large exports stream instead of loading at once.
+ */
+@Injectable()
+export class ExportService {
+  private readonly logger = new Logger(ExportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventService: EventService,
+    private readonly venueService: VenueService,
+  ) {}
+
+  // Every row of a query, fetched BATCH_SIZE at a time
+  private async *batches<T>(
+    fetch: (skip: number, take: number) => Promise<T[]>,
+  ): AsyncGenerator<T> {
+    for (let skip = 0; ; skip += BATCH_SIZE) {
+      const rows = await fetch(skip, BATCH_SIZE);
+      yield* rows;
+
+      if (rows.length < BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Events matching the event list filters
+   */
+  exportEvents(queryDto: ExportEventsQueryDto): Sheet {
+    const { where, orderBy } = this.eventService.buildEventListQuery(queryDto);
+    this.logger.log(`Exporting events: ${JSON.stringify(queryDto)}`);
+
+    const events = this.batches((skip, take) =>
+      this.prisma.event.findMany({
+        where,
+        // ID breaks ties so batches neither skip nor repeat rows
+        orderBy: [orderBy, { id: 'asc' }],
+        skip,
+        take,
+        include: {
+          venue: { select: { name: true, city: true } },
+          spaces: { select: { space: { select: { name: true } } } },
+          client: { select: { name: true } },
+        },
+      }),
+    );
+
+    return {
+      name: 'Events',
+      columns: [
+        'ID',
+        'Name',
+        'Status',
+        'Venue',
+        'City',
+        'Spaces',
+        'Client',
+        'Start',
+        'End',
+        'Attendees',
+        'Rental Type',
+        'Currency',
+        'Base Price',
+        'Discount (%)',
+        'Additional Fees',
+        'Final Price',
+        'Paid',
+        'Hold Expires',
+        'Created',
+      ],
+      rows: (async function* (): AsyncGenerator<Cell[]> {
+        for await (const event of events) {
+          yield [
+            event.id,
+            event.name,
+            event.status,
+            event.venue.name,
+            event.venue.city,
+            event.spaces.map((eventSpace) => eventSpace.space.name).join(', '),
+            event.client?.name,
+            event.startDatetime,
+            event.endDatetime,
+            event.attendeeCount,
+            event.rentalType,
+            event.currency,
+            decimal(event.basePrice),
+            decimal(event.discount),
+            decimal(event.additionalFees),
+            decimal(event.finalPrice),
+            event.isPaid,
+            event.holdExpiresAt,
+            event.createdAt,
+          ];
+        }
+      })(),
+    };
+  }
+
+  /**
+   * Venues matching the venue list filters
+   */
+  exportVenues(queryDto: ExportVenuesQueryDto): Sheet {
+    const { where, orderBy } = this.venueService.buildVenueListQuery(queryDto);
+    this.logger.log(`Exporting venues: ${JSON.stringify(queryDto)}`);
+
+    const venues = this.batches((skip, take) =>
+      this.prisma.venue.findMany({
+        where,
+        orderBy: [orderBy, { id: 'asc' }],
+        skip,
+        take,
+        include: {
+          _count: { select: { events: true } },
+          spaces: { where: { isActive: true }, select: { id: true } },
+        },
+      }),
+    );
+
+    return {
+      name: 'Venues',
+      columns: [
+        'ID',
+        'Name',
+        'City',
+        'Address',
+        'Capacity',
+        'Status',
+        'Currency',
+        'Price per Hour',
+        'Price per Day',
+        'Active Spaces',
+        'Events',
+        'Created',
+      ],
+      rows: (async function* (): AsyncGenerator<Cell[]> {
+        for await (const venue of venues) {
+          yield [
+            venue.id,
+            venue.name,
+            venue.city,
+            venue.address,
+            venue.capacity,
+            venue.status,
+            venue.currency,
+            decimal(venue.pricePerHour),
+            decimal(venue.pricePerDay),
+            venue.spaces.length,
+            venue._count.events,
+            venue.createdAt,
+          ];
+        }
+      })(),
+    };
+  }
+
+  /**
+   * Revenue report: events starting in the range with their balances
+   * A date-only end date includes that whole day.
+   * @throws BadRequestException if the range is reversed
+   */
+  async exportRevenue(queryDto: ExportRevenueQueryDto): Promise<Sheet> {
+    const start = new Date(queryDto.startDate);
+    const end = new Date(queryDto.endDate);
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(queryDto.endDate)) {
+      end.setTime(end.getTime() + 24 * 60 * 60 * 1000 - 1);
+    }
+
+    if (start > end) {
+      throw new BadRequestException('Start date must not be after end date');
+    }
+
+    this.logger.log(
+      `Exporting revenue from ${start.toISOString()} to ${end.toISOString()}`,
+    );
+
+    const { events, summary } = await this.eventService.getRevenueByDateRange(
+      start,
+      end,
+      queryDto.currency,
+    );
+
+    return {
+      name: 'Revenue',
+      columns: [
+        'ID',
+        'Event',
+        'Status',
+        'Venue',
+        'City',
+        'Start',
+        'Currency',
+        'Final Price',
+        'Net Paid',
+        'Outstanding',
+        'Payment Status',
+        'Reporting Currency',
+        'Exchange Rate',
+      ],
+      rows: events.map((event): Cell[] => [
+        event.id,
+        event.name,
+        event.status,
+        event.venue.name,
+        event.venue.city,
+        event.startDatetime,
+        event.currency,
+        decimal(event.finalPrice),
+        event.netPaid,
+        event.outstanding,
+        event.paymentStatus,
+        event.reportingCurrency ?? summary.currency,
+        decimal(event.exchangeRate),
+      ]),
+    };
+  }
+}
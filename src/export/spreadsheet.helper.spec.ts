@@ -0,0 +1,131 @@
+import { Writable } from 'stream';
+import { inflateRawSync } from 'zlib';
+import { Cell, Sheet, SpreadsheetHelper } from './spreadsheet.helper';
+
+// Collects everything written to it
+const collector = () => {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+
+  return { output, content: () => Buffer.concat(chunks) };
+};
+
+const sheet = (rows: Cell[][]): Sheet => ({
+  name: 'Events',
+  columns: ['Name', 'Guests', 'Start'],
+  rows,
+});
+
+// Contents of a file in a ZIP written with data descriptors
+const unzip = (zip: Buffer, fileName: string): string => {
+  const name = Buffer.from(fileName);
+  let offset = zip.indexOf(name);
+
+  while (offset !== -1 && zip.readUInt32LE(offset - 30) !== 0x04034b50) {
+    offset = zip.indexOf(name, offset + 1);
+  }
+
+  const start = offset + name.length;
+  const end = zip.indexOf(Buffer.from([0x50, 0x4b, 0x07, 0x08]), start);
+  return inflateRawSync(zip.subarray(start, end)).toString('utf8');
+};
+
+describe('SpreadsheetHelper', () => {
+  describe('csvCell', () => {
+    it('quotes cells with commas, quotes or line breaks', () => {
+      expect(SpreadsheetHelper.csvCell('Hall A, B')).toBe('"Hall A, B"');
+      expect(SpreadsheetHelper.csvCell('The "Gala"')).toBe('"The ""Gala"""');
+      expect(SpreadsheetHelper.csvCell('Line\nbreak')).toBe('"Line\nbreak"');
+      expect(SpreadsheetHelper.csvCell(null)).toBe('');
+      expect(SpreadsheetHelper.csvCell(-12.5)).toBe('-12.5');
+    });
+
+    it('keeps text from running as a formula', () => {
+      expect(SpreadsheetHelper.csvCell('=HYPERLINK("x")')).toBe(
+        '"\'=HYPERLINK(""x"")"',
+      );
+      expect(SpreadsheetHelper.csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    });
+
+    it('writes dates in local time', () => {
+      expect(SpreadsheetHelper.csvCell(new Date(2026, 9, 19, 9, 5))).toBe(
+        '2026-10-19 09:05',
+      );
+    });
+  });
+
+  it('names columns like a spreadsheet', () => {
+    expect(SpreadsheetHelper.columnName(0)).toBe('A');
+    expect(SpreadsheetHelper.columnName(25)).toBe('Z');
+    expect(SpreadsheetHelper.columnName(26)).toBe('AA');
+    expect(SpreadsheetHelper.columnName(701)).toBe('ZZ');
+  });
+
+  describe('xlsxCell', () => {
+    it('writes numbers, booleans and escaped text', () => {
+      expect(SpreadsheetHelper.xlsxCell(42, 'B2')).toBe(
+        '<c r="B2"><v>42</v></c>',
+      );
+      expect(SpreadsheetHelper.xlsxCell(true, 'C2')).toBe(
+        '<c r="C2" t="b"><v>1</v></c>',
+      );
+      expect(SpreadsheetHelper.xlsxCell('A & <B>', 'A2')).toBe(
+        '<c r="A2" t="inlineStr"><is><t xml:space="preserve">A &amp; &lt;B&gt;</t></is></c>',
+      );
+      expect(SpreadsheetHelper.xlsxCell(null, 'D2')).toBe('');
+    });
+
+    it('writes dates as date-formatted serial numbers', () => {
+      expect(
+        SpreadsheetHelper.xlsxCell(new Date(2026, 0, 1, 12, 0), 'A2'),
+      ).toBe('<c r="A2" s="2"><v>46023.5</v></c>');
+    });
+  });
+
+  it('streams CSV with a byte order mark and CRLF line ends', async () => {
+    const { output, content } = collector();
+
+    await SpreadsheetHelper.writeCsv(
+      sheet([
+        ['Gala', 120, new Date(2026, 10, 1, 18, 0)],
+        ['Meeting', null, null],
+      ]),
+      output,
+    );
+
+    expect(content().toString('utf8')).toBe(
+      '\uFEFFName,Guests,Start\r\nGala,120,2026-11-01 18:00\r\nMeeting,,\r\n',
+    );
+  });
+
+  it('streams an XLSX workbook with a header row and one row per record', async () => {
+    const { output, content } = collector();
+
+    await SpreadsheetHelper.writeXlsx(
+      sheet([
+        ['Gala', 120, null],
+        ['Meeting', 8, null],
+      ]),
+      output,
+    );
+
+    const zip = content();
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    // End of central directory lists all six parts
+    expect(zip.readUInt16LE(zip.length - 22 + 10)).toBe(6);
+
+    const worksheet = unzip(zip, 'xl/worksheets/sheet1.xml');
+    expect(worksheet).toContain(
+      '<row r="1"><c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Name</t></is></c>',
+    );
+    expect(worksheet).toContain(
+      '<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">Meeting</t></is></c><c r="B3"><v>8</v></c></row>',
+    );
+    expect(unzip(zip, 'xl/workbook.xml')).toContain('<sheet name="Events"');
+  });
+});
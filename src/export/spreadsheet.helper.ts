@@ -0,0 +1,414 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import { createDeflateRaw, crc32 } from 'zlib';
+
+export type Cell = string | number | boolean | Date | null | undefined;
+
+export interface Sheet {
+  name: string;
+  columns: string[];
+  rows: AsyncIterable<Cell[]> | Iterable<Cell[]>;
+}
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+
+// Rows buffered before each write to the output
+const ROWS_PER_CHUNK = 200;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const XLSX_STATIC_PARTS: [string, string][] = [
+  [
+    '[Content_Types].xml',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+  ],
+  [
+    '_rels/.rels',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+  ],
+  [
+    'xl/_rels/workbook.xml.rels',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>',
+  ],
+  // Style 1 is a bold header, style 2 a date and time
+  [
+    'xl/styles.xml',
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+      '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+      '</styleSheet>',
+  ],
+];
+
+// Wait until the output takes more data; fails if it closes first, as when
+// the client goes away mid-download
+async function drain(output: Writable): Promise<void> {
+  const closed = () =>
+    new Error('Output closed before the spreadsheet was complete');
+
+  if (output.destroyed) {
+    throw closed();
+  }
+
+  const controller = new AbortController();
+
+  try {
+    await Promise.race([
+      once(output, 'drain', { signal: controller.signal }),
+      once(output, 'close', { signal: controller.signal }).then(() => {
+        throw closed();
+      }),
+    ]);
+  } finally {
+    controller.abort();
+  }
+}
+
+interface ZipEntry {
+  name: Buffer;
+  time: number;
+  date: number;
+  crc: number;
+  size: number;
+  compressedSize: number;
+  offset: number;
+}
+
+/**
+ * Writes a ZIP archive entry by entry without holding it in memory
+ * Sizes and checksums follow each entry in a data descriptor, so entries
+ * can be deflated as their content is produced. No ZIP64: entries and the
+ * archive must stay under 4 GB.
+ */
+class ZipWriter {
+  private readonly entries: ZipEntry[] = [];
+  private offset = 0;
+
+  constructor(private readonly output: Writable) {}
+
+  private async write(chunk: Buffer) {
+    this.offset += chunk.length;
+
+    if (!this.output.write(chunk)) {
+      await drain(this.output);
+    }
+  }
+
+  // MS-DOS time and date of now
+  private dosDateTime() {
+    const now = new Date();
+
+    return {
+      time:
+        (now.getHours() << 11) |
+        (now.getMinutes() << 5) |
+        Math.floor(now.getSeconds() / 2),
+      date:
+        ((now.getFullYear() - 1980) << 9) |
+        ((now.getMonth() + 1) << 5) |
+        now.getDate(),
+    };
+  }
+
+  async addEntry(
+    fileName: string,
+    content: AsyncIterable<string> | Iterable<string>,
+  ) {
+    const name = Buffer.from(fileName, 'utf8');
+    const { time, date } = this.dosDateTime();
+    const entry: ZipEntry = {
+      name,
+      time,
+      date,
+      crc: 0,
+      size: 0,
+      compressedSize: 0,
+      offset: this.offset,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0); // Local file header
+    header.writeUInt16LE(20, 4); // Version needed
+    header.writeUInt16LE(0x0808, 6); // Data descriptor follows, UTF-8 name
+    header.writeUInt16LE(8, 8); // Deflate
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt16LE(name.length, 26);
+    await this.write(Buffer.concat([header, name]));
+
+    const deflate = createDeflateRaw();
+    const feeding = (async () => {
+      try {
+        for await (const text of content) {
+          const chunk = Buffer.from(text, 'utf8');
+          entry.crc = crc32(chunk, entry.crc);
+          entry.size += chunk.length;
+
+          if (!deflate.write(chunk)) {
+            await once(deflate, 'drain');
+          }
+        }
+        deflate.end();
+      } catch (error) {
+        deflate.destroy(error as Error);
+      }
+    })();
+
+    for await (const chunk of deflate as AsyncIterable<Buffer>) {
+      entry.compressedSize += chunk.length;
+      await this.write(chunk);
+    }
+    await feeding;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  // Central directory and end record
+  async finish() {
+    const start = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // Version made by
+      header.writeUInt16LE(20, 6); // Version needed
+      header.writeUInt16LE(0x0808, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+  }
+}
+
+export class SpreadsheetHelper {
+  /**
+   * A CSV cell
+   * Text that a spreadsheet would run as a formula gets a leading quote.
+   */
+  static csvCell(value: Cell): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text =
+      value instanceof Date ? this.formatDateTime(value) : String(value);
+
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  static csvRow(cells: Cell[]): string {
+    return cells.map((cell) => this.csvCell(cell)).join(',') + '\r\n';
+  }
+
+  // Local date and time, e.g. 2026-10-19 14:30
+  static formatDateTime(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+
+  static escapeXml(text: string): string {
+    return (
+      text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters are not allowed in XML 1.0
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    );
+  }
+
+  // Column letters for a 0-based index: 0 → A, 26 → AA
+  static columnName(index: number): string {
+    let name = '';
+
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+
+    return name;
+  }
+
+  /**
+   * A worksheet cell; dates become serial numbers in local time
+   * @param style - Index into the cellXfs of styles.xml
+   */
+  static xlsxCell(value: Cell, reference: string, style = 0): string {
+    const styled = style ? ` s="${style}"` : '';
+
+    if (value === null || value === undefined || value === '') {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      const serial =
+        (value.getTime() - value.getTimezoneOffset() * 60 * 1000) /
+          (24 * 60 * 60 * 1000) +
+        EXCEL_EPOCH_OFFSET;
+      return `<c r="${reference}" s="2"><v>${serial}</v></c>`;
+    }
+
+    if (typeof value === 'number') {
+      return Number.isFinite(value)
+        ? `<c r="${reference}"${styled}><v>${value}</v></c>`
+        : '';
+    }
+
+    if (typeof value === 'boolean') {
+      return `<c r="${reference}" t="b"${styled}><v>${value ? 1 : 0}</v></c>`;
+    }
+
+    return `<c r="${reference}" t="inlineStr"${styled}><is><t xml:space="preserve">${this.escapeXml(value)}</t></is></c>`;
+  }
+
+  static xlsxRow(cells: Cell[], rowNumber: number, style = 0): string {
+    const content = cells
+      .map((cell, index) =>
+        this.xlsxCell(cell, `${this.columnName(index)}${rowNumber}`, style),
+      )
+      .join('');
+
+    return `<row r="${rowNumber}">${content}</row>`;
+  }
+
+  // Rows joined into chunks of text, so each write carries many rows
+  private static async *chunks(
+    sheet: Sheet,
+    header: string,
+    format: (cells: Cell[], index: number) => string,
+    footer = '',
+  ): AsyncGenerator<string> {
+    let buffer = header;
+    let count = 0;
+
+    for await (const cells of sheet.rows) {
+      buffer += format(cells, count++);
+
+      if (count % ROWS_PER_CHUNK === 0) {
+        yield buffer;
+        buffer = '';
+      }
+    }
+
+    yield buffer + footer;
+  }
+
+  /**
+   * Stream the sheet as UTF-8 CSV (with a byte order mark for Excel)
+   */
+  static async writeCsv(sheet: Sheet, output: Writable): Promise<void> {
+    const header = '\uFEFF' + this.csvRow(sheet.columns);
+
+    for await (const chunk of this.chunks(sheet, header, (cells) =>
+      this.csvRow(cells),
+    )) {
+      if (!output.write(chunk)) {
+        await drain(output);
+      }
+    }
+
+    output.end();
+  }
+
+  /**
+   * Stream the sheet as an XLSX workbook with a single worksheet
+   */
+  static async writeXlsx(sheet: Sheet, output: Writable): Promise<void> {
+    const zip = new ZipWriter(output);
+    const sheetName = this.escapeXml(
+      sheet.name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31),
+    );
+
+    for (const [name, xml] of XLSX_STATIC_PARTS) {
+      await zip.addEntry(name, [XML_HEADER + xml]);
+    }
+
+    await zip.addEntry('xl/workbook.xml', [
+      XML_HEADER +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    ]);
+
+    await zip.addEntry(
+      'xl/worksheets/sheet1.xml',
+      this.chunks(
+        sheet,
+        XML_HEADER +
+          '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+          // Keep the header row in view while scrolling
+          '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+          '<sheetData>' +
+          this.xlsxRow(sheet.columns, 1, 1),
+        (cells, index) => this.xlsxRow(cells, index + 2),
+        '</sheetData></worksheet>',
+      ),
+    );
+
+    await zip.finish();
+    output.end();
+  }
+
+  static write(
+    format: ExportFormat,
+    sheet: Sheet,
+    output: Writable,
+  ): Promise<void> {
+    return format === 'xlsx'
+      ? this.writeXlsx(sheet, output)
+      : this.writeCsv(sheet, output);
+  }
+}
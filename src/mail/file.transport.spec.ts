@@ -0,0 +1,32 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTransport } from './file.transport';
+
+describe('FileTransport', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mail-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('saves each message as an .eml file', async () => {
+    await new FileTransport(directory).send({
+      from: 'no-reply@example.com',
+      to: 'owner@example.com',
+      subject: 'Invite',
+      text: 'Welcome',
+    });
+
+    const files = await readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/-owner@example\.com\.eml$/);
+
+    const content = await readFile(join(directory, files[0]), 'utf8');
+    expect(content).toContain('Subject: Invite');
+  });
+});
@@ -0,0 +1,33 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from './mail-transport';
+import { MailHelper } from './mail.helper';
+
+/**
+ * FileTransport
+ * For development and tests: saves each message as an .eml file in
+ * `directory`, or logs it to the console when there is none.
+ */
+export class FileTransport implements MailTransport {
+  private readonly logger = new Logger(FileTransport.name);
+
+  constructor(private readonly directory: string | null = null) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (!this.directory) {
+      this.logger.log(
+        `Mail to ${message.to}: ${message.subject}\n${message.text}`,
+      );
+      return;
+    }
+
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${MailHelper.address(message.to)}.eml`;
+    const path = join(this.directory, name);
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path, MailHelper.render(message), 'utf8');
+
+    this.logger.log(`Mail to ${message.to} saved to ${path}`);
+  }
+}
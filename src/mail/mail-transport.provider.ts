@@ -0,0 +1,27 @@
+import { Provider } from '@nestjs/common';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport';
+import { FileTransport } from './file.transport';
+import { SmtpTransport } from './smtp.transport';
+
+// MAIL_TRANSPORT=smtp | file | console (default)
+function createMailTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined,
+      });
+    case 'file':
+      return new FileTransport(process.env.MAIL_DIR || 'storage/mail');
+    default:
+      return new FileTransport(null);
+  }
+}
+
+export const MailTransportProvider: Provider = {
+  provide: MAIL_TRANSPORT,
+  useFactory: createMailTransport,
+};
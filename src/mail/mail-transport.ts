@@ -0,0 +1,17 @@
+/**
+ * Injection token for the mail transport
+ * Inject with @Inject(MAIL_TRANSPORT); MailModule picks the implementation
+ * from MAIL_TRANSPORT (smtp, file or console).
+ */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,48 @@
+import { MailHelper } from './mail.helper';
+
+describe('MailHelper', () => {
+  const message = {
+    from: 'EventManager <no-reply@example.com>',
+    to: 'owner@example.com',
+    subject: 'Reset your password',
+    text: 'Hello\nChoose a new password.',
+  };
+
+  it('leaves ASCII headers alone and encodes the rest', () => {
+    expect(MailHelper.encodeHeader('Reset your password')).toBe(
+      'Reset your password',
+    );
+    expect(MailHelper.encodeHeader('Café')).toBe('=?UTF-8?B?Q2Fmw6k=?=');
+  });
+
+  it('takes the address out of a display name', () => {
+    expect(MailHelper.address('EventManager <no-reply@example.com>')).toBe(
+      'no-reply@example.com',
+    );
+    expect(MailHelper.address('owner@example.com')).toBe('owner@example.com');
+  });
+
+  it('renders headers and a base64 body with CRLF line endings', () => {
+    const rendered = MailHelper.render(
+      message,
+      new Date('2026-10-19T12:00:00.000Z'),
+    );
+    const [headers, body] = rendered.split('\r\n\r\n');
+
+    expect(headers).toContain('To: owner@example.com');
+    expect(headers).toContain('Date: Mon, 19 Oct 2026 12:00:00 GMT');
+    expect(headers).toMatch(/Message-ID: <[0-9a-f]{24}@example\.com>/);
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe(message.text);
+  });
+
+  it('wraps long bodies at 76 characters', () => {
+    const rendered = MailHelper.render({ ...message, text: 'x'.repeat(200) });
+    const body = rendered.split('\r\n\r\n')[1];
+
+    expect(body.split('\r\n').every((line) => line.length <= 76)).toBe(true);
+  });
+
+  it('doubles dots at the start of lines for SMTP', () => {
+    expect(MailHelper.dotStuff('a\r\n.b\r\n..c')).toBe('a\r\n..b\r\n...c');
+  });
+});
@@ -0,0 +1,48 @@
+import { randomBytes } from 'crypto';
+import { MailMessage } from './mail-transport';
+
+export class MailHelper {
+  // RFC 2047 encoded-word for headers that aren't plain ASCII
+  static encodeHeader(value: string): string {
+    if (/^[\x20-\x7e]*$/.test(value)) {
+      return value;
+    }
+
+    return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+  }
+
+  // Address part of "Name <address>", or the value itself
+  static address(value: string): string {
+    const match = value.match(/<([^>]+)>/);
+    return (match ? match[1] : value).trim();
+  }
+
+  /**
+   * The message as sent over SMTP or saved as an .eml file
+   * The body is base64 so any text survives 7-bit transports.
+   */
+  static render(message: MailMessage, date = new Date()): string {
+    const domain = this.address(message.from).split('@')[1] || 'localhost';
+    const body = Buffer.from(message.text, 'utf8')
+      .toString('base64')
+      .replace(/.{76}/g, '$&\r\n');
+
+    return [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${this.encodeHeader(message.subject)}`,
+      `Date: ${date.toUTCString()}`,
+      `Message-ID: <${randomBytes(12).toString('hex')}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      body,
+    ].join('\r\n');
+  }
+
+  // SMTP DATA: lines starting with "." get another one (RFC 5321 4.5.2)
+  static dotStuff(data: string): string {
+    return data.replace(/^\./gm, '..');
+  }
+}
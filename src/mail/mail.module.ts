@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { MailService } from './mail.service';
+import { MailTransportProvider } from './mail-transport.provider';
+
+@Module({
+  providers: [MailTransportProvider, MailService],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,146 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { MAIL_TRANSPORT } from './mail-transport';
+import type { MailTransport } from './mail-transport';
+
+const DEFAULT_FROM = 'EventManager <no-reply@localhost>';
+
+/**
+ * MailService
+ * Writes the application's emails and hands them to the configured
+ * transport. Links point at APP_URL.
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+  ) {}
+
+  // Absolute link to a page of this app
+  link(path: string): string {
+    const base =
+      process.env.APP_URL || `http://localhost:${process.env.PORT || 3001}`;
+    return `${base.replace(/\/+$/, '')}${path}`;
+  }
+
+  async send(to: string, subject: string, text: string): Promise<void> {
+    await this.transport.send({
+      from: process.env.MAIL_FROM || DEFAULT_FROM,
+      to,
+      subject,
+      text,
+    });
+
+    this.logger.log(`Sent "${subject}" to ${to}`);
+  }
+
+  async sendPasswordReset(
+    to: string,
+    link: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.send(
+      to,
+      'Reset your password',
+      [
+        'Someone asked to reset the password of your admin account.',
+        '',
+        'Choose a new password here:',
+        link,
+        '',
+        `The link works once and expires at ${expiresAt.toUTCString()}.`,
+        'If you did not ask for this, ignore this email; your password stays the same.',
+      ].join('\n'),
+    );
+  }
+
+  async sendInvite(
+    to: string,
+    link: string,
+    invitedBy: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.send(
+      to,
+      'You have been invited as an admin',
+      [
+        `${invitedBy} added you as an admin of the EventManager admin panel.`,
+        '',
+        'Choose your password to finish setting up your account:',
+        link,
+        '',
+        `The link works once and expires at ${expiresAt.toUTCString()}.`,
+      ].join('\n'),
+    );
+  }
+
+  async sendBookingRequestReceived(
+    to: string,
+    reference: string,
+    venueName: string,
+    start: Date,
+    end: Date,
+  ): Promise<void> {
+    await this.send(
+      to,
+      `We received your booking request ${reference}`,
+      [
+        `Thank you for your request to book ${venueName}.`,
+        '',
+        `From: ${start.toUTCString()}`,
+        `To:   ${end.toUTCString()}`,
+        '',
+        'The time is not reserved yet. Our team will review your request and',
+        'get back to you by email.',
+        '',
+        `Please quote ${reference} in any reply.`,
+      ].join('\n'),
+    );
+  }
+
+  async sendBookingRequestApproved(
+    to: string,
+    reference: string,
+    venueName: string,
+    start: Date,
+    end: Date,
+    price: string | null,
+    note: string | null,
+  ): Promise<void> {
+    await this.send(
+      to,
+      `Your booking ${reference} is confirmed`,
+      [
+        `Good news: your booking of ${venueName} is confirmed.`,
+        '',
+        `From: ${start.toUTCString()}`,
+        `To:   ${end.toUTCString()}`,
+        ...(price ? [`Price: ${price}`] : []),
+        ...(note ? ['', note] : []),
+        '',
+        'We will be in touch about payment.',
+        `Please quote ${reference} in any reply.`,
+      ].join('\n'),
+    );
+  }
+
+  async sendBookingRequestRejected(
+    to: string,
+    reference: string,
+    venueName: string,
+    reason: string,
+  ): Promise<void> {
+    await this.send(
+      to,
+      `About your booking request ${reference}`,
+      [
+        `We are sorry, we cannot accept your request to book ${venueName}.`,
+        '',
+        reason,
+        '',
+        'You are welcome to send a new request for another date or venue.',
+      ].join('\n'),
+    );
+  }
+}
@@ -0,0 +1,213 @@
+import { Logger } from '@nestjs/common';
+import { connect as netConnect, Socket } from 'net';
+import { connect as tlsConnect, TLSSocket } from 'tls';
+import { hostname } from 'os';
+import { MailMessage, MailTransport } from './mail-transport';
+import { MailHelper } from './mail.helper';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// One SMTP conversation: write a command, read its (multi-line) reply
+class SmtpConnection {
+  private buffer = '';
+  private readonly lines: string[] = [];
+  private waiter: {
+    resolve: (line: string) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private error: Error | null = null;
+
+  private constructor(
+    private socket: Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.listen();
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    const { host, port, secure } = options;
+    const timeoutMs = options.timeoutMs ?? 30000;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tlsConnect({ host, port, servername: host })
+        : netConnect({ host, port });
+
+      socket.once('error', reject);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+    });
+  }
+
+  private listen() {
+    this.socket.setEncoding('utf8');
+    this.socket.setTimeout(this.timeoutMs, () =>
+      this.socket.destroy(new Error('SMTP server timed out')),
+    );
+    this.socket.on('data', (chunk: string) => this.receive(chunk));
+    this.socket.on('error', (error) => this.fail(error));
+    this.socket.on('close', () =>
+      this.fail(new Error('SMTP connection closed')),
+    );
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) !== -1) {
+      this.lines.push(this.buffer.slice(0, end).replace(/\r$/, ''));
+      this.buffer = this.buffer.slice(end + 1);
+    }
+
+    const line = this.waiter ? this.lines.shift() : undefined;
+
+    if (this.waiter && line !== undefined) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(line);
+    }
+  }
+
+  private fail(error: Error) {
+    this.error ??= error;
+
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(this.error);
+    }
+  }
+
+  private nextLine(): Promise<string> {
+    const line = this.lines.shift();
+
+    if (line !== undefined) {
+      return Promise.resolve(line);
+    }
+
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  // Replies continue while the line reads "250-..." and end with "250 ..."
+  async expect(codes: number[]): Promise<SmtpReply> {
+    const lines: string[] = [];
+
+    for (;;) {
+      const line = await this.nextLine();
+      lines.push(line);
+
+      if (line.charAt(3) !== '-') {
+        break;
+      }
+    }
+
+    const code = parseInt(lines[lines.length - 1].slice(0, 3), 10);
+
+    if (!codes.includes(code)) {
+      throw new Error(`SMTP server replied: ${lines.join(' ')}`);
+    }
+
+    return { code, lines };
+  }
+
+  async command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  // Continue over TLS after the server accepted STARTTLS
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+
+    this.socket = await new Promise<TLSSocket>((resolve, reject) => {
+      const secure = tlsConnect({ socket: plain, servername: host }, () => {
+        secure.off('error', reject);
+        resolve(secure);
+      });
+      secure.once('error', reject);
+    });
+
+    this.listen();
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * SmtpTransport
+ * Sends each message over its own SMTP connection, with STARTTLS when the
+ * server offers it and AUTH PLAIN when a user is configured.
+ */
+export class SmtpTransport implements MailTransport {
+  private readonly logger = new Logger(SmtpTransport.name);
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, secure, user, pass } = this.options;
+    const connection = await SmtpConnection.open(this.options);
+
+    try {
+      await connection.expect([220]);
+      const hello = await connection.command(`EHLO ${hostname()}`, [250]);
+
+      if (!secure && hello.lines.some((line) => /^250.STARTTLS/i.test(line))) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(host);
+        await connection.command(`EHLO ${hostname()}`, [250]);
+      }
+
+      if (user) {
+        const credentials = Buffer.from(`\0${user}\0${pass ?? ''}`).toString(
+          'base64',
+        );
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(
+        `MAIL FROM:<${MailHelper.address(message.from)}>`,
+        [250],
+      );
+      await connection.command(
+        `RCPT TO:<${MailHelper.address(message.to)}>`,
+        [250, 251],
+      );
+      await connection.command('DATA', [354]);
+      await connection.command(
+        `${MailHelper.dotStuff(MailHelper.render(message))}\r\n.`,
+        [250],
+      );
+      await connection.command('QUIT', [221]);
+
+      this.logger.log(`Mail to ${message.to} sent via ${host}`);
+    } finally {
+      connection.close();
+    }
+  }
+}
@@ -64,6 +64,9 @@ async function bootstrap() {
   //   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
   // });
 
+  // Booking imports send whole CSV/ICS files as JSON
+  app.useBodyParser('json', { limit: '2mb' });
+
   // ========== VALIDATION ==========
   app.useGlobalPipes(
     new ValidationPipe({
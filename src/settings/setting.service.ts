@@ -0,0 +1,37 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+// Keys of the `settings` table
+export const SETTING_KEYS = {
+  REQUIRE_TWO_FACTOR: 'require_two_factor', // Every admin must use 2FA
+} as const;
+
+export type SettingKey = (typeof SETTING_KEYS)[keyof typeof SETTING_KEYS];
+
+/**
+ * SettingService
+ * Application-wide switches changed from the admin UI. A missing row means
+ * the default passed by the caller.
+ */
+@Injectable()
+export class SettingService {
+  private readonly logger = new Logger(SettingService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getBoolean(key: SettingKey, defaultValue = false): Promise<boolean> {
+    const setting = await this.prisma.setting.findUnique({ where: { key } });
+
+    return setting ? setting.value === 'true' : defaultValue;
+  }
+
+  async setBoolean(key: SettingKey, value: boolean): Promise<void> {
+    await this.prisma.setting.upsert({
+      where: { key },
+      create: { key, value: String(value) },
+      update: { value: String(value) },
+    });
+
+    this.logger.log(`Setting ${key} = ${value}`);
+  }
+}
@@ -3,5 +3,15 @@ import 'express-session';
 declare module 'express-session' {
   interface SessionData {
     adminId?: string;
+    // Password accepted, waiting for the two-factor step
+    pendingTwoFactor?: {
+      adminId: string;
+      email: string; // For the security log
+      remember: boolean;
+      expiresAt: number;
+    };
+    // One-off message for the next page, for pages whose query is validated
+    flashSuccess?: string;
+    flashError?: string;
   }
 }
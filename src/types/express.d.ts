@@ -0,0 +1,9 @@
+import type { ApiTokenContext } from '../auth/api-token.service';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiToken?: ApiTokenContext; // Set by ApiTokenGuard for bearer requests
+    }
+  }
+}
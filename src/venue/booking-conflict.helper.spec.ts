@@ -0,0 +1,99 @@
+import { BlackoutType, EventStatus } from '@prisma/client';
+import { BookingConflictHelper } from './booking-conflict.helper';
+
+describe('BookingConflictHelper', () => {
+  const start = new Date('2026-05-01T09:00:00.000Z');
+  const end = new Date('2026-05-01T17:00:00.000Z');
+
+  describe('spaceScopeWhere', () => {
+    it('lets every booking compete with a whole-venue request', () => {
+      expect(BookingConflictHelper.spaceScopeWhere()).toEqual({});
+      expect(BookingConflictHelper.spaceScopeWhere([])).toEqual({});
+    });
+
+    it('matches whole-venue bookings and bookings of the same spaces', () => {
+      expect(BookingConflictHelper.spaceScopeWhere(['s1', 's2'])).toEqual({
+        OR: [
+          { spaces: { none: {} } },
+          { spaces: { some: { spaceId: { in: ['s1', 's2'] } } } },
+        ],
+      });
+    });
+  });
+
+  describe('conflictWhere', () => {
+    it('finds firm bookings overlapping a whole-venue request', () => {
+      expect(BookingConflictHelper.conflictWhere('v1', start, end)).toEqual({
+        venueId: 'v1',
+        AND: [{ startDatetime: { lt: end }, endDatetime: { gt: start } }, {}],
+        status: { in: [EventStatus.UPCOMING, EventStatus.ONGOING] },
+      });
+    });
+
+    it('limits a space request to whole-venue and same-space bookings', () => {
+      const where = BookingConflictHelper.conflictWhere('v1', start, end, [
+        's1',
+      ]);
+
+      expect(where.AND).toEqual([
+        { startDatetime: { lt: end }, endDatetime: { gt: start } },
+        {
+          OR: [
+            { spaces: { none: {} } },
+            { spaces: { some: { spaceId: { in: ['s1'] } } } },
+          ],
+        },
+      ]);
+    });
+
+    it('leaves out the event being edited', () => {
+      expect(
+        BookingConflictHelper.conflictWhere('v1', start, end, [], 'e1'),
+      ).toMatchObject({ id: { notIn: ['e1'] } });
+      expect(
+        BookingConflictHelper.conflictWhere('v1', start, end, [], ['e1', 'e2']),
+      ).toMatchObject({ id: { notIn: ['e1', 'e2'] } });
+    });
+
+    it('does not filter on ID when nothing is excluded', () => {
+      expect(
+        BookingConflictHelper.conflictWhere('v1', start, end, undefined, []),
+      ).not.toHaveProperty('id');
+    });
+  });
+
+  describe('blackoutWhere', () => {
+    it('finds blackouts of the venue overlapping the slot', () => {
+      expect(BookingConflictHelper.blackoutWhere('v1', start, end)).toEqual({
+        venueId: 'v1',
+        startDatetime: { lt: end },
+        endDatetime: { gt: start },
+      });
+    });
+
+    it('leaves the venue out when the query is already scoped to one', () => {
+      expect(
+        BookingConflictHelper.blackoutWhere(undefined, start, end),
+      ).toEqual({
+        startDatetime: { lt: end },
+        endDatetime: { gt: start },
+      });
+    });
+  });
+
+  describe('describeBlackout', () => {
+    it('names the closure type, window and reason', () => {
+      const message = BookingConflictHelper.describeBlackout({
+        type: BlackoutType.HOLIDAY_CLOSURE,
+        reason: 'New Year',
+        startDatetime: start,
+        endDatetime: end,
+      });
+
+      expect(message).toContain('Venue is closed for a holiday closure');
+      expect(message).toContain(start.toLocaleString());
+      expect(message).toContain(end.toLocaleString());
+      expect(message).toContain('(New Year)');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  BlackoutType,
+  EventStatus,
+  Prisma,
+  VenueBlackout,
+} from '@prisma/client';
+
+export class BookingConflictHelper {
+  // Event statuses that occupy a venue or space
+  static readonly BLOCKING_STATUSES: EventStatus[] = [
+    EventStatus.UPCOMING,
+    EventStatus.ONGOING,
+  ];
+
+  // Events whose time range overlaps [start, end)
+  static overlapWhere(start: Date, end: Date): Prisma.EventWhereInput {
+    return {
+      startDatetime: { lt: end },
+      endDatetime: { gt: start },
+    };
+  }
+
+  // Events competing for the requested spaces
+  // No spaces requested = whole venue, so every booking competes.
+  // Whole-venue bookings (no spaces) always compete with any space.
+  static spaceScopeWhere(spaceIds?: string[]): Prisma.EventWhereInput {
+    if (!spaceIds || spaceIds.length === 0) {
+      return {};
+    }
+
+    return {
+      OR: [
+        { spaces: { none: {} } },
+        { spaces: { some: { spaceId: { in: spaceIds } } } },
+      ],
+    };
+  }
+
+  // How a blackout reads in messages ("closed for maintenance")
+  static readonly BLACKOUT_LABELS: Record<BlackoutType, string> = {
+    [BlackoutType.MAINTENANCE]: 'maintenance',
+    [BlackoutType.PRIVATE_USE]: 'private use',
+    [BlackoutType.HOLIDAY_CLOSURE]: 'a holiday closure',
+  };
+
+  // Blackout windows of a venue that overlap [start, end)
+  // Blackouts close the whole venue, whichever spaces are requested.
+  // Pass no venueId when the query is already scoped to a venue.
+  static blackoutWhere(
+    venueId: string | undefined,
+    start: Date,
+    end: Date,
+  ): Prisma.VenueBlackoutWhereInput {
+    return {
+      ...(venueId && { venueId }),
+      startDatetime: { lt: end },
+      endDatetime: { gt: start },
+    };
+  }
+
+  static describeBlackout(
+    blackout: Pick<
+      VenueBlackout,
+      'type' | 'reason' | 'startDatetime' | 'endDatetime'
+    >,
+  ): string {
+    return `Venue is closed for ${BookingConflictHelper.BLACKOUT_LABELS[blackout.type]} from ${blackout.startDatetime.toLocaleString()} to ${blackout.endDatetime.toLocaleString()} (${blackout.reason}). Please choose different date or venue.`;
+  }
+
+  // Tentative holds that still reserve their slot
+  static activeHoldWhere(now: Date = new Date()): Prisma.EventWhereInput {
+    return {
+      status: EventStatus.HOLD,
+      holdExpiresAt: { gt: now },
+    };
+  }
+
+  // Bookings of any kind in the venue that overlap the requested slot
+  private static slotWhere(
+    venueId: string,
+    start: Date,
+    end: Date,
+    spaceIds?: string[],
+    excludeEventId?: string | string[],
+  ): Prisma.EventWhereInput {
+    const excludedIds = excludeEventId
+      ? ([] as string[]).concat(excludeEventId)
+      : [];
+
+    return {
+      venueId,
+      ...(excludedIds.length > 0 && { id: { notIn: excludedIds } }),
+      AND: [
+        BookingConflictHelper.overlapWhere(start, end),
+        BookingConflictHelper.spaceScopeWhere(spaceIds),
+      ],
+    };
+  }
+
+  // Full WHERE clause for firm bookings that conflict with a requested slot
+  static conflictWhere(
+    venueId: string,
+    start: Date,
+    end: Date,
+    spaceIds?: string[],
+    excludeEventId?: string | string[],
+  ): Prisma.EventWhereInput {
+    return {
+      ...BookingConflictHelper.slotWhere(
+        venueId,
+        start,
+        end,
+        spaceIds,
+        excludeEventId,
+      ),
+      status: { in: BookingConflictHelper.BLOCKING_STATUSES },
+    };
+  }
+
+  // Full WHERE clause for active holds on a requested slot
+  static holdConflictWhere(
+    venueId: string,
+    start: Date,
+    end: Date,
+    spaceIds?: string[],
+    excludeEventId?: string | string[],
+  ): Prisma.EventWhereInput {
+    return {
+      ...BookingConflictHelper.slotWhere(
+        venueId,
+        start,
+        end,
+        spaceIds,
+        excludeEventId,
+      ),
+      ...BookingConflictHelper.activeHoldWhere(),
+    };
+  }
+}
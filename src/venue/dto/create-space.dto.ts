@@ -0,0 +1,71 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  Min,
+  IsOptional,
+  MaxLength,
+  IsEnum,
+  IsNumber,
+  IsPositive,
+  IsBoolean,
+  ValidateIf,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { SpaceType } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+export class CreateSpaceDto {
+  @IsString({ message: 'Space name must be a string' })
+  @IsNotEmpty({ message: 'Space name is required' })
+  @MaxLength(255, { message: 'Space name must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  name: string;
+
+  @IsEnum(SpaceType, {
+    message: 'Space type must be HALL, ROOM, TERRACE, or OTHER',
+  })
+  @IsOptional()
+  type?: SpaceType;
+
+  @Type(() => Number)
+  @IsInt({ message: 'Capacity must be an integer' })
+  @Min(1, { message: 'Capacity must be at least 1 person' })
+  capacity: number;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    {
+      message:
+        'Price per hour must be a valid number with max 2 decimal places',
+    },
+  )
+  @IsPositive({ message: 'Price per hour must be a positive number' })
+  @ValidateIf((o) => o.pricePerHour !== null && o.pricePerHour !== undefined)
+  pricePerHour?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === '' ? undefined : value))
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    {
+      message: 'Price per day must be a valid number with max 2 decimal places',
+    },
+  )
+  @IsPositive({ message: 'Price per day must be a positive number' })
+  @ValidateIf((o) => o.pricePerDay !== null && o.pricePerDay !== undefined)
+  pricePerDay?: number;
+
+  @IsOptional()
+  @Transform(
+    ({ value }) => value === 'true' || value === 'on' || value === true,
+  )
+  @IsBoolean({ message: 'Active flag must be true or false' })
+  isActive?: boolean;
+}
@@ -0,0 +1,41 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { BlackoutType } from '@prisma/client';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+/**
+ * Create Venue Blackout DTO
+ * A dated window in which the venue cannot be booked
+ */
+export class CreateVenueBlackoutDto {
+  @IsEnum(BlackoutType, {
+    message: 'Type must be MAINTENANCE, PRIVATE_USE, or HOLIDAY_CLOSURE',
+  })
+  type: BlackoutType;
+
+  @IsString({ message: 'Reason must be a string' })
+  @IsNotEmpty({ message: 'Reason is required' })
+  @MaxLength(255, { message: 'Reason must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim())
+  @Sanitize()
+  reason: string;
+
+  @IsDateString(
+    {},
+    { message: 'Start date and time must be a valid ISO 8601 date string' },
+  )
+  startDatetime: string;
+
+  @IsDateString(
+    {},
+    { message: 'End date and time must be a valid ISO 8601 date string' },
+  )
+  endDatetime: string;
+}
@@ -0,0 +1,21 @@
+/* eslint-disable @typescript-eslint/no-unsafe-return */
+import { IsOptional, IsString, IsUrl, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { Sanitize } from '../../common/decorators/sanitize.decorator';
+
+export class CreateVenuePhotoDto {
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { message: 'Photo URL must be an https:// address' },
+  )
+  @MaxLength(2048, { message: 'Photo URL must not exceed 2048 characters' })
+  @Transform(({ value }) => value?.trim())
+  url: string;
+
+  @IsOptional()
+  @IsString({ message: 'Caption must be a string' })
+  @MaxLength(255, { message: 'Caption must not exceed 255 characters' })
+  @Transform(({ value }) => value?.trim() || undefined)
+  @Sanitize()
+  caption?: string;
+}
@@ -0,0 +1,17 @@
+import { IsDateString, IsOptional, IsUUID } from 'class-validator';
+
+/**
+ * Query Venue Blackout DTO
+ * Date range shown by the calendar; blackouts overlapping it are returned
+ */
+export class QueryVenueBlackoutDto {
+  @IsDateString({}, { message: 'Start must be a valid ISO 8601 date string' })
+  start: string;
+
+  @IsDateString({}, { message: 'End must be a valid ISO 8601 date string' })
+  end: string;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Venue ID must be a valid UUID' })
+  venueId?: string;
+}
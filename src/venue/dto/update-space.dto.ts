@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateSpaceDto } from './create-space.dto';
+
+export class UpdateSpaceDto extends PartialType(CreateSpaceDto) {}
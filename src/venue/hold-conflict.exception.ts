@@ -0,0 +1,23 @@
+import { ConflictException } from '@nestjs/common';
+
+export interface HeldSlot {
+  id: string;
+  name: string;
+  startDatetime: Date;
+  endDatetime: Date;
+  holdExpiresAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Thrown when a slot is only tentatively held, not firmly booked
+ * Staff may override it; firm double bookings stay a plain ConflictException
+ */
+export class HoldConflictException extends ConflictException {
+  constructor(
+    message: string,
+    readonly holds: HeldSlot[],
+  ) {
+    super(message);
+  }
+}
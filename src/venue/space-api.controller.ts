@@ -0,0 +1,143 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { SpaceService } from './space.service';
+import { CreateSpaceDto } from './dto/create-space.dto';
+import { UpdateSpaceDto } from './dto/update-space.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/venues/:venueId/spaces')
+@UseGuards(ApiAuthGuard)
+export class SpaceApiController {
+  private readonly logger = new Logger(SpaceApiController.name);
+
+  constructor(private readonly spaceService: SpaceService) {}
+
+  /**
+   * GET /api/venues/:venueId/spaces
+   * List bookable spaces of a venue
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getSpaces(@Param('venueId', ParseUUIDPipe) venueId: string) {
+    this.logger.log(`[GET /api/venues/${venueId}/spaces] API: Listing spaces`);
+
+    const spaces = await this.spaceService.getSpacesByVenue(venueId);
+
+    return {
+      success: true,
+      message: 'Spaces retrieved successfully',
+      data: spaces,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/venues/:venueId/spaces
+   * Create a space inside a venue
+   */
+  @Post()
+  @RequirePermissions(Permission.VENUE_WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  async createSpace(
+    @Param('venueId', ParseUUIDPipe) venueId: string,
+    @Body() createSpaceDto: CreateSpaceDto,
+  ) {
+    this.logger.log(
+      `[POST /api/venues/${venueId}/spaces] API: Creating space: ${createSpaceDto.name}`,
+    );
+
+    const space = await this.spaceService.createSpace(venueId, createSpaceDto);
+
+    return {
+      success: true,
+      message: 'Space created successfully',
+      data: space,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/venues/:venueId/spaces/:spaceId
+   */
+  @Get(':spaceId')
+  @HttpCode(HttpStatus.OK)
+  async getSpaceById(
+    @Param('venueId', ParseUUIDPipe) venueId: string,
+    @Param('spaceId', ParseUUIDPipe) spaceId: string,
+  ) {
+    const space = await this.spaceService.getSpaceById(venueId, spaceId);
+
+    return {
+      success: true,
+      message: 'Space retrieved successfully',
+      data: space,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * PATCH /api/venues/:venueId/spaces/:spaceId
+   */
+  @Patch(':spaceId')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async updateSpace(
+    @Param('venueId', ParseUUIDPipe) venueId: string,
+    @Param('spaceId', ParseUUIDPipe) spaceId: string,
+    @Body() updateSpaceDto: UpdateSpaceDto,
+  ) {
+    this.logger.log(
+      `[PATCH /api/venues/${venueId}/spaces/${spaceId}] API: Updating space with data: ${JSON.stringify(updateSpaceDto)}`,
+    );
+
+    const space = await this.spaceService.updateSpace(
+      venueId,
+      spaceId,
+      updateSpaceDto,
+    );
+
+    return {
+      success: true,
+      message: 'Space updated successfully',
+      data: space,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * DELETE /api/venues/:venueId/spaces/:spaceId
+   */
+  @Delete(':spaceId')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async deleteSpace(
+    @Param('venueId', ParseUUIDPipe) venueId: string,
+    @Param('spaceId', ParseUUIDPipe) spaceId: string,
+  ) {
+    this.logger.log(
+      `[DELETE /api/venues/${venueId}/spaces/${spaceId}] API: Attempting to delete space`,
+    );
+
+    const result = await this.spaceService.deleteSpace(venueId, spaceId);
+
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,254 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateSpaceDto } from './dto/create-space.dto';
+import { UpdateSpaceDto } from './dto/update-space.dto';
+import { BookingConflictHelper } from './booking-conflict.helper';
+import { AuditService } from '../audit/audit.service';
+import {
+  AuditAction,
+  AuditEntityType,
+  Prisma,
+  Space,
+  SpaceType,
+} from '@prisma/client';
+
+@Injectable()
+export class SpaceService {
+  private readonly logger = new Logger(SpaceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Ensure the venue exists before touching its spaces
+   */
+  private async ensureVenueExists(venueId: string): Promise<void> {
+    const venue = await this.prisma.venue.findUnique({
+      where: { id: venueId },
+      select: { id: true },
+    });
+
+    if (!venue) {
+      throw new NotFoundException(`Venue with ID "${venueId}" not found`);
+    }
+  }
+
+  /**
+   * Check if a space name already exists within the venue
+   */
+  private async checkDuplicateSpace(
+    venueId: string,
+    name: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const existingSpace = await this.prisma.space.findFirst({
+      where: {
+        venueId,
+        name: { equals: name.trim() },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    if (existingSpace) {
+      throw new ConflictException(
+        `A space named "${name}" already exists in this venue`,
+      );
+    }
+  }
+
+  /**
+   * List spaces of a venue
+   */
+  async getSpacesByVenue(venueId: string): Promise<Space[]> {
+    await this.ensureVenueExists(venueId);
+
+    return this.prisma.space.findMany({
+      where: { venueId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Get a single space, scoped to its venue
+   */
+  async getSpaceById(venueId: string, spaceId: string): Promise<Space> {
+    const space = await this.prisma.space.findFirst({
+      where: { id: spaceId, venueId },
+    });
+
+    if (!space) {
+      throw new NotFoundException(
+        `Space with ID "${spaceId}" not found in this venue`,
+      );
+    }
+
+    return space;
+  }
+
+  /**
+   * Create a space inside a venue
+   */
+  async createSpace(
+    venueId: string,
+    createSpaceDto: CreateSpaceDto,
+  ): Promise<Space> {
+    this.logger.log(
+      `Creating space "${createSpaceDto.name}" in venue: ${venueId}`,
+    );
+
+    await this.ensureVenueExists(venueId);
+    await this.checkDuplicateSpace(venueId, createSpaceDto.name);
+
+    const space = await this.prisma.space.create({
+      data: {
+        venueId,
+        name: createSpaceDto.name.trim(),
+        type: createSpaceDto.type || SpaceType.HALL,
+        capacity: createSpaceDto.capacity,
+        pricePerHour: createSpaceDto.pricePerHour
+          ? new Prisma.Decimal(createSpaceDto.pricePerHour)
+          : null,
+        pricePerDay: createSpaceDto.pricePerDay
+          ? new Prisma.Decimal(createSpaceDto.pricePerDay)
+          : null,
+        isActive: createSpaceDto.isActive ?? true,
+      },
+    });
+
+    this.logger.log(`Space created: ${space.name} (ID: ${space.id})`);
+
+    await this.auditService.record({
+      action: AuditAction.CREATE,
+      entityType: AuditEntityType.SPACE,
+      entityId: space.id,
+      entityLabel: space.name,
+      parentId: venueId,
+      after: space,
+    });
+
+    return space;
+  }
+
+  /**
+   * Update a space
+   */
+  async updateSpace(
+    venueId: string,
+    spaceId: string,
+    updateSpaceDto: UpdateSpaceDto,
+  ): Promise<Space> {
+    this.logger.log(`Updating space: ${spaceId}`);
+
+    const existing = await this.getSpaceById(venueId, spaceId);
+
+    if (updateSpaceDto.name) {
+      await this.checkDuplicateSpace(venueId, updateSpaceDto.name, spaceId);
+    }
+
+    const updateData: Prisma.SpaceUpdateInput = {};
+
+    if (updateSpaceDto.name !== undefined) {
+      updateData.name = updateSpaceDto.name.trim();
+    }
+
+    if (updateSpaceDto.type !== undefined) {
+      updateData.type = updateSpaceDto.type;
+    }
+
+    if (updateSpaceDto.capacity !== undefined) {
+      updateData.capacity = updateSpaceDto.capacity;
+    }
+
+    if (updateSpaceDto.pricePerHour !== undefined) {
+      updateData.pricePerHour = updateSpaceDto.pricePerHour
+        ? new Prisma.Decimal(updateSpaceDto.pricePerHour)
+        : null;
+    }
+
+    if (updateSpaceDto.pricePerDay !== undefined) {
+      updateData.pricePerDay = updateSpaceDto.pricePerDay
+        ? new Prisma.Decimal(updateSpaceDto.pricePerDay)
+        : null;
+    }
+
+    if (updateSpaceDto.isActive !== undefined) {
+      updateData.isActive = updateSpaceDto.isActive;
+    }
+
+    const space = await this.prisma.space.update({
+      where: { id: spaceId },
+      data: updateData,
+    });
+
+    this.logger.log(`Space updated: ${space.name} (ID: ${spaceId})`);
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: AuditEntityType.SPACE,
+      entityId: spaceId,
+      entityLabel: space.name,
+      parentId: venueId,
+      before: existing,
+      after: space,
+    });
+
+    return space;
+  }
+
+  /**
+   * Delete a space
+   * Blocked while the space still has active or upcoming bookings
+   */
+  async deleteSpace(venueId: string, spaceId: string) {
+    this.logger.log(`Deleting space: ${spaceId}`);
+
+    const space = await this.getSpaceById(venueId, spaceId);
+
+    const [activeBookings, totalBookings] = await Promise.all([
+      this.prisma.eventSpace.count({
+        where: {
+          spaceId,
+          event: {
+            status: { in: BookingConflictHelper.BLOCKING_STATUSES },
+          },
+        },
+      }),
+      this.prisma.eventSpace.count({ where: { spaceId } }),
+    ]);
+
+    if (activeBookings > 0) {
+      throw new ConflictException(
+        `Cannot delete space "${space.name}" because it has ${activeBookings} active or upcoming booking(s). Please complete or cancel them first.`,
+      );
+    }
+
+    if (totalBookings > 0) {
+      throw new BadRequestException(
+        `Space "${space.name}" has booking history and cannot be deleted. Deactivate it instead.`,
+      );
+    }
+
+    await this.prisma.space.delete({ where: { id: spaceId } });
+
+    this.logger.log(`Space deleted successfully: ${spaceId}`);
+
+    await this.auditService.record({
+      action: AuditAction.DELETE,
+      entityType: AuditEntityType.SPACE,
+      entityId: spaceId,
+      entityLabel: space.name,
+      parentId: venueId,
+      before: space,
+    });
+
+    return { message: 'Space deleted successfully', spaceId };
+  }
+}
@@ -11,19 +11,27 @@ import {
   HttpCode,
   HttpStatus,
   Logger,
+  BadRequestException,
 } from '@nestjs/common';
 import { VenueService } from './venue.service';
+import { VenueBlackoutService } from './venue-blackout.service';
 import { CreateVenueDto } from './dto/create-venue.dto';
 import { UpdateVenueDto } from './dto/update-venue.dto';
 import { QueryVenueDto } from './dto/query-venue.dto';
+import { QueryVenueBlackoutDto } from './dto/query-venue-blackout.dto';
 import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
 
 @Controller('api/venues')
 @UseGuards(ApiAuthGuard)
 export class VenueApiController {
   private readonly logger = new Logger(VenueApiController.name);
 
-  constructor(private readonly venueService: VenueService) { }
+  constructor(
+    private readonly venueService: VenueService,
+    private readonly venueBlackoutService: VenueBlackoutService,
+  ) {}
 
   /**
    * POST /api/venues
@@ -31,6 +39,7 @@ export class VenueApiController {
    * @returns JSON response with created venue data
    */
   @Post()
+  @RequirePermissions(Permission.VENUE_WRITE)
   @HttpCode(HttpStatus.CREATED)
   async createVenue(@Body() createVenueDto: CreateVenueDto) {
     this.logger.log(
@@ -96,6 +105,67 @@ export class VenueApiController {
     };
   }
 
+  /**
+   * GET /api/venues/blackouts?start=&end=&venueId=
+   * Blackouts of all venues (or one) overlapping a range, for the calendar
+   * Note: MUST be before /:id route
+   */
+  @Get('blackouts')
+  @HttpCode(HttpStatus.OK)
+  async getBlackoutsInRange(@Query() queryDto: QueryVenueBlackoutDto) {
+    this.logger.log(
+      `[GET /api/venues/blackouts] API: Fetching blackouts from ${queryDto.start} to ${queryDto.end}`,
+    );
+
+    const blackouts =
+      await this.venueBlackoutService.getBlackoutsInRange(queryDto);
+
+    return {
+      success: true,
+      message: 'Blackouts retrieved successfully',
+      data: blackouts,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/venues/availability
+   * List ACTIVE venues with per-space availability for a time window
+   * Note: MUST be before /:id route
+   */
+  @Get('availability')
+  @HttpCode(HttpStatus.OK)
+  async getAvailability(
+    @Query('startDate') startDate: string,
+    @Query('endDate') endDate: string,
+  ) {
+    if (!startDate || !endDate) {
+      throw new BadRequestException('Both startDate and endDate are required');
+    }
+
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      throw new BadRequestException(
+        'Invalid date range. Use ISO 8601 format and ensure endDate is after startDate',
+      );
+    }
+
+    this.logger.log(
+      `[GET /api/venues/availability] API: Window ${startDate} to ${endDate}`,
+    );
+
+    const venues = await this.venueService.getAvailableVenuesOnDate(start, end);
+
+    return {
+      success: true,
+      message: 'Venue availability retrieved successfully',
+      data: venues,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   /**
    * GET /api/venues/:id
    * Get venue by ID with related events (JSON API)
@@ -122,6 +192,7 @@ export class VenueApiController {
    * @returns JSON response with updated venue data
    */
   @Patch(':id')
+  @RequirePermissions(Permission.VENUE_WRITE)
   @HttpCode(HttpStatus.OK)
   async updateVenue(
     @Param('id') id: string,
@@ -147,6 +218,7 @@ export class VenueApiController {
    * @returns JSON response with success message
    */
   @Delete(':id')
+  @RequirePermissions(Permission.VENUE_DELETE)
   @HttpCode(HttpStatus.OK)
   async deleteVenue(@Param('id') id: string) {
     this.logger.log(
@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { VenueBlackoutService } from './venue-blackout.service';
+import { CreateVenueBlackoutDto } from './dto/create-venue-blackout.dto';
+import { ApiAuthGuard } from '../auth/guards/api-auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
+
+@Controller('api/venues/:venueId/blackouts')
+@UseGuards(ApiAuthGuard)
+export class VenueBlackoutApiController {
+  private readonly logger = new Logger(VenueBlackoutApiController.name);
+
+  constructor(private readonly venueBlackoutService: VenueBlackoutService) {}
+
+  /**
+   * GET /api/venues/:venueId/blackouts
+   * Current and upcoming blackouts with the bookings inside each
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getBlackouts(@Param('venueId', ParseUUIDPipe) venueId: string) {
+    this.logger.log(
+      `[GET /api/venues/${venueId}/blackouts] API: Listing blackouts`,
+    );
+
+    const blackouts = await this.venueBlackoutService.getBlackouts(venueId);
+
+    return {
+      success: true,
+      message: 'Blackouts retrieved successfully',
+      data: blackouts,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * POST /api/venues/:venueId/blackouts
+   * Close the venue for a window; data.bookedEvents lists bookings already
+   * inside it, which are kept
+   */
+  @Post()
+  @RequirePermissions(Permission.VENUE_WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  async addBlackout(
+    @Param('venueId', ParseUUIDPipe) venueId: string,
+    @Body() createDto: CreateVenueBlackoutDto,
+  ) {
+    this.logger.log(
+      `[POST /api/venues/${venueId}/blackouts] API: Adding ${createDto.type} blackout`,
+    );
+
+    const result = await this.venueBlackoutService.addBlackout(
+      venueId,
+      createDto,
+    );
+
+    return {
+      success: true,
+      message:
+        result.bookedEvents.length > 0
+          ? `Blackout added. ${result.bookedEvents.length} booked event(s) fall inside it and need to be moved or cancelled.`
+          : 'Blackout added successfully',
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * DELETE /api/venues/:venueId/blackouts/:blackoutId
+   */
+  @Delete(':blackoutId')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  @HttpCode(HttpStatus.OK)
+  async removeBlackout(
+    @Param('venueId', ParseUUIDPipe) venueId: string,
+    @Param('blackoutId', ParseUUIDPipe) blackoutId: string,
+  ) {
+    this.logger.log(
+      `[DELETE /api/venues/${venueId}/blackouts/${blackoutId}] API: Removing blackout`,
+    );
+
+    const result = await this.venueBlackoutService.removeBlackout(
+      venueId,
+      blackoutId,
+    );
+
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
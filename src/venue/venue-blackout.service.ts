@@ -0,0 +1,198 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { AuditAction, AuditEntityType, VenueBlackout } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { BookingConflictHelper } from './booking-conflict.helper';
+import { CreateVenueBlackoutDto } from './dto/create-venue-blackout.dto';
+import { QueryVenueBlackoutDto } from './dto/query-venue-blackout.dto';
+
+const BOOKED_EVENT_SELECT = {
+  id: true,
+  name: true,
+  status: true,
+  startDatetime: true,
+  endDatetime: true,
+} as const;
+
+/**
+ * VenueBlackoutService
+ * Dated windows (maintenance, private use, holiday closures) in which a
+ * venue cannot be booked. Unlike the MAINTENANCE venue status they only
+ * close the venue for their own dates; booking checks treat them like
+ * conflicting events. Bookings made before a window was added are kept and
+ * reported so staff can move or cancel them.
+ */
+@Injectable()
+export class VenueBlackoutService {
+  private readonly logger = new Logger(VenueBlackoutService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  // Firm bookings and active holds of the venue inside a blackout
+  private findBookedEvents(
+    blackout: Pick<VenueBlackout, 'venueId' | 'startDatetime' | 'endDatetime'>,
+  ) {
+    return this.prisma.event.findMany({
+      where: {
+        venueId: blackout.venueId,
+        OR: [
+          { status: { in: BookingConflictHelper.BLOCKING_STATUSES } },
+          BookingConflictHelper.activeHoldWhere(),
+        ],
+        ...BookingConflictHelper.overlapWhere(
+          blackout.startDatetime,
+          blackout.endDatetime,
+        ),
+      },
+      select: BOOKED_EVENT_SELECT,
+      orderBy: { startDatetime: 'asc' },
+    });
+  }
+
+  // Label for the venue's change history
+  private describe(blackout: VenueBlackout): string {
+    return `${blackout.type} ${blackout.startDatetime.toISOString()} – ${blackout.endDatetime.toISOString()}: ${blackout.reason}`;
+  }
+
+  /**
+   * Current and upcoming blackouts of a venue, soonest first, each with the
+   * bookings that fall inside it
+   */
+  async getBlackouts(venueId: string) {
+    const blackouts = await this.prisma.venueBlackout.findMany({
+      where: { venueId, endDatetime: { gt: new Date() } },
+      orderBy: { startDatetime: 'asc' },
+    });
+
+    return Promise.all(
+      blackouts.map(async (blackout) => ({
+        ...blackout,
+        bookedEvents: await this.findBookedEvents(blackout),
+      })),
+    );
+  }
+
+  /**
+   * Blackouts overlapping a date range, for the calendar
+   */
+  async getBlackoutsInRange(queryDto: QueryVenueBlackoutDto) {
+    const start = new Date(queryDto.start);
+    const end = new Date(queryDto.end);
+
+    if (start >= end) {
+      throw new BadRequestException('End must be after start');
+    }
+
+    return this.prisma.venueBlackout.findMany({
+      where: {
+        ...(queryDto.venueId && { venueId: queryDto.venueId }),
+        startDatetime: { lt: end },
+        endDatetime: { gt: start },
+      },
+      orderBy: { startDatetime: 'asc' },
+      include: { venue: { select: { id: true, name: true, city: true } } },
+    });
+  }
+
+  /**
+   * Close a venue for a window
+   * Existing bookings inside it are not touched; they are returned as
+   * bookedEvents so the caller can warn about them.
+   * @throws BadRequestException if the window is reversed or already over
+   */
+  async addBlackout(venueId: string, createDto: CreateVenueBlackoutDto) {
+    this.logger.log(`Adding ${createDto.type} blackout to venue: ${venueId}`);
+
+    const venue = await this.prisma.venue.findUnique({
+      where: { id: venueId },
+      select: { id: true, name: true },
+    });
+
+    if (!venue) {
+      throw new NotFoundException(`Venue with ID "${venueId}" not found`);
+    }
+
+    const startDatetime = new Date(createDto.startDatetime);
+    const endDatetime = new Date(createDto.endDatetime);
+
+    if (endDatetime <= startDatetime) {
+      throw new BadRequestException(
+        'Blackout end must be after its start. Please check the dates.',
+      );
+    }
+
+    if (endDatetime <= new Date()) {
+      throw new BadRequestException(
+        'Blackout has already ended. Please select a future date.',
+      );
+    }
+
+    const blackout = await this.prisma.venueBlackout.create({
+      data: {
+        venueId,
+        type: createDto.type,
+        reason: createDto.reason,
+        startDatetime,
+        endDatetime,
+      },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: AuditEntityType.VENUE,
+      entityId: venueId,
+      entityLabel: venue.name,
+      before: { blackout: null },
+      after: { blackout: this.describe(blackout) },
+    });
+
+    const bookedEvents = await this.findBookedEvents(blackout);
+
+    if (bookedEvents.length > 0) {
+      this.logger.warn(
+        `Blackout ${blackout.id} overlaps ${bookedEvents.length} booked event(s) at venue ${venueId}`,
+      );
+    }
+
+    return { blackout, bookedEvents };
+  }
+
+  /**
+   * Reopen a venue by removing one of its blackouts
+   */
+  async removeBlackout(venueId: string, blackoutId: string) {
+    this.logger.log(`Removing blackout ${blackoutId} from venue: ${venueId}`);
+
+    const blackout = await this.prisma.venueBlackout.findFirst({
+      where: { id: blackoutId, venueId },
+      include: { venue: { select: { name: true } } },
+    });
+
+    if (!blackout) {
+      throw new NotFoundException(
+        `Blackout with ID "${blackoutId}" not found in this venue`,
+      );
+    }
+
+    await this.prisma.venueBlackout.delete({ where: { id: blackoutId } });
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: AuditEntityType.VENUE,
+      entityId: venueId,
+      entityLabel: blackout.venue.name,
+      before: { blackout: this.describe(blackout) },
+      after: { blackout: null },
+    });
+
+    return { message: 'Blackout removed successfully', blackoutId };
+  }
+}
@@ -0,0 +1,97 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { AuditAction, AuditEntityType, VenuePhoto } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { CreateVenuePhotoDto } from './dto/create-venue-photo.dto';
+
+/**
+ * VenuePhotoService
+ * Photos shown on the public booking pages, in the order they were added.
+ * Photos are hosted elsewhere and linked by their https URL.
+ */
+@Injectable()
+export class VenuePhotoService {
+  private readonly logger = new Logger(VenuePhotoService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Add a photo after the venue's existing ones
+   * Recorded as a change to the venue, whose history lists its photos.
+   */
+  async addPhoto(
+    venueId: string,
+    createVenuePhotoDto: CreateVenuePhotoDto,
+  ): Promise<VenuePhoto> {
+    this.logger.log(`Adding photo to venue: ${venueId}`);
+
+    const venue = await this.prisma.venue.findUnique({
+      where: { id: venueId },
+      select: { id: true, name: true },
+    });
+
+    if (!venue) {
+      throw new NotFoundException(`Venue with ID "${venueId}" not found`);
+    }
+
+    const last = await this.prisma.venuePhoto.findFirst({
+      where: { venueId },
+      orderBy: { sortOrder: 'desc' },
+      select: { sortOrder: true },
+    });
+
+    const photo = await this.prisma.venuePhoto.create({
+      data: {
+        venueId,
+        url: createVenuePhotoDto.url,
+        caption: createVenuePhotoDto.caption ?? null,
+        sortOrder: last ? last.sortOrder + 1 : 0,
+      },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: AuditEntityType.VENUE,
+      entityId: venueId,
+      entityLabel: venue.name,
+      before: { photo: null },
+      after: { photo: photo.url },
+    });
+
+    return photo;
+  }
+
+  /**
+   * Remove a photo from its venue
+   */
+  async removePhoto(venueId: string, photoId: string) {
+    this.logger.log(`Removing photo ${photoId} from venue: ${venueId}`);
+
+    const photo = await this.prisma.venuePhoto.findFirst({
+      where: { id: photoId, venueId },
+      include: { venue: { select: { name: true } } },
+    });
+
+    if (!photo) {
+      throw new NotFoundException(
+        `Photo with ID "${photoId}" not found in this venue`,
+      );
+    }
+
+    await this.prisma.venuePhoto.delete({ where: { id: photoId } });
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: AuditEntityType.VENUE,
+      entityId: venueId,
+      entityLabel: photo.venue.name,
+      before: { photo: photo.url },
+      after: { photo: null },
+    });
+
+    return { message: 'Photo removed successfully', photoId };
+  }
+}
@@ -16,12 +16,22 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import type { Request, Response } from 'express';
+import { BlackoutType } from '@prisma/client';
 import { VenueService } from './venue.service';
+import { SpaceService } from './space.service';
+import { VenuePhotoService } from './venue-photo.service';
+import { VenueBlackoutService } from './venue-blackout.service';
 import { CreateVenueDto } from './dto/create-venue.dto';
 import { UpdateVenueDto } from './dto/update-venue.dto';
 import { QueryVenueDto } from './dto/query-venue.dto';
+import { CreateSpaceDto } from './dto/create-space.dto';
+import { CreateVenuePhotoDto } from './dto/create-venue-photo.dto';
+import { CreateVenueBlackoutDto } from './dto/create-venue-blackout.dto';
 import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/permission.helper';
 import { AuthService } from '../auth/auth.service';
+import { AuditService } from '../audit/audit.service';
 
 @Controller('venues')
 @UseGuards(AuthGuard)
@@ -30,7 +40,11 @@ export class VenueController {
 
   constructor(
     private readonly venueService: VenueService,
+    private readonly spaceService: SpaceService,
+    private readonly venuePhotoService: VenuePhotoService,
+    private readonly venueBlackoutService: VenueBlackoutService,
     private readonly authService: AuthService,
+    private readonly auditService: AuditService,
   ) {}
 
   // GET /venues
@@ -90,6 +104,7 @@ export class VenueController {
 
   // GET /venues/create
   @Get('create')
+  @RequirePermissions(Permission.VENUE_WRITE)
   @Render('venues/form')
   async createVenueForm(@Session() session: Record<string, any>) {
     this.logger.log('[GET /venues/create] Rendering create venue form');
@@ -110,6 +125,7 @@ export class VenueController {
 
   // POST /venues
   @Post()
+  @RequirePermissions(Permission.VENUE_WRITE)
   async createVenue(
     @Body() createVenueDto: CreateVenueDto,
     @Session() session: Record<string, any>,
@@ -158,6 +174,7 @@ export class VenueController {
     @Session() session: Record<string, any>,
     @Query('success') successMessage?: string,
     @Query('error') errorMessage?: string,
+    @Query('booked') bookedCount?: string,
   ) {
     this.logger.log(`[GET /venues/${id}] Rendering venue detail page`);
 
@@ -166,6 +183,8 @@ export class VenueController {
 
     try {
       const venue = await this.venueService.getVenueById(id);
+      const history = await this.auditService.getEntityHistory(id);
+      const blackouts = await this.venueBlackoutService.getBlackouts(id);
 
       // Map success message
       let success: string | null = null;
@@ -173,6 +192,26 @@ export class VenueController {
         success = 'Venue created successfully!';
       } else if (successMessage === 'updated') {
         success = 'Venue updated successfully!';
+      } else if (successMessage === 'space-created') {
+        success = 'Space added successfully!';
+      } else if (successMessage === 'space-updated') {
+        success = 'Space updated successfully!';
+      } else if (successMessage === 'space-deleted') {
+        success = 'Space deleted successfully!';
+      } else if (successMessage === 'photo-added') {
+        success = 'Photo added successfully!';
+      } else if (successMessage === 'photo-removed') {
+        success = 'Photo removed successfully!';
+      } else if (successMessage === 'blackout-added') {
+        success = 'Blackout added successfully!';
+      } else if (successMessage === 'blackout-removed') {
+        success = 'Blackout removed successfully!';
+      }
+
+      // Bookings already inside a newly added blackout
+      let warning: string | null = null;
+      if (successMessage === 'blackout-added' && Number(bookedCount) > 0) {
+        warning = `${bookedCount} booked event(s) fall inside the new blackout. They were kept; move or cancel them below.`;
       }
 
       let error: string | null = null;
@@ -184,6 +223,10 @@ export class VenueController {
         title: `Venue: ${venue.name}`,
         user,
         venue,
+        history,
+        blackouts,
+        blackoutTypes: Object.values(BlackoutType),
+        warning,
         error,
         success,
       };
@@ -197,6 +240,10 @@ export class VenueController {
         title: 'Venue Not Found',
         user,
         venue: null,
+        history: [],
+        blackouts: [],
+        blackoutTypes: [],
+        warning: null,
         error: error.message || 'Venue not found.',
         success: null,
       };
@@ -205,6 +252,7 @@ export class VenueController {
 
   // GET /venues/:id/edit
   @Get(':id/edit')
+  @RequirePermissions(Permission.VENUE_WRITE)
   @Render('venues/form')
   async editVenueForm(
     @Param('id') id: string,
@@ -247,6 +295,7 @@ export class VenueController {
 
   // POST /venues/:id
   @Post(':id')
+  @RequirePermissions(Permission.VENUE_WRITE)
   async updateVenue(
     @Param('id') id: string,
     @Body() updateVenueDto: UpdateVenueDto,
@@ -287,6 +336,7 @@ export class VenueController {
 
   // POST /venues/:id/delete
   @Post(':id/delete')
+  @RequirePermissions(Permission.VENUE_DELETE)
   async deleteVenue(@Param('id') id: string, @Res() res: Response) {
     this.logger.log(`[POST /venues/${id}/delete] Attempting to delete venue`);
 
@@ -308,6 +358,207 @@ export class VenueController {
     }
   }
 
+  // POST /venues/:id/spaces
+  @Post(':id/spaces')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  async createSpace(
+    @Param('id') id: string,
+    @Body() createSpaceDto: CreateSpaceDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /venues/${id}/spaces] Creating space: ${createSpaceDto.name}`,
+    );
+
+    try {
+      await this.spaceService.createSpace(id, createSpaceDto);
+
+      return res.redirect(`/venues/${id}?success=space-created`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to create space for venue ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/venues/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /venues/:id/spaces/:spaceId/toggle-active
+  @Post(':id/spaces/:spaceId/toggle-active')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  async toggleSpaceActive(
+    @Param('id') id: string,
+    @Param('spaceId') spaceId: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /venues/${id}/spaces/${spaceId}/toggle-active] Toggling space status`,
+    );
+
+    try {
+      const space = await this.spaceService.getSpaceById(id, spaceId);
+
+      await this.spaceService.updateSpace(id, spaceId, {
+        isActive: !space.isActive,
+      });
+
+      return res.redirect(`/venues/${id}?success=space-updated`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to toggle space ${spaceId}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/venues/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /venues/:id/spaces/:spaceId/delete
+  @Post(':id/spaces/:spaceId/delete')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  async deleteSpace(
+    @Param('id') id: string,
+    @Param('spaceId') spaceId: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /venues/${id}/spaces/${spaceId}/delete] Attempting to delete space`,
+    );
+
+    try {
+      await this.spaceService.deleteSpace(id, spaceId);
+
+      return res.redirect(`/venues/${id}?success=space-deleted`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete space ${spaceId}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/venues/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /venues/:id/photos
+  @Post(':id/photos')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  async addPhoto(
+    @Param('id') id: string,
+    @Body() createVenuePhotoDto: CreateVenuePhotoDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /venues/${id}/photos] Adding photo`);
+
+    try {
+      await this.venuePhotoService.addPhoto(id, createVenuePhotoDto);
+
+      return res.redirect(`/venues/${id}?success=photo-added`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to add photo to venue ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/venues/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /venues/:id/photos/:photoId/delete
+  @Post(':id/photos/:photoId/delete')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  async removePhoto(
+    @Param('id') id: string,
+    @Param('photoId') photoId: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /venues/${id}/photos/${photoId}/delete] Removing photo`,
+    );
+
+    try {
+      await this.venuePhotoService.removePhoto(id, photoId);
+
+      return res.redirect(`/venues/${id}?success=photo-removed`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove photo ${photoId}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/venues/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /venues/:id/blackouts
+  @Post(':id/blackouts')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  async addBlackout(
+    @Param('id') id: string,
+    @Body() createVenueBlackoutDto: CreateVenueBlackoutDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`[POST /venues/${id}/blackouts] Adding blackout`);
+
+    try {
+      const { bookedEvents } = await this.venueBlackoutService.addBlackout(
+        id,
+        createVenueBlackoutDto,
+      );
+
+      return res.redirect(
+        `/venues/${id}?success=blackout-added&booked=${bookedEvents.length}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to add blackout to venue ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/venues/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
+  // POST /venues/:id/blackouts/:blackoutId/delete
+  @Post(':id/blackouts/:blackoutId/delete')
+  @RequirePermissions(Permission.VENUE_WRITE)
+  async removeBlackout(
+    @Param('id') id: string,
+    @Param('blackoutId') blackoutId: string,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[POST /venues/${id}/blackouts/${blackoutId}/delete] Removing blackout`,
+    );
+
+    try {
+      await this.venueBlackoutService.removeBlackout(id, blackoutId);
+
+      return res.redirect(`/venues/${id}?success=blackout-removed`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove blackout ${blackoutId}: ${error.message}`,
+        error.stack,
+      );
+
+      return res.redirect(
+        `/venues/${id}?error=${encodeURIComponent(error.message)}`,
+      );
+    }
+  }
+
   // GET /venues/statistics/overview
   @Get('statistics/overview')
   @Render('venues/statistics')
@@ -1,13 +1,29 @@
 import { Module } from '@nestjs/common';
 import { VenueService } from './venue.service';
+import { SpaceService } from './space.service';
+import { VenuePhotoService } from './venue-photo.service';
+import { VenueBlackoutService } from './venue-blackout.service';
 import { VenueController } from './venue.controller';
 import { VenueApiController } from './venue-api.controller';
+import { SpaceApiController } from './space-api.controller';
+import { VenueBlackoutApiController } from './venue-blackout-api.controller';
 import { AuthModule } from 'src/auth/auth.module';
+import { AuditModule } from 'src/audit/audit.module';
 
 @Module({
-  imports: [AuthModule],
-  providers: [VenueService],
-  controllers: [VenueController, VenueApiController],
-  exports: [VenueService],
+  imports: [AuthModule, AuditModule],
+  providers: [
+    VenueService,
+    SpaceService,
+    VenuePhotoService,
+    VenueBlackoutService,
+  ],
+  controllers: [
+    VenueController,
+    VenueApiController,
+    SpaceApiController,
+    VenueBlackoutApiController,
+  ],
+  exports: [VenueService, SpaceService],
 })
 export class VenueModule {}
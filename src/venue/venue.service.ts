@@ -9,13 +9,25 @@ import { PrismaService } from '../prisma/prisma.service';
 import { CreateVenueDto } from './dto/create-venue.dto';
 import { UpdateVenueDto } from './dto/update-venue.dto';
 import { QueryVenueDto } from './dto/query-venue.dto';
-import { Prisma, Venue, VenueStatus } from '@prisma/client';
+import { BookingConflictHelper } from './booking-conflict.helper';
+import { AuditService } from '../audit/audit.service';
+import {
+  AuditAction,
+  AuditEntityType,
+  EventStatus,
+  Prisma,
+  Venue,
+  VenueStatus,
+} from '@prisma/client';
 
 @Injectable()
 export class VenueService {
   private readonly logger = new Logger(VenueService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
 
   /**
    * Validate UUID format
@@ -84,6 +96,15 @@ export class VenueService {
       this.logger.log(
         `Venue created successfully: ${venue.name} (ID: ${venue.id})`,
       );
+
+      await this.auditService.record({
+        action: AuditAction.CREATE,
+        entityType: AuditEntityType.VENUE,
+        entityId: venue.id,
+        entityLabel: venue.name,
+        after: venue,
+      });
+
       return venue;
     } catch (error) {
       if (error instanceof ConflictException) {
@@ -109,25 +130,18 @@ export class VenueService {
   }
 
   /**
-   * Get all venues with filtering, pagination, and sorting
-   * @param queryDto - Query parameters
-   * @returns Paginated venue list with metadata
+   * Where clause and order of the venue list for the given filters
+   * Shared by the paginated list and the unpaginated export
    */
-  async getAllVenues(queryDto: QueryVenueDto) {
+  buildVenueListQuery(queryDto: QueryVenueDto) {
     const {
       search,
       city,
       status,
-      page = 1,
-      limit = 10,
       sortBy = 'createdAt',
       sortOrder = 'desc',
     } = queryDto;
 
-    this.logger.log(
-      `Fetching venues - Page: ${page}, Limit: ${limit}, Search: ${search || 'none'}`,
-    );
-
     // Build WHERE clause
     const where: Prisma.VenueWhereInput = {};
 
@@ -147,10 +161,6 @@ export class VenueService {
       where.status = status;
     }
 
-    // Pagination
-    const skip = (page - 1) * limit;
-    const take = limit;
-
     const orderBy: Prisma.VenueOrderByWithRelationInput = {};
     if (sortBy) {
       orderBy[sortBy] = sortOrder || 'asc';
@@ -158,6 +168,27 @@ export class VenueService {
       orderBy.createdAt = 'desc';
     }
 
+    return { where, orderBy };
+  }
+
+  /**
+   * Get all venues with filtering, pagination, and sorting
+   * @param queryDto - Query parameters
+   * @returns Paginated venue list with metadata
+   */
+  async getAllVenues(queryDto: QueryVenueDto) {
+    const { search, page = 1, limit = 10 } = queryDto;
+
+    this.logger.log(
+      `Fetching venues - Page: ${page}, Limit: ${limit}, Search: ${search || 'none'}`,
+    );
+
+    const { where, orderBy } = this.buildVenueListQuery(queryDto);
+
+    // Pagination
+    const skip = (page - 1) * limit;
+    const take = limit;
+
     try {
       const [venues, total] = await Promise.all([
         this.prisma.venue.findMany({
@@ -169,6 +200,16 @@ export class VenueService {
             _count: {
               select: { events: true },
             },
+            spaces: {
+              where: { isActive: true },
+              orderBy: { name: 'asc' },
+              select: {
+                id: true,
+                name: true,
+                type: true,
+                capacity: true,
+              },
+            },
           },
         }),
         this.prisma.venue.count({ where }),
@@ -205,7 +246,9 @@ export class VenueService {
   /**
    * Get venue by ID with related events
    */
-  async getVenueById(id: string): Promise<Venue & { events: any[] }> {
+  async getVenueById(
+    id: string,
+  ): Promise<Venue & { events: any[]; spaces: any[]; photos: any[] }> {
     this.logger.log(`Fetching venue: ${id}`);
 
     if (!this.isValidUUID(id)) {
@@ -230,11 +273,23 @@ export class VenueService {
               rentalType: true,
               basePrice: true,
               finalPrice: true,
+              currency: true,
               isPaid: true,
               createdAt: true,
               updatedAt: true,
+              spaces: {
+                select: {
+                  space: { select: { id: true, name: true } },
+                },
+              },
             },
           },
+          spaces: {
+            orderBy: { name: 'asc' },
+          },
+          photos: {
+            orderBy: { sortOrder: 'asc' },
+          },
         },
       });
 
@@ -336,6 +391,16 @@ export class VenueService {
       });
 
       this.logger.log(`Venue updated successfully: ${venue.name} (ID: ${id})`);
+
+      await this.auditService.record({
+        action: AuditAction.UPDATE,
+        entityType: AuditEntityType.VENUE,
+        entityId: id,
+        entityLabel: venue.name,
+        before: existingVenue,
+        after: venue,
+      });
+
       return venue;
     } catch (error) {
       if (error instanceof ConflictException) {
@@ -391,11 +456,20 @@ export class VenueService {
       );
     }
 
-    await this.prisma.venue.delete({
+    const deleted = await this.prisma.venue.delete({
       where: { id },
     });
 
     this.logger.log(`Venue deleted successfully: ${id}`);
+
+    await this.auditService.record({
+      action: AuditAction.DELETE,
+      entityType: AuditEntityType.VENUE,
+      entityId: id,
+      entityLabel: deleted.name,
+      before: deleted,
+    });
+
     return { message: 'Venue deleted successfully', venueId: id };
   }
 
@@ -510,6 +584,12 @@ export class VenueService {
     }
   }
 
+  /**
+   * List ACTIVE venues with availability for a time window
+   * Availability is evaluated per space: a venue with spaces is available
+   * while at least one of its active spaces is free. A blackout overlapping
+   * the window closes the venue and all of its spaces.
+   */
   async getAvailableVenuesOnDate(startDate: Date, endDate: Date) {
     this.logger.log(
       `Checking venue availability from ${startDate.toISOString()} to ${endDate.toISOString()}`,
@@ -520,62 +600,117 @@ export class VenueService {
         status: VenueStatus.ACTIVE,
       },
       include: {
+        spaces: {
+          where: { isActive: true },
+          orderBy: { name: 'asc' },
+        },
         events: {
           where: {
-            status: {
-              in: ['UPCOMING', 'ONGOING'],
-            },
             OR: [
-              {
-                AND: [
-                  { startDatetime: { lte: startDate } },
-                  { endDatetime: { gt: startDate } },
-                ],
-              },
-              {
-                AND: [
-                  { startDatetime: { lt: endDate } },
-                  { endDatetime: { gte: endDate } },
-                ],
-              },
-              {
-                AND: [
-                  { startDatetime: { gte: startDate } },
-                  { endDatetime: { lte: endDate } },
-                ],
-              },
+              { status: { in: BookingConflictHelper.BLOCKING_STATUSES } },
+              BookingConflictHelper.activeHoldWhere(),
             ],
+            ...BookingConflictHelper.overlapWhere(startDate, endDate),
           },
           select: {
             id: true,
             name: true,
+            status: true,
+            startDatetime: true,
+            endDatetime: true,
+            holdExpiresAt: true,
+            spaces: { select: { spaceId: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        blackouts: {
+          where: BookingConflictHelper.blackoutWhere(
+            undefined,
+            startDate,
+            endDate,
+          ),
+          select: {
+            id: true,
+            type: true,
+            reason: true,
             startDatetime: true,
             endDatetime: true,
           },
+          orderBy: { startDatetime: 'asc' },
         },
       },
     });
 
     // Map venues with availability info
-    return venues.map((venue) => ({
-      id: venue.id,
-      name: venue.name,
-      city: venue.city,
-      address: venue.address,
-      capacity: venue.capacity,
-      pricePerDay: venue.pricePerDay,
-      pricePerHour: venue.pricePerHour,
-      currency: venue.currency,
-      status: venue.status,
-      isAvailable: venue.events.length === 0, // DYNAMIC availability
-      conflictingEvents: venue.events, // Show which events are blocking
-    }));
+    return venues.map((venue) => {
+      const overlapping = venue.events.map(({ spaces, ...event }) => ({
+        ...event,
+        spaceIds: spaces.map((s) => s.spaceId),
+      }));
+      // Holds don't make a venue unavailable, they are listed separately
+      const conflictingEvents = overlapping.filter(
+        (event) => event.status !== EventStatus.HOLD,
+      );
+      const holds = overlapping.filter(
+        (event) => event.status === EventStatus.HOLD,
+      );
+      const isClosed = venue.blackouts.length > 0;
+
+      const spaces = venue.spaces.map((space) => {
+        // Whole-venue bookings block every space
+        const affects = (event: { spaceIds: string[] }) =>
+          event.spaceIds.length === 0 || event.spaceIds.includes(space.id);
+        const blocking = conflictingEvents.filter(affects);
+        const spaceHolds = holds.filter(affects);
+
+        return {
+          id: space.id,
+          name: space.name,
+          type: space.type,
+          capacity: space.capacity,
+          pricePerHour: space.pricePerHour,
+          pricePerDay: space.pricePerDay,
+          isAvailable: !isClosed && blocking.length === 0,
+          isHeld: spaceHolds.length > 0,
+          conflictingEvents: blocking,
+          holds: spaceHolds,
+        };
+      });
+
+      return {
+        id: venue.id,
+        name: venue.name,
+        city: venue.city,
+        address: venue.address,
+        capacity: venue.capacity,
+        pricePerDay: venue.pricePerDay,
+        pricePerHour: venue.pricePerHour,
+        currency: venue.currency,
+        status: venue.status,
+        // Venues without spaces stay a single bookable unit
+        isAvailable:
+          spaces.length > 0
+            ? spaces.some((space) => space.isAvailable)
+            : !isClosed && conflictingEvents.length === 0,
+        isFullyAvailable: !isClosed && conflictingEvents.length === 0,
+        availableSpaceCount: spaces.filter((space) => space.isAvailable).length,
+        spaces,
+        conflictingEvents, // Show which events are blocking
+        holds, // Tentative holds, first in queue first
+        blackouts: venue.blackouts, // Closures overlapping the window
+      };
+    });
   }
 
+  /**
+   * Check whether a venue (or specific spaces of it) is free for a time window
+   * @param spaceIds - Spaces to check; omit to check the whole venue
+   */
   async checkVenueAvailabilityOnDate(
     venueId: string,
     startDate: Date,
     endDate: Date,
+    spaceIds?: string[],
   ): Promise<boolean> {
     const venue = await this.prisma.venue.findUnique({
       where: { id: venueId },
@@ -591,34 +726,23 @@ export class VenueService {
       return false;
     }
 
-    // Check if there are any events on this date
+    // A blackout closes the whole venue
+    const blackouts = await this.prisma.venueBlackout.count({
+      where: BookingConflictHelper.blackoutWhere(venueId, startDate, endDate),
+    });
+
+    if (blackouts > 0) {
+      return false;
+    }
+
+    // Check if there are any competing bookings in this window
     const overlappingEvents = await this.prisma.event.count({
-      where: {
+      where: BookingConflictHelper.conflictWhere(
         venueId,
-        status: {
-          in: ['UPCOMING', 'ONGOING'],
-        },
-        OR: [
-          {
-            AND: [
-              { startDatetime: { lte: startDate } },
-              { endDatetime: { gt: startDate } },
-            ],
-          },
-          {
-            AND: [
-              { startDatetime: { lt: endDate } },
-              { endDatetime: { gte: endDate } },
-            ],
-          },
-          {
-            AND: [
-              { startDatetime: { gte: startDate } },
-              { endDatetime: { lte: endDate } },
-            ],
-          },
-        ],
-      },
+        startDate,
+        endDate,
+        spaceIds,
+      ),
     });
 
     return overlappingEvents === 0;